@@ -0,0 +1,49 @@
+import { PDF_PAGE_INDEX_BASE } from '@/shared/constants'
+import { usePdfRepository } from '@/shared/infrastructure/pdf.repository'
+import type { PageCrop, PageReference } from '@/shared/types'
+import { detectContentBounds, getContentCrop } from '@/domains/document/domain/crop'
+
+/** Longest side of the bitmap scanned for content, in pixels */
+const CONTENT_SCAN_SIZE = 600
+
+/**
+ * Detects the content area of a page for auto-crop by rendering the
+ * unrotated page through pdf.js and scanning it for non-white pixels.
+ */
+export function usePageContentCrop() {
+  const { getPdfDocument } = usePdfRepository()
+
+  /** Resolves to null when the page is blank */
+  async function detectPageContentCrop(page: PageReference): Promise<PageCrop | null> {
+    const pdfDoc = await getPdfDocument(page.sourceFileId)
+    const pdfPage = await pdfDoc.getPage(page.sourcePageIndex + PDF_PAGE_INDEX_BASE)
+    const pageViewport = pdfPage.getViewport({ scale: 1, rotation: 0 })
+    const scale = CONTENT_SCAN_SIZE / Math.max(pageViewport.width, pageViewport.height)
+    const viewport = pdfPage.getViewport({ scale, rotation: 0 })
+
+    const canvas = document.createElement('canvas')
+    const context = canvas.getContext('2d', { willReadFrequently: true })
+    if (!context) {
+      throw new Error('Failed to create canvas context for content detection')
+    }
+    canvas.width = Math.max(1, Math.floor(viewport.width))
+    canvas.height = Math.max(1, Math.floor(viewport.height))
+
+    await pdfPage.render({ canvas, canvasContext: context, viewport, background: '#ffffff' })
+      .promise
+
+    const { data } = context.getImageData(0, 0, canvas.width, canvas.height)
+    const bounds = detectContentBounds(data, canvas.width, canvas.height)
+    if (!bounds) return null
+
+    return getContentCrop(
+      bounds,
+      { width: canvas.width, height: canvas.height },
+      { width: pageViewport.width, height: pageViewport.height },
+    )
+  }
+
+  return {
+    detectPageContentCrop,
+  }
+}
@@ -0,0 +1,47 @@
+import { PDF_PAGE_INDEX_BASE } from '@/shared/constants'
+import { usePdfRepository } from '@/shared/infrastructure/pdf.repository'
+import type { PageReference } from '@/shared/types'
+import type { RedactionSearchTextItem } from '@/domains/document/domain/redaction-search'
+
+export interface PageTextLayout {
+  items: RedactionSearchTextItem[]
+  /** pdf.js viewport transform at scale 1 with the page rotation applied */
+  viewportTransform: number[]
+}
+
+/**
+ * Loads the text items of a page for text markup, in the same space as
+ * redaction marks and annotations. Layouts are cached per source page and
+ * rotation for the lifetime of the composable.
+ */
+export function usePageTextLayout() {
+  const { getPdfDocument } = usePdfRepository()
+  const cache = new Map<string, Promise<PageTextLayout>>()
+
+  async function readPageTextLayout(page: PageReference): Promise<PageTextLayout> {
+    const pdfDoc = await getPdfDocument(page.sourceFileId)
+    const pdfPage = await pdfDoc.getPage(page.sourcePageIndex + PDF_PAGE_INDEX_BASE)
+    const viewport = pdfPage.getViewport({ scale: 1, rotation: page.rotation })
+    const content = await pdfPage.getTextContent()
+    return {
+      items: content.items.flatMap((item) => ('str' in item ? [item] : [])),
+      viewportTransform: viewport.transform,
+    }
+  }
+
+  function loadPageTextLayout(page: PageReference): Promise<PageTextLayout> {
+    const key = `${page.sourceFileId}:${page.sourcePageIndex}:${page.rotation}`
+    let layout = cache.get(key)
+    if (!layout) {
+      layout = readPageTextLayout(page)
+      // Failed loads are retried on the next request.
+      layout.catch(() => cache.delete(key))
+      cache.set(key, layout)
+    }
+    return layout
+  }
+
+  return {
+    loadPageTextLayout,
+  }
+}
@@ -0,0 +1,131 @@
+import { computed, ref, shallowRef } from 'vue'
+import { PDF_PAGE_INDEX_BASE } from '@/shared/constants'
+import { usePdfRepository } from '@/shared/infrastructure/pdf.repository'
+import type { PageReference } from '@/shared/types'
+import {
+  compileRedactionSearch,
+  findRedactionHits,
+  groupRedactionHitsByPage,
+  type RedactionSearchHit,
+  type RedactionSearchPage,
+  type RedactionSearchQuery,
+  type RedactionSearchTextItem,
+} from '@/domains/document/domain/redaction-search'
+
+/**
+ * Search-and-redact state: runs a query over page text, tracks which hits
+ * the user keeps and hands the kept hits back grouped per page.
+ */
+export function useRedactionSearch() {
+  const { getPdfDocument } = usePdfRepository()
+
+  const hits = ref<RedactionSearchHit[]>([])
+  const selectedHitIds = ref<Set<string>>(new Set())
+  const isSearching = shallowRef(false)
+  const hasSearched = shallowRef(false)
+  const error = shallowRef<string | null>(null)
+  let searchToken = 0
+
+  const selectedHits = computed(() =>
+    hits.value.filter((hit) => selectedHitIds.value.has(hit.id)),
+  )
+  const selectedMarkCount = computed(() =>
+    selectedHits.value.reduce((total, hit) => total + hit.marks.length, 0),
+  )
+
+  async function loadSearchPage(
+    page: PageReference,
+    pageNumber: number,
+  ): Promise<RedactionSearchPage> {
+    const pdfDoc = await getPdfDocument(page.sourceFileId)
+    const pdfPage = await pdfDoc.getPage(page.sourcePageIndex + PDF_PAGE_INDEX_BASE)
+    const viewport = pdfPage.getViewport({ scale: 1, rotation: page.rotation })
+    const content = await pdfPage.getTextContent()
+    const items: RedactionSearchTextItem[] = content.items.flatMap((item) =>
+      'str' in item ? [item] : [],
+    )
+
+    return {
+      pageId: page.id,
+      pageNumber,
+      items,
+      viewportTransform: viewport.transform,
+    }
+  }
+
+  async function search(pages: ReadonlyArray<PageReference>, query: RedactionSearchQuery) {
+    const token = ++searchToken
+    const compiled = compileRedactionSearch(query)
+    if (!compiled) {
+      error.value = query.kind === 'regex' && query.source ? 'Invalid regular expression' : null
+      hits.value = []
+      selectedHitIds.value = new Set()
+      hasSearched.value = false
+      return
+    }
+
+    isSearching.value = true
+    error.value = null
+    try {
+      const searchPages = await Promise.all(
+        pages.map((page, index) => loadSearchPage(page, index + 1)),
+      )
+      if (token !== searchToken) return
+
+      const found = findRedactionHits(searchPages, compiled)
+      hits.value = found
+      selectedHitIds.value = new Set(found.map((hit) => hit.id))
+      hasSearched.value = true
+    } catch (e) {
+      if (token !== searchToken) return
+      hits.value = []
+      selectedHitIds.value = new Set()
+      error.value = e instanceof Error ? e.message : 'Search failed'
+    } finally {
+      if (token === searchToken) isSearching.value = false
+    }
+  }
+
+  function toggleHit(id: string, selected?: boolean) {
+    const next = new Set(selectedHitIds.value)
+    const shouldSelect = selected ?? !next.has(id)
+    if (shouldSelect) {
+      next.add(id)
+    } else {
+      next.delete(id)
+    }
+    selectedHitIds.value = next
+  }
+
+  function setAllSelected(selected: boolean) {
+    selectedHitIds.value = selected ? new Set(hits.value.map((hit) => hit.id)) : new Set()
+  }
+
+  function getSelectedRedactions() {
+    return groupRedactionHitsByPage(selectedHits.value)
+  }
+
+  function reset() {
+    searchToken++
+    hits.value = []
+    selectedHitIds.value = new Set()
+    isSearching.value = false
+    hasSearched.value = false
+    error.value = null
+  }
+
+  return {
+    hits,
+    selectedHitIds,
+    selectedHits,
+    selectedMarkCount,
+    isSearching,
+    hasSearched,
+    error,
+    search,
+    toggleHit,
+    setAllSelected,
+    getSelectedRedactions,
+    reset,
+  }
+}
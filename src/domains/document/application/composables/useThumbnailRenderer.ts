@@ -2,13 +2,17 @@ import { PDF_PAGE_INDEX_BASE, THUMBNAIL } from '@/shared/constants'
 import { usePdfRepository } from '@/shared/infrastructure/pdf.repository'
 import type { PageReference } from '@/shared/types'
 import { sharedRenderedThumbnailCache } from '@/shared/infrastructure/thumbnail-cache'
+import { getDisplayedCropRect } from '@/shared/utils/page-crop'
 
 export function getRenderedThumbnailCacheKey(
   pageRef: PageReference,
   displayWidth: number,
   scaleFactor: number,
 ): string {
-  return `render:${pageRef.sourceFileId}:${pageRef.sourcePageIndex}:${pageRef.rotation}:${displayWidth}:${scaleFactor}`
+  const crop = pageRef.crop
+    ? `:${[pageRef.crop.x, pageRef.crop.y, pageRef.crop.width, pageRef.crop.height].join(',')}`
+    : ''
+  return `render:${pageRef.sourceFileId}:${pageRef.sourcePageIndex}:${pageRef.rotation}:${displayWidth}:${scaleFactor}${crop}`
 }
 
 /**
@@ -45,18 +49,24 @@ export function useThumbnailRenderer() {
       const page = await pdfDoc.getPage(pageRef.sourcePageIndex + PDF_PAGE_INDEX_BASE)
       const renderWidth = displayWidth * scaleFactor
       const viewport = page.getViewport({ scale: 1, rotation: pageRef.rotation })
-      const scale = renderWidth / viewport.width
+      // Cropped pages render only the kept region, shifted to the canvas origin.
+      const unrotated = page.getViewport({ scale: 1, rotation: 0 })
+      const region = pageRef.crop
+        ? getDisplayedCropRect(pageRef.crop, unrotated, pageRef.rotation)
+        : { x: 0, y: 0, width: viewport.width, height: viewport.height }
+      const scale = renderWidth / region.width
       const scaledViewport = page.getViewport({ scale, rotation: pageRef.rotation })
       const canvas = document.createElement('canvas')
       const context = canvas.getContext('2d')!
 
-      canvas.width = Math.floor(scaledViewport.width)
-      canvas.height = Math.floor(scaledViewport.height)
+      canvas.width = Math.floor(region.width * scale)
+      canvas.height = Math.floor(region.height * scale)
 
       const renderTask = page.render({
         canvas,
         canvasContext: context,
         viewport: scaledViewport,
+        transform: pageRef.crop ? [1, 0, 0, 1, -region.x * scale, -region.y * scale] : undefined,
       })
 
       await renderTask.promise
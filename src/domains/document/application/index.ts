@@ -1,5 +1,10 @@
 export * from './use-cases'
+export * from './composables/usePageContentCrop'
 export * from './composables/usePageRedactionStats'
+export * from './composables/usePageTextLayout'
+export * from './composables/useRedactionSearch'
 export * from './composables/useSourceDropHandlers'
 export * from './composables/useSourcePageSelection'
 export * from './composables/useThumbnailRenderer'
+export * from './signature-artwork'
+export * from './signature-library.service'
@@ -2,6 +2,11 @@ import { computed, type ComputedRef } from 'vue'
 import { ROTATION_DELTA_DEGREES } from '@/shared/constants'
 import type { DocumentState } from '@/domains/project-session/session/document-state'
 import type { PageReference, SourceFile } from '@/shared/types'
+import {
+  hasHeaderFooterContent,
+  isPdfAExport,
+  isWatermarkActive,
+} from '@/domains/export/domain/export'
 import {
   type LintResult,
   type PreflightFix,
@@ -41,8 +46,8 @@ function normalizeRotation(rotation: number): number {
 }
 
 function getDisplaySize(page: PageReference): DisplaySize | null {
-  const width = page.targetDimensions?.width ?? page.width ?? 0
-  const height = page.targetDimensions?.height ?? page.height ?? 0
+  const width = page.targetDimensions?.width ?? page.crop?.width ?? page.width ?? 0
+  const height = page.targetDimensions?.height ?? page.crop?.height ?? page.height ?? 0
   if (width <= 0 || height <= 0) return null
 
   const rotation = normalizeRotation(page.rotation ?? 0)
@@ -198,7 +203,7 @@ function buildResolutionRules(
 
   for (const page of pages) {
     const source = sources.get(page.sourceFileId)
-    if (!source) continue
+    if (!source || source.isBlankSource) continue
 
     const avgSize = source.fileSize / Math.max(1, source.pageCount)
     if (avgSize > HEAVY_PAGE_BYTES) heavyPageIds.push(page.id)
@@ -278,6 +283,73 @@ function buildMetadataRule(title: string): LintResult[] {
   return []
 }
 
+/**
+ * Only runs when PDF/A output is selected. Feature problems (encryption,
+ * non-embedded overlay fonts) are document-wide; pages with free-text
+ * annotations, which also draw with a standard font, are listed, as are
+ * pages copied from PDFs that are not PDF/A themselves because their fonts
+ * and colour spaces are exported unchanged.
+ */
+function buildPdfARule(store: DocumentState, pages: PageReference[]): LintResult[] {
+  if (!isPdfAExport(store.metadata)) return []
+
+  const results: LintResult[] = []
+  const fontFeatures = [
+    isWatermarkActive(store.watermark) && store.watermark.kind === 'text' ? 'text watermark' : null,
+    hasHeaderFooterContent(store.headerFooter) ? 'header and footer' : null,
+  ].filter((feature): feature is string => !!feature)
+
+  if (fontFeatures.length > 0) {
+    results.push({
+      ruleId: PreflightRuleId.PDFA,
+      severity: 'error',
+      message: `PDF/A requires embedded fonts, but the ${fontFeatures.join(' and ')} use${fontFeatures.length === 1 ? 's' : ''} a standard font that is not embedded.`,
+      pageIds: [],
+    })
+  }
+
+  const freeTextPageIds = pages
+    .filter((page) => page.annotations?.some((annotation) => annotation.kind === 'freeText'))
+    .map((page) => page.id)
+
+  if (freeTextPageIds.length > 0) {
+    results.push({
+      ruleId: PreflightRuleId.PDFA,
+      severity: 'error',
+      message: `PDF/A requires embedded fonts, but free-text annotations on ${freeTextPageIds.length} page${freeTextPageIds.length === 1 ? '' : 's'} use a standard font that is not embedded.`,
+      pageIds: freeTextPageIds,
+    })
+  }
+
+  if (store.security.isEncrypted) {
+    results.push({
+      ruleId: PreflightRuleId.PDFA,
+      severity: 'warning',
+      message: 'PDF/A does not allow encryption. Passwords will not be applied on export.',
+      pageIds: [],
+    })
+  }
+
+  const unverifiedPageIds = pages
+    .filter((page) => {
+      const source = store.sources.get(page.sourceFileId)
+      if (!source || source.isImageSource || source.isBlankSource) return false
+      return !isPdfAExport(source.metadata)
+    })
+    .map((page) => page.id)
+
+  if (unverifiedPageIds.length > 0) {
+    results.push({
+      ruleId: PreflightRuleId.PDFA,
+      severity: 'warning',
+      message: `${unverifiedPageIds.length} page${unverifiedPageIds.length === 1 ? '' : 's'} from non-PDF/A files keep their original fonts and colours and may not conform.`,
+      pageIds: unverifiedPageIds,
+    })
+  }
+
+  return results
+}
+
 export function createDocumentPreflightAnalysis(store: DocumentState): ComputedRef<LintResult[]> {
   return computed<LintResult[]>(() => {
     void store.sourcesVersion
@@ -289,6 +361,7 @@ export function createDocumentPreflightAnalysis(store: DocumentState): ComputedR
       ...buildOrientationRule(pages),
       ...buildResolutionRules(pages, store.sources),
       ...buildMetadataRule(store.metadata.title),
+      ...buildPdfARule(store, pages),
     ]
   })
 }
@@ -0,0 +1,66 @@
+import { MAX_SIGNATURE_IMAGE_SIZE, SIGNATURE_FONT_FAMILY } from '@/domains/document/domain'
+import type { SignatureArtwork } from '@/shared/types'
+
+/**
+ * Browser-side rendering of typed and uploaded signatures into PNG artwork.
+ */
+
+const TYPED_FONT_SIZE = 96
+const TYPED_PADDING = 16
+
+function createCanvas(width: number, height: number) {
+  const canvas = document.createElement('canvas')
+  canvas.width = Math.max(1, Math.ceil(width))
+  canvas.height = Math.max(1, Math.ceil(height))
+  const context = canvas.getContext('2d')
+  if (!context) throw new Error('Canvas 2D context is not available')
+  return { canvas, context }
+}
+
+/** Renders `text` in a script font on a transparent background */
+export function renderTypedSignature(text: string, color: string): SignatureArtwork | null {
+  const value = text.trim()
+  if (!value) return null
+
+  const font = `${TYPED_FONT_SIZE}px ${SIGNATURE_FONT_FAMILY}`
+  const measure = createCanvas(1, 1).context
+  measure.font = font
+  const metrics = measure.measureText(value)
+  const ascent = metrics.actualBoundingBoxAscent || TYPED_FONT_SIZE * 0.8
+  const descent = metrics.actualBoundingBoxDescent || TYPED_FONT_SIZE * 0.3
+  const left = metrics.actualBoundingBoxLeft || 0
+  const right = metrics.actualBoundingBoxRight || metrics.width
+
+  const { canvas, context } = createCanvas(
+    left + right + TYPED_PADDING * 2,
+    ascent + descent + TYPED_PADDING * 2,
+  )
+  context.font = font
+  context.fillStyle = color
+  context.fillText(value, TYPED_PADDING + left, TYPED_PADDING + ascent)
+
+  return {
+    kind: 'typed',
+    width: canvas.width,
+    height: canvas.height,
+    image: canvas.toDataURL('image/png'),
+  }
+}
+
+/** Decodes an uploaded image and stores it as PNG, scaled down when large */
+export async function loadUploadedSignature(file: Blob): Promise<SignatureArtwork> {
+  const bitmap = await createImageBitmap(file)
+  try {
+    const scale = Math.min(1, MAX_SIGNATURE_IMAGE_SIZE / Math.max(bitmap.width, bitmap.height))
+    const { canvas, context } = createCanvas(bitmap.width * scale, bitmap.height * scale)
+    context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+    return {
+      kind: 'uploaded',
+      width: canvas.width,
+      height: canvas.height,
+      image: canvas.toDataURL('image/png'),
+    }
+  } finally {
+    bitmap.close()
+  }
+}
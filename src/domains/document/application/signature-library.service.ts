@@ -0,0 +1,55 @@
+import { db } from '@/shared/infrastructure/db'
+import type { SavedSignature, SignatureArtwork } from '@/shared/types'
+import { cloneSignatureArtwork } from '@/shared/utils/document-clone'
+
+const DEFAULT_SIGNATURE_NAME = 'Signature'
+
+export interface SignatureRepository {
+  listByCreatedAtDesc: () => Promise<SavedSignature[]>
+  put: (signature: SavedSignature) => Promise<unknown>
+  delete: (id: string) => Promise<void>
+}
+
+function normalizeName(name: string | undefined): string {
+  const next = String(name ?? '').trim()
+  return next.length > 0 ? next : DEFAULT_SIGNATURE_NAME
+}
+
+export function createSignatureRepository(): SignatureRepository {
+  return {
+    listByCreatedAtDesc: async () => db.signatures.orderBy('createdAt').reverse().toArray(),
+    put: async (signature) => db.signatures.put(signature),
+    delete: async (id) => {
+      await db.signatures.delete(id)
+    },
+  }
+}
+
+export function createSignatureLibraryService(
+  repository: SignatureRepository = createSignatureRepository(),
+) {
+  async function listSignatures(): Promise<SavedSignature[]> {
+    return repository.listByCreatedAtDesc()
+  }
+
+  async function saveSignature(name: string, artwork: SignatureArtwork): Promise<SavedSignature> {
+    const signature: SavedSignature = {
+      ...cloneSignatureArtwork(artwork),
+      id: crypto.randomUUID(),
+      name: normalizeName(name),
+      createdAt: Date.now(),
+    }
+    await repository.put(signature)
+    return signature
+  }
+
+  async function deleteSignature(id: string): Promise<void> {
+    await repository.delete(id)
+  }
+
+  return {
+    listSignatures,
+    saveSignature,
+    deleteSignature,
+  }
+}
@@ -0,0 +1,11 @@
+import { AddAnnotationCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+import type { PageAnnotation } from '@/shared/types'
+
+export function addAnnotation(
+  history: HistoryCommandExecutor,
+  pageId: string,
+  annotation: PageAnnotation,
+): AddAnnotationCommand {
+  return executeCommand(history, new AddAnnotationCommand(pageId, [annotation]))
+}
@@ -0,0 +1,22 @@
+import { AddRedactionCommand } from '@/domains/history/domain/commands'
+import { executeCommandBatch, type HistoryBatchCommandExecutor } from '@/domains/history/application'
+import type { Command } from '@/domains/history/domain/commands/types'
+import type { RedactionMark } from '@/shared/types'
+
+export interface PageRedactions {
+  pageId: string
+  redactions: RedactionMark[]
+}
+
+export function addRedactions(
+  history: HistoryBatchCommandExecutor,
+  entries: PageRedactions[],
+): Command | null {
+  const pages = entries.filter((entry) => entry.redactions.length > 0)
+  if (pages.length === 0) return null
+
+  const commands = pages.map((entry) => new AddRedactionCommand(entry.pageId, entry.redactions))
+  const count = pages.reduce((total, entry) => total + entry.redactions.length, 0)
+  const label = count === 1 ? 'Add redaction' : `Add ${count} redactions`
+  return executeCommandBatch(history, commands, label)
+}
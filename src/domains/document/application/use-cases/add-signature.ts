@@ -0,0 +1,11 @@
+import { AddSignatureCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+import type { PageSignature } from '@/shared/types'
+
+export function addSignature(
+  history: HistoryCommandExecutor,
+  pageId: string,
+  signature: PageSignature,
+): AddSignatureCommand {
+  return executeCommand(history, new AddSignatureCommand(pageId, [signature]))
+}
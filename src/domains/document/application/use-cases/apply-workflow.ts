@@ -0,0 +1,86 @@
+import {
+  AddRedactionCommand,
+  DeletePagesCommand,
+  DuplicatePagesCommand,
+  ReorderPagesCommand,
+  ResizePagesCommand,
+  RotatePagesCommand,
+  SplitGroupCommand,
+  UpdateMetadataCommand,
+  UpdateOutlineCommand,
+} from '@/domains/history/domain/commands'
+import {
+  executeCommandBatch,
+  type HistoryBatchCommandExecutor,
+} from '@/domains/history/application'
+import type { Command } from '@/domains/history/domain/commands/types'
+import type { WorkflowProjectOperation } from '@/domains/workflows/domain'
+
+export interface ApplyWorkflowInput {
+  name: string
+  operations: readonly WorkflowProjectOperation[]
+  /** Whether metadata had unsaved edits before the workflow */
+  metadataDirty: boolean
+  /** Whether the outline had unsaved edits before the workflow */
+  outlineDirty: boolean
+}
+
+interface DirtyFlags {
+  metadataDirty: boolean
+  outlineDirty: boolean
+}
+
+function toCommand(operation: WorkflowProjectOperation, dirty: DirtyFlags): Command {
+  switch (operation.type) {
+    case 'rotate':
+      return new RotatePagesCommand(operation.pageIds, operation.degrees)
+    case 'delete':
+      return new DeletePagesCommand(operation.pageIds)
+    case 'reorder':
+      return new ReorderPagesCommand(operation.previousOrder, operation.nextOrder)
+    case 'resize':
+      return new ResizePagesCommand(operation.targets)
+    case 'metadata':
+      return new UpdateMetadataCommand(
+        operation.previous,
+        operation.next,
+        dirty.metadataDirty,
+        true,
+        'Update metadata',
+        null,
+      )
+    case 'split':
+      return new SplitGroupCommand(operation.index, undefined, operation.divider)
+    case 'duplicate':
+      return new DuplicatePagesCommand(operation.pageIds, undefined, operation.createdPageIds)
+    case 'outline':
+      // Same name as the outline panel's reset, so recording it back yields the same step.
+      return new UpdateOutlineCommand(
+        operation.previous,
+        operation.next,
+        dirty.outlineDirty,
+        false,
+        'Reset outline',
+      )
+    case 'redact':
+      return new AddRedactionCommand(operation.pageId, operation.redactions)
+  }
+}
+
+/** Runs the planned workflow edits as one history entry, so a single undo reverts them */
+export function applyWorkflow(
+  history: HistoryBatchCommandExecutor,
+  input: ApplyWorkflowInput,
+): Command | null {
+  const dirty: DirtyFlags = {
+    metadataDirty: input.metadataDirty,
+    outlineDirty: input.outlineDirty,
+  }
+  const commands = input.operations.map((operation) => {
+    const command = toCommand(operation, dirty)
+    if (operation.type === 'metadata') dirty.metadataDirty = true
+    if (operation.type === 'outline') dirty.outlineDirty = false
+    return command
+  })
+  return executeCommandBatch(history, commands, `Apply workflow "${input.name}"`)
+}
@@ -0,0 +1,12 @@
+import {
+  CropPagesCommand,
+  type CropTarget,
+} from '@/domains/history/domain/commands/CropPagesCommand'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+
+export function cropPages(
+  history: HistoryCommandExecutor,
+  targets: CropTarget[],
+): CropPagesCommand {
+  return executeCommand(history, new CropPagesCommand(targets))
+}
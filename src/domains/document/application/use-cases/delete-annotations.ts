@@ -0,0 +1,17 @@
+import { DeleteAnnotationCommand } from '@/domains/history/domain/commands'
+import { executeCommandBatch, type HistoryBatchCommandExecutor } from '@/domains/history/application'
+import type { Command } from '@/domains/history/domain/commands/types'
+import type { PageAnnotation } from '@/shared/types'
+
+export function deleteAnnotations(
+  history: HistoryBatchCommandExecutor,
+  pageId: string,
+  annotations: PageAnnotation[],
+): Command | null {
+  if (!annotations || annotations.length === 0) return null
+
+  const commands = annotations.map((annotation) => new DeleteAnnotationCommand(pageId, annotation))
+  const label =
+    annotations.length === 1 ? 'Delete annotation' : `Delete ${annotations.length} annotations`
+  return executeCommandBatch(history, commands, label)
+}
@@ -0,0 +1,11 @@
+import { DeleteSignatureCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+import type { PageSignature } from '@/shared/types'
+
+export function deleteSignature(
+  history: HistoryCommandExecutor,
+  pageId: string,
+  signature: PageSignature,
+): DeleteSignatureCommand {
+  return executeCommand(history, new DeleteSignatureCommand(pageId, signature))
+}
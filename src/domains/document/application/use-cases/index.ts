@@ -1,17 +1,30 @@
+export * from './add-annotation'
 export * from './add-pages'
 export * from './add-pages-batch'
 export * from './add-redaction'
+export * from './add-redactions'
+export * from './add-signature'
 export * from './add-source'
 export * from './add-sources'
+export * from './apply-workflow'
+export * from './crop-pages'
+export * from './delete-annotations'
 export * from './delete-pages'
 export * from './delete-redaction'
 export * from './delete-redactions'
+export * from './delete-signature'
 export * from './duplicate-pages'
+export * from './insert-pages'
 export * from './remove-source'
 export * from './reorder-pages'
 export * from './resize-pages'
 export * from './rotate-pages'
 export * from './split-group'
+export * from './split-spreads'
+export * from './update-annotation'
+export * from './update-form-field'
 export * from './update-metadata'
 export * from './update-outline-tree'
 export * from './update-redaction'
+export * from './update-security'
+export * from './update-signature'
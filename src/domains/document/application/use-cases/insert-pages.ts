@@ -0,0 +1,17 @@
+import { InsertPagesCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+import type { PageReference, SourceFile } from '@/shared/types'
+
+export function insertPages(
+  history: HistoryCommandExecutor,
+  sourceFile: SourceFile,
+  pages: PageReference[],
+  index: number,
+  shouldAddSource = true,
+  name?: string,
+): InsertPagesCommand {
+  return executeCommand(
+    history,
+    new InsertPagesCommand(sourceFile, pages, index, shouldAddSource, name),
+  )
+}
@@ -0,0 +1,12 @@
+import {
+  SplitSpreadCommand,
+  type SpreadSplitTarget,
+} from '@/domains/history/domain/commands/SplitSpreadCommand'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+
+export function splitSpreads(
+  history: HistoryCommandExecutor,
+  targets: SpreadSplitTarget[],
+): SplitSpreadCommand {
+  return executeCommand(history, new SplitSpreadCommand(targets))
+}
@@ -0,0 +1,12 @@
+import { UpdateAnnotationCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+import type { PageAnnotation } from '@/shared/types'
+
+export function updateAnnotation(
+  history: HistoryCommandExecutor,
+  pageId: string,
+  previous: PageAnnotation,
+  next: PageAnnotation,
+): UpdateAnnotationCommand {
+  return executeCommand(history, new UpdateAnnotationCommand(pageId, previous, next))
+}
@@ -0,0 +1,32 @@
+import { UpdateFormFieldCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+import type { FormFieldValue } from '@/shared/types'
+
+export interface UpdateFormFieldInput {
+  sourceFileId: string
+  fieldName: string
+  /** Entered value before the edit; null when the source value was shown */
+  previous: FormFieldValue | null
+  /** Null restores the source value */
+  next: FormFieldValue | null
+  name?: string
+  /** Merge with the previous edit when it used the same key */
+  mergeKey?: string | null
+}
+
+export function updateFormField(
+  history: HistoryCommandExecutor,
+  input: UpdateFormFieldInput,
+): UpdateFormFieldCommand {
+  return executeCommand(
+    history,
+    new UpdateFormFieldCommand(
+      input.sourceFileId,
+      input.fieldName,
+      input.previous,
+      input.next,
+      input.name ?? 'Fill form field',
+      input.mergeKey ?? null,
+    ),
+  )
+}
@@ -1,13 +1,32 @@
+import { UpdateMetadataCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
 import type { DocumentMetadata } from '@/shared/types'
 
-export interface MetadataStoreContract {
-  setMetadata: (next: Partial<DocumentMetadata>, markDirty?: boolean) => void
+export interface UpdateMetadataInput {
+  previous: DocumentMetadata
+  updates: Partial<DocumentMetadata>
+  previousDirty: boolean
+  markDirty?: boolean
+  name?: string
+  /** Merge with the previous edit when it used the same key */
+  mergeKey?: string | null
 }
 
 export function updateMetadata(
-  store: MetadataStoreContract,
-  updates: Partial<DocumentMetadata>,
-  options: { markDirty?: boolean } = {},
-): void {
-  store.setMetadata(updates, options.markDirty ?? true)
+  history: HistoryCommandExecutor,
+  input: UpdateMetadataInput,
+): UpdateMetadataCommand {
+  const name = input.name ?? 'Update metadata'
+  const nextDirty = (input.markDirty ?? true) || input.previousDirty
+  return executeCommand(
+    history,
+    new UpdateMetadataCommand(
+      input.previous,
+      { ...input.previous, ...input.updates },
+      input.previousDirty,
+      nextDirty,
+      name,
+      input.mergeKey ?? null,
+    ),
+  )
 }
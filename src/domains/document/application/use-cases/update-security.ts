@@ -0,0 +1,26 @@
+import { UpdateSecurityCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+import type { SecurityMetadata } from '@/shared/types'
+
+export interface UpdateSecurityInput {
+  previous: SecurityMetadata
+  updates: Partial<SecurityMetadata>
+  name?: string
+  /** Merge with the previous edit when it used the same key */
+  mergeKey?: string | null
+}
+
+export function updateSecurity(
+  history: HistoryCommandExecutor,
+  input: UpdateSecurityInput,
+): UpdateSecurityCommand {
+  return executeCommand(
+    history,
+    new UpdateSecurityCommand(
+      input.previous,
+      { ...input.previous, ...input.updates },
+      input.name ?? 'Update security',
+      input.mergeKey ?? null,
+    ),
+  )
+}
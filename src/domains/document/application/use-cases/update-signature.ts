@@ -0,0 +1,12 @@
+import { UpdateSignatureCommand } from '@/domains/history/domain/commands'
+import { executeCommand, type HistoryCommandExecutor } from '@/domains/history/application'
+import type { PageSignature } from '@/shared/types'
+
+export function updateSignature(
+  history: HistoryCommandExecutor,
+  pageId: string,
+  previous: PageSignature,
+  next: PageSignature,
+): UpdateSignatureCommand {
+  return executeCommand(history, new UpdateSignatureCommand(pageId, previous, next))
+}
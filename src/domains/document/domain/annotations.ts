@@ -0,0 +1,86 @@
+import type { AnnotationBox, PageAnnotationKind } from '@/shared/types'
+import { measureTextRange, type RedactionSearchTextItem } from './redaction-search'
+
+/**
+ * Page annotation helpers.
+ *
+ * Annotations live in the same space as redaction marks (viewport points
+ * with the page rotation applied, top-left origin). Text markup is built
+ * from pdf.js text items: every character whose center falls inside the
+ * dragged selection is covered, with one box per text item.
+ */
+
+export type TextMarkupKind = Extract<PageAnnotationKind, 'highlight' | 'underline' | 'strikeout'>
+
+/** Swatches offered by the annotation toolbar */
+export const ANNOTATION_COLORS = ['#ffd400', '#22c55e', '#2563eb', '#dc2626', '#111827'] as const
+
+export const DEFAULT_ANNOTATION_COLORS: Record<PageAnnotationKind, string> = {
+  note: '#ffd400',
+  highlight: '#ffd400',
+  underline: '#2563eb',
+  strikeout: '#dc2626',
+  freeText: '#111827',
+  rectangle: '#dc2626',
+  ellipse: '#2563eb',
+}
+
+/** Sticky notes are drawn as a fixed-size icon */
+export const NOTE_ICON_SIZE = 20
+export const DEFAULT_FREE_TEXT_FONT_SIZE = 12
+
+export function isTextMarkupKind(kind: PageAnnotationKind): kind is TextMarkupKind {
+  return kind === 'highlight' || kind === 'underline' || kind === 'strikeout'
+}
+
+/** Whether the annotation can be resized; notes and text markup keep their size */
+export function isResizableAnnotationKind(kind: PageAnnotationKind): boolean {
+  return kind === 'freeText' || kind === 'rectangle' || kind === 'ellipse'
+}
+
+function containsPoint(box: AnnotationBox, x: number, y: number): boolean {
+  return x >= box.x && x <= box.x + box.width && y >= box.y && y <= box.y + box.height
+}
+
+/**
+ * Boxes covering the text under `selection`. `viewportTransform` is the
+ * pdf.js viewport transform at scale 1 with the page rotation applied.
+ */
+export function getTextMarkupBoxes(
+  items: readonly RedactionSearchTextItem[],
+  viewportTransform: number[],
+  selection: AnnotationBox,
+): AnnotationBox[] {
+  const boxes: AnnotationBox[] = []
+
+  for (const item of items) {
+    let first = -1
+    let last = -1
+    for (let index = 0; index < item.str.length; index++) {
+      if (!item.str[index]?.trim()) continue
+      const glyph = measureTextRange(item, index, index + 1, viewportTransform)
+      if (!glyph) continue
+      if (!containsPoint(selection, glyph.x + glyph.width / 2, glyph.y + glyph.height / 2)) {
+        continue
+      }
+      if (first === -1) first = index
+      last = index
+    }
+    if (first === -1) continue
+
+    const box = measureTextRange(item, first, last + 1, viewportTransform)
+    if (box) boxes.push(box)
+  }
+
+  return boxes
+}
+
+/** Smallest box containing all of `boxes`, or null when there are none */
+export function getAnnotationBounds(boxes: readonly AnnotationBox[]): AnnotationBox | null {
+  if (boxes.length === 0) return null
+  const left = Math.min(...boxes.map((box) => box.x))
+  const top = Math.min(...boxes.map((box) => box.y))
+  const right = Math.max(...boxes.map((box) => box.x + box.width))
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height))
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
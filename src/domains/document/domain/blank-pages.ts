@@ -0,0 +1,97 @@
+import type { PageEntry, PageMetrics, PageReference, SourceFile } from '@/shared/types'
+
+/**
+ * Blank page helpers.
+ *
+ * Blank pages are backed by generated one-page PDF sources (flagged with
+ * `isBlankSource`), so they render, persist and export like imported pages.
+ * One source is kept per page size and reused by later insertions.
+ */
+
+export type BlankPagePlacement = 'before' | 'after'
+export type BlankPagePreset = 'a4' | 'letter' | 'legal'
+
+export interface BlankPageSize {
+  /** Width in points */
+  width: number
+  /** Height in points */
+  height: number
+}
+
+export const BLANK_PAGE_PRESETS: Record<BlankPagePreset, { label: string } & BlankPageSize> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+  legal: { label: 'Legal', width: 612, height: 1008 },
+}
+
+/** Smallest and largest blank page edge in points (1 inch to 200 inches) */
+export const MIN_BLANK_PAGE_SIZE = 72
+export const MAX_BLANK_PAGE_SIZE = 14400
+
+const POINTS_PER_INCH = 72
+const SIZE_TOLERANCE = 0.5
+
+function isSameSize(a: BlankPageSize, b: BlankPageSize): boolean {
+  return (
+    Math.abs(a.width - b.width) <= SIZE_TOLERANCE && Math.abs(a.height - b.height) <= SIZE_TOLERANCE
+  )
+}
+
+/**
+ * Size a page takes in the document, with its export size, crop and rotation
+ * applied. Falls back to the source metrics for pages imported without a size.
+ */
+export function getPageDisplaySize(
+  page: PageReference,
+  metrics?: Pick<PageMetrics, 'width' | 'height'>,
+): BlankPageSize | null {
+  const width = page.targetDimensions?.width ?? page.crop?.width ?? page.width ?? metrics?.width
+  const height =
+    page.targetDimensions?.height ?? page.crop?.height ?? page.height ?? metrics?.height
+  if (!width || !height) return null
+
+  const rotation = ((page.rotation % 360) + 360) % 360
+  return rotation === 90 || rotation === 270 ? { width: height, height: width } : { width, height }
+}
+
+/** "A4", "Letter landscape" or the size in inches */
+export function getBlankPageLabel(size: BlankPageSize): string {
+  for (const preset of Object.values(BLANK_PAGE_PRESETS)) {
+    if (isSameSize(size, preset)) return preset.label
+    if (isSameSize(size, { width: preset.height, height: preset.width })) {
+      return `${preset.label} landscape`
+    }
+  }
+  const inches = (points: number) => (points / POINTS_PER_INCH).toFixed(2)
+  return `${inches(size.width)} x ${inches(size.height)} in`
+}
+
+export function getBlankPageFilename(size: BlankPageSize): string {
+  return `Blank page (${getBlankPageLabel(size)}).pdf`
+}
+
+/** Blank source of the given size already in the project, if any */
+export function findBlankSource(
+  sources: Iterable<SourceFile>,
+  size: BlankPageSize,
+): SourceFile | undefined {
+  for (const source of sources) {
+    const metrics = source.pageMetaData[0]
+    if (source.isBlankSource && metrics && isSameSize(metrics, size)) return source
+  }
+  return undefined
+}
+
+/**
+ * Index in the page list where a blank page goes. Without an anchor the page
+ * is placed at the start or end of the document.
+ */
+export function getBlankPageInsertIndex(
+  pages: readonly PageEntry[],
+  anchorId: string | null,
+  placement: BlankPagePlacement,
+): number {
+  const anchorIndex = anchorId ? pages.findIndex((entry) => entry.id === anchorId) : -1
+  if (anchorIndex === -1) return placement === 'before' ? 0 : pages.length
+  return placement === 'before' ? anchorIndex : anchorIndex + 1
+}
@@ -0,0 +1,78 @@
+import type { PageCrop } from '@/shared/types'
+
+/**
+ * Auto-crop helpers.
+ *
+ * Content bounds are read from a bitmap of the unrotated page rendered on
+ * white: any visible pixel noticeably darker than white counts as content.
+ * The result is a crop in page points, the space `PageReference.crop` uses.
+ */
+
+export interface PixelBounds {
+  left: number
+  top: number
+  right: number
+  bottom: number
+}
+
+/** Channel value below which a pixel is treated as ink */
+export const AUTO_CROP_WHITE_THRESHOLD = 245
+/** Space kept around detected content, in points */
+export const AUTO_CROP_MARGIN = 6
+
+const MIN_VISIBLE_ALPHA = 16
+
+/**
+ * Finds the smallest box holding every non-white pixel of an RGBA bitmap.
+ * Returns null for a blank page. `right` and `bottom` are exclusive.
+ */
+export function detectContentBounds(
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number,
+  threshold = AUTO_CROP_WHITE_THRESHOLD,
+): PixelBounds | null {
+  let left = width
+  let top = height
+  let right = -1
+  let bottom = -1
+
+  for (let y = 0; y < height; y++) {
+    const row = y * width * 4
+    for (let x = 0; x < width; x++) {
+      const offset = row + x * 4
+      if ((pixels[offset + 3] ?? 0) < MIN_VISIBLE_ALPHA) continue
+      const isInk =
+        (pixels[offset] ?? 255) < threshold ||
+        (pixels[offset + 1] ?? 255) < threshold ||
+        (pixels[offset + 2] ?? 255) < threshold
+      if (!isInk) continue
+      if (x < left) left = x
+      if (x > right) right = x
+      if (y < top) top = y
+      if (y > bottom) bottom = y
+    }
+  }
+
+  if (right < 0) return null
+  return { left, top, right: right + 1, bottom: bottom + 1 }
+}
+
+/**
+ * Converts bitmap bounds into a page crop with `margin` points around the
+ * content. `bitmapSize` and `pageSize` describe the same unrotated page.
+ */
+export function getContentCrop(
+  bounds: PixelBounds,
+  bitmapSize: { width: number; height: number },
+  pageSize: { width: number; height: number },
+  margin = AUTO_CROP_MARGIN,
+): PageCrop {
+  const scaleX = pageSize.width / bitmapSize.width
+  const scaleY = pageSize.height / bitmapSize.height
+  const left = Math.max(0, bounds.left * scaleX - margin)
+  const top = Math.max(0, bounds.top * scaleY - margin)
+  const right = Math.min(pageSize.width, bounds.right * scaleX + margin)
+  const bottom = Math.min(pageSize.height, bounds.bottom * scaleY + margin)
+  return { x: left, y: top, width: right - left, height: bottom - top }
+}
@@ -0,0 +1,153 @@
+import type { FormFieldInfo, FormFieldValue, FormFieldValues, FormFieldWidget } from '@/shared/types'
+
+/**
+ * Form filling helpers.
+ *
+ * Widgets are stored in points of the unrotated source page; the preview
+ * draws pages with the user rotation applied, so widget boxes are rotated
+ * the same way before they are positioned. Date fields keep the text the
+ * PDF displays, formatted with the field's AFDate format string.
+ */
+
+export interface FormWidgetRect {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+const MONTH_NAMES = [
+  'January',
+  'February',
+  'March',
+  'April',
+  'May',
+  'June',
+  'July',
+  'August',
+  'September',
+  'October',
+  'November',
+  'December',
+]
+
+const DATE_TOKEN_PATTERN = /yyyy|yy|mmmm|mmm|mm|m|dd|d/g
+
+/** Value shown for a field: the entered value, or the one saved in the source */
+export function resolveFormFieldValue(
+  field: FormFieldInfo,
+  values: FormFieldValues[string] | undefined,
+): FormFieldValue {
+  return values?.[field.name] ?? field.value
+}
+
+/**
+ * Places a widget on the displayed page. `displayedSize` is the page size
+ * with `rotation` (clockwise degrees) already applied.
+ */
+export function getDisplayedWidgetRect(
+  widget: FormFieldWidget,
+  displayedSize: { width: number; height: number },
+  rotation: number,
+): FormWidgetRect {
+  const normalized = ((rotation % 360) + 360) % 360
+  const isSideways = normalized === 90 || normalized === 270
+  const pageWidth = isSideways ? displayedSize.height : displayedSize.width
+  const pageHeight = isSideways ? displayedSize.width : displayedSize.height
+  const { x, y, width, height } = widget
+
+  switch (normalized) {
+    case 90:
+      return { x: pageHeight - y - height, y: x, width: height, height: width }
+    case 180:
+      return { x: pageWidth - x - width, y: pageHeight - y - height, width, height }
+    case 270:
+      return { x: y, y: pageWidth - x - width, width: height, height: width }
+    default:
+      return { x, y, width, height }
+  }
+}
+
+function pad(value: number, length: number): string {
+  return String(value).padStart(length, '0')
+}
+
+/** Formats an ISO date (`yyyy-mm-dd`) with an AFDate format such as `mm/dd/yyyy` */
+export function formatFormDate(isoDate: string, format: string): string {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(isoDate)
+  if (!match) return ''
+  const [year, month, day] = match.slice(1).map(Number) as [number, number, number]
+
+  return format.replace(DATE_TOKEN_PATTERN, (token) => {
+    switch (token) {
+      case 'yyyy':
+        return pad(year, 4)
+      case 'yy':
+        return pad(year % 100, 2)
+      case 'mmmm':
+        return MONTH_NAMES[month - 1] ?? ''
+      case 'mmm':
+        return MONTH_NAMES[month - 1]?.slice(0, 3) ?? ''
+      case 'mm':
+        return pad(month, 2)
+      case 'm':
+        return String(month)
+      case 'dd':
+        return pad(day, 2)
+      default:
+        return String(day)
+    }
+  })
+}
+
+function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+function getDateTokenPattern(token: string): string {
+  if (token.startsWith('mmm')) return '([A-Za-z]+)'
+  if (token === 'yyyy') return '(\\d{4})'
+  return token.length === 2 ? '(\\d{2})' : '(\\d{1,2})'
+}
+
+/** Reads a date written with an AFDate format back as `yyyy-mm-dd`, or null */
+export function parseFormDate(text: string, format: string): string | null {
+  const tokens: string[] = []
+  let pattern = ''
+  let lastIndex = 0
+  for (const match of format.matchAll(DATE_TOKEN_PATTERN)) {
+    pattern += escapeRegExp(format.slice(lastIndex, match.index)) + getDateTokenPattern(match[0])
+    tokens.push(match[0])
+    lastIndex = match.index + match[0].length
+  }
+  pattern += escapeRegExp(format.slice(lastIndex))
+
+  const match = new RegExp(`^${pattern}$`, 'i').exec(text.trim())
+  if (!match) return null
+
+  let year = NaN
+  let month = NaN
+  let day = NaN
+  tokens.forEach((token, index) => {
+    const value = match[index + 1] ?? ''
+    if (token === 'yyyy') year = Number(value)
+    else if (token === 'yy') year = 2000 + Number(value)
+    else if (token.startsWith('mmm')) {
+      month =
+        MONTH_NAMES.findIndex((name) =>
+          name.toLowerCase().startsWith(value.toLowerCase().slice(0, 3)),
+        ) + 1
+    } else if (token.startsWith('m')) month = Number(value)
+    else day = Number(value)
+  })
+
+  const date = new Date(Date.UTC(year, month - 1, day))
+  if (
+    date.getUTCFullYear() !== year ||
+    date.getUTCMonth() !== month - 1 ||
+    date.getUTCDate() !== day
+  ) {
+    return null
+  }
+  return `${pad(year, 4)}-${pad(month, 2)}-${pad(day, 2)}`
+}
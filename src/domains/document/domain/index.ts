@@ -1,2 +1,8 @@
 export * from './types'
 export * from './outline'
+export * from './redaction-search'
+export * from './forms'
+export * from './annotations'
+export * from './signatures'
+export * from './crop'
+export * from './blank-pages'
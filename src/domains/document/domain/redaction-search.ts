@@ -0,0 +1,322 @@
+import type { AnnotationBox, RedactionMark } from '@/shared/types'
+
+/**
+ * Search-and-redact matching.
+ *
+ * Page text comes from pdf.js text content items. Hits are mapped into the
+ * same viewport space as manually drawn redaction marks (scale 1, page
+ * rotation applied, top-left origin).
+ */
+
+export type RedactionSearchPresetId = 'email' | 'iban' | 'phone' | 'credit-card'
+
+export interface RedactionSearchPreset {
+  id: RedactionSearchPresetId
+  label: string
+  description: string
+  pattern: RegExp
+  /** Rejects pattern matches that fail a checksum or length rule */
+  validate?: (match: string) => boolean
+}
+
+export type RedactionSearchQuery =
+  | { kind: 'text'; text: string; caseSensitive?: boolean; wholeWord?: boolean }
+  | { kind: 'regex'; source: string; caseSensitive?: boolean }
+  | { kind: 'preset'; presetId: RedactionSearchPresetId }
+
+export interface CompiledRedactionSearch {
+  pattern: RegExp
+  validate?: (match: string) => boolean
+}
+
+/** Subset of a pdf.js `TextItem` needed to locate matches. */
+export interface RedactionSearchTextItem {
+  str: string
+  transform: number[]
+  width: number
+  height: number
+  hasEOL?: boolean
+}
+
+export interface RedactionSearchPage {
+  pageId: string
+  /** 1-based position in the document, used for display */
+  pageNumber: number
+  items: RedactionSearchTextItem[]
+  /** pdf.js viewport transform at scale 1 with the page rotation applied */
+  viewportTransform: number[]
+}
+
+export interface RedactionSearchHit {
+  id: string
+  pageId: string
+  pageNumber: number
+  text: string
+  /** Surrounding page text for review lists */
+  context: string
+  marks: RedactionMark[]
+}
+
+const CONTEXT_RADIUS = 24
+const MARK_PADDING = 1
+const DESCENT_RATIO = 0.25
+
+export const REDACTION_SEARCH_PRESETS: readonly RedactionSearchPreset[] = [
+  {
+    id: 'email',
+    label: 'Email addresses',
+    description: 'name@example.com',
+    pattern: /[A-Z0-9._%+-]+@[A-Z0-9-]+(?:\.[A-Z0-9-]+)*\.[A-Z]{2,}/gi,
+  },
+  {
+    id: 'iban',
+    label: 'IBANs',
+    description: 'DE89 3704 0044 0532 0130 00',
+    pattern: /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]{4}){2,7}(?: ?[A-Z0-9]{1,3})?\b/g,
+    validate: isValidIban,
+  },
+  {
+    id: 'phone',
+    label: 'Phone numbers',
+    description: '+1 (555) 010-2030',
+    pattern: /(?<![\w+])(?:\+\d{1,3}[ .-]?)?(?:\(\d{1,4}\)[ .-]?)?\d{2,4}(?:[ .-]?\d{2,4}){1,4}(?!\w)/g,
+    validate: (match) => {
+      const digits = match.replace(/\D/g, '').length
+      return digits >= 7 && digits <= 15
+    },
+  },
+  {
+    id: 'credit-card',
+    label: 'Card numbers',
+    description: '4111 1111 1111 1111',
+    pattern: /\b\d(?:[ -]?\d){12,18}\b/g,
+    validate: isValidCardNumber,
+  },
+]
+
+export function getRedactionSearchPreset(
+  id: RedactionSearchPresetId,
+): RedactionSearchPreset | undefined {
+  return REDACTION_SEARCH_PRESETS.find((preset) => preset.id === id)
+}
+
+/**
+ * Builds the global pattern for a query. Returns null for empty input or an
+ * invalid regular expression.
+ */
+export function compileRedactionSearch(
+  query: RedactionSearchQuery,
+): CompiledRedactionSearch | null {
+  if (query.kind === 'preset') {
+    const preset = getRedactionSearchPreset(query.presetId)
+    if (!preset) return null
+    return {
+      pattern: new RegExp(preset.pattern.source, preset.pattern.flags),
+      validate: preset.validate,
+    }
+  }
+
+  const flags = query.caseSensitive ? 'gu' : 'giu'
+
+  if (query.kind === 'text') {
+    const text = query.text.trim()
+    if (!text) return null
+    const escaped = text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&').replace(/\s+/g, '\\s+')
+    const source = query.wholeWord ? `(?<![\\p{L}\\p{N}_])${escaped}(?![\\p{L}\\p{N}_])` : escaped
+    return { pattern: new RegExp(source, flags) }
+  }
+
+  if (!query.source) return null
+  try {
+    return { pattern: new RegExp(query.source, flags) }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Finds every match on the given pages. Each hit carries one redaction mark
+ * per text item it spans.
+ */
+export function findRedactionHits(
+  pages: readonly RedactionSearchPage[],
+  search: CompiledRedactionSearch,
+): RedactionSearchHit[] {
+  const hits: RedactionSearchHit[] = []
+
+  for (const page of pages) {
+    const { text, spans } = buildPageText(page.items)
+    const pattern = new RegExp(search.pattern.source, search.pattern.flags)
+    let match: RegExpExecArray | null
+    let index = 0
+
+    while ((match = pattern.exec(text)) !== null) {
+      const value = match[0]
+      if (!value) {
+        pattern.lastIndex++
+        continue
+      }
+      if (search.validate && !search.validate(value)) continue
+
+      const start = match.index
+      const end = start + value.length
+      const marks = spans
+        .filter((span) => span.start < end && span.end > start)
+        .map((span) =>
+          createMark(
+            span.item,
+            Math.max(start, span.start) - span.start,
+            Math.min(end, span.end) - span.start,
+            page.viewportTransform,
+          ),
+        )
+        .filter((mark): mark is RedactionMark => mark !== null)
+
+      if (marks.length === 0) continue
+
+      hits.push({
+        id: `${page.pageId}:${index++}`,
+        pageId: page.pageId,
+        pageNumber: page.pageNumber,
+        text: value.replace(/\s+/g, ' '),
+        context: text
+          .slice(Math.max(0, start - CONTEXT_RADIUS), end + CONTEXT_RADIUS)
+          .replace(/\s+/g, ' ')
+          .trim(),
+        marks,
+      })
+    }
+  }
+
+  return hits
+}
+
+/**
+ * Groups the marks of the given hits by page, ready for a single batch of
+ * redaction commands.
+ */
+export function groupRedactionHitsByPage(
+  hits: readonly RedactionSearchHit[],
+): Array<{ pageId: string; redactions: RedactionMark[] }> {
+  const byPage = new Map<string, RedactionMark[]>()
+  for (const hit of hits) {
+    const marks = byPage.get(hit.pageId) ?? []
+    marks.push(...hit.marks)
+    byPage.set(hit.pageId, marks)
+  }
+  return Array.from(byPage, ([pageId, redactions]) => ({ pageId, redactions }))
+}
+
+interface TextSpan {
+  item: RedactionSearchTextItem
+  start: number
+  end: number
+}
+
+function buildPageText(items: readonly RedactionSearchTextItem[]) {
+  const spans: TextSpan[] = []
+  let text = ''
+
+  for (const item of items) {
+    if (item.str) {
+      spans.push({ item, start: text.length, end: text.length + item.str.length })
+      text += item.str
+    }
+    if (item.hasEOL) text += '\n'
+  }
+
+  return { text, spans }
+}
+
+/**
+ * Covers characters [from, to) of a text item, in viewport space. Glyph
+ * offsets are estimated proportionally along the item width, so the box is
+ * padded slightly.
+ */
+export function measureTextRange(
+  item: RedactionSearchTextItem,
+  from: number,
+  to: number,
+  viewportTransform: number[],
+): AnnotationBox | null {
+  const length = item.str.length
+  if (length === 0 || to <= from) return null
+
+  const [a = 1, b = 0, c = 0, d = 1, e = 0, f = 0] = item.transform
+  const advance = Math.hypot(a, b) || 1
+  const rise = Math.hypot(c, d) || 1
+  const direction = { x: a / advance, y: b / advance }
+  const up = { x: c / rise, y: d / rise }
+
+  const fontHeight = item.height || rise
+  const startOffset = (item.width * from) / length - MARK_PADDING
+  const endOffset = (item.width * to) / length + MARK_PADDING
+  const bottom = -fontHeight * DESCENT_RATIO - MARK_PADDING
+  const top = fontHeight + MARK_PADDING
+
+  const corners = [
+    [startOffset, bottom],
+    [endOffset, bottom],
+    [endOffset, top],
+    [startOffset, top],
+  ].map(([along = 0, across = 0]) =>
+    applyTransform(viewportTransform, {
+      x: e + direction.x * along + up.x * across,
+      y: f + direction.y * along + up.y * across,
+    }),
+  )
+
+  const xs = corners.map((point) => point.x)
+  const ys = corners.map((point) => point.y)
+  const x = Math.min(...xs)
+  const y = Math.min(...ys)
+
+  return { x, y, width: Math.max(...xs) - x, height: Math.max(...ys) - y }
+}
+
+function createMark(
+  item: RedactionSearchTextItem,
+  from: number,
+  to: number,
+  viewportTransform: number[],
+): RedactionMark | null {
+  const box = measureTextRange(item, from, to, viewportTransform)
+  return box ? { id: crypto.randomUUID(), ...box, color: 'black' } : null
+}
+
+function applyTransform(matrix: number[], point: { x: number; y: number }) {
+  const [a = 1, b = 0, c = 0, d = 1, e = 0, f = 0] = matrix
+  return {
+    x: a * point.x + c * point.y + e,
+    y: b * point.x + d * point.y + f,
+  }
+}
+
+function isValidIban(match: string): boolean {
+  const iban = match.replace(/ /g, '')
+  if (iban.length < 15 || iban.length > 34) return false
+
+  const rearranged = iban.slice(4) + iban.slice(0, 4)
+  let remainder = 0
+  for (const char of rearranged) {
+    const value = Number.parseInt(char, 36)
+    remainder = value >= 10 ? (remainder * 100 + value) % 97 : (remainder * 10 + value) % 97
+  }
+  return remainder === 1
+}
+
+function isValidCardNumber(match: string): boolean {
+  const digits = match.replace(/\D/g, '')
+  if (digits.length < 13 || digits.length > 19) return false
+
+  let sum = 0
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i])
+    if (i % 2 === 1) {
+      digit *= 2
+      if (digit > 9) digit -= 9
+    }
+    sum += digit
+  }
+  return sum % 10 === 0
+}
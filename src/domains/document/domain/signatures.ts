@@ -0,0 +1,89 @@
+import type { AnnotationBox, SignatureArtwork } from '@/shared/types'
+
+/**
+ * Signature library helpers.
+ *
+ * Artwork is kept in its own pixel space (top-left origin) and scaled into
+ * the placement box on the page, which uses the same space as redaction
+ * marks. Placements keep the artwork aspect ratio.
+ */
+
+/** Script fonts tried in order for typed signatures */
+export const SIGNATURE_FONT_FAMILY =
+  '"Segoe Script", "Brush Script MT", "Snell Roundhand", "Apple Chancery", cursive'
+
+export const DEFAULT_SIGNATURE_STROKE_COLOR = '#1e3a8a'
+export const DEFAULT_SIGNATURE_STROKE_WIDTH = 3
+
+/** Longest side of stored PNG signatures, in pixels */
+export const MAX_SIGNATURE_IMAGE_SIZE = 1200
+
+/** Default placement width as a fraction of the page width */
+const DEFAULT_PLACEMENT_WIDTH_RATIO = 0.3
+/** Empty space kept around drawn strokes, in artwork pixels */
+const STROKE_PADDING = 4
+
+/**
+ * Crops pen strokes to their bounds so the artwork has no empty margin.
+ * Returns null when nothing was drawn.
+ */
+export function createDrawnArtwork(
+  strokes: readonly number[][],
+  strokeColor = DEFAULT_SIGNATURE_STROKE_COLOR,
+  strokeWidth = DEFAULT_SIGNATURE_STROKE_WIDTH,
+): SignatureArtwork | null {
+  const points = strokes.filter((stroke) => stroke.length >= 2)
+  if (points.length === 0) return null
+
+  const xs = points.flatMap((stroke) => stroke.filter((_, index) => index % 2 === 0))
+  const ys = points.flatMap((stroke) => stroke.filter((_, index) => index % 2 === 1))
+  const margin = STROKE_PADDING + strokeWidth / 2
+  const left = Math.min(...xs) - margin
+  const top = Math.min(...ys) - margin
+
+  return {
+    kind: 'drawn',
+    width: Math.max(...xs) - left + margin,
+    height: Math.max(...ys) - top + margin,
+    strokes: points.map((stroke) =>
+      stroke.map((value, index) => value - (index % 2 === 0 ? left : top)),
+    ),
+    strokeColor,
+    strokeWidth,
+  }
+}
+
+/** SVG path data for one stroke; a single point becomes a dot */
+export function getStrokePath(stroke: readonly number[]): string {
+  const [x = 0, y = 0] = stroke
+  if (stroke.length <= 2) return `M ${x} ${y} l 0.01 0`
+
+  const segments = [`M ${x} ${y}`]
+  for (let index = 2; index + 1 < stroke.length; index += 2) {
+    segments.push(`L ${stroke[index]} ${stroke[index + 1]}`)
+  }
+  return segments.join(' ')
+}
+
+/**
+ * Default box for a new placement: a share of the page width, centered,
+ * shrunk when needed so the whole signature fits on the page.
+ */
+export function getDefaultSignaturePlacement(
+  artwork: Pick<SignatureArtwork, 'width' | 'height'>,
+  pageSize: { width: number; height: number },
+): AnnotationBox {
+  const aspect = artwork.height / Math.max(artwork.width, 1)
+  let width = pageSize.width * DEFAULT_PLACEMENT_WIDTH_RATIO
+  let height = width * aspect
+  if (height > pageSize.height) {
+    height = pageSize.height
+    width = height / aspect
+  }
+  return {
+    x: (pageSize.width - width) / 2,
+    y: (pageSize.height - height) / 2,
+    width,
+    height,
+  }
+}
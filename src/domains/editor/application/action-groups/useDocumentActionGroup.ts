@@ -1,5 +1,6 @@
 import type { Ref } from 'vue'
 import { useSourceDropHandlers } from '@/domains/document/application/composables/useSourceDropHandlers'
+import { createFormActions } from '@/domains/editor/application/actions/form-actions'
 import { createMetadataActions } from '@/domains/editor/application/actions/metadata-actions'
 import { createOutlineActions } from '@/domains/editor/application/actions/outline-actions'
 import { createPageActions } from '@/domains/editor/application/actions/page-actions'
@@ -61,14 +62,21 @@ export function useDocumentActionGroup({
 
   const metadataActions = createMetadataActions({
     store,
+    history,
     ui,
     normalizeProjectTitle,
   })
 
+  const formActions = createFormActions({
+    store,
+    history,
+  })
+
   return {
     ...sourceDropHandlers,
     ...outlineActions,
     ...pageActions,
     ...metadataActions,
+    ...formActions,
   }
 }
@@ -3,13 +3,22 @@ import type { DocumentState } from '@/domains/project-session/session/document-s
 import type { EditorUiState } from '@/domains/project-session/session/editor-ui.state'
 import type { PageReference } from '@/shared/types'
 import type { RotationDelta } from '@/shared/constants'
+import type { BlankPagePlacement } from '@/domains/document/domain/blank-pages'
 
 export interface UseEditorShellActionGroupDeps {
   store: Pick<
     DocumentState,
     'selection' | 'contentPages' | 'selectedCount' | 'selectPage' | 'selectAll'
   >
-  ui: Pick<EditorUiState, 'closeCommandPalette' | 'zoomIn' | 'zoomOut'>
+  ui: Pick<
+    EditorUiState,
+    | 'closeCommandPalette'
+    | 'openRedactionSearch'
+    | 'openFrontMatterDialog'
+    | 'openApplyWorkflowDialog'
+    | 'zoomIn'
+    | 'zoomOut'
+  >
   openFileDialog: () => void
   handlePagePreview: (pageRef: PageReference) => void
   handleDuplicateSelected: () => void
@@ -17,6 +26,8 @@ export interface UseEditorShellActionGroupDeps {
   handleExportSelected: () => void
   handleDeleteSelected: () => void | Promise<void>
   handleDiffSelected: () => void
+  handleSplitSpreadSelected: () => void
+  handleInsertBlankSelected: (placement: BlankPagePlacement) => void
   handleExport: () => void | Promise<void>
   handleNewProject: () => void | Promise<void>
 }
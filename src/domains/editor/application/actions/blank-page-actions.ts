@@ -0,0 +1,96 @@
+import { ROTATION_DEFAULT_DEGREES } from '@/shared/constants'
+import { insertPages as insertPagesUseCase } from '@/domains/document/application/use-cases'
+import {
+  findBlankSource,
+  getBlankPageFilename,
+  getBlankPageInsertIndex,
+  type BlankPagePlacement,
+  type BlankPageSize,
+} from '@/domains/document/domain/blank-pages'
+import type { ImportService } from '@/domains/import/application/import-service'
+import type { DocumentState } from '@/domains/project-session/session/document-state'
+import type { HistorySession } from '@/domains/history/session/create-history-session'
+import type { EditorUiState } from '@/domains/project-session/session/editor-ui.state'
+import type { PageReference } from '@/shared/types'
+
+interface BlankPageToast {
+  success: (
+    title: string,
+    detail?: string,
+    action?: { label: string; onClick: () => void },
+  ) => unknown
+  error: (title: string, detail?: string) => unknown
+}
+
+export interface CreateBlankPageActionsDeps {
+  store: Pick<DocumentState, 'pages' | 'contentPages' | 'sources' | 'selectedPages' | 'selectPage'>
+  history: HistorySession
+  ui: Pick<EditorUiState, 'openBlankPageDialog'>
+  toast: BlankPageToast
+  services: Pick<ImportService, 'createBlankSource'>
+}
+
+export function createBlankPageActions({
+  store,
+  history,
+  ui,
+  toast,
+  services,
+}: CreateBlankPageActionsDeps) {
+  /** Opens the blank page dialog next to the selection, or at the document edge */
+  function handleInsertBlankSelected(placement: BlankPagePlacement) {
+    const pages = store.selectedPages.length > 0 ? store.selectedPages : store.contentPages
+    const anchor = placement === 'before' ? pages[0] : pages[pages.length - 1]
+    ui.openBlankPageDialog(anchor?.id ?? null, placement)
+  }
+
+  async function insertBlankPage(
+    anchorId: string | null,
+    placement: BlankPagePlacement,
+    size: BlankPageSize,
+  ) {
+    let sourceFile = findBlankSource(store.sources.values(), size)
+    const shouldAddSource = !sourceFile
+    if (!sourceFile) {
+      const result = await services.createBlankSource(size, getBlankPageFilename(size))
+      if (!result.success || !result.sourceFile) {
+        toast.error('Failed to insert blank page', result.error)
+        return
+      }
+      sourceFile = result.sourceFile
+    }
+
+    // Blank pages join the group of the page they are inserted next to.
+    const anchor = store.contentPages.find((page) => page.id === anchorId)
+    const metrics = sourceFile.pageMetaData[0]
+    const page: PageReference = {
+      id: crypto.randomUUID(),
+      sourceFileId: sourceFile.id,
+      sourcePageIndex: 0,
+      rotation: ROTATION_DEFAULT_DEGREES,
+      width: metrics?.width ?? size.width,
+      height: metrics?.height ?? size.height,
+      ...(anchor ? { groupId: anchor.groupId ?? anchor.sourceFileId } : {}),
+    }
+
+    insertPagesUseCase(
+      history,
+      sourceFile,
+      [page],
+      getBlankPageInsertIndex(store.pages, anchor?.id ?? null, placement),
+      shouldAddSource,
+      'Insert blank page',
+    )
+    store.selectPage(page.id, false)
+
+    toast.success('Blank page inserted', undefined, {
+      label: 'UNDO',
+      onClick: () => history.undo(),
+    })
+  }
+
+  return {
+    handleInsertBlankSelected,
+    insertBlankPage,
+  }
+}
@@ -3,13 +3,20 @@ import { UserAction } from '@/shared/types/actions'
 import type { DocumentState } from '@/domains/project-session/session/document-state'
 import type { EditorUiState } from '@/domains/project-session/session/editor-ui.state'
 import type { PageReference } from '@/shared/types'
+import type { BlankPagePlacement } from '@/domains/document/domain/blank-pages'
 
 export interface CreateCommandActionsDeps {
   store: Pick<
     DocumentState,
     'selection' | 'contentPages' | 'selectedCount' | 'selectPage' | 'selectAll'
   >
-  ui: Pick<EditorUiState, 'closeCommandPalette'>
+  ui: Pick<
+    EditorUiState,
+    | 'closeCommandPalette'
+    | 'openRedactionSearch'
+    | 'openFrontMatterDialog'
+    | 'openApplyWorkflowDialog'
+  >
   openFileDialog: () => void
   handlePagePreview: (pageRef: PageReference) => void
   handleDuplicateSelected: () => void
@@ -17,6 +24,8 @@ export interface CreateCommandActionsDeps {
   handleExportSelected: () => void
   handleDeleteSelected: () => void | Promise<void>
   handleDiffSelected: () => void
+  handleSplitSpreadSelected: () => void
+  handleInsertBlankSelected: (placement: BlankPagePlacement) => void
   handleExport: () => void | Promise<void>
   handleNewProject: () => void | Promise<void>
 }
@@ -31,6 +40,8 @@ export function createCommandActions({
   handleExportSelected,
   handleDeleteSelected,
   handleDiffSelected,
+  handleSplitSpreadSelected,
+  handleInsertBlankSelected,
   handleExport,
   handleNewProject,
 }: CreateCommandActionsDeps) {
@@ -64,6 +75,15 @@ export function createCommandActions({
       case UserAction.DIFF:
         handleDiffSelected()
         break
+      case UserAction.SPLIT_SPREAD:
+        handleSplitSpreadSelected()
+        break
+      case UserAction.INSERT_BLANK_BEFORE:
+        handleInsertBlankSelected('before')
+        break
+      case UserAction.INSERT_BLANK_AFTER:
+        handleInsertBlankSelected('after')
+        break
       default:
         break
     }
@@ -100,6 +120,24 @@ export function createCommandActions({
       case UserAction.DIFF:
         handleDiffSelected()
         break
+      case UserAction.SPLIT_SPREAD:
+        handleSplitSpreadSelected()
+        break
+      case UserAction.INSERT_BLANK_BEFORE:
+        handleInsertBlankSelected('before')
+        break
+      case UserAction.INSERT_BLANK_AFTER:
+        handleInsertBlankSelected('after')
+        break
+      case UserAction.INSERT_FRONT_MATTER:
+        ui.openFrontMatterDialog()
+        break
+      case UserAction.SEARCH_REDACT:
+        ui.openRedactionSearch()
+        break
+      case UserAction.APPLY_WORKFLOW:
+        ui.openApplyWorkflowDialog()
+        break
       case UserAction.PREVIEW:
         if (store.selectedCount === 1) {
           const id = Array.from(store.selection.selectedIds)[0]
@@ -1,4 +1,7 @@
-import type { ImportService } from '@/domains/import/application/import-service'
+import type {
+  ImportService,
+  ImportSummary,
+} from '@/domains/import/application/import-service'
 import { importPdf as importPdfUseCase } from '@/domains/import/application/use-cases/import-pdf'
 import { getImportErrorMessage } from '@/domains/import/domain/errors'
 
@@ -12,6 +15,8 @@ export interface CreateFileImportActionsDeps {
   openFileDialog: () => void
   clearFileInput: () => void
   services: Pick<ImportService, 'importFiles'>
+  /** Asks for a password; resolves null when the file should be skipped. */
+  promptPassword?: (options: { filename: string; isRetry: boolean }) => Promise<string | null>
 }
 
 export function createFileImportActions({
@@ -19,7 +24,59 @@ export function createFileImportActions({
   openFileDialog,
   clearFileInput,
   services,
+  promptPassword,
 }: CreateFileImportActionsDeps) {
+  /**
+   * Re-imports password-protected files one at a time, prompting again while
+   * the entered password is rejected.
+   */
+  async function unlockProtectedFiles(
+    summary: ImportSummary,
+    options: { addPages: boolean },
+  ): Promise<ImportSummary> {
+    if (!promptPassword) return summary
+
+    const successes = [...summary.successes]
+    const errors = []
+    let totalPages = summary.totalPages
+
+    for (const entry of summary.errors) {
+      if (entry.errorCode !== 'IMPORT_PASSWORD_REQUIRED' || !entry.file) {
+        errors.push(entry)
+        continue
+      }
+
+      let outcome = entry
+      let isRetry = false
+      while (outcome.errorCode === 'IMPORT_PASSWORD_REQUIRED' && outcome.file) {
+        const password = await promptPassword({ filename: outcome.file.name, isRetry })
+        if (password === null) break
+
+        const retry = await importPdfUseCase(
+          { importFiles: services.importFiles },
+          [outcome.file],
+          { addPages: options.addPages, password },
+        )
+        if (!retry.ok) {
+          outcome = { success: false, error: retry.error.message, errorCode: 'IMPORT_FAILED' }
+          break
+        }
+
+        outcome = retry.value.results[0] ?? outcome
+        totalPages += retry.value.totalPages
+        isRetry = true
+      }
+
+      if (outcome.success) {
+        successes.push(outcome)
+      } else {
+        errors.push(outcome)
+      }
+    }
+
+    return { results: [...successes, ...errors], successes, errors, totalPages }
+  }
+
   async function handleImport(files: FileList | File[], options: { addPages: boolean }) {
     const result = await importPdfUseCase(
       { importFiles: services.importFiles },
@@ -31,7 +88,7 @@ export function createFileImportActions({
       return
     }
 
-    const { successes, errors, totalPages } = result.value
+    const { successes, errors, totalPages } = await unlockProtectedFiles(result.value, options)
 
     if (successes.length > 0) {
       if (options.addPages) {
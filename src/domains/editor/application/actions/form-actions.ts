@@ -0,0 +1,32 @@
+import { updateFormField as updateFormFieldUseCase } from '@/domains/document/application/use-cases'
+import { resolveFormFieldValue } from '@/domains/document/domain'
+import type { HistoryCommandExecutor } from '@/domains/history/application'
+import type { DocumentState } from '@/domains/project-session/session/document-state'
+import type { FormFieldInfo, FormFieldValue } from '@/shared/types'
+
+export interface CreateFormActionsDeps {
+  store: DocumentState
+  history: HistoryCommandExecutor
+}
+
+export function createFormActions({ store, history }: CreateFormActionsDeps) {
+  function setFormFieldValue(sourceFileId: string, field: FormFieldInfo, value: FormFieldValue) {
+    const entered = store.formValues[sourceFileId]
+    if (resolveFormFieldValue(field, entered) === value) return
+
+    // Typed fields collapse keystrokes into one entry; choices are one entry each.
+    const isTyped = field.kind === 'text' || field.kind === 'date'
+    updateFormFieldUseCase(history, {
+      sourceFileId,
+      fieldName: field.name,
+      previous: entered?.[field.name] ?? null,
+      next: value === field.value ? null : value,
+      name: `Fill "${field.name}"`,
+      mergeKey: isTyped ? `form:${sourceFileId}:${field.name}` : null,
+    })
+  }
+
+  return {
+    setFormFieldValue,
+  }
+}
@@ -0,0 +1,92 @@
+import { ROTATION_DEFAULT_DEGREES } from '@/shared/constants'
+import { insertPages as insertPagesUseCase } from '@/domains/document/application/use-cases'
+import { getPageDisplaySize } from '@/domains/document/domain/blank-pages'
+import type {
+  ExportService,
+  FrontMatterTemplate,
+} from '@/domains/export/application/export-service'
+import type { ImportService } from '@/domains/import/application/import-service'
+import type { DocumentState } from '@/domains/project-session/session/document-state'
+import type { HistorySession } from '@/domains/history/session/create-history-session'
+import type { PageReference } from '@/shared/types'
+
+const FRONT_MATTER_FILENAMES: Record<FrontMatterTemplate, string> = {
+  cover: 'Cover page.pdf',
+  toc: 'Contents.pdf',
+  'cover-toc': 'Cover and contents.pdf',
+}
+
+interface FrontMatterToast {
+  success: (
+    title: string,
+    detail?: string,
+    action?: { label: string; onClick: () => void },
+  ) => unknown
+  error: (title: string, detail?: string) => unknown
+}
+
+export interface CreateFrontMatterActionsDeps {
+  store: Pick<DocumentState, 'contentPages' | 'sources' | 'selectPage'>
+  history: HistorySession
+  toast: FrontMatterToast
+  services: Pick<ExportService, 'generateFrontMatter'> &
+    Pick<ImportService, 'createGeneratedSource'>
+}
+
+export function createFrontMatterActions({
+  store,
+  history,
+  toast,
+  services,
+}: CreateFrontMatterActionsDeps) {
+  /**
+   * Adds generated cover and contents pages at the start of the document.
+   * They are a snapshot: entries are not linked and keep their page numbers
+   * when pages move later.
+   */
+  async function insertFrontMatterPages(template: FrontMatterTemplate) {
+    const firstPage = store.contentPages[0]
+    const metrics = firstPage
+      ? store.sources.get(firstPage.sourceFileId)?.pageMetaData[firstPage.sourcePageIndex]
+      : undefined
+    const pageSize = firstPage ? (getPageDisplaySize(firstPage, metrics) ?? undefined) : undefined
+
+    const generated = await services.generateFrontMatter(template, pageSize)
+    if (!generated.ok) {
+      toast.error('Failed to generate front matter', generated.error.message)
+      return
+    }
+    const result = await services.createGeneratedSource(
+      generated.value,
+      FRONT_MATTER_FILENAMES[template],
+    )
+    if (!result.success || !result.sourceFile) {
+      toast.error('Failed to generate front matter', result.error)
+      return
+    }
+
+    const { sourceFile } = result
+    const pages: PageReference[] = sourceFile.pageMetaData.map((metrics, index) => ({
+      id: crypto.randomUUID(),
+      sourceFileId: sourceFile.id,
+      sourcePageIndex: index,
+      rotation: ROTATION_DEFAULT_DEGREES,
+      width: metrics.width,
+      height: metrics.height,
+      ...(firstPage ? { groupId: firstPage.groupId ?? firstPage.sourceFileId } : {}),
+    }))
+
+    insertPagesUseCase(history, sourceFile, pages, 0, true, 'Insert front matter')
+    store.selectPage(pages[0]!.id, false)
+
+    toast.success(
+      pages.length === 1 ? 'Front page inserted' : `${pages.length} front pages inserted`,
+      undefined,
+      { label: 'UNDO', onClick: () => history.undo() },
+    )
+  }
+
+  return {
+    insertFrontMatterPages,
+  }
+}
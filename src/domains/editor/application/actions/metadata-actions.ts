@@ -1,17 +1,70 @@
-import { updateMetadata as updateMetadataUseCase } from '@/domains/document/application/use-cases'
+import {
+  updateMetadata as updateMetadataUseCase,
+  updateSecurity as updateSecurityUseCase,
+} from '@/domains/document/application/use-cases'
+import type { HistoryCommandExecutor } from '@/domains/history/application'
 import type { DocumentState } from '@/domains/project-session/session/document-state'
 import type { EditorUiState } from '@/domains/project-session/session/editor-ui.state'
 import type { PrimaryEditorToolId } from '@/domains/editor/domain/types'
-import type { DocumentMetadata, SecurityMetadata } from '@/shared/types'
+import type {
+  DocumentMetadata,
+  HeaderFooterSettings,
+  SecurityMetadata,
+  WatermarkSettings,
+} from '@/shared/types'
 
 export interface CreateMetadataActionsDeps {
   store: DocumentState
+  history: HistoryCommandExecutor
   ui: Pick<EditorUiState, 'setCurrentTool'>
   normalizeProjectTitle: (value: string) => string
 }
 
+const METADATA_EDIT_NAMES: Record<keyof DocumentMetadata, string> = {
+  title: 'Edit title',
+  author: 'Edit author',
+  subject: 'Edit subject',
+  keywords: 'Edit keywords',
+  pdfVersion: 'Change output format',
+}
+
+const SECURITY_EDIT_NAMES: Record<keyof SecurityMetadata, string> = {
+  isEncrypted: 'Toggle encryption',
+  userPassword: 'Edit open password',
+  ownerPassword: 'Edit admin password',
+  encryptionAlgorithm: 'Change encryption',
+  allowPrinting: 'Change permissions',
+  allowCopying: 'Change permissions',
+  allowModifying: 'Change permissions',
+}
+
+/** Fields edited by typing; consecutive keystrokes collapse into one history entry */
+const MERGEABLE_FIELDS = new Set<string>([
+  'title',
+  'author',
+  'subject',
+  'userPassword',
+  'ownerPassword',
+])
+
+function hasChanges<T extends object>(current: T, next: Partial<T>): boolean {
+  return (Object.keys(next) as Array<keyof T>).some((key) => current[key] !== next[key])
+}
+
+function describeEdit<T extends object>(
+  next: Partial<T>,
+  names: Record<keyof T, string>,
+  scope: string,
+): { name: string; mergeKey: string | null } {
+  const keys = Object.keys(next) as Array<keyof T & string>
+  const first = keys[0]!
+  const mergeKey = keys.length === 1 && MERGEABLE_FIELDS.has(first) ? `${scope}:${first}` : null
+  return { name: names[first], mergeKey }
+}
+
 export function createMetadataActions({
   store,
+  history,
   ui,
   normalizeProjectTitle,
 }: CreateMetadataActionsDeps) {
@@ -27,26 +80,56 @@ export function createMetadataActions({
     ui.setCurrentTool(tool)
   }
 
+  function updateMetadata(
+    updates: Partial<DocumentMetadata>,
+    edit: { name: string; mergeKey?: string | null },
+  ) {
+    updateMetadataUseCase(history, {
+      previous: store.metadata,
+      updates,
+      previousDirty: store.metadataDirty,
+      name: edit.name,
+      mergeKey: edit.mergeKey,
+    })
+  }
+
   function setMetadata(next: Partial<DocumentMetadata>) {
-    updateMetadataUseCase(store, next)
+    if (!hasChanges(store.metadata, next)) return
+    updateMetadata(next, describeEdit(next, METADATA_EDIT_NAMES, 'metadata'))
   }
 
   function applyMetadataFromSource(sourceId: string) {
     const source = store.sources.get(sourceId)
     if (!source?.metadata) return
-    updateMetadataUseCase(store, source.metadata)
+    updateMetadata(source.metadata, { name: 'Apply source metadata' })
   }
 
   function addKeyword(keyword: string) {
-    store.addKeyword(keyword)
+    const value = keyword.trim()
+    if (!value || store.metadata.keywords.includes(value)) return
+    updateMetadata({ keywords: [...store.metadata.keywords, value] }, { name: 'Add keyword' })
   }
 
   function removeKeyword(keyword: string) {
-    store.removeKeyword(keyword)
+    if (!store.metadata.keywords.includes(keyword)) return
+    updateMetadata(
+      { keywords: store.metadata.keywords.filter((value) => value !== keyword) },
+      { name: 'Remove keyword' },
+    )
   }
 
   function setSecurity(next: Partial<SecurityMetadata>) {
-    store.setSecurity(next)
+    if (!hasChanges(store.security, next)) return
+    const edit = describeEdit(next, SECURITY_EDIT_NAMES, 'security')
+    updateSecurityUseCase(history, { previous: store.security, updates: next, ...edit })
+  }
+
+  function setWatermark(next: Partial<WatermarkSettings>) {
+    store.setWatermark(next)
+  }
+
+  function setHeaderFooter(next: Partial<HeaderFooterSettings>) {
+    store.setHeaderFooter(next)
   }
 
   return {
@@ -58,5 +141,7 @@ export function createMetadataActions({
     addKeyword,
     removeKeyword,
     setSecurity,
+    setWatermark,
+    setHeaderFooter,
   }
 }
@@ -4,23 +4,41 @@ import {
   type RotationDelta,
 } from '@/shared/constants'
 import {
+  addAnnotation as addAnnotationUseCase,
   addRedaction as addRedactionUseCase,
+  addRedactions as addRedactionsUseCase,
+  addSignature as addSignatureUseCase,
+  cropPages as cropPagesUseCase,
+  deleteAnnotations as deleteAnnotationsUseCase,
   deletePages as deletePagesUseCase,
   deleteRedaction as deleteRedactionUseCase,
   deleteRedactions as deleteRedactionsUseCase,
+  deleteSignature as deleteSignatureUseCase,
   duplicatePages as duplicatePagesUseCase,
   removeSource as removeSourceUseCase,
   reorderPages as reorderPagesUseCase,
   resizePages as resizePagesUseCase,
   rotatePages as rotatePagesUseCase,
   splitGroup as splitGroupUseCase,
+  splitSpreads as splitSpreadsUseCase,
+  updateAnnotation as updateAnnotationUseCase,
   updateRedaction as updateRedactionUseCase,
+  updateSignature as updateSignatureUseCase,
+  type PageRedactions,
 } from '@/domains/document/application/use-cases'
 import type { DocumentState } from '@/domains/project-session/session/document-state'
 import type { HistorySession } from '@/domains/history/session/create-history-session'
 import type { EditorUiState } from '@/domains/project-session/session/editor-ui.state'
-import type { PageEntry, PageReference, RedactionMark } from '@/shared/types'
+import type {
+  PageAnnotation,
+  PageCrop,
+  PageEntry,
+  PageReference,
+  PageSignature,
+  RedactionMark,
+} from '@/shared/types'
 import type { PreflightFix } from '@/shared/types/linter'
+import { splitPageCrop, type PageSplitDirection } from '@/shared/utils/page-crop'
 
 interface PageActionsToast {
   success: (
@@ -140,10 +158,54 @@ export function createPageActions({
     }
   }
 
+  function handleSplitSpreadSelected() {
+    const page = store.selectedPages[0]
+    if (!page) return
+    ui.openSplitSpreadDialog(page)
+  }
+
+  /** Replaces every selected page with its two halves, split at `ratio` */
+  function splitSelectedSpreads(direction: PageSplitDirection, ratio: number) {
+    const targets = store.selectedPages.flatMap((page) => {
+      const metrics = store.sources.get(page.sourceFileId)?.pageMetaData?.[page.sourcePageIndex]
+      const width = page.width ?? metrics?.width
+      const height = page.height ?? metrics?.height
+      if (!width || !height) return []
+      const crops = splitPageCrop({ width, height }, page.rotation, page.crop, direction, ratio)
+      return [{ pageId: page.id, crops }]
+    })
+    if (targets.length === 0) return
+
+    splitSpreadsUseCase(history, targets)
+    store.clearSelection()
+
+    if (isMobile.value) {
+      haptic('light')
+    }
+
+    toast.success(
+      targets.length === 1 ? 'Page split in two' : `${targets.length} pages split in two`,
+      undefined,
+      { label: 'UNDO', onClick: () => history.undo() },
+    )
+  }
+
   function addRedaction(pageId: string, redaction: RedactionMark) {
     addRedactionUseCase(history, pageId, redaction)
   }
 
+  function addRedactions(entries: PageRedactions[]) {
+    const command = addRedactionsUseCase(history, entries)
+    if (!command) return
+
+    const count = entries.reduce((total, entry) => total + entry.redactions.length, 0)
+    const pageCount = entries.filter((entry) => entry.redactions.length > 0).length
+    toast.success(
+      `Added ${count} redaction${count === 1 ? '' : 's'}`,
+      `Across ${pageCount} page${pageCount === 1 ? '' : 's'}`,
+    )
+  }
+
   function updateRedaction(pageId: string, previous: RedactionMark, next: RedactionMark) {
     updateRedactionUseCase(history, pageId, previous, next)
   }
@@ -156,6 +218,36 @@ export function createPageActions({
     deleteRedactionsUseCase(history, pageId, redactions)
   }
 
+  function addAnnotation(pageId: string, annotation: PageAnnotation) {
+    addAnnotationUseCase(history, pageId, annotation)
+  }
+
+  function updateAnnotation(pageId: string, previous: PageAnnotation, next: PageAnnotation) {
+    updateAnnotationUseCase(history, pageId, previous, next)
+  }
+
+  function deleteAnnotations(pageId: string, annotations: PageAnnotation[]) {
+    deleteAnnotationsUseCase(history, pageId, annotations)
+  }
+
+  function addSignature(pageId: string, signature: PageSignature) {
+    addSignatureUseCase(history, pageId, signature)
+  }
+
+  function updateSignature(pageId: string, previous: PageSignature, next: PageSignature) {
+    updateSignatureUseCase(history, pageId, previous, next)
+  }
+
+  function deleteSignature(pageId: string, signature: PageSignature) {
+    deleteSignatureUseCase(history, pageId, signature)
+  }
+
+  /** A null crop restores the full page */
+  function cropPages(pageIds: string[], crop: PageCrop | null) {
+    if (pageIds.length === 0) return
+    cropPagesUseCase(history, pageIds.map((pageId) => ({ pageId, crop })))
+  }
+
   function applyPreflightFix(fix: PreflightFix, pageIds: string[]) {
     if (!fix) return
 
@@ -311,10 +403,20 @@ export function createPageActions({
     handleDuplicateSelected,
     handleRotateSelected,
     handleDiffSelected,
+    handleSplitSpreadSelected,
+    splitSelectedSpreads,
     addRedaction,
+    addRedactions,
     updateRedaction,
     deleteRedaction,
     deleteRedactions,
+    addAnnotation,
+    updateAnnotation,
+    deleteAnnotations,
+    addSignature,
+    updateSignature,
+    deleteSignature,
+    cropPages,
     applyPreflightFix,
     handleRemoveSource,
     selectPage,
@@ -25,7 +25,11 @@ export interface CreateProjectActionsDeps {
   store: DocumentState
   ui: Pick<
     EditorUiState,
-    'closeCommandPalette' | 'closePreflightPanel' | 'closePreviewModal' | 'closeDiffModal'
+    | 'closeCommandPalette'
+    | 'closePreflightPanel'
+    | 'closePreviewModal'
+    | 'closeDiffModal'
+    | 'closeRedactionSearch'
   >
   exportState: Pick<ExportOperationState, 'closeExportModal'>
   projects: Pick<
@@ -62,6 +66,7 @@ export function createProjectActions({
     exportState.closeExportModal()
     ui.closePreviewModal()
     ui.closeDiffModal()
+    ui.closeRedactionSearch()
   }
 
   async function handleClearProject() {
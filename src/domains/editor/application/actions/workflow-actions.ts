@@ -0,0 +1,114 @@
+import { applyWorkflow as applyWorkflowUseCase } from '@/domains/document/application/use-cases'
+import type { findBlankProjectPages } from '@/domains/workflows/application'
+import { WorkflowActionType, planWorkflowForProject } from '@/domains/workflows/domain'
+import type { DocumentState } from '@/domains/project-session/session/document-state'
+import type { HistorySession } from '@/domains/history/session/create-history-session'
+import type { PageReference } from '@/shared/types'
+import type { Workflow } from '@/shared/types/workflow'
+
+/** Pages a workflow runs on: the whole project or the current selection */
+export type ApplyWorkflowScope = 'all' | 'selection'
+
+interface WorkflowActionsToast {
+  success: (
+    title: string,
+    detail?: string,
+    action?: { label: string; onClick: () => void },
+  ) => unknown
+  info: (title: string, detail?: string) => unknown
+  error: (title: string, detail?: string) => unknown
+}
+
+export interface CreateWorkflowActionsDeps {
+  store: Pick<
+    DocumentState,
+    | 'pages'
+    | 'contentPages'
+    | 'sources'
+    | 'selection'
+    | 'metadata'
+    | 'metadataDirty'
+    | 'outlineTree'
+    | 'outlineDirty'
+  >
+  history: HistorySession
+  toast: WorkflowActionsToast
+  services: {
+    findBlankPages: (pages: readonly PageReference[]) => ReturnType<typeof findBlankProjectPages>
+  }
+}
+
+export function createWorkflowActions({
+  store,
+  history,
+  toast,
+  services,
+}: CreateWorkflowActionsDeps) {
+  function getPageSize(page: PageReference) {
+    const metrics = store.sources.get(page.sourceFileId)?.pageMetaData?.[page.sourcePageIndex]
+    const width = page.width ?? metrics?.width
+    const height = page.height ?? metrics?.height
+    return width && height ? { width, height } : null
+  }
+
+  /**
+   * Replays the workflow's steps on the open project as one undoable edit.
+   * Export-only steps (page numbers, watermark, compression) are skipped.
+   */
+  async function applyWorkflow(workflow: Workflow, scope: ApplyWorkflowScope) {
+    const scopePageIds = scope === 'selection' ? new Set(store.selection.selectedIds) : null
+    if (scopePageIds?.size === 0) return
+
+    const scopePages = scopePageIds
+      ? store.contentPages.filter((page) => scopePageIds.has(page.id))
+      : store.contentPages
+    const removesBlankPages = workflow.steps.some(
+      (step) => step.commandType === WorkflowActionType.REMOVE_BLANK_PAGES,
+    )
+
+    let blankPageIds: Set<string> | undefined
+    try {
+      blankPageIds = removesBlankPages ? await services.findBlankPages(scopePages) : undefined
+    } catch (error) {
+      toast.error(
+        'Failed to apply workflow',
+        error instanceof Error ? error.message : 'Could not check for blank pages',
+      )
+      return
+    }
+
+    const { operations, skippedSteps } = planWorkflowForProject(workflow.steps, {
+      pages: store.pages,
+      metadata: store.metadata,
+      outlineTree: store.outlineTree,
+      sources: store.sources,
+      scopePageIds,
+      getPageSize,
+      blankPageIds,
+    })
+    const skippedDetail =
+      skippedSteps.length > 0
+        ? `Skipped: ${skippedSteps.map((step) => step.label).join(', ')}`
+        : undefined
+
+    const command = applyWorkflowUseCase(history, {
+      name: workflow.name,
+      operations,
+      metadataDirty: store.metadataDirty,
+      outlineDirty: store.outlineDirty,
+    })
+    if (!command) {
+      toast.info(`"${workflow.name}" made no changes`, skippedDetail)
+      return
+    }
+
+    toast.success(`Applied "${workflow.name}"`, skippedDetail, {
+      label: 'UNDO',
+      onClick: () => history.undo(),
+    })
+  }
+
+  return {
+    applyWorkflow,
+  }
+}
@@ -3,6 +3,7 @@ import { useRouter } from 'vue-router'
 import { DEFAULT_PROJECT_TITLE } from '@/shared/constants'
 import { useToast } from '@/shared/composables/useToast'
 import { useConfirm } from '@/shared/composables/useConfirm'
+import { usePasswordPrompt } from '@/shared/composables/usePasswordPrompt'
 import { useMobile } from '@/shared/composables/useMobile'
 import { useActiveElementBlur } from '@/shared/composables/useActiveElementBlur'
 import { createDocumentImportService } from '@/domains/import/application/document-import.service'
@@ -13,6 +14,10 @@ import { useSettingsPreferencesState } from '@/domains/settings/application'
 import { useProjectSession } from '@/domains/project-session/session'
 import type { ProjectSession } from '@/domains/project-session/domain/project-session'
 import { createFileImportActions } from '@/domains/editor/application/actions/file-import-actions'
+import { createBlankPageActions } from '@/domains/editor/application/actions/blank-page-actions'
+import { createFrontMatterActions } from '@/domains/editor/application/actions/front-matter-actions'
+import { createWorkflowActions } from '@/domains/editor/application/actions/workflow-actions'
+import { findBlankProjectPages } from '@/domains/workflows/application'
 import { createProjectActions } from '@/domains/editor/application/actions/project-actions'
 import { useExportActionGroup } from '@/domains/editor/application/action-groups/useExportActionGroup'
 import { useDocumentActionGroup } from '@/domains/editor/application/action-groups/useDocumentActionGroup'
@@ -36,6 +41,7 @@ export function useDocumentActions(sessionOverride?: ProjectSession) {
   const { openFileDialog, clearFileInput } = useFileInput()
   const toast = useToast()
   const { confirmDelete, confirm } = useConfirm()
+  const { promptPassword } = usePasswordPrompt()
   const { isMobile, haptic, shareFile, canShareFiles } = useMobile()
   const { blurActiveElement } = useActiveElementBlur()
   const router = useRouter()
@@ -72,10 +78,13 @@ export function useDocumentActions(sessionOverride?: ProjectSession) {
 
   const {
     importFiles,
+    createBlankSource,
+    createGeneratedSource,
   } = importService
   const {
     generateRawPdf,
     exportDocument: exportDocumentService,
+    generateFrontMatter,
     getSuggestedFilename,
     getEstimatedSize,
     clearExportError,
@@ -104,6 +113,7 @@ export function useDocumentActions(sessionOverride?: ProjectSession) {
     openFileDialog,
     clearFileInput,
     services: { importFiles },
+    promptPassword,
   })
   const exportActions = useExportActionGroup({
     store,
@@ -132,6 +142,28 @@ export function useDocumentActions(sessionOverride?: ProjectSession) {
     confirmDelete,
     normalizeProjectTitle,
   })
+  const blankPageActions = createBlankPageActions({
+    store,
+    history: session.history,
+    ui,
+    toast,
+    services: { createBlankSource },
+  })
+  const frontMatterActions = createFrontMatterActions({
+    store,
+    history: session.history,
+    toast,
+    services: { generateFrontMatter, createGeneratedSource },
+  })
+  const workflowActions = createWorkflowActions({
+    store,
+    history: session.history,
+    toast,
+    services: {
+      findBlankPages: (pages) =>
+        findBlankProjectPages(pages, store.sources, pdfRepository.getPdfBlob),
+    },
+  })
   const projectActions = createProjectActions({
     store,
     ui,
@@ -155,6 +187,8 @@ export function useDocumentActions(sessionOverride?: ProjectSession) {
     handleExportSelected: exportActions.handleExportSelected,
     handleDeleteSelected: documentActions.handleDeleteSelected,
     handleDiffSelected: documentActions.handleDiffSelected,
+    handleSplitSpreadSelected: documentActions.handleSplitSpreadSelected,
+    handleInsertBlankSelected: blankPageActions.handleInsertBlankSelected,
     handleExport: exportActions.handleExport,
     handleNewProject: projectActions.handleNewProject,
   })
@@ -163,6 +197,9 @@ export function useDocumentActions(sessionOverride?: ProjectSession) {
     ...importActions,
     ...exportActions,
     ...documentActions,
+    ...blankPageActions,
+    ...frontMatterActions,
+    ...workflowActions,
     ...projectActions,
     ...historyActions,
     ...shellActions,
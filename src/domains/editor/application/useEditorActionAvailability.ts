@@ -18,17 +18,23 @@ export function useEditorActionAvailability(sessionOverride?: Pick<ProjectSessio
     switch (action) {
       case UserAction.EXPORT:
       case UserAction.SELECT_ALL:
+      case UserAction.SEARCH_REDACT:
+      case UserAction.INSERT_FRONT_MATTER:
+      case UserAction.APPLY_WORKFLOW:
         return hasPages.value
       case UserAction.EXPORT_SELECTED:
       case UserAction.DELETE:
       case UserAction.DUPLICATE:
       case UserAction.ROTATE_LEFT:
       case UserAction.ROTATE_RIGHT:
+      case UserAction.SPLIT_SPREAD:
         return hasSelection.value
       case UserAction.DIFF:
         return hasDiffSelection.value
       case UserAction.PREVIEW:
         return hasSingleSelection.value
+      case UserAction.INSERT_BLANK_BEFORE:
+      case UserAction.INSERT_BLANK_AFTER:
       case UserAction.ADD_FILES:
       case UserAction.NEW_PROJECT:
       case UserAction.OPEN_COMMAND_PALETTE:
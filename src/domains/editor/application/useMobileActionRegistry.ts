@@ -7,10 +7,12 @@ import {
   Trash2,
   Download,
   Scissors,
+  Workflow,
 } from 'lucide-vue-next'
 import { useProjectSession } from '@/domains/project-session/session'
 import { ROTATION_DELTA_DEGREES, type RotationDelta } from '@/shared/constants'
 import { isDividerEntry } from '@/shared/types'
+import { UserAction } from '@/shared/types/actions'
 import { useEditorActionAvailability } from '@/domains/editor/application/useEditorActionAvailability'
 
 /**
@@ -52,9 +54,10 @@ export function useMobileActionRegistry(actions: {
   handleDuplicateSelected: () => void
   handleDeleteSelected: () => void
   handleExportSelected: () => void
+  handleCommandAction: (action: UserAction) => void
 }) {
   const { document: store } = useProjectSession()
-  const { hasSelection } = useEditorActionAvailability()
+  const { hasSelection, canRun } = useEditorActionAvailability()
   const canSplit = computed(() => {
     const pages = store.pages
     if (pages.length < 2) return false
@@ -130,6 +133,14 @@ export function useMobileActionRegistry(actions: {
       execute: () => actions.handleExportSelected(),
       isEnabled: () => hasSelection.value,
     },
+    {
+      id: 'apply-workflow',
+      label: 'Apply Workflow',
+      icon: markRaw(Workflow),
+      category: 'utilities',
+      execute: () => actions.handleCommandAction(UserAction.APPLY_WORKFLOW),
+      isEnabled: () => canRun(UserAction.APPLY_WORKFLOW),
+    },
   ]
 
   // Computed: Primary actions for bottom bar
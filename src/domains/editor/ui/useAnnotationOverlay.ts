@@ -0,0 +1,440 @@
+import { computed, ref, shallowRef, type Ref, watch } from 'vue'
+import type { DocumentActions } from '@/domains/editor/application/useDocumentActions'
+import type { PageTextLayout } from '@/domains/document/application/composables/usePageTextLayout'
+import {
+  DEFAULT_ANNOTATION_COLORS,
+  DEFAULT_FREE_TEXT_FONT_SIZE,
+  NOTE_ICON_SIZE,
+  getAnnotationBounds,
+  getTextMarkupBoxes,
+  isResizableAnnotationKind,
+  isTextMarkupKind,
+} from '@/domains/document/domain'
+import type { PageAnnotation, PageAnnotationKind, PageReference } from '@/shared/types'
+
+// --- Types ---
+type Size = { width: number; height: number }
+type Point = { x: number; y: number }
+type Rect = { left: number; top: number; width: number; height: number }
+type Handle = 'nw' | 'ne' | 'sw' | 'se'
+
+type UseAnnotationOverlayOptions = {
+  pageRef: Readonly<Ref<PageReference | null>>
+  pageAnnotations: Readonly<Ref<PageAnnotation[]>>
+  pageSize: Readonly<Ref<Size | null>>
+  overlayRef: Readonly<Ref<HTMLDivElement | null>>
+  overlayMetrics: Readonly<Ref<Rect>>
+  actions: DocumentActions
+  loadPageTextLayout: (pageRef: PageReference) => Promise<PageTextLayout>
+  syncOverlayMetrics?: () => void
+}
+
+const ANNOTATION_MIN_SIZE_PX = 4
+const ANNOTATION_CHANGE_EPSILON = 0.1
+// Free text placed with a click instead of a drag
+const DEFAULT_FREE_TEXT_WIDTH = 160
+
+export function useAnnotationOverlay(options: UseAnnotationOverlayOptions) {
+  const {
+    pageRef,
+    pageAnnotations,
+    pageSize,
+    overlayRef,
+    overlayMetrics,
+    actions,
+    loadPageTextLayout,
+    syncOverlayMetrics,
+  } = options
+
+  // --- State ---
+  const isAnnotateMode = shallowRef(false)
+  const activeTool = shallowRef<PageAnnotationKind>('highlight')
+  const activeColor = shallowRef(DEFAULT_ANNOTATION_COLORS.highlight)
+  const interactionMode = shallowRef<'draw' | 'move' | 'resize' | null>(null)
+  const cachedBounds = ref<DOMRect | null>(null)
+
+  const selectedId = shallowRef<string | null>(null)
+  const editingId = shallowRef<string | null>(null)
+
+  const activeHandle = shallowRef<Handle | null>(null)
+  const dragStartPoint = ref<Point | null>(null)
+  const dragStartRect = ref<Rect | null>(null)
+  const draftRect = ref<Rect | null>(null)
+
+  const drawStart = ref<Point | null>(null)
+  const drawCurrent = ref<Point | null>(null)
+
+  // --- Computed ---
+
+  const selectedAnnotation = computed(
+    () => pageAnnotations.value.find((annotation) => annotation.id === selectedId.value) ?? null,
+  )
+  const hasSelectedAnnotation = computed(() => selectedAnnotation.value !== null)
+
+  const overlayScale = computed(() => {
+    const size = pageSize.value
+    const width = cachedBounds.value?.width || overlayMetrics.value.width || 1
+    const height = cachedBounds.value?.height || overlayMetrics.value.height || 1
+    if (!size || size.width <= 0) return { x: 1, y: 1 }
+    return { x: width / size.width, y: height / size.height }
+  })
+
+  const drawingRect = computed(() => {
+    if (!drawStart.value || !drawCurrent.value) return null
+    return {
+      left: Math.min(drawStart.value.x, drawCurrent.value.x),
+      top: Math.min(drawStart.value.y, drawCurrent.value.y),
+      width: Math.abs(drawStart.value.x - drawCurrent.value.x),
+      height: Math.abs(drawStart.value.y - drawCurrent.value.y),
+    }
+  })
+
+  const overlayCursor = computed(() => {
+    if (!isAnnotateMode.value) return 'default'
+    if (interactionMode.value === 'move') return 'grabbing'
+    if (isTextMarkupKind(activeTool.value)) return 'text'
+    return 'crosshair'
+  })
+
+  watch(pageAnnotations, (next) => {
+    if (selectedId.value && !next.some((annotation) => annotation.id === selectedId.value)) {
+      selectedId.value = null
+      editingId.value = null
+      cancelInteraction()
+    }
+  })
+
+  watch(activeTool, (tool) => {
+    activeColor.value = DEFAULT_ANNOTATION_COLORS[tool]
+  })
+
+  // --- Helpers ---
+
+  function clamp(val: number, min: number, max: number) {
+    return Math.min(max, Math.max(min, val))
+  }
+
+  function getPoint(e: PointerEvent): Point {
+    const rect = cachedBounds.value || overlayMetrics.value
+    return {
+      x: clamp(e.clientX - rect.left, 0, rect.width),
+      y: clamp(e.clientY - rect.top, 0, rect.height),
+    }
+  }
+
+  function toPdfRect(rect: Rect) {
+    const s = overlayScale.value
+    return {
+      x: rect.left / s.x,
+      y: rect.top / s.y,
+      width: rect.width / s.x,
+      height: rect.height / s.y,
+    }
+  }
+
+  function toOverlayRect(box: { x: number; y: number; width: number; height: number }): Rect {
+    const s = overlayScale.value
+    return {
+      left: box.x * s.x,
+      top: box.y * s.y,
+      width: box.width * s.x,
+      height: box.height * s.y,
+    }
+  }
+
+  function getAnnotationRect(annotation: PageAnnotation): Rect {
+    if (draftRect.value && selectedId.value === annotation.id && interactionMode.value) {
+      return draftRect.value
+    }
+    return toOverlayRect(annotation)
+  }
+
+  function hasMeaningfulGeometryChange(prev: PageAnnotation, next: PageAnnotation): boolean {
+    return (
+      Math.abs(prev.x - next.x) > ANNOTATION_CHANGE_EPSILON ||
+      Math.abs(prev.y - next.y) > ANNOTATION_CHANGE_EPSILON ||
+      Math.abs(prev.width - next.width) > ANNOTATION_CHANGE_EPSILON ||
+      Math.abs(prev.height - next.height) > ANNOTATION_CHANGE_EPSILON
+    )
+  }
+
+  function capturePointer(e: PointerEvent) {
+    syncOverlayMetrics?.()
+    if (overlayRef.value) {
+      cachedBounds.value = overlayRef.value.getBoundingClientRect()
+      overlayRef.value.setPointerCapture(e.pointerId)
+    }
+  }
+
+  function addAnnotation(annotation: Omit<PageAnnotation, 'id' | 'kind' | 'color'>) {
+    if (!pageRef.value) return null
+    const created: PageAnnotation = {
+      id: crypto.randomUUID(),
+      kind: activeTool.value,
+      color: activeColor.value,
+      ...annotation,
+    }
+    actions.addAnnotation(pageRef.value.id, created)
+    selectedId.value = created.id
+    return created
+  }
+
+  async function addTextMarkup(selection: Rect) {
+    const page = pageRef.value
+    if (!page || !isTextMarkupKind(activeTool.value)) return
+    const kind = activeTool.value
+    const color = activeColor.value
+
+    const layout = await loadPageTextLayout(page)
+    // The page may have changed while the text was loading.
+    if (pageRef.value?.id !== page.id || pageRef.value.rotation !== page.rotation) return
+
+    const boxes = getTextMarkupBoxes(layout.items, layout.viewportTransform, toPdfRect(selection))
+    const bounds = getAnnotationBounds(boxes)
+    if (!bounds) return
+
+    const created: PageAnnotation = { id: crypto.randomUUID(), kind, color, ...bounds, boxes }
+    actions.addAnnotation(page.id, created)
+    selectedId.value = created.id
+  }
+
+  // --- Actions ---
+
+  function startDraw(e: PointerEvent) {
+    if (!isAnnotateMode.value) return
+    if (e.button !== 0) return
+    e.preventDefault()
+
+    selectedId.value = null
+    editingId.value = null
+    capturePointer(e)
+
+    interactionMode.value = 'draw'
+    const point = getPoint(e)
+    drawStart.value = point
+    drawCurrent.value = point
+  }
+
+  function startMove(e: PointerEvent, annotation: PageAnnotation) {
+    if (!isAnnotateMode.value) return
+    if (e.button !== 0) return
+    e.stopPropagation()
+
+    if (selectedId.value !== annotation.id) editingId.value = null
+    selectedId.value = annotation.id
+    // Text markup follows the page text, so it only supports select and delete.
+    if (isTextMarkupKind(annotation.kind) || editingId.value === annotation.id) return
+
+    e.preventDefault()
+    capturePointer(e)
+    interactionMode.value = 'move'
+    dragStartPoint.value = getPoint(e)
+    dragStartRect.value = toOverlayRect(annotation)
+    draftRect.value = { ...dragStartRect.value }
+  }
+
+  function startResize(e: PointerEvent, handle: Handle, annotation: PageAnnotation) {
+    if (!isAnnotateMode.value || !isResizableAnnotationKind(annotation.kind)) return
+    e.stopPropagation()
+    e.preventDefault()
+
+    selectedId.value = annotation.id
+    capturePointer(e)
+    interactionMode.value = 'resize'
+    activeHandle.value = handle
+    dragStartPoint.value = getPoint(e)
+    dragStartRect.value = toOverlayRect(annotation)
+    draftRect.value = { ...dragStartRect.value }
+  }
+
+  function handlePointerMove(e: PointerEvent) {
+    if (!interactionMode.value) return
+    const point = getPoint(e)
+
+    if (interactionMode.value === 'draw') {
+      drawCurrent.value = point
+      return
+    }
+
+    if (!dragStartPoint.value || !dragStartRect.value) return
+
+    const dx = point.x - dragStartPoint.value.x
+    const dy = point.y - dragStartPoint.value.y
+    const bounds = cachedBounds.value || overlayMetrics.value
+    const start = dragStartRect.value
+    const min = ANNOTATION_MIN_SIZE_PX
+
+    if (interactionMode.value === 'move') {
+      draftRect.value = {
+        left: clamp(start.left + dx, 0, bounds.width - start.width),
+        top: clamp(start.top + dy, 0, bounds.height - start.height),
+        width: start.width,
+        height: start.height,
+      }
+      return
+    }
+
+    let { left, top, width, height } = start
+    if (activeHandle.value === 'nw' || activeHandle.value === 'sw') {
+      left = clamp(start.left + dx, 0, start.left + start.width - min)
+      width = start.width + (start.left - left)
+    } else {
+      width = clamp(start.width + dx, min, bounds.width - left)
+    }
+    if (activeHandle.value === 'nw' || activeHandle.value === 'ne') {
+      top = clamp(start.top + dy, 0, start.top + start.height - min)
+      height = start.height + (start.top - top)
+    } else {
+      height = clamp(start.height + dy, min, bounds.height - top)
+    }
+    draftRect.value = { left, top, width, height }
+  }
+
+  function handlePointerUp(e: PointerEvent) {
+    if (!interactionMode.value) return
+    overlayRef.value?.releasePointerCapture(e.pointerId)
+
+    if (interactionMode.value === 'draw' && drawingRect.value) {
+      finishDraw(drawingRect.value)
+    } else if (draftRect.value && selectedAnnotation.value && pageRef.value) {
+      const prev = selectedAnnotation.value
+      const next = { ...prev, ...toPdfRect(draftRect.value) }
+      if (hasMeaningfulGeometryChange(prev, next)) {
+        actions.updateAnnotation(pageRef.value.id, prev, next)
+      }
+    }
+
+    cancelInteraction()
+  }
+
+  function finishDraw(rect: Rect) {
+    const isDrag = rect.width > ANNOTATION_MIN_SIZE_PX && rect.height > ANNOTATION_MIN_SIZE_PX
+    const tool = activeTool.value
+
+    if (isTextMarkupKind(tool)) {
+      if (isDrag) void addTextMarkup(rect)
+      return
+    }
+
+    if (tool === 'note') {
+      const size = pageSize.value
+      const { x, y } = toPdfRect(rect)
+      const created = addAnnotation({
+        x: clamp(x, 0, (size?.width ?? NOTE_ICON_SIZE) - NOTE_ICON_SIZE),
+        y: clamp(y, 0, (size?.height ?? NOTE_ICON_SIZE) - NOTE_ICON_SIZE),
+        width: NOTE_ICON_SIZE,
+        height: NOTE_ICON_SIZE,
+        text: '',
+      })
+      editingId.value = created?.id ?? null
+      return
+    }
+
+    if (tool === 'freeText') {
+      const size = pageSize.value
+      const pdfRect = toPdfRect(rect)
+      const defaultHeight = DEFAULT_FREE_TEXT_FONT_SIZE * 2.4 + 4
+      const width = isDrag ? pdfRect.width : DEFAULT_FREE_TEXT_WIDTH
+      const height = isDrag ? pdfRect.height : defaultHeight
+      const created = addAnnotation({
+        x: clamp(pdfRect.x, 0, Math.max(0, (size?.width ?? width) - width)),
+        y: clamp(pdfRect.y, 0, Math.max(0, (size?.height ?? height) - height)),
+        width,
+        height,
+        text: '',
+        fontSize: DEFAULT_FREE_TEXT_FONT_SIZE,
+      })
+      editingId.value = created?.id ?? null
+      return
+    }
+
+    if (isDrag) addAnnotation(toPdfRect(rect))
+  }
+
+  function cancelInteraction() {
+    interactionMode.value = null
+    activeHandle.value = null
+    dragStartPoint.value = null
+    dragStartRect.value = null
+    draftRect.value = null
+    drawStart.value = null
+    drawCurrent.value = null
+    cachedBounds.value = null
+  }
+
+  function clearSelection() {
+    selectedId.value = null
+    editingId.value = null
+  }
+
+  function resetAnnotationState() {
+    cancelInteraction()
+    clearSelection()
+  }
+
+  function startEditing(annotation: PageAnnotation) {
+    if (!isAnnotateMode.value) return
+    if (annotation.kind !== 'note' && annotation.kind !== 'freeText') return
+    selectedId.value = annotation.id
+    editingId.value = annotation.id
+  }
+
+  function commitText(annotation: PageAnnotation, text: string) {
+    editingId.value = null
+    if (!pageRef.value) return
+    // A free text box left empty has nothing to show.
+    if (annotation.kind === 'freeText' && !text.trim()) {
+      actions.deleteAnnotations(pageRef.value.id, [annotation])
+      return
+    }
+    if ((annotation.text ?? '') === text) return
+    actions.updateAnnotation(pageRef.value.id, annotation, { ...annotation, text })
+  }
+
+  function setColor(color: string) {
+    activeColor.value = color
+    const annotation = selectedAnnotation.value
+    if (!annotation || !pageRef.value || annotation.color === color) return
+    actions.updateAnnotation(pageRef.value.id, annotation, { ...annotation, color })
+  }
+
+  function deleteSelectedAnnotation() {
+    const annotation = selectedAnnotation.value
+    if (!pageRef.value || !annotation) return
+    actions.deleteAnnotations(pageRef.value.id, [annotation])
+    clearSelection()
+  }
+
+  function toggleAnnotateMode() {
+    isAnnotateMode.value = !isAnnotateMode.value
+    resetAnnotationState()
+  }
+
+  return {
+    isAnnotateMode,
+    activeTool,
+    activeColor,
+    drawingRect,
+    selectedId,
+    editingId,
+    hasSelectedAnnotation,
+    overlayCursor,
+
+    startDraw,
+    startMove,
+    startResize,
+    handlePointerMove,
+    handlePointerUp,
+
+    getAnnotationRect,
+    toOverlayRect,
+    startEditing,
+    commitText,
+    setColor,
+    deleteSelectedAnnotation,
+    toggleAnnotateMode,
+
+    clearSelection,
+    resetAnnotationState,
+  }
+}
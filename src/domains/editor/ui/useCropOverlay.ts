@@ -0,0 +1,265 @@
+import { computed, ref, shallowRef, type Ref } from 'vue'
+import type { DocumentActions } from '@/domains/editor/application/useDocumentActions'
+import type { PageCrop, PageReference } from '@/shared/types'
+import {
+  MIN_PAGE_CROP_SIZE,
+  clampPageCrop,
+  getDisplayedCropRect,
+  getSourceCropRect,
+  isFullPageCrop,
+} from '@/shared/utils/page-crop'
+
+// --- Types ---
+type Size = { width: number; height: number }
+type Point = { x: number; y: number }
+type Rect = { left: number; top: number; width: number; height: number }
+export type CropHandle = 'n' | 's' | 'e' | 'w' | 'nw' | 'ne' | 'sw' | 'se'
+
+type UseCropOverlayOptions = {
+  pageRef: Readonly<Ref<PageReference | null>>
+  /** Displayed page size in points (user rotation applied) */
+  pageSize: Readonly<Ref<Size | null>>
+  overlayRef: Readonly<Ref<HTMLDivElement | null>>
+  overlayMetrics: Readonly<Ref<Rect>>
+  actions: DocumentActions
+  detectPageContentCrop: (pageRef: PageReference) => Promise<PageCrop | null>
+  syncOverlayMetrics?: () => void
+}
+
+const CROP_CHANGE_EPSILON = 0.1
+
+export function useCropOverlay(options: UseCropOverlayOptions) {
+  const {
+    pageRef,
+    pageSize,
+    overlayRef,
+    overlayMetrics,
+    actions,
+    detectPageContentCrop,
+    syncOverlayMetrics,
+  } = options
+
+  // --- State ---
+  const isCropMode = shallowRef(false)
+  const isDetecting = shallowRef(false)
+  const cropError = shallowRef<string | null>(null)
+  const cachedBounds = ref<DOMRect | null>(null)
+
+  const activeHandle = shallowRef<CropHandle | 'move' | null>(null)
+  const dragStartPoint = ref<Point | null>(null)
+  const dragStartRect = ref<Rect | null>(null)
+  const draftRect = ref<Rect | null>(null)
+
+  // --- Computed ---
+
+  const sourcePageSize = computed<Size | null>(() => {
+    const size = pageSize.value
+    if (!size) return null
+    const isSideways = Math.abs(pageRef.value?.rotation ?? 0) % 180 === 90
+    return isSideways ? { width: size.height, height: size.width } : size
+  })
+
+  const hasCrop = computed(() => !!pageRef.value?.crop)
+
+  const overlayScale = computed(() => {
+    const size = pageSize.value
+    const width = cachedBounds.value?.width || overlayMetrics.value.width || 1
+    const height = cachedBounds.value?.height || overlayMetrics.value.height || 1
+    if (!size || size.width <= 0) return { x: 1, y: 1 }
+    return { x: width / size.width, y: height / size.height }
+  })
+
+  /** Kept region in overlay pixels, or null when the whole page is kept */
+  const cropRect = computed<Rect | null>(() => {
+    if (draftRect.value) return draftRect.value
+    const crop = pageRef.value?.crop
+    const size = sourcePageSize.value
+    if (!crop || !size) return isCropMode.value ? getFullPageRect() : null
+    const displayed = getDisplayedCropRect(crop, size, pageRef.value?.rotation ?? 0)
+    const s = overlayScale.value
+    return {
+      left: displayed.x * s.x,
+      top: displayed.y * s.y,
+      width: displayed.width * s.x,
+      height: displayed.height * s.y,
+    }
+  })
+
+  // --- Helpers ---
+
+  function clamp(val: number, min: number, max: number) {
+    return Math.min(max, Math.max(min, val))
+  }
+
+  function getFullPageRect(): Rect {
+    const bounds = cachedBounds.value || overlayMetrics.value
+    return { left: 0, top: 0, width: bounds.width, height: bounds.height }
+  }
+
+  function getPoint(e: PointerEvent): Point {
+    const rect = cachedBounds.value || overlayMetrics.value
+    return {
+      x: clamp(e.clientX - rect.left, 0, rect.width),
+      y: clamp(e.clientY - rect.top, 0, rect.height),
+    }
+  }
+
+  function toSourceCrop(rect: Rect): PageCrop | null {
+    const size = sourcePageSize.value
+    if (!size) return null
+    const s = overlayScale.value
+    const displayed = {
+      x: rect.left / s.x,
+      y: rect.top / s.y,
+      width: rect.width / s.x,
+      height: rect.height / s.y,
+    }
+    const crop = clampPageCrop(
+      getSourceCropRect(displayed, size, pageRef.value?.rotation ?? 0),
+      size,
+    )
+    return isFullPageCrop(crop, size) ? null : crop
+  }
+
+  function hasMeaningfulChange(prev: PageCrop | null | undefined, next: PageCrop | null) {
+    if (!prev || !next) return !!prev !== !!next
+    return (
+      Math.abs(prev.x - next.x) > CROP_CHANGE_EPSILON ||
+      Math.abs(prev.y - next.y) > CROP_CHANGE_EPSILON ||
+      Math.abs(prev.width - next.width) > CROP_CHANGE_EPSILON ||
+      Math.abs(prev.height - next.height) > CROP_CHANGE_EPSILON
+    )
+  }
+
+  function commitCrop(next: PageCrop | null) {
+    const page = pageRef.value
+    if (!page || !hasMeaningfulChange(page.crop, next)) return
+    actions.cropPages([page.id], next)
+  }
+
+  // --- Actions ---
+
+  function startDrag(e: PointerEvent, handle: CropHandle | 'move') {
+    if (!isCropMode.value || e.button !== 0) return
+    e.stopPropagation()
+    e.preventDefault()
+
+    syncOverlayMetrics?.()
+    if (overlayRef.value) {
+      cachedBounds.value = overlayRef.value.getBoundingClientRect()
+      overlayRef.value.setPointerCapture(e.pointerId)
+    }
+    const start = cropRect.value ?? getFullPageRect()
+    activeHandle.value = handle
+    dragStartPoint.value = getPoint(e)
+    dragStartRect.value = { ...start }
+    draftRect.value = { ...start }
+  }
+
+  function handlePointerMove(e: PointerEvent) {
+    const handle = activeHandle.value
+    if (!handle || !dragStartPoint.value || !dragStartRect.value) return
+
+    const point = getPoint(e)
+    const dx = point.x - dragStartPoint.value.x
+    const dy = point.y - dragStartPoint.value.y
+    const bounds = cachedBounds.value || overlayMetrics.value
+    const start = dragStartRect.value
+
+    if (handle === 'move') {
+      draftRect.value = {
+        left: clamp(start.left + dx, 0, bounds.width - start.width),
+        top: clamp(start.top + dy, 0, bounds.height - start.height),
+        width: start.width,
+        height: start.height,
+      }
+      return
+    }
+
+    // Each handle moves its own edges; the opposite edges stay in place.
+    const minWidth = MIN_PAGE_CROP_SIZE * overlayScale.value.x
+    const minHeight = MIN_PAGE_CROP_SIZE * overlayScale.value.y
+    let left = start.left
+    let top = start.top
+    let right = start.left + start.width
+    let bottom = start.top + start.height
+
+    if (handle.includes('w')) left = clamp(left + dx, 0, right - minWidth)
+    if (handle.includes('e')) right = clamp(right + dx, left + minWidth, bounds.width)
+    if (handle.includes('n')) top = clamp(top + dy, 0, bottom - minHeight)
+    if (handle.includes('s')) bottom = clamp(bottom + dy, top + minHeight, bounds.height)
+
+    draftRect.value = { left, top, width: right - left, height: bottom - top }
+  }
+
+  function handlePointerUp(e: PointerEvent) {
+    if (!activeHandle.value) return
+    overlayRef.value?.releasePointerCapture(e.pointerId)
+    if (draftRect.value) commitCrop(toSourceCrop(draftRect.value))
+    cancelInteraction()
+  }
+
+  function cancelInteraction() {
+    activeHandle.value = null
+    dragStartPoint.value = null
+    dragStartRect.value = null
+    draftRect.value = null
+    cachedBounds.value = null
+  }
+
+  function resetCrop() {
+    cancelInteraction()
+    commitCrop(null)
+  }
+
+  /** Crops the page to its rendered content plus a small margin */
+  async function autoCrop() {
+    const page = pageRef.value
+    if (!page || isDetecting.value) return
+
+    isDetecting.value = true
+    cropError.value = null
+    try {
+      const crop = await detectPageContentCrop(page)
+      // The preview may have moved on while the page was rendering.
+      if (pageRef.value?.id !== page.id) return
+      if (!crop) {
+        cropError.value = 'No content found on this page'
+        return
+      }
+      const size = sourcePageSize.value
+      commitCrop(size && isFullPageCrop(crop, size) ? null : crop)
+    } catch {
+      cropError.value = 'Could not detect the page content'
+    } finally {
+      isDetecting.value = false
+    }
+  }
+
+  function resetCropState() {
+    cancelInteraction()
+    cropError.value = null
+  }
+
+  function toggleCropMode() {
+    isCropMode.value = !isCropMode.value
+    resetCropState()
+  }
+
+  return {
+    isCropMode,
+    isDetecting,
+    cropError,
+    hasCrop,
+    cropRect,
+
+    startDrag,
+    handlePointerMove,
+    handlePointerUp,
+
+    autoCrop,
+    resetCrop,
+    toggleCropMode,
+    resetCropState,
+  }
+}
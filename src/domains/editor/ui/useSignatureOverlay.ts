@@ -0,0 +1,310 @@
+import { computed, ref, shallowRef, type Ref, watch } from 'vue'
+import type { DocumentActions } from '@/domains/editor/application/useDocumentActions'
+import { getDefaultSignaturePlacement } from '@/domains/document/domain'
+import type { PageReference, PageSignature, SavedSignature } from '@/shared/types'
+import { cloneSignatureArtwork } from '@/shared/utils/document-clone'
+
+// --- Types ---
+type Size = { width: number; height: number }
+type Point = { x: number; y: number }
+type Rect = { left: number; top: number; width: number; height: number }
+type Handle = 'nw' | 'ne' | 'sw' | 'se'
+
+type UseSignatureOverlayOptions = {
+  pageRef: Readonly<Ref<PageReference | null>>
+  pageSignatures: Readonly<Ref<PageSignature[]>>
+  pageSize: Readonly<Ref<Size | null>>
+  overlayRef: Readonly<Ref<HTMLDivElement | null>>
+  overlayMetrics: Readonly<Ref<Rect>>
+  actions: DocumentActions
+  syncOverlayMetrics?: () => void
+}
+
+const SIGNATURE_MIN_SIZE_PX = 12
+const SIGNATURE_CHANGE_EPSILON = 0.1
+
+export function useSignatureOverlay(options: UseSignatureOverlayOptions) {
+  const {
+    pageRef,
+    pageSignatures,
+    pageSize,
+    overlayRef,
+    overlayMetrics,
+    actions,
+    syncOverlayMetrics,
+  } = options
+
+  // --- State ---
+  const isSignMode = shallowRef(false)
+  /** Library signature waiting to be dropped on the page */
+  const pendingSignature = shallowRef<SavedSignature | null>(null)
+  const interactionMode = shallowRef<'move' | 'resize' | null>(null)
+  const cachedBounds = ref<DOMRect | null>(null)
+
+  const selectedId = shallowRef<string | null>(null)
+  const activeHandle = shallowRef<Handle | null>(null)
+  const dragStartPoint = ref<Point | null>(null)
+  const dragStartRect = ref<Rect | null>(null)
+  const draftRect = ref<Rect | null>(null)
+
+  // --- Computed ---
+
+  const selectedSignature = computed(
+    () => pageSignatures.value.find((signature) => signature.id === selectedId.value) ?? null,
+  )
+  const hasSelectedSignature = computed(() => selectedSignature.value !== null)
+
+  const overlayScale = computed(() => {
+    const size = pageSize.value
+    const width = cachedBounds.value?.width || overlayMetrics.value.width || 1
+    const height = cachedBounds.value?.height || overlayMetrics.value.height || 1
+    if (!size || size.width <= 0) return { x: 1, y: 1 }
+    return { x: width / size.width, y: height / size.height }
+  })
+
+  const overlayCursor = computed(() => {
+    if (!isSignMode.value) return 'default'
+    if (interactionMode.value === 'move') return 'grabbing'
+    return pendingSignature.value ? 'copy' : 'default'
+  })
+
+  watch(pageSignatures, (next) => {
+    if (selectedId.value && !next.some((signature) => signature.id === selectedId.value)) {
+      selectedId.value = null
+      cancelInteraction()
+    }
+  })
+
+  // --- Helpers ---
+
+  function clamp(val: number, min: number, max: number) {
+    return Math.min(max, Math.max(min, val))
+  }
+
+  function getPoint(e: PointerEvent): Point {
+    const rect = cachedBounds.value || overlayMetrics.value
+    return {
+      x: clamp(e.clientX - rect.left, 0, rect.width),
+      y: clamp(e.clientY - rect.top, 0, rect.height),
+    }
+  }
+
+  function toPdfRect(rect: Rect) {
+    const s = overlayScale.value
+    return {
+      x: rect.left / s.x,
+      y: rect.top / s.y,
+      width: rect.width / s.x,
+      height: rect.height / s.y,
+    }
+  }
+
+  function toOverlayRect(signature: PageSignature): Rect {
+    const s = overlayScale.value
+    return {
+      left: signature.x * s.x,
+      top: signature.y * s.y,
+      width: signature.width * s.x,
+      height: signature.height * s.y,
+    }
+  }
+
+  function getSignatureRect(signature: PageSignature): Rect {
+    if (draftRect.value && selectedId.value === signature.id && interactionMode.value) {
+      return draftRect.value
+    }
+    return toOverlayRect(signature)
+  }
+
+  function hasMeaningfulGeometryChange(prev: PageSignature, next: PageSignature): boolean {
+    return (
+      Math.abs(prev.x - next.x) > SIGNATURE_CHANGE_EPSILON ||
+      Math.abs(prev.y - next.y) > SIGNATURE_CHANGE_EPSILON ||
+      Math.abs(prev.width - next.width) > SIGNATURE_CHANGE_EPSILON ||
+      Math.abs(prev.height - next.height) > SIGNATURE_CHANGE_EPSILON
+    )
+  }
+
+  function capturePointer(e: PointerEvent) {
+    syncOverlayMetrics?.()
+    if (overlayRef.value) {
+      cachedBounds.value = overlayRef.value.getBoundingClientRect()
+      overlayRef.value.setPointerCapture(e.pointerId)
+    }
+  }
+
+  // --- Actions ---
+
+  function armSignature(signature: SavedSignature) {
+    pendingSignature.value = signature
+    selectedId.value = null
+  }
+
+  /** Drops the pending signature centered on the pointer, or clears the selection */
+  function handleLayerPointerDown(e: PointerEvent) {
+    if (!isSignMode.value || e.button !== 0) return
+    e.preventDefault()
+
+    const saved = pendingSignature.value
+    const size = pageSize.value
+    if (!saved || !size || !pageRef.value) {
+      selectedId.value = null
+      return
+    }
+
+    syncOverlayMetrics?.()
+    cachedBounds.value = overlayRef.value?.getBoundingClientRect() ?? null
+    const point = getPoint(e)
+    const s = overlayScale.value
+    const box = getDefaultSignaturePlacement(saved, size)
+    const signature: PageSignature = {
+      id: crypto.randomUUID(),
+      signatureId: saved.id,
+      x: clamp(point.x / s.x - box.width / 2, 0, size.width - box.width),
+      y: clamp(point.y / s.y - box.height / 2, 0, size.height - box.height),
+      width: box.width,
+      height: box.height,
+      artwork: cloneSignatureArtwork(saved),
+    }
+    actions.addSignature(pageRef.value.id, signature)
+    pendingSignature.value = null
+    selectedId.value = signature.id
+    cachedBounds.value = null
+  }
+
+  function startMove(e: PointerEvent, signature: PageSignature) {
+    if (!isSignMode.value || e.button !== 0) return
+    e.stopPropagation()
+    e.preventDefault()
+
+    selectedId.value = signature.id
+    capturePointer(e)
+    interactionMode.value = 'move'
+    dragStartPoint.value = getPoint(e)
+    dragStartRect.value = toOverlayRect(signature)
+    draftRect.value = { ...dragStartRect.value }
+  }
+
+  function startResize(e: PointerEvent, handle: Handle, signature: PageSignature) {
+    if (!isSignMode.value) return
+    e.stopPropagation()
+    e.preventDefault()
+
+    selectedId.value = signature.id
+    capturePointer(e)
+    interactionMode.value = 'resize'
+    activeHandle.value = handle
+    dragStartPoint.value = getPoint(e)
+    dragStartRect.value = toOverlayRect(signature)
+    draftRect.value = { ...dragStartRect.value }
+  }
+
+  function handlePointerMove(e: PointerEvent) {
+    if (!interactionMode.value || !dragStartPoint.value || !dragStartRect.value) return
+
+    const point = getPoint(e)
+    const dx = point.x - dragStartPoint.value.x
+    const dy = point.y - dragStartPoint.value.y
+    const bounds = cachedBounds.value || overlayMetrics.value
+    const start = dragStartRect.value
+
+    if (interactionMode.value === 'move') {
+      draftRect.value = {
+        left: clamp(start.left + dx, 0, bounds.width - start.width),
+        top: clamp(start.top + dy, 0, bounds.height - start.height),
+        width: start.width,
+        height: start.height,
+      }
+      return
+    }
+
+    // Resizing keeps the artwork aspect ratio and the opposite corner in place.
+    const handle = activeHandle.value
+    const fromLeft = handle === 'nw' || handle === 'sw'
+    const fromTop = handle === 'nw' || handle === 'ne'
+    const aspect = start.height / Math.max(start.width, 1)
+    const right = start.left + start.width
+    const bottom = start.top + start.height
+    const maxWidth = Math.min(
+      fromLeft ? right : bounds.width - start.left,
+      (fromTop ? bottom : bounds.height - start.top) / aspect,
+    )
+    const grow = Math.max(fromLeft ? -dx : dx, (fromTop ? -dy : dy) / aspect)
+    const width = clamp(start.width + grow, SIGNATURE_MIN_SIZE_PX, maxWidth)
+    const height = width * aspect
+    draftRect.value = {
+      left: fromLeft ? right - width : start.left,
+      top: fromTop ? bottom - height : start.top,
+      width,
+      height,
+    }
+  }
+
+  function handlePointerUp(e: PointerEvent) {
+    if (!interactionMode.value) return
+    overlayRef.value?.releasePointerCapture(e.pointerId)
+
+    const prev = selectedSignature.value
+    if (draftRect.value && prev && pageRef.value) {
+      const next = { ...prev, ...toPdfRect(draftRect.value) }
+      if (hasMeaningfulGeometryChange(prev, next)) {
+        actions.updateSignature(pageRef.value.id, prev, next)
+      }
+    }
+
+    cancelInteraction()
+  }
+
+  function cancelInteraction() {
+    interactionMode.value = null
+    activeHandle.value = null
+    dragStartPoint.value = null
+    dragStartRect.value = null
+    draftRect.value = null
+    cachedBounds.value = null
+  }
+
+  function clearSelection() {
+    selectedId.value = null
+    pendingSignature.value = null
+  }
+
+  function resetSignatureState() {
+    cancelInteraction()
+    clearSelection()
+  }
+
+  function deleteSelectedSignature() {
+    const signature = selectedSignature.value
+    if (!pageRef.value || !signature) return
+    actions.deleteSignature(pageRef.value.id, signature)
+    selectedId.value = null
+  }
+
+  function toggleSignMode() {
+    isSignMode.value = !isSignMode.value
+    resetSignatureState()
+  }
+
+  return {
+    isSignMode,
+    pendingSignature,
+    selectedId,
+    hasSelectedSignature,
+    overlayCursor,
+
+    armSignature,
+    handleLayerPointerDown,
+    startMove,
+    startResize,
+    handlePointerMove,
+    handlePointerUp,
+
+    getSignatureRect,
+    deleteSelectedSignature,
+    toggleSignMode,
+
+    clearSelection,
+    resetSignatureState,
+  }
+}
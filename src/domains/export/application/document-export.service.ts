@@ -5,14 +5,29 @@ import type { Result } from '@/shared/types/result'
 import type { JobState } from '@/shared/types/jobs'
 import { usePdfCompression } from '@/domains/export/application/usePdfCompression'
 import {
+  encryptPdfBytes,
+  generateFrontMatterPdf,
   generateRawPdf as generateRawPdfCore,
+  getFrontMatterPageCount,
+  getSplitExportFrontMatter,
+  hasHeaderFooterContent,
+  isPdfAExport,
+  isWatermarkActive,
   parsePageRange,
+  renderPageImage,
+  resolveImageFilenames,
+  resolvePdfEncryptionOptions,
   resolvePagesToExport,
+  resolveSegmentStartNumbers,
+  resolveSegmentWatermarks,
   splitPagesIntoSegments,
   validatePageRange,
   type ExportOptions,
   type ExportResult,
+  type FrontMatterTemplate,
   type GeneratorOptions,
+  type HeaderFooterDocumentContext,
+  type ImageExportOptions,
 } from '@/domains/export/domain/export'
 import {
   getExportErrorMessage,
@@ -70,6 +85,7 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
         bookmarks: store.outlineTree,
         pageIdToDocIndex,
         outline: options.outline,
+        formValues: store.formValues,
       })
       return { ok: true, value: pdfBytes }
     } catch (error) {
@@ -78,8 +94,101 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
     }
   }
 
+  /**
+   * Front matter as a standalone PDF, numbered as if it were placed before
+   * all content pages. Entries are not linked.
+   */
+  async function generateFrontMatter(
+    template: FrontMatterTemplate,
+    pageSize?: { width: number; height: number },
+  ): Promise<Result<Uint8Array>> {
+    try {
+      const pdfBytes = await generateFrontMatterPdf({
+        template,
+        metadata: {
+          ...store.metadata,
+          title: store.metadata.title.trim() || store.projectTitle,
+        },
+        date: new Date(),
+        outline: store.outlineTree,
+        pageIdToIndex: new Map(store.contentPages.map((page, index) => [page.id, index])),
+        pageSize,
+      })
+      return { ok: true, value: pdfBytes }
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Could not generate front matter'
+      return { ok: false, error: { message, cause: error } }
+    }
+  }
+
+  function getSourceFilenames(): Record<string, string> {
+    return Object.fromEntries(Array.from(store.sources, ([id, source]) => [id, source.filename]))
+  }
+
+  /** Renders pages to images and bundles them in one ZIP; dividers are skipped. */
+  async function exportImages(
+    pages: PageReference[],
+    filename: string,
+    image: ImageExportOptions,
+  ): Promise<ExportResult> {
+    const zip = new JSZip()
+    const filenames = resolveImageFilenames(pages, {
+      pattern: image.filenamePattern,
+      name: filename,
+      format: image.format,
+      sourceFilenames: getSourceFilenames(),
+    })
+
+    for (let i = 0; i < pages.length; i++) {
+      const page = pages[i]
+      const imageFilename = filenames[i]
+      if (!page || !imageFilename) continue
+
+      const bytes = await renderPageImage(page, { ...image, getPdfDocument })
+      zip.file(imageFilename, bytes)
+      updateExportProgress(Math.round(((i + 1) / pages.length) * EXPORT_PROGRESS.ZIP_MAX))
+    }
+
+    updateExportProgress(EXPORT_PROGRESS.ZIP_FINALIZE)
+    const zipContent = await zip.generateAsync({ type: 'uint8array' })
+    return {
+      filename: `${filename}.zip`,
+      mimeType: 'application/zip',
+      bytes: zipContent,
+      size: zipContent.byteLength,
+    }
+  }
+
   async function exportDocument(options: ExportOptions): Promise<Result<ExportResult>> {
-    const { filename, pageRange, metadata, compress, outline } = options
+    const {
+      filename,
+      pageRange,
+      metadata,
+      compress,
+      outline,
+      redactionMode,
+      pageNumbering,
+      flattenForms,
+      flattenAnnotations,
+      imposition,
+      frontMatter,
+    } = options
+    const watermark = isWatermarkActive(options.watermark) ? options.watermark : null
+    const headerFooter = hasHeaderFooterContent(options.headerFooter) ? options.headerFooter : null
+    const headerFooterContext: HeaderFooterDocumentContext | undefined = headerFooter
+      ? {
+          title: metadata?.title ?? store.projectTitle,
+          author: metadata?.author ?? '',
+          date: new Date(),
+          sourceFilenames: getSourceFilenames(),
+        }
+      : undefined
+    // PDF/A forbids encryption, and Ghostscript would drop the PDF/A structures.
+    const isPdfA = isPdfAExport(metadata)
+    const encryption = isPdfA ? null : resolvePdfEncryptionOptions(options.security)
+    const compressionQuality =
+      isPdfA || options.compressionQuality === 'none' ? undefined : options.compressionQuality
+    const usesCompression = Boolean(compressionQuality)
     const pageIdToDocIndex = new Map(store.contentPages.map((page, index) => [page.id, index]))
 
     const pagesToExport: PageEntry[] = resolvePagesToExport({
@@ -105,8 +214,24 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
     setExportJob({ status: 'running', progress: PROGRESS.MIN, error: null })
 
     try {
+      if (options.image) {
+        const result = await exportImages(segments.flat(), filename, options.image)
+        updateExportProgress(PROGRESS.COMPLETE)
+        setExportJob({ status: 'success', progress: PROGRESS.COMPLETE, error: null })
+        return { ok: true, value: result }
+      }
+
       if (segments.length > 1) {
         const zip = new JSZip()
+        const zipFrontMatter = frontMatter ? getSplitExportFrontMatter(frontMatter) : null
+        const segmentStartNumbers = pageNumbering
+          ? resolveSegmentStartNumbers(
+              segments,
+              pageNumbering,
+              zipFrontMatter ? getFrontMatterPageCount(zipFrontMatter, 0, 0) : 0,
+            )
+          : []
+        const segmentWatermarks = watermark ? resolveSegmentWatermarks(segments, watermark) : []
 
         for (let i = 0; i < segments.length; i++) {
           const segmentPages = segments[i]
@@ -121,6 +246,21 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
             bookmarks: store.outlineTree,
             pageIdToDocIndex,
             outline,
+            redactionMode,
+            pageNumbering: pageNumbering && {
+              ...pageNumbering,
+              startNumber: segmentStartNumbers[i] ?? pageNumbering.startNumber,
+            },
+            watermark: segmentWatermarks[i] ?? null,
+            headerFooter,
+            headerFooterContext,
+            // Front matter opens the first file only.
+            frontMatter: i === 0 ? zipFrontMatter : null,
+            flattenForms,
+            formValues: store.formValues,
+            flattenAnnotations,
+            imposition,
+            encryption,
           })
 
           zip.file(`${filename}-part${i + 1}.pdf`, pdfBytes)
@@ -153,10 +293,9 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
         metadata,
         compress,
         onProgress: (val) => {
-          const scaledProgress =
-            options.compressionQuality && options.compressionQuality !== 'none'
-              ? Math.round(val * EXPORT_PROGRESS.COMPRESSION_SCALE)
-              : val
+          const scaledProgress = usesCompression
+            ? Math.round(val * EXPORT_PROGRESS.COMPRESSION_SCALE)
+            : val
           updateExportProgress(scaledProgress)
         },
         getPdfBlob,
@@ -164,6 +303,18 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
         bookmarks: store.outlineTree,
         pageIdToDocIndex,
         outline,
+        redactionMode,
+        pageNumbering,
+        watermark,
+        headerFooter,
+        headerFooterContext,
+        frontMatter,
+        flattenForms,
+        formValues: store.formValues,
+        flattenAnnotations,
+        imposition,
+        // Ghostscript rewrites the file, so encryption runs after compression instead.
+        encryption: usesCompression ? null : encryption,
       })
 
       let originalSize = pdfBytes.byteLength
@@ -189,12 +340,12 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
         originalSize = getEstimatedSize(segmentPages)
       }
 
-      if (options.compressionQuality && options.compressionQuality !== 'none') {
+      if (compressionQuality) {
         updateExportProgress(EXPORT_PROGRESS.COMPRESSION_START)
         let result
         try {
           result = await compression.compressPdf(pdfBytes, {
-            quality: options.compressionQuality,
+            quality: compressionQuality,
           })
         } catch (error) {
           throw makeExportError(
@@ -216,6 +367,21 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
           compressionRatio = 1 - pdfBytes.byteLength / originalSize
         }
         updateExportProgress(EXPORT_PROGRESS.COMPRESSION_END)
+
+        if (encryption) {
+          try {
+            pdfBytes = await encryptPdfBytes(pdfBytes, encryption)
+          } catch (error) {
+            throw makeExportError(
+              'EXPORT_ENCRYPTION_FAILED',
+              getExportErrorMessage(
+                'EXPORT_ENCRYPTION_FAILED',
+                error instanceof Error ? error.message : undefined,
+              ),
+              error,
+            )
+          }
+        }
       }
 
       updateExportProgress(PROGRESS.COMPLETE)
@@ -258,7 +424,8 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
   }
 
   function getSuggestedFilename(): string {
-    const sources = store.sourceFileList
+    // Generated blank pages do not count as a file the document is named after.
+    const sources = store.sourceFileList.filter((source) => !source.isBlankSource)
     const defaultName =
       sources.length === 0
         ? 'document'
@@ -309,6 +476,7 @@ export function createDocumentExportService(deps: ExportServiceDeps) {
   return {
     exportDocument,
     generateRawPdf,
+    generateFrontMatter,
     clearExportError,
     getSuggestedFilename,
     getEstimatedSize,
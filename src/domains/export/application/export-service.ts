@@ -8,6 +8,7 @@ import type { PageReference } from '@/shared/types'
 import type {
   ExportOptions,
   ExportResult,
+  FrontMatterTemplate,
   GeneratorOptions,
   parsePageRange,
   validatePageRange,
@@ -42,6 +43,11 @@ export interface ExportService {
     pages: PageReference[],
     options?: GeneratorOptions & { outline?: ExportOptions['outline'] },
   ): Promise<Result<Uint8Array>>
+  /** Cover and contents pages for the current document, to insert as pages */
+  generateFrontMatter(
+    template: FrontMatterTemplate,
+    pageSize?: { width: number; height: number },
+  ): Promise<Result<Uint8Array>>
   clearExportError(): void
   getSuggestedFilename(): string
   getEstimatedSize(pagesToEstimate?: ReadonlyArray<PageReference>): number
@@ -53,4 +59,4 @@ export interface ExportService {
   dispose(): void
 }
 
-export type { ExportOptions, ExportResult, GeneratorOptions }
+export type { ExportOptions, ExportResult, FrontMatterTemplate, GeneratorOptions }
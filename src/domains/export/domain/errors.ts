@@ -13,6 +13,7 @@ const EXPORT_MESSAGES: Record<ExportErrorCode, string> = {
   EXPORT_NO_PAGES: 'No pages to export',
   EXPORT_SOURCE_MISSING: 'A source file is missing',
   EXPORT_COMPRESSION_FAILED: 'Compression failed. Try exporting without compression.',
+  EXPORT_ENCRYPTION_FAILED: 'Encryption failed. Check the security settings and try again.',
   EXPORT_FAILED: 'Export failed',
 }
 
@@ -0,0 +1,392 @@
+import {
+  PDFHexString,
+  PDFName,
+  PDFString,
+  StandardFonts,
+  appendBezierCurve,
+  beginText,
+  closePath,
+  drawObject,
+  endText,
+  fill,
+  fillAndStroke,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  setFillingRgbColor,
+  setFontAndSize,
+  setGraphicsState,
+  setLineWidth,
+  setStrokingRgbColor,
+  setTextMatrix,
+  showText,
+  stroke,
+  type PDFDocument,
+  type PDFFont,
+  type PDFOperator,
+  type PDFPage,
+  type PDFRef,
+} from 'pdf-lib'
+import type { AnnotationBox, PageAnnotation } from '@/shared/types'
+import type { ExportPageTransform } from '@/domains/export/domain/export-links'
+import { createViewToUserSpace } from '@/domains/export/domain/export-redaction'
+import { isolatePageContent, toEncodableText } from '@/domains/export/domain/export-page-overlay'
+
+/**
+ * Page annotations on export. Every annotation gets an appearance stream
+ * drawn in page user space, so the same drawing is either attached as a
+ * real PDF annotation or painted into the page content when flattening.
+ */
+
+export interface AnnotationPlacement {
+  /** Crop box of the page the annotations were drawn on, before resizing */
+  cropBox: { x: number; y: number; width: number; height: number }
+  /** Editor rotation the annotation coordinates were captured with */
+  rotation: number
+  /** Resize applied to the page content after copying */
+  transform: ExportPageTransform
+}
+
+type Rgb = [number, number, number]
+type Point = [number, number]
+export type PointMapper = (viewX: number, viewY: number) => Point
+type UserRect = [number, number, number, number]
+
+const FONT_RESOURCE = 'Helv'
+const OPACITY_RESOURCE = 'GS0'
+const HIGHLIGHT_OPACITY = 0.4
+const SHAPE_LINE_WIDTH = 2
+const FREE_TEXT_PADDING = 2
+const FREE_TEXT_LINE_HEIGHT = 1.2
+const DEFAULT_FREE_TEXT_SIZE = 12
+// Line positions as a fraction of the text box height, measured from the top.
+const UNDERLINE_POSITION = 0.82
+const STRIKEOUT_POSITION = 0.55
+// Control point distance for a quarter ellipse drawn with one cubic curve.
+const KAPPA = 0.5523
+const NOTE_BORDER: Rgb = [0.3, 0.3, 0.3]
+const NOTE_LINES = [0.35, 0.55, 0.75]
+
+const SUBTYPES: Record<PageAnnotation['kind'], string> = {
+  note: 'Text',
+  highlight: 'Highlight',
+  underline: 'Underline',
+  strikeout: 'StrikeOut',
+  freeText: 'FreeText',
+  rectangle: 'Square',
+  ellipse: 'Circle',
+}
+
+const annotationFonts = new WeakMap<PDFDocument, Promise<PDFFont>>()
+
+function getAnnotationFont(pdfDoc: PDFDocument): Promise<PDFFont> {
+  let font = annotationFonts.get(pdfDoc)
+  if (!font) {
+    font = pdfDoc.embedFont(StandardFonts.Helvetica)
+    annotationFonts.set(pdfDoc, font)
+  }
+  return font
+}
+
+export function parseColor(color: string): Rgb {
+  const match = /^#?([0-9a-f]{6})$/i.exec(color.trim())
+  if (!match?.[1]) return [0, 0, 0]
+  const value = Number.parseInt(match[1], 16)
+  return [((value >> 16) & 0xff) / 255, ((value >> 8) & 0xff) / 255, (value & 0xff) / 255]
+}
+
+/** Maps editor points of a page into the user space of the exported page */
+export function createPointMapper(placement: AnnotationPlacement): PointMapper {
+  const toUserSpace = createViewToUserSpace(placement.cropBox, placement.rotation)
+  const { scale, x, y } = placement.transform
+  return (viewX, viewY) => {
+    const [userX, userY] = toUserSpace(viewX, viewY)
+    return [userX * scale + x, userY * scale + y]
+  }
+}
+
+function getCorners(box: AnnotationBox, map: PointMapper): Point[] {
+  return [
+    map(box.x, box.y),
+    map(box.x + box.width, box.y),
+    map(box.x + box.width, box.y + box.height),
+    map(box.x, box.y + box.height),
+  ]
+}
+
+function getUserRect(box: AnnotationBox, map: PointMapper): UserRect {
+  const corners = getCorners(box, map)
+  const xs = corners.map(([x]) => x)
+  const ys = corners.map(([, y]) => y)
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)]
+}
+
+function polygon(points: Point[]): PDFOperator[] {
+  const [first, ...rest] = points
+  if (!first) return []
+  return [moveTo(...first), ...rest.map((point) => lineTo(...point)), closePath()]
+}
+
+function segment(from: Point, to: Point, map: PointMapper): PDFOperator[] {
+  return [moveTo(...map(...from)), lineTo(...map(...to))]
+}
+
+function ellipse(box: AnnotationBox, map: PointMapper): PDFOperator[] {
+  const rx = box.width / 2
+  const ry = box.height / 2
+  const cx = box.x + rx
+  const cy = box.y + ry
+  const ox = rx * KAPPA
+  const oy = ry * KAPPA
+  const curve = (a: Point, b: Point, c: Point) =>
+    appendBezierCurve(...map(...a), ...map(...b), ...map(...c))
+
+  return [
+    moveTo(...map(cx + rx, cy)),
+    curve([cx + rx, cy + oy], [cx + ox, cy + ry], [cx, cy + ry]),
+    curve([cx - ox, cy + ry], [cx - rx, cy + oy], [cx - rx, cy]),
+    curve([cx - rx, cy - oy], [cx - ox, cy - ry], [cx, cy - ry]),
+    curve([cx + ox, cy - ry], [cx + rx, cy - oy], [cx + rx, cy]),
+    closePath(),
+  ]
+}
+
+function inset(box: AnnotationBox, amount: number): AnnotationBox {
+  return {
+    x: box.x + amount,
+    y: box.y + amount,
+    width: Math.max(0, box.width - amount * 2),
+    height: Math.max(0, box.height - amount * 2),
+  }
+}
+
+/** Splits text into lines that fit `maxWidth`; words longer than a line overflow */
+function wrapText(font: PDFFont, text: string, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  for (const paragraph of text.split(/\r?\n/)) {
+    let current = ''
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = current ? `${current} ${word}` : word
+      if (current && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+        lines.push(current)
+        current = word
+      } else {
+        current = candidate
+      }
+    }
+    lines.push(current)
+  }
+  return lines
+}
+
+function drawTextMarkup(
+  annotation: PageAnnotation,
+  map: PointMapper,
+  scale: number,
+): PDFOperator[] {
+  const color = parseColor(annotation.color)
+  const boxes = annotation.boxes?.length ? annotation.boxes : [annotation]
+
+  if (annotation.kind === 'highlight') {
+    return [
+      setGraphicsState(OPACITY_RESOURCE),
+      setFillingRgbColor(...color),
+      ...boxes.flatMap((box) => polygon(getCorners(box, map))),
+      fill(),
+    ]
+  }
+
+  const position = annotation.kind === 'underline' ? UNDERLINE_POSITION : STRIKEOUT_POSITION
+  const operators: PDFOperator[] = [setStrokingRgbColor(...color)]
+  for (const box of boxes) {
+    const y = box.y + box.height * position
+    operators.push(
+      setLineWidth(Math.max(0.75, box.height / 16) * scale),
+      ...segment([box.x, y], [box.x + box.width, y], map),
+      stroke(),
+    )
+  }
+  return operators
+}
+
+function drawShape(annotation: PageAnnotation, map: PointMapper, scale: number): PDFOperator[] {
+  const box = inset(annotation, SHAPE_LINE_WIDTH / 2)
+  return [
+    setStrokingRgbColor(...parseColor(annotation.color)),
+    setLineWidth(SHAPE_LINE_WIDTH * scale),
+    ...(annotation.kind === 'ellipse' ? ellipse(box, map) : polygon(getCorners(box, map))),
+    stroke(),
+  ]
+}
+
+function drawNote(annotation: PageAnnotation, map: PointMapper, scale: number): PDFOperator[] {
+  const { x, y, width, height } = annotation
+  const margin = width * 0.25
+  return [
+    setFillingRgbColor(...parseColor(annotation.color)),
+    setStrokingRgbColor(...NOTE_BORDER),
+    setLineWidth(scale),
+    ...polygon(getCorners(inset(annotation, 0.5), map)),
+    fillAndStroke(),
+    ...NOTE_LINES.flatMap((row) =>
+      segment([x + margin, y + height * row], [x + width - margin, y + height * row], map),
+    ),
+    stroke(),
+  ]
+}
+
+function drawFreeText(annotation: PageAnnotation, font: PDFFont, map: PointMapper): PDFOperator[] {
+  const size = annotation.fontSize ?? DEFAULT_FREE_TEXT_SIZE
+  const ascent = font.heightAtSize(size, { descender: false })
+  const left = annotation.x + FREE_TEXT_PADDING
+  const bottom = annotation.y + annotation.height
+  const lines = wrapText(
+    font,
+    toEncodableText(font, annotation.text ?? ''),
+    size,
+    Math.max(0, annotation.width - FREE_TEXT_PADDING * 2),
+  )
+
+  const operators: PDFOperator[] = [
+    beginText(),
+    setFillingRgbColor(...parseColor(annotation.color)),
+    setFontAndSize(FONT_RESOURCE, size),
+  ]
+  lines.forEach((text, index) => {
+    const baseline =
+      annotation.y + FREE_TEXT_PADDING + ascent + index * size * FREE_TEXT_LINE_HEIGHT
+    if (!text || baseline > bottom) return
+    // Glyphs run along the displayed page's x axis, upright as in the editor.
+    const [originX, originY] = map(left, baseline)
+    const [alongX, alongY] = map(left + 1, baseline)
+    const [upX, upY] = map(left, baseline - 1)
+    operators.push(
+      setTextMatrix(
+        alongX - originX,
+        alongY - originY,
+        upX - originX,
+        upY - originY,
+        originX,
+        originY,
+      ),
+      showText(font.encodeText(text)),
+    )
+  })
+  operators.push(endText())
+  return operators
+}
+
+function createAppearance(
+  pdfDoc: PDFDocument,
+  operators: PDFOperator[],
+  rect: UserRect,
+  font: PDFFont | null,
+): PDFRef {
+  const { context } = pdfDoc
+  const resources = context.obj({
+    ExtGState: { [OPACITY_RESOURCE]: { Type: 'ExtGState', ca: HIGHLIGHT_OPACITY, BM: 'Multiply' } },
+  })
+  if (font) resources.set(PDFName.of('Font'), context.obj({ [FONT_RESOURCE]: font.ref }))
+
+  return context.register(context.formXObject(operators, { BBox: rect, Resources: resources }))
+}
+
+function createAnnotationDict(
+  pdfDoc: PDFDocument,
+  annotation: PageAnnotation,
+  rect: UserRect,
+  appearance: PDFRef,
+  map: PointMapper,
+): PDFRef {
+  const { context } = pdfDoc
+  const dict = context.obj({
+    Type: 'Annot',
+    Subtype: SUBTYPES[annotation.kind],
+    Rect: rect,
+    C: parseColor(annotation.color),
+    F: 4,
+    AP: { N: appearance },
+  })
+  dict.set(PDFName.of('NM'), PDFString.of(annotation.id))
+  if (annotation.text) dict.set(PDFName.of('Contents'), PDFHexString.fromText(annotation.text))
+
+  switch (annotation.kind) {
+    case 'note':
+      dict.set(PDFName.of('Name'), PDFName.of('Comment'))
+      break
+    case 'freeText': {
+      const [r, g, b] = parseColor(annotation.color)
+      const size = annotation.fontSize ?? DEFAULT_FREE_TEXT_SIZE
+      dict.set(PDFName.of('DA'), PDFString.of(`/${FONT_RESOURCE} ${size} Tf ${r} ${g} ${b} rg`))
+      break
+    }
+    case 'rectangle':
+    case 'ellipse':
+      dict.set(PDFName.of('BS'), context.obj({ W: SHAPE_LINE_WIDTH }))
+      break
+    default: {
+      // Text markup: upper-left, upper-right, lower-left, lower-right per box, as displayed.
+      const boxes = annotation.boxes?.length ? annotation.boxes : [annotation]
+      const quadPoints = boxes.flatMap((box) => [
+        ...map(box.x, box.y),
+        ...map(box.x + box.width, box.y),
+        ...map(box.x, box.y + box.height),
+        ...map(box.x + box.width, box.y + box.height),
+      ])
+      dict.set(PDFName.of('QuadPoints'), context.obj(quadPoints))
+    }
+  }
+
+  return context.register(dict)
+}
+
+/**
+ * Adds the editor annotations of one page. With `flatten` the appearances
+ * are painted into the page content and no annotation objects are created.
+ */
+export async function addPageAnnotations(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  annotations: readonly PageAnnotation[],
+  placement: AnnotationPlacement,
+  options: { flatten?: boolean } = {},
+): Promise<void> {
+  const visible = annotations.filter((annotation) => annotation.width > 0 && annotation.height > 0)
+  if (visible.length === 0) return
+
+  const map = createPointMapper(placement)
+  const { scale } = placement.transform
+  const font = visible.some((annotation) => annotation.kind === 'freeText')
+    ? await getAnnotationFont(pdfDoc)
+    : null
+
+  if (options.flatten) isolatePageContent(pdfDoc, page)
+
+  for (const annotation of visible) {
+    const rect = getUserRect(annotation, map)
+    let operators: PDFOperator[]
+    switch (annotation.kind) {
+      case 'note':
+        operators = drawNote(annotation, map, scale)
+        break
+      case 'freeText':
+        operators = font ? drawFreeText(annotation, font, map) : []
+        break
+      case 'rectangle':
+      case 'ellipse':
+        operators = drawShape(annotation, map, scale)
+        break
+      default:
+        operators = drawTextMarkup(annotation, map, scale)
+    }
+
+    const appearance = createAppearance(pdfDoc, operators, rect, font)
+    if (options.flatten) {
+      const name = page.node.newXObject('FluxAnnot', appearance)
+      page.pushOperators(pushGraphicsState(), drawObject(name), popGraphicsState())
+    } else {
+      page.node.addAnnot(createAnnotationDict(pdfDoc, annotation, rect, appearance, map))
+    }
+  }
+}
@@ -0,0 +1,36 @@
+import type { PDFPage } from 'pdf-lib'
+import type { PageCrop } from '@/shared/types'
+import { createViewToUserSpace } from '@/domains/export/domain/export-redaction'
+
+/**
+ * Page crops shrink the MediaBox and CropBox to the kept region. Content
+ * outside stays in the file and user space is unchanged, so overlays and
+ * links keep mapping through the original crop box.
+ */
+
+/** Resolves a crop (unrotated, top-left origin) to a rectangle in the page's user space */
+export function resolveCropRect(
+  crop: PageCrop,
+  cropBox: { x: number; y: number; width: number; height: number },
+): { x: number; y: number; width: number; height: number } | null {
+  const toUserSpace = createViewToUserSpace(cropBox, 0)
+  const [x0, y0] = toUserSpace(crop.x, crop.y + crop.height)
+  const [x1, y1] = toUserSpace(crop.x + crop.width, crop.y)
+
+  const left = Math.max(cropBox.x, Math.min(x0, x1))
+  const bottom = Math.max(cropBox.y, Math.min(y0, y1))
+  const right = Math.min(cropBox.x + cropBox.width, Math.max(x0, x1))
+  const top = Math.min(cropBox.y + cropBox.height, Math.max(y0, y1))
+  if (right - left <= 0 || top - bottom <= 0) return null
+
+  return { x: left, y: bottom, width: right - left, height: top - bottom }
+}
+
+export function applyPageCrop(pdfPage: PDFPage, crop?: PageCrop | null): void {
+  if (!crop) return
+  const rect = resolveCropRect(crop, pdfPage.getCropBox())
+  if (!rect) return
+
+  pdfPage.setMediaBox(rect.x, rect.y, rect.width, rect.height)
+  pdfPage.setCropBox(rect.x, rect.y, rect.width, rect.height)
+}
@@ -0,0 +1,337 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFString,
+  type PDFContext,
+  type PDFObject,
+} from 'pdf-lib'
+import type { PdfEncryptionAlgorithm, SecurityMetadata } from '@/shared/types'
+import {
+  aesCbcEncryptNoPadding,
+  aesEncryptWithIv,
+  concatBytes,
+  randomBytes,
+  rc4,
+} from '@/shared/utils/pdf-crypto'
+import {
+  computeHardenedHash,
+  computeLegacyFileKey,
+  computeObjectKey,
+  computeOwnerEntry,
+  computeUserEntry,
+  encodeUtf8Password,
+  padPassword,
+  toHex,
+} from '@/shared/utils/pdf-standard-security'
+
+export const DEFAULT_ENCRYPTION_ALGORITHM: PdfEncryptionAlgorithm = 'aes-256'
+
+export interface PdfEncryptionOptions {
+  algorithm: PdfEncryptionAlgorithm
+  userPassword: string
+  ownerPassword: string
+  permissions: {
+    printing: boolean
+    copying: boolean
+    modifying: boolean
+  }
+}
+
+const LEGACY_KEY_LENGTH = 16
+const AES_256_KEY_LENGTH = 32
+const LEGACY_REVISION = 3
+
+// Permission bits are 1-based in the specification.
+const PERMISSION_PRINT = 1 << 2
+const PERMISSION_MODIFY = 1 << 3
+const PERMISSION_COPY = 1 << 4
+const PERMISSION_ANNOTATE = 1 << 5
+const PERMISSION_FILL_FORMS = 1 << 8
+const PERMISSION_ACCESSIBILITY = 1 << 9
+const PERMISSION_ASSEMBLE = 1 << 10
+const PERMISSION_PRINT_HIGH_QUALITY = 1 << 11
+/** Bits 7-8 and 13-32 are reserved and must be set for revision 3 and later. */
+const PERMISSION_RESERVED = 0xfffff0c0
+
+type ObjectCipher = (ref: PDFRef, data: Uint8Array) => Promise<Uint8Array>
+
+type EncryptDictLiteral = {
+  [name: string]: PDFObject | EncryptDictLiteral | number | string | boolean
+}
+
+interface SecurityHandler {
+  encryptDict: EncryptDictLiteral
+  cipher: ObjectCipher
+}
+
+/**
+ * Turns the project security settings into encryption options, or null when
+ * the export should stay unencrypted. Without passwords the file still opens
+ * freely, but any restricted permission is enforced by a generated owner
+ * password.
+ */
+export function resolvePdfEncryptionOptions(
+  security?: SecurityMetadata | null,
+): PdfEncryptionOptions | null {
+  if (!security?.isEncrypted) return null
+
+  const userPassword = security.userPassword ?? ''
+  const ownerPassword = security.ownerPassword ?? ''
+  const permissions = {
+    printing: security.allowPrinting,
+    copying: security.allowCopying,
+    modifying: security.allowModifying,
+  }
+  const restrictsAccess = !permissions.printing || !permissions.copying || !permissions.modifying
+  if (!userPassword && !ownerPassword && !restrictsAccess) return null
+
+  return {
+    algorithm: security.encryptionAlgorithm ?? DEFAULT_ENCRYPTION_ALGORITHM,
+    userPassword,
+    ownerPassword,
+    permissions,
+  }
+}
+
+export function computePermissionFlags(permissions: PdfEncryptionOptions['permissions']): number {
+  let flags = PERMISSION_RESERVED | PERMISSION_ACCESSIBILITY
+  if (permissions.printing) flags |= PERMISSION_PRINT | PERMISSION_PRINT_HIGH_QUALITY
+  if (permissions.copying) flags |= PERMISSION_COPY
+  if (permissions.modifying) {
+    flags |= PERMISSION_MODIFY | PERMISSION_ANNOTATE | PERMISSION_FILL_FORMS | PERMISSION_ASSEMBLE
+  }
+  return flags | 0
+}
+
+/**
+ * Applies the standard security handler to every string and stream of the
+ * document. Must run right before `save()`, which has to be called with
+ * `useObjectStreams: false` because object streams would wrap the already
+ * encrypted strings.
+ */
+export async function encryptPdfDocument(
+  pdfDocument: PDFDocument,
+  options: PdfEncryptionOptions,
+): Promise<void> {
+  const context = pdfDocument.context
+  const fileId = resolveFileId(context)
+  const handler = await createSecurityHandler(options, fileId)
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (object instanceof PDFStream) {
+      await encryptStrings(object.dict, ref, handler.cipher)
+      const contents = await handler.cipher(ref, object.getContents())
+      context.assign(ref, PDFRawStream.of(object.dict, contents))
+      continue
+    }
+
+    const encrypted = await encryptStrings(object, ref, handler.cipher)
+    if (encrypted !== object) {
+      context.assign(ref, encrypted)
+    }
+  }
+
+  context.trailerInfo.Encrypt = context.register(context.obj(handler.encryptDict))
+}
+
+/**
+ * Encrypts an already serialized PDF, e.g. after Ghostscript compression.
+ */
+export async function encryptPdfBytes(
+  bytes: Uint8Array,
+  options: PdfEncryptionOptions,
+): Promise<Uint8Array> {
+  const pdfDocument = await PDFDocument.load(bytes, { updateMetadata: false })
+  await encryptPdfDocument(pdfDocument, options)
+  return await pdfDocument.save({ useObjectStreams: false, addDefaultPage: false })
+}
+
+async function encryptStrings(
+  object: PDFObject,
+  ref: PDFRef,
+  cipher: ObjectCipher,
+): Promise<PDFObject> {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    return PDFHexString.of(toHex(await cipher(ref, object.asBytes())))
+  }
+
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      const encrypted = await encryptStrings(value, ref, cipher)
+      if (encrypted !== value) object.set(key, encrypted)
+    }
+    return object
+  }
+
+  if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      const value = object.get(index)
+      const encrypted = await encryptStrings(value, ref, cipher)
+      if (encrypted !== value) object.set(index, encrypted)
+    }
+  }
+
+  return object
+}
+
+function resolveFileId(context: PDFContext): Uint8Array {
+  const existing = context.lookup(context.trailerInfo.ID)
+  if (existing instanceof PDFArray) {
+    const first = existing.get(0)
+    if (first instanceof PDFString || first instanceof PDFHexString) {
+      return first.asBytes()
+    }
+  }
+
+  const fileId = randomBytes(16)
+  const hex = PDFHexString.of(toHex(fileId))
+  context.trailerInfo.ID = context.obj([hex, hex])
+  return fileId
+}
+
+async function createSecurityHandler(
+  options: PdfEncryptionOptions,
+  fileId: Uint8Array,
+): Promise<SecurityHandler> {
+  const permissions = computePermissionFlags(options.permissions)
+  // Without an owner password the restrictions could be lifted by anyone, so
+  // a random one is generated to keep them enforced.
+  const ownerPassword = options.ownerPassword || toHex(randomBytes(16))
+
+  if (options.algorithm === 'aes-256') {
+    return createAes256Handler(options.userPassword, ownerPassword, permissions)
+  }
+
+  return createLegacyHandler(
+    options.algorithm,
+    options.userPassword,
+    ownerPassword,
+    permissions,
+    fileId,
+  )
+}
+
+/**
+ * Revision 3 (RC4) and revision 4 (AES-128) handlers with a 128-bit key.
+ */
+function createLegacyHandler(
+  algorithm: 'rc4-128' | 'aes-128',
+  userPassword: string,
+  ownerPassword: string,
+  permissions: number,
+  fileId: Uint8Array,
+): SecurityHandler {
+  const ownerEntry = computeOwnerEntry(
+    ownerPassword,
+    userPassword,
+    LEGACY_REVISION,
+    LEGACY_KEY_LENGTH,
+  )
+  const fileKey = computeLegacyFileKey({
+    paddedUserPassword: padPassword(userPassword),
+    ownerEntry,
+    permissions,
+    fileId,
+    revision: LEGACY_REVISION,
+    keyLength: LEGACY_KEY_LENGTH,
+  })
+  // Revisions 3 and 4 share the key derivation; only the cipher differs.
+  const userEntry = computeUserEntry(fileKey, fileId, LEGACY_REVISION)
+  const isAes = algorithm === 'aes-128'
+
+  const cipher: ObjectCipher = async (ref, data) => {
+    const objectKey = computeObjectKey(fileKey, ref.objectNumber, ref.generationNumber, isAes)
+    return isAes ? aesEncryptWithIv(objectKey, data) : rc4(objectKey, data)
+  }
+
+  const baseDict = {
+    Filter: 'Standard',
+    Length: LEGACY_KEY_LENGTH * 8,
+    O: PDFHexString.of(toHex(ownerEntry)),
+    U: PDFHexString.of(toHex(userEntry)),
+    P: permissions,
+  }
+
+  if (!isAes) {
+    return { cipher, encryptDict: { ...baseDict, V: 2, R: 3 } }
+  }
+
+  return {
+    cipher,
+    encryptDict: {
+      ...baseDict,
+      V: 4,
+      R: 4,
+      CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV2', Length: LEGACY_KEY_LENGTH } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+    },
+  }
+}
+
+/**
+ * Revision 6 (AES-256) handler. The file key is random and shared by all
+ * objects; the passwords only wrap it.
+ */
+async function createAes256Handler(
+  userPassword: string,
+  ownerPassword: string,
+  permissions: number,
+): Promise<SecurityHandler> {
+  const fileKey = randomBytes(AES_256_KEY_LENGTH)
+  const user = encodeUtf8Password(userPassword)
+  const owner = encodeUtf8Password(ownerPassword)
+  const zeroIv = new Uint8Array(16)
+
+  const userValidationSalt = randomBytes(8)
+  const userKeySalt = randomBytes(8)
+  const userEntry = concatBytes(
+    await computeHardenedHash(user, userValidationSalt),
+    userValidationSalt,
+    userKeySalt,
+  )
+  const userKey = await computeHardenedHash(user, userKeySalt)
+  const userEncryptedKey = await aesCbcEncryptNoPadding(userKey, zeroIv, fileKey)
+
+  const ownerValidationSalt = randomBytes(8)
+  const ownerKeySalt = randomBytes(8)
+  const ownerEntry = concatBytes(
+    await computeHardenedHash(owner, ownerValidationSalt, userEntry),
+    ownerValidationSalt,
+    ownerKeySalt,
+  )
+  const ownerKey = await computeHardenedHash(owner, ownerKeySalt, userEntry)
+  const ownerEncryptedKey = await aesCbcEncryptNoPadding(ownerKey, zeroIv, fileKey)
+
+  const permsBlock = new Uint8Array(16)
+  new DataView(permsBlock.buffer).setInt32(0, permissions, true)
+  permsBlock.set([0xff, 0xff, 0xff, 0xff], 4)
+  permsBlock.set([0x54, 0x61, 0x64, 0x62], 8) // 'T' (metadata encrypted) + 'adb'
+  permsBlock.set(randomBytes(4), 12)
+  const permsEntry = await aesCbcEncryptNoPadding(fileKey, zeroIv, permsBlock)
+
+  return {
+    cipher: async (_ref, data) => aesEncryptWithIv(fileKey, data),
+    encryptDict: {
+      Filter: 'Standard',
+      V: 5,
+      R: 6,
+      Length: AES_256_KEY_LENGTH * 8,
+      CF: { StdCF: { AuthEvent: 'DocOpen', CFM: 'AESV3', Length: AES_256_KEY_LENGTH } },
+      StmF: 'StdCF',
+      StrF: 'StdCF',
+      O: PDFHexString.of(toHex(ownerEntry)),
+      U: PDFHexString.of(toHex(userEntry)),
+      OE: PDFHexString.of(toHex(ownerEncryptedKey)),
+      UE: PDFHexString.of(toHex(userEncryptedKey)),
+      P: permissions,
+      Perms: PDFHexString.of(toHex(permsEntry)),
+      EncryptMetadata: true,
+    },
+  }
+}
@@ -0,0 +1,381 @@
+import {
+  PDFArray,
+  PDFCheckBox,
+  PDFDict,
+  PDFDropdown,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFObjectCopier,
+  PDFOptionList,
+  PDFRadioGroup,
+  PDFRef,
+  PDFString,
+  PDFTextField,
+  type PDFBool,
+  type PDFDocument,
+  type PDFObject,
+} from 'pdf-lib'
+import type { LinkedExportPage } from '@/domains/export/domain/export-links'
+import type { FormFieldValue } from '@/shared/types'
+
+/**
+ * AcroForm carry-over. Widgets are detached from their field tree when a
+ * source is loaded, so copying a page does not pull in fields from other
+ * pages, and the fields are rebuilt in the output for the widgets that were
+ * actually exported. Top-level names that clash with another source's
+ * fields get a numeric suffix.
+ */
+
+const WIDGET_MARKER = PDFName.of('FluxPdfField')
+const FIELD_TREE_MAX_DEPTH = 32
+
+/** Field attributes that terminal fields inherit from their ancestors */
+const INHERITABLE_FIELD_KEYS = ['FT', 'Ff', 'V', 'DV', 'DA', 'Q'].map((key) => PDFName.of(key))
+/** Field attributes that only apply to the field itself */
+const OWN_FIELD_KEYS = ['Opt', 'MaxLen', 'TU', 'TM', 'TI', 'I', 'Lock', 'SV'].map((key) =>
+  PDFName.of(key),
+)
+/** Field entries removed from merged field/widget dictionaries once copied */
+const WIDGET_FIELD_KEYS = [
+  PDFName.of('T'),
+  PDFName.of('Parent'),
+  PDFName.of('Kids'),
+  ...INHERITABLE_FIELD_KEYS.filter((key) => key !== PDFName.of('DA') && key !== PDFName.of('Q')),
+  ...OWN_FIELD_KEYS,
+]
+
+export interface SourceFormField {
+  /** Fully qualified name in the source document */
+  name: string
+  /** Field attributes, including inherited ones, in the source context */
+  attributes: Map<PDFName, PDFObject>
+}
+
+export interface SourceForm {
+  document: PDFDocument
+  fields: SourceFormField[]
+  defaultAppearance?: PDFObject
+  defaultResources?: PDFDict
+  needAppearances?: PDFBool
+}
+
+function decodeText(value: PDFObject | undefined): string | null {
+  if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText()
+  return null
+}
+
+function collectTerminalFields(
+  node: PDFDict,
+  parentName: string,
+  inherited: Map<PDFName, PDFObject>,
+  visit: (field: SourceFormField, widgets: PDFDict[]) => void,
+  depth = 0,
+): void {
+  if (depth > FIELD_TREE_MAX_DEPTH) return
+  const partial = decodeText(node.lookup(PDFName.of('T')))
+  if (partial === null) return
+
+  const name = parentName ? `${parentName}.${partial}` : partial
+  const attributes = new Map(inherited)
+  for (const key of INHERITABLE_FIELD_KEYS) {
+    const value = node.get(key)
+    if (value) attributes.set(key, value)
+  }
+
+  const kids = node.lookup(PDFName.of('Kids'))
+  const kidDicts =
+    kids instanceof PDFArray
+      ? Array.from({ length: kids.size() }, (_, index) => kids.lookup(index)).filter(
+          (kid): kid is PDFDict => kid instanceof PDFDict,
+        )
+      : []
+  const childFields = kidDicts.filter((kid) => kid.has(PDFName.of('T')))
+
+  if (childFields.length > 0) {
+    for (const child of childFields) {
+      collectTerminalFields(child, name, attributes, visit, depth + 1)
+    }
+    return
+  }
+
+  for (const key of OWN_FIELD_KEYS) {
+    const value = node.get(key)
+    if (value) attributes.set(key, value)
+  }
+  // A terminal field without kids is merged with its only widget.
+  visit({ name, attributes }, kids instanceof PDFArray ? kidDicts : [node])
+}
+
+/**
+ * Reads the source's field tree and tags each widget with its field, so the
+ * field can be rebuilt after the page is copied. Mutates `source`.
+ */
+export function detachFormFields(source: PDFDocument): SourceForm | null {
+  const acroForm = source.catalog.lookup(PDFName.of('AcroForm'))
+  if (!(acroForm instanceof PDFDict)) return null
+  const roots = acroForm.lookup(PDFName.of('Fields'))
+  if (!(roots instanceof PDFArray)) return null
+
+  const fields: SourceFormField[] = []
+  for (let index = 0; index < roots.size(); index++) {
+    const root = roots.lookup(index)
+    if (!(root instanceof PDFDict)) continue
+    collectTerminalFields(root, '', new Map(), (field, widgets) => {
+      for (const widget of widgets) {
+        widget.set(WIDGET_MARKER, PDFNumber.of(fields.length))
+        widget.delete(PDFName.of('Parent'))
+      }
+      fields.push(field)
+    })
+  }
+  if (fields.length === 0) return null
+
+  const defaultResources = acroForm.lookup(PDFName.of('DR'))
+  const needAppearances = acroForm.lookup(PDFName.of('NeedAppearances'))
+  return {
+    document: source,
+    fields,
+    defaultAppearance: acroForm.get(PDFName.of('DA')),
+    defaultResources: defaultResources instanceof PDFDict ? defaultResources : undefined,
+    needAppearances: needAppearances as PDFBool | undefined,
+  }
+}
+
+function applyFieldValue(field: unknown, value: FormFieldValue): void {
+  if (field instanceof PDFCheckBox) {
+    if (value === true) field.check()
+    else field.uncheck()
+    return
+  }
+  if (typeof value !== 'string') return
+
+  if (field instanceof PDFTextField) {
+    field.setText(value || undefined)
+  } else if (field instanceof PDFRadioGroup) {
+    // Values are on-state names, which may differ from the group's /Opt labels.
+    if (value) field.acroField.setValue(PDFName.of(value))
+    else field.clear()
+  } else if (field instanceof PDFDropdown || field instanceof PDFOptionList) {
+    if (value) field.acroField.setValues([PDFHexString.fromText(value)])
+    else field.clear()
+    field.doc.getForm().markFieldAsDirty(field.ref)
+  }
+}
+
+/**
+ * Writes values entered in the editor into the source's fields and
+ * regenerates their appearances. Unknown fields and values a field rejects
+ * (e.g. text over its length limit) are skipped. Mutates `source`.
+ */
+export function fillFormFields(
+  source: PDFDocument,
+  values: Readonly<Record<string, FormFieldValue>>,
+): void {
+  const entries = Object.entries(values)
+  if (entries.length === 0 || !source.catalog.has(PDFName.of('AcroForm'))) return
+
+  const form = source.getForm()
+  for (const [name, value] of entries) {
+    try {
+      applyFieldValue(form.getFieldMaybe(name), value)
+    } catch {
+      // Keep the source value.
+    }
+  }
+  try {
+    form.updateFieldAppearances()
+  } catch {
+    // Fields pdf-lib cannot lay out keep the appearance they were saved with.
+  }
+}
+
+function renameRoot(name: string, root: string): string {
+  const dot = name.indexOf('.')
+  return dot === -1 ? root : `${root}${name.slice(dot)}`
+}
+
+/**
+ * Output names for each source's fields, in source order. A name clashes
+ * when it equals, contains or sits inside a field name from an earlier source.
+ */
+export function resolveFormFieldNames(namesBySource: readonly string[][]): Map<string, string>[] {
+  const taken = new Set<string>()
+  const clashes = (name: string) =>
+    taken.has(name) ||
+    [...taken].some((other) => other.startsWith(`${name}.`) || name.startsWith(`${other}.`))
+
+  return namesBySource.map((names) => {
+    const byRoot = new Map<string, string[]>()
+    for (const name of names) {
+      const root = name.split('.')[0]!
+      byRoot.set(root, [...(byRoot.get(root) ?? []), name])
+    }
+
+    const renamed = new Map<string, string>()
+    for (const [root, group] of byRoot) {
+      let nextRoot = root
+      for (let suffix = 2; group.some((name) => clashes(renameRoot(name, nextRoot))); suffix++) {
+        nextRoot = `${root}_${suffix}`
+      }
+      for (const name of group) renamed.set(name, renameRoot(name, nextRoot))
+    }
+    for (const name of renamed.values()) taken.add(name)
+    return renamed
+  })
+}
+
+function getOrCreateAcroForm(pdfDoc: PDFDocument): { acroForm: PDFDict; fields: PDFArray } {
+  const existing = pdfDoc.catalog.lookup(PDFName.of('AcroForm'))
+  const acroForm = existing instanceof PDFDict ? existing : pdfDoc.context.obj({})
+  if (!(existing instanceof PDFDict)) {
+    pdfDoc.catalog.set(PDFName.of('AcroForm'), pdfDoc.context.register(acroForm))
+  }
+
+  const current = acroForm.lookup(PDFName.of('Fields'))
+  const fields = current instanceof PDFArray ? current : pdfDoc.context.obj([])
+  acroForm.set(PDFName.of('Fields'), fields)
+  return { acroForm, fields }
+}
+
+function mergeDefaults(acroForm: PDFDict, form: SourceForm, copier: PDFObjectCopier): void {
+  if (form.defaultAppearance && !acroForm.has(PDFName.of('DA'))) {
+    acroForm.set(PDFName.of('DA'), copier.copy(form.defaultAppearance))
+  }
+  if (form.needAppearances && !acroForm.has(PDFName.of('NeedAppearances'))) {
+    acroForm.set(PDFName.of('NeedAppearances'), form.needAppearances)
+  }
+  if (!form.defaultResources) return
+
+  const resources = acroForm.lookup(PDFName.of('DR'))
+  if (!(resources instanceof PDFDict)) {
+    acroForm.set(PDFName.of('DR'), copier.copy(form.defaultResources))
+    return
+  }
+
+  // Keep the first source's resource of each name; later sources only add new ones.
+  for (const [category, entries] of form.defaultResources.entries()) {
+    const sourceEntries = form.document.context.lookup(entries)
+    if (!(sourceEntries instanceof PDFDict)) continue
+    const target = resources.lookup(category)
+    if (!(target instanceof PDFDict)) {
+      resources.set(category, copier.copy(sourceEntries))
+      continue
+    }
+    for (const [name, value] of sourceEntries.entries()) {
+      if (!target.has(name)) target.set(name, copier.copy(value))
+    }
+  }
+}
+
+/**
+ * Rebuilds the fields of detached widgets on the exported pages. Widgets
+ * whose pages were left out (or redacted away) take no field data along.
+ */
+export function attachFormFields(
+  pdfDoc: PDFDocument,
+  linkedPages: readonly LinkedExportPage[],
+  sourceForms: ReadonlyMap<string, SourceForm | null>,
+): void {
+  const widgetsBySource = new Map<string, Map<number, PDFRef[]>>()
+
+  for (const { page, sourceFileId } of linkedPages) {
+    const annots = page.node.Annots()
+    const form = sourceForms.get(sourceFileId)
+    if (!annots || !form) continue
+
+    for (let index = 0; index < annots.size(); index++) {
+      const widget = annots.lookup(index)
+      if (!(widget instanceof PDFDict)) continue
+      const marker = widget.lookup(WIDGET_MARKER)
+      if (!(marker instanceof PDFNumber)) continue
+
+      widget.delete(WIDGET_MARKER)
+      for (const key of WIDGET_FIELD_KEYS) widget.delete(key)
+      widget.set(PDFName.of('P'), page.ref)
+
+      const entry = annots.get(index)
+      const ref = entry instanceof PDFRef ? entry : pdfDoc.context.register(widget)
+      if (ref !== entry) annots.set(index, ref)
+
+      const fields = widgetsBySource.get(sourceFileId) ?? new Map<number, PDFRef[]>()
+      const fieldIndex = marker.asNumber()
+      fields.set(fieldIndex, [...(fields.get(fieldIndex) ?? []), ref])
+      widgetsBySource.set(sourceFileId, fields)
+    }
+  }
+  if (widgetsBySource.size === 0) return
+
+  const sources = [...widgetsBySource].flatMap(([sourceFileId, fields]) => {
+    const form = sourceForms.get(sourceFileId)
+    return form ? [{ form, fields }] : []
+  })
+  const names = resolveFormFieldNames(
+    sources.map(({ form, fields }) => [...fields.keys()].map((index) => form.fields[index]!.name)),
+  )
+
+  const { context } = pdfDoc
+  const { acroForm, fields: rootFields } = getOrCreateAcroForm(pdfDoc)
+  const nodes = new Map<string, { ref: PDFRef; kids: PDFArray }>()
+
+  const addNode = (name: string, dict: PDFDict, kids: PDFArray): PDFRef => {
+    const dot = name.lastIndexOf('.')
+    dict.set(PDFName.of('T'), PDFString.of(name.slice(dot + 1)))
+    dict.set(PDFName.of('Kids'), kids)
+    const ref = context.register(dict)
+    if (dot === -1) {
+      rootFields.push(ref)
+    } else {
+      const parent = ensureNode(name.slice(0, dot))
+      dict.set(PDFName.of('Parent'), parent.ref)
+      parent.kids.push(ref)
+    }
+    return ref
+  }
+
+  const ensureNode = (name: string): { ref: PDFRef; kids: PDFArray } => {
+    const existing = nodes.get(name)
+    if (existing) return existing
+    const kids = context.obj([])
+    const node = { ref: addNode(name, context.obj({}), kids), kids }
+    nodes.set(name, node)
+    return node
+  }
+
+  sources.forEach(({ form, fields }, sourceIndex) => {
+    const copier = PDFObjectCopier.for(form.document.context, context)
+    mergeDefaults(acroForm, form, copier)
+
+    for (const [fieldIndex, widgets] of fields) {
+      const field = form.fields[fieldIndex]!
+      const dict = context.obj({})
+      for (const [key, value] of field.attributes) dict.set(key, copier.copy(value))
+
+      const name = names[sourceIndex]?.get(field.name) ?? field.name
+      const ref = addNode(name, dict, context.obj(widgets))
+      for (const widget of widgets) {
+        context.lookup(widget, PDFDict).set(PDFName.of('Parent'), ref)
+      }
+    }
+  })
+}
+
+/**
+ * Draws field appearances into the page content and removes the form.
+ * Fields without an appearance (e.g. unsigned signatures) are dropped.
+ */
+export function flattenFormFields(pdfDoc: PDFDocument): void {
+  if (!pdfDoc.catalog.has(PDFName.of('AcroForm'))) return
+
+  const form = pdfDoc.getForm()
+  try {
+    form.updateFieldAppearances()
+  } catch {
+    // Fields pdf-lib cannot lay out keep the appearance they were saved with.
+  }
+  for (const field of form.getFields()) {
+    const widgets = field.acroField.getWidgets()
+    if (!widgets.every((widget) => widget.getAppearances()?.normal)) form.removeField(field)
+  }
+  form.flatten({ updateFieldAppearances: false })
+}
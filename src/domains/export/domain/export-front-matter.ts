@@ -0,0 +1,336 @@
+import { PDFDocument, PDFName, StandardFonts, rgb, type PDFFont, type PDFPage } from 'pdf-lib'
+import type { DocumentMetadata, OutlineNode } from '@/shared/types'
+import { getPageView, toEncodableText } from '@/domains/export/domain/export-page-overlay'
+
+/**
+ * Cover and table of contents pages generated from the document metadata and
+ * outline. They are placed in front of the exported pages; contents entries
+ * show the final page numbers and link to their target pages.
+ */
+
+export type FrontMatterTemplate = 'cover' | 'toc' | 'cover-toc'
+
+export const FRONT_MATTER_TEMPLATES: Record<
+  FrontMatterTemplate,
+  { label: string; description: string }
+> = {
+  cover: { label: 'Cover', description: 'Title, subject, author and date' },
+  toc: { label: 'Contents', description: 'Outline entries with page numbers' },
+  'cover-toc': { label: 'Cover + contents', description: 'Cover page followed by contents' },
+}
+
+export interface FrontMatterTocEntry {
+  title: string
+  /** Nesting level in the outline, 0 for top-level entries */
+  depth: number
+  /** 0-based index among the exported pages, before front matter is added */
+  pageIndex: number
+}
+
+export interface FrontMatterOptions {
+  template: FrontMatterTemplate
+  metadata: Pick<DocumentMetadata, 'title' | 'author' | 'subject'>
+  date: Date | string
+  outline: readonly OutlineNode[]
+  /** Export index per page id; outline entries on other pages are left out */
+  pageIdToIndex: ReadonlyMap<string, number>
+  /** Label for a final 0-based page index; defaults to the 1-based number */
+  formatPageNumber?: (pageIndex: number) => string
+  /** Size of the generated pages; defaults to the first exported page, else Letter */
+  pageSize?: { width: number; height: number }
+  /** Adds link annotations to contents entries; needs the target pages in the document */
+  links?: boolean
+}
+
+const LETTER_SIZE = { width: 612, height: 792 }
+const MARGIN = 72
+const TITLE_SIZE = 28
+const SUBJECT_SIZE = 14
+const DETAIL_SIZE = 11
+const HEADING_SIZE = 20
+const ENTRY_SIZE = 11
+const ENTRY_LINE_HEIGHT = 20
+const HEADING_SPACE = 48
+const INDENT = 16
+const MAX_INDENT_DEPTH = 4
+const NUMBER_GAP = 12
+const TEXT_COLOR = rgb(0.1, 0.1, 0.1)
+const MUTED_COLOR = rgb(0.4, 0.4, 0.4)
+
+/**
+ * Outline entries that point at exported pages, in reading order. Entries
+ * without an exported target are skipped; their children are kept.
+ */
+export function collectTocEntries(
+  outline: readonly OutlineNode[],
+  pageIdToIndex: ReadonlyMap<string, number>,
+): FrontMatterTocEntry[] {
+  const entries: FrontMatterTocEntry[] = []
+  const walk = (nodes: readonly OutlineNode[], depth: number) => {
+    for (const node of nodes) {
+      const targetId = node.dest.type === 'page' ? node.dest.targetPageId : undefined
+      const pageIndex = targetId ? pageIdToIndex.get(targetId) : undefined
+      const title = node.title.trim()
+      if (pageIndex != null && title) {
+        entries.push({ title, depth, pageIndex })
+        walk(node.children ?? [], depth + 1)
+      } else {
+        walk(node.children ?? [], depth)
+      }
+    }
+  }
+  walk(outline, 0)
+  return entries
+}
+
+/** Contents entries that fit on one page of the given height */
+export function getTocEntriesPerPage(pageHeight: number): number {
+  return Math.max(1, Math.floor((pageHeight - MARGIN * 2 - HEADING_SPACE) / ENTRY_LINE_HEIGHT))
+}
+
+/**
+ * Number of pages the template adds. The contents page is left out when the
+ * outline has no exported entries.
+ */
+export function getFrontMatterPageCount(
+  template: FrontMatterTemplate,
+  tocEntryCount: number,
+  pageHeight: number,
+): number {
+  const coverPages = template === 'toc' ? 0 : 1
+  const tocPages =
+    template === 'cover' || tocEntryCount === 0
+      ? 0
+      : Math.ceil(tocEntryCount / getTocEntriesPerPage(pageHeight))
+  return coverPages + tocPages
+}
+
+/**
+ * Template for exports split into several files. Only the cover is kept:
+ * the first file cannot link to pages in the others, so a contents page
+ * would leave their entries out.
+ */
+export function getSplitExportFrontMatter(
+  template: FrontMatterTemplate,
+): FrontMatterTemplate | null {
+  return template === 'toc' ? null : 'cover'
+}
+
+/**
+ * Inserts the front matter at the start of the document and returns the
+ * number of pages added. Contents page numbers already include those pages.
+ */
+export async function insertFrontMatter(
+  pdfDoc: PDFDocument,
+  options: FrontMatterOptions,
+): Promise<number> {
+  const { template } = options
+  const firstPage = pdfDoc.getPageCount() > 0 ? pdfDoc.getPage(0) : null
+  const size = options.pageSize ?? (firstPage ? getPageView(firstPage) : LETTER_SIZE)
+  const entries =
+    template === 'cover' ? [] : collectTocEntries(options.outline, options.pageIdToIndex)
+  const frontCount = getFrontMatterPageCount(template, entries.length, size.height)
+  if (frontCount === 0) return 0
+
+  const regular = await pdfDoc.embedFont(StandardFonts.Helvetica)
+  const bold = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+  const frontPages = Array.from({ length: frontCount }, (_, index) =>
+    pdfDoc.insertPage(index, [size.width, size.height]),
+  )
+
+  let tocPages = frontPages
+  if (template !== 'toc') {
+    const [coverPage, ...rest] = frontPages
+    if (coverPage) drawCover(coverPage, options, regular, bold)
+    tocPages = rest
+  }
+
+  const formatPageNumber = options.formatPageNumber ?? ((index: number) => String(index + 1))
+  const perPage = getTocEntriesPerPage(size.height)
+  tocPages.forEach((page, pageNumber) => {
+    const pageEntries = entries.slice(pageNumber * perPage, (pageNumber + 1) * perPage)
+    drawTocPage(pdfDoc, page, pageEntries, {
+      regular,
+      bold,
+      frontCount,
+      formatPageNumber,
+      links: options.links !== false,
+    })
+  })
+
+  return frontCount
+}
+
+/**
+ * Standalone PDF with only the front matter, for pages added to the document
+ * itself. Its contents entries are not linked.
+ */
+export async function generateFrontMatterPdf(
+  options: Omit<FrontMatterOptions, 'links'>,
+): Promise<Uint8Array> {
+  const pdfDoc = await PDFDocument.create()
+  if (options.metadata.title) pdfDoc.setTitle(options.metadata.title)
+  const pageCount = await insertFrontMatter(pdfDoc, { ...options, links: false })
+  if (pageCount === 0) {
+    throw new Error('The outline has no entries that point to pages')
+  }
+  return pdfDoc.save({ addDefaultPage: false })
+}
+
+function formatCoverDate(value: Date | string): string {
+  const date = value instanceof Date ? value : new Date(value)
+  if (Number.isNaN(date.getTime())) return String(value)
+  return date.toLocaleDateString('en-US', { year: 'numeric', month: 'long', day: 'numeric' })
+}
+
+/** Splits text into lines no wider than `maxWidth`; overlong words stay whole */
+function wrapText(text: string, font: PDFFont, size: number, maxWidth: number): string[] {
+  const lines: string[] = []
+  let line = ''
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word
+    if (line && font.widthOfTextAtSize(candidate, size) > maxWidth) {
+      lines.push(line)
+      line = word
+    } else {
+      line = candidate
+    }
+  }
+  if (line) lines.push(line)
+  return lines
+}
+
+/** Shortens text with an ellipsis until it fits `maxWidth` */
+function fitText(text: string, font: PDFFont, size: number, maxWidth: number): string {
+  if (font.widthOfTextAtSize(text, size) <= maxWidth) return text
+  let end = text.length
+  while (end > 0 && font.widthOfTextAtSize(`${text.slice(0, end)}...`, size) > maxWidth) end--
+  return `${text.slice(0, end).trimEnd()}...`
+}
+
+function drawCentered(
+  page: PDFPage,
+  text: string,
+  y: number,
+  font: PDFFont,
+  size: number,
+  color = TEXT_COLOR,
+) {
+  const width = font.widthOfTextAtSize(text, size)
+  page.drawText(text, { x: (page.getWidth() - width) / 2, y, size, font, color })
+}
+
+function drawCover(page: PDFPage, options: FrontMatterOptions, regular: PDFFont, bold: PDFFont) {
+  const { metadata } = options
+  const maxWidth = page.getWidth() - MARGIN * 2
+  let y = page.getHeight() * 0.62
+
+  const title = toEncodableText(bold, metadata.title.trim() || 'Untitled document')
+  for (const line of wrapText(title, bold, TITLE_SIZE, maxWidth)) {
+    drawCentered(page, line, y, bold, TITLE_SIZE)
+    y -= TITLE_SIZE * 1.25
+  }
+
+  const subject = toEncodableText(regular, metadata.subject.trim())
+  if (subject) {
+    y -= SUBJECT_SIZE * 0.5
+    for (const line of wrapText(subject, regular, SUBJECT_SIZE, maxWidth)) {
+      drawCentered(page, line, y, regular, SUBJECT_SIZE, MUTED_COLOR)
+      y -= SUBJECT_SIZE * 1.4
+    }
+  }
+
+  const details = [metadata.author.trim(), formatCoverDate(options.date)].filter(Boolean)
+  details.forEach((detail, index) => {
+    const text = fitText(toEncodableText(regular, detail), regular, DETAIL_SIZE, maxWidth)
+    drawCentered(
+      page,
+      text,
+      MARGIN + (details.length - 1 - index) * DETAIL_SIZE * 1.6,
+      regular,
+      DETAIL_SIZE,
+    )
+  })
+}
+
+function drawTocPage(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  entries: readonly FrontMatterTocEntry[],
+  style: {
+    regular: PDFFont
+    bold: PDFFont
+    frontCount: number
+    formatPageNumber: (pageIndex: number) => string
+    links: boolean
+  },
+) {
+  const { regular, bold } = style
+  const right = page.getWidth() - MARGIN
+  let y = page.getHeight() - MARGIN - HEADING_SIZE
+
+  page.drawText('Contents', { x: MARGIN, y, size: HEADING_SIZE, font: bold, color: TEXT_COLOR })
+  y -= HEADING_SPACE - HEADING_SIZE + ENTRY_SIZE
+
+  for (const entry of entries) {
+    const font = entry.depth === 0 ? bold : regular
+    const x = MARGIN + Math.min(entry.depth, MAX_INDENT_DEPTH) * INDENT
+    const finalIndex = entry.pageIndex + style.frontCount
+    const pageLabel = toEncodableText(regular, style.formatPageNumber(finalIndex))
+    const labelWidth = regular.widthOfTextAtSize(pageLabel, ENTRY_SIZE)
+    const title = fitText(
+      toEncodableText(font, entry.title),
+      font,
+      ENTRY_SIZE,
+      right - labelWidth - NUMBER_GAP - x,
+    )
+
+    page.drawText(title, { x, y, size: ENTRY_SIZE, font, color: TEXT_COLOR })
+    page.drawText(pageLabel, {
+      x: right - labelWidth,
+      y,
+      size: ENTRY_SIZE,
+      font: regular,
+      color: TEXT_COLOR,
+    })
+
+    // Leader dots between the title and the page number.
+    const leaderStart = x + font.widthOfTextAtSize(title, ENTRY_SIZE) + NUMBER_GAP / 2
+    const leaderEnd = right - labelWidth - NUMBER_GAP / 2
+    const dotWidth = regular.widthOfTextAtSize(' .', ENTRY_SIZE)
+    const dots = Math.floor((leaderEnd - leaderStart) / dotWidth)
+    if (dots > 0) {
+      page.drawText(' .'.repeat(dots), {
+        x: leaderEnd - dots * dotWidth,
+        y,
+        size: ENTRY_SIZE,
+        font: regular,
+        color: MUTED_COLOR,
+      })
+    }
+
+    const target = style.links ? pdfDoc.getPages()[finalIndex] : undefined
+    if (target) {
+      addPageLink(pdfDoc, page, target, [x, y - ENTRY_SIZE * 0.3, right, y + ENTRY_SIZE])
+    }
+    y -= ENTRY_LINE_HEIGHT
+  }
+}
+
+function addPageLink(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  target: PDFPage,
+  rect: [number, number, number, number],
+) {
+  const { context } = pdfDoc
+  const link = context.obj({
+    Type: 'Annot',
+    Subtype: 'Link',
+    Rect: rect,
+    Border: [0, 0, 0],
+    F: 4,
+    Dest: [target.ref, PDFName.of('Fit')],
+  })
+  page.node.addAnnot(context.register(link))
+}
@@ -0,0 +1,143 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import type { HeaderFooterFont, HeaderFooterSettings, HeaderFooterSlots } from '@/shared/types'
+import type { PageStampAnchor } from '@/domains/export/domain/export-types'
+import {
+  drawAnchoredText,
+  isolatePageContent,
+  toEncodableText,
+} from '@/domains/export/domain/export-page-overlay'
+
+export const HEADER_FOOTER_TOKENS = [
+  'page',
+  'total',
+  'title',
+  'author',
+  'date',
+  'source_filename',
+] as const
+
+export type HeaderFooterToken = (typeof HEADER_FOOTER_TOKENS)[number]
+
+export interface HeaderFooterTokenContext {
+  /** 1-based page number within the exported file */
+  page: number
+  total: number
+  title: string
+  author: string
+  date: Date | string
+  sourceFilename: string
+}
+
+/** Document-level token values; page values are filled in per page. */
+export type HeaderFooterDocumentContext = Pick<
+  HeaderFooterTokenContext,
+  'title' | 'author' | 'date'
+> & {
+  /** File name per source file id, for `{source_filename}` */
+  sourceFilenames: Readonly<Record<string, string>>
+}
+
+const TOKEN_REGEX = /\{(page|total|title|author|date|source_filename)\}/gi
+
+const STANDARD_FONTS: Record<HeaderFooterFont, StandardFonts> = {
+  helvetica: StandardFonts.Helvetica,
+  times: StandardFonts.TimesRoman,
+  courier: StandardFonts.Courier,
+}
+
+const SLOT_ANCHORS: Array<{
+  row: 'header' | 'footer'
+  slot: keyof HeaderFooterSlots
+  anchor: PageStampAnchor
+}> = [
+  { row: 'header', slot: 'left', anchor: 'top-left' },
+  { row: 'header', slot: 'center', anchor: 'top-center' },
+  { row: 'header', slot: 'right', anchor: 'top-right' },
+  { row: 'footer', slot: 'left', anchor: 'bottom-left' },
+  { row: 'footer', slot: 'center', anchor: 'bottom-center' },
+  { row: 'footer', slot: 'right', anchor: 'bottom-right' },
+]
+
+function toDateToken(value: Date | string): string {
+  const date = value instanceof Date ? value : new Date(value)
+  return Number.isNaN(date.getTime()) ? String(value) : date.toISOString().slice(0, 10)
+}
+
+export function formatHeaderFooterText(
+  template: string,
+  context: HeaderFooterTokenContext,
+): string {
+  return template
+    .replace(TOKEN_REGEX, (_, token: string) => {
+      const normalizedToken = token.toLowerCase() as HeaderFooterToken
+
+      if (normalizedToken === 'page') return String(context.page)
+      if (normalizedToken === 'total') return String(context.total)
+      if (normalizedToken === 'title') return context.title
+      if (normalizedToken === 'author') return context.author
+      if (normalizedToken === 'date') return toDateToken(context.date)
+      if (normalizedToken === 'source_filename') return context.sourceFilename
+      return ''
+    })
+    .trim()
+}
+
+export function hasHeaderFooterContent(
+  settings: HeaderFooterSettings | null | undefined,
+): settings is HeaderFooterSettings {
+  if (!settings?.enabled) return false
+  return SLOT_ANCHORS.some(({ row, slot }) => settings[row][slot].trim().length > 0)
+}
+
+/**
+ * Resolved slot texts for one page, keyed by anchor. Empty slots and the
+ * suppressed first page yield no entries.
+ */
+export function resolveHeaderFooterTexts(
+  settings: HeaderFooterSettings,
+  context: HeaderFooterTokenContext,
+): Array<{ anchor: PageStampAnchor; text: string }> {
+  if (settings.skipFirstPage && context.page === 1) return []
+
+  return SLOT_ANCHORS.flatMap(({ row, slot, anchor }) => {
+    const text = formatHeaderFooterText(settings[row][slot], context)
+    return text ? [{ anchor, text }] : []
+  })
+}
+
+/**
+ * Stamps header and footer slots on every page. `pageSourceIds` lists the
+ * source file of each output page, in order.
+ */
+export async function stampHeaderFooter(
+  pdfDoc: PDFDocument,
+  settings: HeaderFooterSettings,
+  context: HeaderFooterDocumentContext & { pageSourceIds: readonly string[] },
+): Promise<void> {
+  if (!hasHeaderFooterContent(settings)) return
+
+  const font = await pdfDoc.embedFont(STANDARD_FONTS[settings.font] ?? StandardFonts.Helvetica)
+  const pages = pdfDoc.getPages()
+
+  pages.forEach((page, index) => {
+    const sourceId = context.pageSourceIds[index]
+    const texts = resolveHeaderFooterTexts(settings, {
+      page: index + 1,
+      total: pages.length,
+      title: context.title,
+      author: context.author,
+      date: context.date,
+      sourceFilename: (sourceId && context.sourceFilenames[sourceId]) || '',
+    })
+    if (texts.length === 0) return
+
+    isolatePageContent(pdfDoc, page)
+    for (const { anchor, text } of texts) {
+      drawAnchoredText(page, font, toEncodableText(font, text), {
+        anchor,
+        margin: settings.margin,
+        fontSize: settings.fontSize,
+      })
+    }
+  })
+}
@@ -0,0 +1,100 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { PageReference } from '@/shared/types'
+import { formatFilenamePattern } from '@/shared/utils/filename-pattern'
+import type {
+  ImageExportFormat,
+  ImageExportOptions,
+} from '@/domains/export/domain/export-types'
+import { canvasToBytes, renderPageToCanvas } from '@/domains/export/domain/export-page-raster'
+
+const POINTS_PER_INCH = 72
+
+export const IMAGE_EXPORT_DPI_RANGE = { min: 36, max: 600 } as const
+
+export const DEFAULT_IMAGE_EXPORT: ImageExportOptions = {
+  format: 'png',
+  dpi: 150,
+  quality: 0.9,
+  filenamePattern: '{name}-{page}',
+}
+
+export const IMAGE_EXPORT_FORMATS: Record<
+  ImageExportFormat,
+  { mimeType: string; extension: string; label: string }
+> = {
+  png: { mimeType: 'image/png', extension: 'png', label: 'PNG' },
+  jpeg: { mimeType: 'image/jpeg', extension: 'jpg', label: 'JPEG' },
+  webp: { mimeType: 'image/webp', extension: 'webp', label: 'WebP' },
+}
+
+const PAGE_TOKEN_REGEX = /\{page\}/gi
+
+/**
+ * File names for exported page images, in page order. `{page}` is the
+ * zero-padded position in the export; patterns without it get the number
+ * appended so names stay unique.
+ */
+export function resolveImageFilenames(
+  pages: readonly Pick<PageReference, 'sourceFileId'>[],
+  options: {
+    pattern: string
+    name: string
+    format: ImageExportFormat
+    sourceFilenames: Readonly<Record<string, string>>
+    date?: Date
+  },
+): string[] {
+  const digits = String(pages.length).length
+  const pattern = options.pattern.trim() || DEFAULT_IMAGE_EXPORT.filenamePattern
+  const hasPageToken = /\{page\}/i.test(pattern)
+  const extension = IMAGE_EXPORT_FORMATS[options.format].extension
+  const used = new Set<string>()
+
+  return pages.map((page, index) => {
+    const pageToken = String(index + 1).padStart(digits, '0')
+    let base = formatFilenamePattern(pattern.replace(PAGE_TOKEN_REGEX, pageToken), {
+      originalName: options.sourceFilenames[page.sourceFileId] ?? options.name,
+      name: options.name,
+      date: options.date,
+    })
+    if (!hasPageToken) base = `${base}-${pageToken}`
+
+    let filename = `${base}.${extension}`
+    for (let copy = 2; used.has(filename.toLowerCase()); copy++) {
+      filename = `${base}-${copy}.${extension}`
+    }
+    used.add(filename.toLowerCase())
+    return filename
+  })
+}
+
+/**
+ * Renders one page as displayed in the editor: rotated, letterboxed into its
+ * target size and with redaction marks painted over the content.
+ */
+export async function renderPageImage(
+  pageRef: PageReference,
+  options: Pick<ImageExportOptions, 'format' | 'dpi' | 'quality'> & {
+    getPdfDocument: (sourceFileId: string) => Promise<PDFDocumentProxy>
+  },
+): Promise<Uint8Array> {
+  const { canvas } = await renderPageToCanvas(pageRef, {
+    getPdfDocument: options.getPdfDocument,
+    scale: options.dpi / POINTS_PER_INCH,
+    redactions: pageRef.redactions,
+    fitToTarget: true,
+  })
+
+  try {
+    const { mimeType } = IMAGE_EXPORT_FORMATS[options.format]
+    return await canvasToBytes(
+      canvas,
+      mimeType,
+      options.format === 'png' ? undefined : options.quality,
+    )
+  } finally {
+    // Release the backing store right away; high DPI pages are large.
+    canvas.width = 0
+    canvas.height = 0
+  }
+}
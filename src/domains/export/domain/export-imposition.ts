@@ -0,0 +1,235 @@
+import { PDFDocument, PDFName, degrees, rgb, type PDFPage } from 'pdf-lib'
+import type {
+  ImpositionLayout,
+  ImpositionOptions,
+  ImpositionSheetSize,
+} from '@/domains/export/domain/export-types'
+import { getPageView } from '@/domains/export/domain/export-page-overlay'
+
+export const IMPOSITION_SHEET_SIZES: Record<
+  ImpositionSheetSize,
+  { label: string; width: number; height: number }
+> = {
+  letter: { label: 'Letter', width: 612, height: 792 },
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  tabloid: { label: 'Tabloid', width: 792, height: 1224 },
+  a3: { label: 'A3', width: 841.89, height: 1190.55 },
+}
+
+export const IMPOSITION_LAYOUTS: Record<
+  ImpositionLayout,
+  { label: string; columns: number; rows: number; landscape: boolean }
+> = {
+  '2-up': { label: '2-up', columns: 2, rows: 1, landscape: true },
+  '4-up': { label: '4-up', columns: 2, rows: 2, landscape: false },
+  '9-up': { label: '9-up', columns: 3, rows: 3, landscape: false },
+  booklet: { label: 'Booklet', columns: 2, rows: 1, landscape: true },
+}
+
+export const DEFAULT_IMPOSITION: ImpositionOptions = {
+  layout: '2-up',
+  sheetSize: 'letter',
+  gutter: 18,
+  margin: 18,
+  cropMarks: false,
+}
+
+const CROP_MARK_OFFSET = 3
+const CROP_MARK_LENGTH = 12
+const CROP_MARK_THICKNESS = 0.25
+
+export interface ImpositionCell {
+  x: number
+  y: number
+  width: number
+  height: number
+  /** Horizontal placement of a page narrower than its cell */
+  align: 'start' | 'center' | 'end'
+}
+
+/**
+ * Groups items onto sheet sides, in output order. `null` marks a blank slot:
+ * the tail of the last N-up sheet, or booklet padding to a multiple of four.
+ */
+export function planImpositionSides<T>(
+  items: readonly T[],
+  layout: ImpositionLayout,
+): Array<Array<T | null>> {
+  if (items.length === 0) return []
+
+  if (layout === 'booklet') {
+    const count = Math.ceil(items.length / 4) * 4
+    const at = (index: number): T | null => items[index] ?? null
+    const sides: Array<Array<T | null>> = []
+    for (let sheet = 0; sheet < count / 4; sheet++) {
+      const front = 2 * sheet
+      sides.push([at(count - 1 - front), at(front)])
+      sides.push([at(front + 1), at(count - 2 - front)])
+    }
+    return sides
+  }
+
+  const { columns, rows } = IMPOSITION_LAYOUTS[layout]
+  const perSide = columns * rows
+  const sides: Array<Array<T | null>> = []
+  for (let start = 0; start < items.length; start += perSide) {
+    const side: Array<T | null> = items.slice(start, start + perSide)
+    while (side.length < perSide) side.push(null)
+    sides.push(side)
+  }
+  return sides
+}
+
+export function getImpositionSheet(options: ImpositionOptions): { width: number; height: number } {
+  const paper = IMPOSITION_SHEET_SIZES[options.sheetSize] ?? IMPOSITION_SHEET_SIZES.letter
+  const short = Math.min(paper.width, paper.height)
+  const long = Math.max(paper.width, paper.height)
+  return IMPOSITION_LAYOUTS[options.layout].landscape
+    ? { width: long, height: short }
+    : { width: short, height: long }
+}
+
+/** Cells in reading order (left to right, top to bottom), bottom-left origin. */
+export function getImpositionCells(options: ImpositionOptions): ImpositionCell[] {
+  const { columns, rows } = IMPOSITION_LAYOUTS[options.layout]
+  const sheet = getImpositionSheet(options)
+  const margin = Math.max(0, options.margin)
+  const gutter = Math.max(0, options.gutter)
+  const width = Math.max(0, (sheet.width - 2 * margin - gutter * (columns - 1)) / columns)
+  const height = Math.max(0, (sheet.height - 2 * margin - gutter * (rows - 1)) / rows)
+
+  const cells: ImpositionCell[] = []
+  for (let row = 0; row < rows; row++) {
+    for (let column = 0; column < columns; column++) {
+      cells.push({
+        x: margin + column * (width + gutter),
+        y: sheet.height - margin - height - row * (height + gutter),
+        width,
+        height,
+        // Booklet pages sit against the fold.
+        align: options.layout === 'booklet' ? (column === 0 ? 'end' : 'start') : 'center',
+      })
+    }
+  }
+  return cells
+}
+
+function fitPageInCell(
+  view: { width: number; height: number },
+  cell: ImpositionCell,
+): { x: number; y: number; width: number; height: number; scale: number } {
+  const scale = Math.min(cell.width / view.width, cell.height / view.height)
+  const width = view.width * scale
+  const height = view.height * scale
+  const slack = cell.width - width
+  const x = cell.x + (cell.align === 'start' ? 0 : cell.align === 'end' ? slack : slack / 2)
+  return { x, y: cell.y + (cell.height - height) / 2, width, height, scale }
+}
+
+function drawCropMarks(
+  sheetPage: PDFPage,
+  placed: { x: number; y: number; width: number; height: number },
+  cell: ImpositionCell,
+  options: ImpositionOptions,
+): void {
+  // Marks stay inside the cell plus half the gutter, so they never cross a neighbour.
+  const sheet = getImpositionSheet(options)
+  const reach = Math.max(0, options.gutter) / 2
+  const bounds = {
+    left: Math.max(0, cell.x - reach),
+    right: Math.min(sheet.width, cell.x + cell.width + reach),
+    bottom: Math.max(0, cell.y - reach),
+    top: Math.min(sheet.height, cell.y + cell.height + reach),
+  }
+  const left = placed.x
+  const right = placed.x + placed.width
+  const bottom = placed.y
+  const top = placed.y + placed.height
+  const line = { thickness: CROP_MARK_THICKNESS, color: rgb(0, 0, 0) }
+  const length = (space: number) => Math.min(CROP_MARK_LENGTH, space - CROP_MARK_OFFSET)
+
+  const horizontal = [
+    { x: left, space: left - bounds.left, direction: -1 },
+    { x: right, space: bounds.right - right, direction: 1 },
+  ]
+  const vertical = [
+    { y: bottom, space: bottom - bounds.bottom, direction: -1 },
+    { y: top, space: bounds.top - top, direction: 1 },
+  ]
+
+  for (const { x, space, direction } of horizontal) {
+    const size = length(space)
+    if (size <= 0) continue
+    const startX = x + direction * CROP_MARK_OFFSET
+    for (const y of [bottom, top]) {
+      sheetPage.drawLine({ ...line, start: { x: startX, y }, end: { x: startX + direction * size, y } })
+    }
+  }
+
+  for (const { y, space, direction } of vertical) {
+    const size = length(space)
+    if (size <= 0) continue
+    const startY = y + direction * CROP_MARK_OFFSET
+    for (const x of [left, right]) {
+      sheetPage.drawLine({ ...line, start: { x, y: startY }, end: { x, y: startY + direction * size } })
+    }
+  }
+}
+
+/**
+ * Draws each page as a Form XObject in its displayed orientation. Pages are
+ * laid out in document order; the source document is left untouched.
+ */
+export async function imposePages(
+  source: PDFDocument,
+  options: ImpositionOptions,
+): Promise<PDFDocument> {
+  const output = await PDFDocument.create()
+  const sheet = getImpositionSheet(options)
+  const cells = getImpositionCells(options)
+  const sides = planImpositionSides(source.getPages(), options.layout)
+
+  for (const side of sides) {
+    const sheetPage = output.addPage([sheet.width, sheet.height])
+
+    for (const [index, page] of side.entries()) {
+      const cell = cells[index]
+      // Pages without content streams are blank and cannot be embedded.
+      if (!page || !cell || !page.node.get(PDFName.of('Contents'))) continue
+
+      const view = getPageView(page)
+      const { box } = view
+      const embedded = await output.embedPage(page, {
+        left: box.x,
+        bottom: box.y,
+        right: box.x + box.width,
+        top: box.y + box.height,
+      })
+      const placed = fitPageInCell(view, cell)
+      const scaledWidth = box.width * placed.scale
+      const scaledHeight = box.height * placed.scale
+
+      // /Rotate turns the page clockwise; pdf-lib rotates counter-clockwise
+      // around the origin, so shift the origin back into the cell.
+      const origin =
+        view.rotation === 90
+          ? { x: placed.x, y: placed.y + scaledWidth }
+          : view.rotation === 180
+            ? { x: placed.x + scaledWidth, y: placed.y + scaledHeight }
+            : view.rotation === 270
+              ? { x: placed.x + scaledHeight, y: placed.y }
+              : { x: placed.x, y: placed.y }
+
+      sheetPage.drawPage(embedded, {
+        ...origin,
+        xScale: placed.scale,
+        yScale: placed.scale,
+        rotate: degrees(-view.rotation),
+      })
+
+      if (options.cropMarks) drawCropMarks(sheetPage, placed, cell, options)
+    }
+  }
+
+  return output
+}
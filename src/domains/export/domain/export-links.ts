@@ -0,0 +1,241 @@
+import {
+  PDFArray,
+  PDFDict,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFRef,
+  PDFString,
+  type PDFDocument,
+  type PDFObject,
+  type PDFPage,
+} from 'pdf-lib'
+
+/**
+ * Internal link remapping. Link annotations that jump to another page of
+ * their source are detached when the source is loaded, so copying a page
+ * does not drag its link targets along, and are re-pointed at the exported
+ * pages once the page order is known. URI and remote links are untouched.
+ */
+
+const LINK_MARKER = PDFName.of('FluxPdfLink')
+const NAME_TREE_MAX_DEPTH = 32
+
+export interface InternalLinkTarget {
+  /** Target page in the source document; null when the destination cannot be resolved */
+  sourcePageIndex: number | null
+  /** Destination view without the page, e.g. [/XYZ left top zoom] */
+  view: PDFObject[]
+}
+
+/** Coordinate change from a source page to its exported page */
+export interface ExportPageTransform {
+  scale: number
+  x: number
+  y: number
+}
+
+export interface LinkedExportPage {
+  page: PDFPage
+  sourceFileId: string
+}
+
+function getLinkDestination(annot: PDFDict): { dest: PDFObject | undefined; isAction: boolean } {
+  const dest = annot.lookup(PDFName.of('Dest'))
+  if (dest) return { dest, isAction: false }
+
+  const action = annot.lookup(PDFName.of('A'))
+  if (!(action instanceof PDFDict)) return { dest: undefined, isAction: false }
+  if (action.lookup(PDFName.of('S')) !== PDFName.of('GoTo')) {
+    return { dest: undefined, isAction: false }
+  }
+  return { dest: action.lookup(PDFName.of('D')), isAction: true }
+}
+
+function decodeDestinationName(value: PDFObject): string | null {
+  if (value instanceof PDFName) return value.decodeText()
+  if (value instanceof PDFString || value instanceof PDFHexString) return value.decodeText()
+  return null
+}
+
+function lookupNameTree(node: PDFDict, name: string, depth = 0): PDFObject | undefined {
+  if (depth > NAME_TREE_MAX_DEPTH) return undefined
+
+  const names = node.lookup(PDFName.of('Names'))
+  if (names instanceof PDFArray) {
+    for (let index = 0; index + 1 < names.size(); index += 2) {
+      const key = names.lookup(index)
+      if (key && decodeDestinationName(key) === name) return names.lookup(index + 1)
+    }
+  }
+
+  const kids = node.lookup(PDFName.of('Kids'))
+  if (!(kids instanceof PDFArray)) return undefined
+  for (let index = 0; index < kids.size(); index++) {
+    const kid = kids.lookup(index)
+    if (!(kid instanceof PDFDict)) continue
+    const found = lookupNameTree(kid, name, depth + 1)
+    if (found) return found
+  }
+  return undefined
+}
+
+function resolveNamedDestination(source: PDFDocument, name: string): PDFObject | undefined {
+  const dests = source.catalog.lookup(PDFName.of('Dests'))
+  if (dests instanceof PDFDict) {
+    const found = dests.lookup(PDFName.of(name))
+    if (found) return found
+  }
+
+  const names = source.catalog.lookup(PDFName.of('Names'))
+  const tree = names instanceof PDFDict ? names.lookup(PDFName.of('Dests')) : undefined
+  return tree instanceof PDFDict ? lookupNameTree(tree, name) : undefined
+}
+
+function resolveExplicitDestination(
+  source: PDFDocument,
+  dest: PDFObject | undefined,
+): PDFArray | null {
+  if (dest instanceof PDFArray) return dest
+  if (dest instanceof PDFDict)
+    return resolveExplicitDestination(source, dest.lookup(PDFName.of('D')))
+
+  const name = dest ? decodeDestinationName(dest) : null
+  if (name === null) return null
+  const named = resolveNamedDestination(source, name)
+  if (named instanceof PDFArray) return named
+  if (named instanceof PDFDict) {
+    const inner = named.lookup(PDFName.of('D'))
+    return inner instanceof PDFArray ? inner : null
+  }
+  return null
+}
+
+function toLinkTarget(
+  source: PDFDocument,
+  dest: PDFObject | undefined,
+  pageIndexByRef: ReadonlyMap<PDFRef, number>,
+): InternalLinkTarget {
+  const explicit = resolveExplicitDestination(source, dest)
+  if (!explicit || explicit.size() === 0) return { sourcePageIndex: null, view: [] }
+
+  const page = explicit.get(0)
+  const sourcePageIndex =
+    page instanceof PDFRef
+      ? (pageIndexByRef.get(page) ?? null)
+      : page instanceof PDFNumber
+        ? page.asNumber()
+        : null
+  const view = Array.from({ length: explicit.size() - 1 }, (_, index) =>
+    source.context.lookup(explicit.get(index + 1)),
+  ).filter((value): value is PDFObject => value !== undefined)
+
+  return { sourcePageIndex, view }
+}
+
+/**
+ * Strips GoTo destinations from the source's link annotations and tags each
+ * link with its index in the returned table. Mutates `source`.
+ */
+export function detachInternalLinks(source: PDFDocument): InternalLinkTarget[] {
+  const pageIndexByRef = new Map<PDFRef, number>()
+  source.getPages().forEach((page, index) => pageIndexByRef.set(page.ref, index))
+
+  const targets: InternalLinkTarget[] = []
+  for (const page of source.getPages()) {
+    const annots = page.node.Annots()
+    if (!annots) continue
+
+    for (let index = 0; index < annots.size(); index++) {
+      const annot = annots.lookup(index)
+      if (!(annot instanceof PDFDict)) continue
+      if (annot.lookup(PDFName.of('Subtype')) !== PDFName.of('Link')) continue
+      if (annot.has(LINK_MARKER)) continue
+
+      const { dest, isAction } = getLinkDestination(annot)
+      if (!dest) continue
+
+      annot.set(LINK_MARKER, PDFNumber.of(targets.length))
+      targets.push(toLinkTarget(source, dest, pageIndexByRef))
+      annot.delete(PDFName.of(isAction ? 'A' : 'Dest'))
+    }
+  }
+  return targets
+}
+
+function transformView(view: PDFObject[], transform: ExportPageTransform): PDFObject[] {
+  const [fit, ...params] = view
+  if (!(fit instanceof PDFName)) return [PDFName.of('Fit')]
+
+  const mapX = (value: number) => value * transform.scale + transform.x
+  const mapY = (value: number) => value * transform.scale + transform.y
+  // Axis of each positional parameter per fit type; zoom is left alone.
+  const axes: Record<string, Array<'x' | 'y' | null>> = {
+    XYZ: ['x', 'y', null],
+    FitH: ['y'],
+    FitBH: ['y'],
+    FitV: ['x'],
+    FitBV: ['x'],
+    FitR: ['x', 'y', 'x', 'y'],
+  }
+  const fitAxes = axes[fit.decodeText()] ?? []
+
+  return [
+    fit,
+    ...params.map((param, index) => {
+      const axis = fitAxes[index]
+      if (!axis || !(param instanceof PDFNumber)) return param
+      const value = param.asNumber()
+      return PDFNumber.of(axis === 'x' ? mapX(value) : mapY(value))
+    }),
+  ]
+}
+
+/**
+ * Points detached links at the first exported copy of their target page.
+ * Links to pages left out of the export are removed.
+ */
+export function remapInternalLinks(
+  pdfDoc: PDFDocument,
+  linkedPages: readonly LinkedExportPage[],
+  options: {
+    sourceLinks: ReadonlyMap<string, readonly InternalLinkTarget[]>
+    getExportIndex: (sourceFileId: string, sourcePageIndex: number) => number | undefined
+    /** Indexed by export page; null for rasterized pages, which are linked with /Fit */
+    pageTransforms: ReadonlyArray<ExportPageTransform | null>
+  },
+): void {
+  const exportPages = pdfDoc.getPages()
+
+  for (const { page, sourceFileId } of linkedPages) {
+    const annots = page.node.Annots()
+    if (!annots) continue
+    const targets = options.sourceLinks.get(sourceFileId) ?? []
+
+    for (let index = annots.size() - 1; index >= 0; index--) {
+      const annot = annots.lookup(index)
+      if (!(annot instanceof PDFDict)) continue
+      const marker = annot.lookup(LINK_MARKER)
+      if (!(marker instanceof PDFNumber)) continue
+      annot.delete(LINK_MARKER)
+
+      const target = targets[marker.asNumber()]
+      const exportIndex =
+        target?.sourcePageIndex != null
+          ? options.getExportIndex(sourceFileId, target.sourcePageIndex)
+          : undefined
+      const exportPage = exportIndex != null ? exportPages[exportIndex] : undefined
+      if (!target || exportIndex == null || !exportPage) {
+        annots.remove(index)
+        continue
+      }
+
+      const transform = options.pageTransforms[exportIndex]
+      const view = transform ? transformView(target.view, transform) : [PDFName.of('Fit')]
+      const dest = PDFArray.withContext(pdfDoc.context)
+      dest.push(exportPage.ref)
+      for (const param of view) dest.push(param)
+      annot.set(PDFName.of('Dest'), dest)
+    }
+  }
+}
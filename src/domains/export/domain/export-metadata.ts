@@ -1,5 +1,8 @@
 import type { PDFDocument } from 'pdf-lib'
 import type { ExportMetadata } from '@/domains/export/domain/export-types'
+import { isPdfAExport, setXmpMetadata } from '@/domains/export/domain/export-pdfa'
+
+const DEFAULT_PRODUCER = 'FluxPDF'
 
 export function normalizeExportMetadata(metadata?: ExportMetadata): ExportMetadata | null {
   if (!metadata) return null
@@ -31,18 +34,51 @@ export function normalizeExportMetadata(metadata?: ExportMetadata): ExportMetada
 export function applyExportMetadata(pdfDocument: PDFDocument, metadata?: ExportMetadata): void {
   const normalized = normalizeExportMetadata(metadata)
 
+  if (isPdfAExport(metadata)) {
+    applyPdfAMetadata(pdfDocument, normalized)
+    return
+  }
+
   if (normalized) {
     if (normalized.title) pdfDocument.setTitle(normalized.title)
     if (normalized.author) pdfDocument.setAuthor(normalized.author)
     if (normalized.subject) pdfDocument.setSubject(normalized.subject)
     if (normalized.keywords.length) pdfDocument.setKeywords(normalized.keywords)
     if (normalized.creator) pdfDocument.setCreator(normalized.creator)
-    pdfDocument.setProducer(normalized.producer ?? 'FluxPDF')
+    pdfDocument.setProducer(normalized.producer ?? DEFAULT_PRODUCER)
     pdfDocument.setCreationDate(new Date())
     pdfDocument.setModificationDate(new Date())
     return
   }
 
-  pdfDocument.setProducer('FluxPDF')
+  pdfDocument.setProducer(DEFAULT_PRODUCER)
   pdfDocument.setCreationDate(new Date())
 }
+
+/**
+ * PDF/A requires the Info dictionary and the XMP packet to agree, so both are
+ * written from the same values and timestamp.
+ */
+function applyPdfAMetadata(pdfDocument: PDFDocument, normalized: ExportMetadata | null): void {
+  const now = new Date()
+  const info = {
+    title: normalized?.title ?? '',
+    author: normalized?.author ?? '',
+    subject: normalized?.subject ?? '',
+    keywords: normalized?.keywords ?? [],
+    creator: normalized?.creator,
+    producer: normalized?.producer ?? DEFAULT_PRODUCER,
+    createdAt: now,
+    modifiedAt: now,
+  }
+
+  if (info.title) pdfDocument.setTitle(info.title)
+  if (info.author) pdfDocument.setAuthor(info.author)
+  if (info.subject) pdfDocument.setSubject(info.subject)
+  if (info.keywords.length) pdfDocument.setKeywords(info.keywords)
+  if (info.creator) pdfDocument.setCreator(info.creator)
+  pdfDocument.setProducer(info.producer)
+  pdfDocument.setCreationDate(info.createdAt)
+  pdfDocument.setModificationDate(info.modifiedAt)
+  setXmpMetadata(pdfDocument, info)
+}
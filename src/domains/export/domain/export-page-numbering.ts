@@ -0,0 +1,59 @@
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import type { PageReference } from '@/shared/types'
+import type { PageNumberingOptions } from '@/domains/export/domain/export-types'
+import {
+  drawAnchoredText,
+  isolatePageContent,
+  toEncodableText,
+} from '@/domains/export/domain/export-page-overlay'
+
+export const DEFAULT_PAGE_NUMBERING: PageNumberingOptions = {
+  prefix: '',
+  startNumber: 1,
+  padding: 0,
+  fontSize: 10,
+  anchor: 'bottom-center',
+  margin: 24,
+  restartPerSegment: false,
+}
+
+export function formatPageStamp(options: PageNumberingOptions, pageNumber: number): string {
+  const padding = Math.max(0, Math.floor(options.padding))
+  return `${options.prefix}${String(pageNumber).padStart(padding, '0')}`
+}
+
+/**
+ * First stamp number of each export segment. Numbering either continues
+ * across segments or restarts in every file. Front pages open the first
+ * segment and are numbered with it.
+ */
+export function resolveSegmentStartNumbers(
+  segments: ReadonlyArray<ReadonlyArray<PageReference>>,
+  options: PageNumberingOptions,
+  frontPageCount = 0,
+): number[] {
+  let next = options.startNumber
+  return segments.map((segment, index) => {
+    if (options.restartPerSegment) return options.startNumber
+    const start = next
+    next += segment.length + (index === 0 ? frontPageCount : 0)
+    return start
+  })
+}
+
+/**
+ * Draws the stamp on every page of the document, upright in the page's
+ * displayed orientation.
+ */
+export async function stampPageNumbers(
+  pdfDoc: PDFDocument,
+  options: PageNumberingOptions,
+): Promise<void> {
+  const font = await pdfDoc.embedFont(StandardFonts.Helvetica)
+
+  pdfDoc.getPages().forEach((page, index) => {
+    isolatePageContent(pdfDoc, page)
+    const text = toEncodableText(font, formatPageStamp(options, options.startNumber + index))
+    drawAnchoredText(page, font, text, options)
+  })
+}
@@ -0,0 +1,120 @@
+import {
+  PDFDocument,
+  degrees,
+  popGraphicsState,
+  pushGraphicsState,
+  rgb,
+  type PDFFont,
+  type PDFPage,
+} from 'pdf-lib'
+import type { PageStampAnchor } from '@/domains/export/domain/export-types'
+
+/**
+ * Shared geometry for content drawn over exported pages (page numbers,
+ * headers and footers, watermarks). Overlays are laid out in the displayed page, bottom-left
+ * origin, and mapped back through the page's /Rotate into user space.
+ */
+
+export type PageViewRotation = 0 | 90 | 180 | 270
+
+export interface PageView {
+  box: { x: number; y: number; width: number; height: number }
+  rotation: PageViewRotation
+  width: number
+  height: number
+}
+
+export function getPageView(page: PDFPage): PageView {
+  const box = page.getCropBox()
+  const rotation = (((page.getRotation().angle % 360) + 360) % 360) as PageViewRotation
+  const isSideways = rotation === 90 || rotation === 270
+  return {
+    box,
+    rotation,
+    width: isSideways ? box.height : box.width,
+    height: isSideways ? box.width : box.height,
+  }
+}
+
+/**
+ * Wraps existing content in q/Q so graphics state left behind by the source
+ * page cannot move or scale the overlay.
+ */
+export function isolatePageContent(pdfDoc: PDFDocument, page: PDFPage): void {
+  const { context } = pdfDoc
+  page.node.normalize()
+  page.node.wrapContentStreams(
+    context.register(context.contentStream([pushGraphicsState()])),
+    context.register(context.contentStream([popGraphicsState()])),
+  )
+  // Start a fresh stream after the wrapped content for the overlay itself.
+  page.resetPosition()
+}
+
+export function mapViewPointToUserSpace(
+  viewX: number,
+  viewY: number,
+  view: PageView,
+): { x: number; y: number } {
+  const { box } = view
+  switch (view.rotation) {
+    case 90:
+      return { x: box.x + box.width - viewY, y: box.y + viewX }
+    case 180:
+      return { x: box.x + box.width - viewX, y: box.y + box.height - viewY }
+    case 270:
+      return { x: box.x + viewY, y: box.y + box.height - viewX }
+    default:
+      return { x: box.x + viewX, y: box.y + viewY }
+  }
+}
+
+/**
+ * Draws one line of text at a page anchor, upright in the page's displayed
+ * orientation. `margin` is the distance from the page edges.
+ */
+export function drawAnchoredText(
+  page: PDFPage,
+  font: PDFFont,
+  text: string,
+  options: { anchor: PageStampAnchor; margin: number; fontSize: number },
+): void {
+  const view = getPageView(page)
+  const size = options.fontSize
+  const textWidth = font.widthOfTextAtSize(text, size)
+  const textHeight = font.heightAtSize(size, { descender: false })
+  const [vertical, horizontal] = options.anchor.split('-') as [
+    'top' | 'bottom',
+    'left' | 'center' | 'right',
+  ]
+
+  // Baseline origin in the displayed page, bottom-left origin.
+  const viewX =
+    horizontal === 'left'
+      ? options.margin
+      : horizontal === 'right'
+        ? view.width - options.margin - textWidth
+        : (view.width - textWidth) / 2
+  const viewY = vertical === 'top' ? view.height - options.margin - textHeight : options.margin
+
+  const { x, y } = mapViewPointToUserSpace(viewX, viewY, view)
+  page.drawText(text, {
+    x,
+    y,
+    size,
+    font,
+    color: rgb(0, 0, 0),
+    rotate: degrees(view.rotation),
+  })
+}
+
+/**
+ * Replaces characters the font cannot encode (standard fonts only cover
+ * WinAnsi) so user-provided text never aborts the export.
+ */
+export function toEncodableText(font: PDFFont, text: string): string {
+  const supported = new Set(font.getCharacterSet())
+  return Array.from(text.replace(/[\r\n\t]+/g, ' '))
+    .map((char) => (supported.has(char.codePointAt(0) ?? 0) ? char : '?'))
+    .join('')
+}
@@ -0,0 +1,150 @@
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { PDF_PAGE_INDEX_BASE } from '@/shared/constants'
+import type { PageReference, RedactionMark } from '@/shared/types'
+import { getDisplayedCropRect } from '@/shared/utils/page-crop'
+
+/**
+ * Canvas rendering shared by redaction burn-in and image export. Pages are
+ * rendered in their displayed orientation and redaction marks are painted
+ * over the result, so covered content never reaches the output pixels.
+ * Cropped pages render only the kept region.
+ */
+
+export interface PageContentLayout {
+  pageWidth: number
+  pageHeight: number
+  drawWidth: number
+  drawHeight: number
+  offsetX: number
+  offsetY: number
+}
+
+/** Fits content into the target page size, centered, keeping its aspect ratio. */
+export function fitContentToPage(
+  content: { width: number; height: number },
+  target?: { width: number; height: number } | null,
+): PageContentLayout {
+  const pageWidth = target?.width ?? content.width
+  const pageHeight = target?.height ?? content.height
+
+  if (!target) {
+    return {
+      pageWidth,
+      pageHeight,
+      drawWidth: content.width,
+      drawHeight: content.height,
+      offsetX: 0,
+      offsetY: 0,
+    }
+  }
+
+  const scale = Math.min(pageWidth / content.width, pageHeight / content.height)
+  const drawWidth = content.width * scale
+  const drawHeight = content.height * scale
+
+  return {
+    pageWidth,
+    pageHeight,
+    drawWidth,
+    drawHeight,
+    offsetX: (pageWidth - drawWidth) / 2,
+    offsetY: (pageHeight - drawHeight) / 2,
+  }
+}
+
+export interface RenderPageCanvasOptions {
+  getPdfDocument: (sourceFileId: string) => Promise<PDFDocumentProxy>
+  /** Device pixels per PDF point */
+  scale: number
+  redactions?: readonly RedactionMark[]
+  /** Letterbox the page into `pageRef.targetDimensions` on a white background */
+  fitToTarget?: boolean
+}
+
+export interface RenderedPageCanvas {
+  canvas: HTMLCanvasElement
+  /** Output size in PDF points */
+  width: number
+  height: number
+  /** Top-left of the rendered region on the displayed page, in PDF points */
+  origin: { x: number; y: number }
+}
+
+export async function renderPageToCanvas(
+  pageRef: PageReference,
+  options: RenderPageCanvasOptions,
+): Promise<RenderedPageCanvas> {
+  const pdfDoc = await options.getPdfDocument(pageRef.sourceFileId)
+  const page = await pdfDoc.getPage(pageRef.sourcePageIndex + PDF_PAGE_INDEX_BASE)
+  const rotation = pageRef.rotation ?? 0
+  const viewport = page.getViewport({ scale: 1, rotation })
+  const region = pageRef.crop
+    ? getDisplayedCropRect(pageRef.crop, page.getViewport({ scale: 1, rotation: 0 }), rotation)
+    : { x: 0, y: 0, width: viewport.width, height: viewport.height }
+  const layout = fitContentToPage(
+    { width: region.width, height: region.height },
+    options.fitToTarget ? pageRef.targetDimensions : null,
+  )
+  const contentScale = layout.drawWidth / region.width
+  const renderViewport = page.getViewport({ scale: options.scale * contentScale, rotation })
+
+  const canvas = document.createElement('canvas')
+  const context = canvas.getContext('2d')
+  if (!context) {
+    throw new Error('Failed to create canvas context for page rendering')
+  }
+
+  canvas.width = Math.max(1, Math.floor(layout.pageWidth * options.scale))
+  canvas.height = Math.max(1, Math.floor(layout.pageHeight * options.scale))
+  context.fillStyle = '#ffffff'
+  context.fillRect(0, 0, canvas.width, canvas.height)
+
+  const markScale = options.scale * contentScale
+  const offsetX = layout.offsetX * options.scale - region.x * markScale
+  const offsetY = layout.offsetY * options.scale - region.y * markScale
+  const renderTask = page.render({
+    canvas,
+    canvasContext: context,
+    viewport: renderViewport,
+    transform: offsetX || offsetY ? [1, 0, 0, 1, offsetX, offsetY] : undefined,
+  })
+
+  await renderTask.promise
+
+  // Redaction marks are stored in displayed page points.
+  for (const redaction of options.redactions ?? []) {
+    context.fillStyle = redaction.color === 'white' ? '#ffffff' : '#000000'
+    context.fillRect(
+      offsetX + redaction.x * markScale,
+      offsetY + redaction.y * markScale,
+      redaction.width * markScale,
+      redaction.height * markScale,
+    )
+  }
+
+  return {
+    canvas,
+    width: layout.pageWidth,
+    height: layout.pageHeight,
+    origin: { x: region.x, y: region.y },
+  }
+}
+
+export async function canvasToBytes(
+  canvas: HTMLCanvasElement,
+  mimeType: string,
+  quality?: number,
+): Promise<Uint8Array> {
+  const blob = await new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob(
+      (value) => (value ? resolve(value) : reject(new Error(`Failed to encode ${mimeType}`))),
+      mimeType,
+      quality,
+    )
+  })
+  // Browsers fall back to PNG for formats they cannot encode.
+  if (blob.type && blob.type !== mimeType) {
+    throw new Error(`This browser cannot encode ${mimeType} images`)
+  }
+  return new Uint8Array(await blob.arrayBuffer())
+}
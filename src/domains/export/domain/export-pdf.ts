@@ -1,17 +1,51 @@
 import { PDFDocument, degrees, type PDFPage } from 'pdf-lib'
-import { EXPORT_PROGRESS, PDF_PAGE_INDEX_BASE } from '@/shared/constants'
-import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { EXPORT_PROGRESS } from '@/shared/constants'
 import type { PageReference, RedactionMark } from '@/shared/types'
 import { applyExportMetadata } from '@/domains/export/domain/export-metadata'
+import { encryptPdfDocument } from '@/domains/export/domain/export-encryption'
+import { applyPdfAConformance, isPdfAExport } from '@/domains/export/domain/export-pdfa'
+import { imposePages } from '@/domains/export/domain/export-imposition'
+import {
+  attachFormFields,
+  detachFormFields,
+  fillFormFields,
+  flattenFormFields,
+  type SourceForm,
+} from '@/domains/export/domain/export-forms'
+import {
+  detachInternalLinks,
+  remapInternalLinks,
+  type ExportPageTransform,
+  type InternalLinkTarget,
+  type LinkedExportPage,
+} from '@/domains/export/domain/export-links'
+import { redactPageContent } from '@/domains/export/domain/export-redaction'
+import { addPageAnnotations } from '@/domains/export/domain/export-annotations'
+import { drawPageSignatures } from '@/domains/export/domain/export-signatures'
+import { applyPageCrop } from '@/domains/export/domain/export-crop'
+import {
+  canvasToBytes,
+  fitContentToPage,
+  renderPageToCanvas,
+} from '@/domains/export/domain/export-page-raster'
+import { formatPageStamp, stampPageNumbers } from '@/domains/export/domain/export-page-numbering'
+import { isWatermarkActive, stampWatermark } from '@/domains/export/domain/export-watermark'
+import {
+  hasHeaderFooterContent,
+  stampHeaderFooter,
+} from '@/domains/export/domain/export-header-footer'
+import { insertFrontMatter } from '@/domains/export/domain/export-front-matter'
 import {
   addBookmarks,
   applyExpandedState,
   flattenExportBookmarks,
   mapBookmarksToExport,
 } from '@/domains/export/domain/export-bookmarks'
-import type { GenerateRawPdfOptions } from '@/domains/export/domain/export-types'
+import type { GenerateRawPdfOptions, RedactionMode } from '@/domains/export/domain/export-types'
 
 const DEFAULT_BURN_SCALE = 2
+const DEFAULT_REDACTION_MODE: RedactionMode = 'vector'
+const IDENTITY_TRANSFORM: ExportPageTransform = { scale: 1, x: 0, y: 0 }
 
 export async function generateRawPdf(
   pages: PageReference[],
@@ -24,69 +58,143 @@ export async function generateRawPdf(
     getPdfBlob,
     getPdfDocument,
     burnScale,
+    redactionMode = DEFAULT_REDACTION_MODE,
+    pageNumbering,
+    watermark,
+    headerFooter,
+    headerFooterContext,
+    frontMatter,
+    flattenForms,
+    formValues,
+    flattenAnnotations,
+    imposition,
     bookmarks,
     pageIdToDocIndex,
     outline,
+    encryption,
   } = options
 
   const finalPdf = await PDFDocument.create()
   applyExportMetadata(finalPdf, metadata)
+  const isPdfA = isPdfAExport(metadata)
 
   const loadedPdfs = new Map<string, PDFDocument>()
+  const sourceLinks = new Map<string, InternalLinkTarget[]>()
+  const sourceForms = new Map<string, SourceForm | null>()
+  const linkedPages: LinkedExportPage[] = []
+  const pageTransforms: Array<ExportPageTransform | null> = []
   let processedPages = 0
   const totalPages = pages.length
   const burnScaleValue = burnScale ?? DEFAULT_BURN_SCALE
+  // Imposed sheets embed page content only, so annotations must be painted in.
+  const shouldFlattenAnnotations = Boolean(flattenAnnotations || imposition)
+
+  const loadSourcePdf = async (sourceFileId: string): Promise<PDFDocument> => {
+    const cached = loadedPdfs.get(sourceFileId)
+    if (cached) return cached
+    const sourceBuffer = await getPdfBlob(sourceFileId)
+    if (!sourceBuffer) {
+      throw new Error(`Source file not found: ${sourceFileId}`)
+    }
+    const sourcePdf = await PDFDocument.load(sourceBuffer, { ignoreEncryption: true })
+    sourceLinks.set(sourceFileId, detachInternalLinks(sourcePdf))
+    fillFormFields(sourcePdf, formValues?.[sourceFileId] ?? {})
+    sourceForms.set(sourceFileId, detachFormFields(sourcePdf))
+    loadedPdfs.set(sourceFileId, sourcePdf)
+    return sourcePdf
+  }
 
-  for (const pageRef of pages) {
-    const redactions = pageRef.redactions ?? []
-    if (redactions.length > 0) {
-      if (!getPdfDocument) {
-        throw new Error('Redactions require PDF rendering support')
-      }
+  const addRasterizedPage = async (pageRef: PageReference, redactions: RedactionMark[]) => {
+    if (!getPdfDocument) {
+      throw new Error('Redactions require PDF rendering support')
+    }
 
-      const raster = await rasterizePageWithRedactions(pageRef, redactions, {
-        getPdfDocument,
-        scale: burnScaleValue,
-      })
-      const image = await finalPdf.embedPng(raster.bytes)
-      const layout = fitContentToPage(
-        { width: raster.width, height: raster.height },
-        pageRef.targetDimensions,
-      )
-      const pdfPage = finalPdf.addPage([layout.pageWidth, layout.pageHeight])
-      pdfPage.drawImage(image, {
+    const raster = await renderPageToCanvas(pageRef, {
+      getPdfDocument,
+      scale: burnScaleValue,
+      redactions,
+    })
+    const image = await finalPdf.embedPng(await canvasToBytes(raster.canvas, 'image/png'))
+    const layout = fitContentToPage(
+      { width: raster.width, height: raster.height },
+      pageRef.targetDimensions,
+    )
+    const pdfPage = finalPdf.addPage([layout.pageWidth, layout.pageHeight])
+    pageTransforms.push(null)
+    pdfPage.drawImage(image, {
+      x: layout.offsetX,
+      y: layout.offsetY,
+      width: layout.drawWidth,
+      height: layout.drawHeight,
+    })
+
+    // The image is already in displayed orientation, so overlays map without rotation.
+    // A cropped raster starts at the crop corner, which shifts the overlay origin.
+    const placement = {
+      cropBox: {
+        x: -raster.origin.x,
+        y: raster.origin.y,
+        width: raster.width,
+        height: raster.height,
+      },
+      rotation: 0,
+      transform: {
+        scale: layout.drawWidth / raster.width,
         x: layout.offsetX,
         y: layout.offsetY,
-        width: layout.drawWidth,
-        height: layout.drawHeight,
-      })
-    } else {
-      let sourcePdf = loadedPdfs.get(pageRef.sourceFileId)
-      if (!sourcePdf) {
-        const sourceBuffer = await getPdfBlob(pageRef.sourceFileId)
-        if (!sourceBuffer) {
-          throw new Error(`Source file not found: ${pageRef.sourceFileId}`)
-        }
-        sourcePdf = await PDFDocument.load(sourceBuffer, { ignoreEncryption: true })
-        loadedPdfs.set(pageRef.sourceFileId, sourcePdf)
-      }
+      },
+    }
+    await drawPageSignatures(finalPdf, pdfPage, pageRef.signatures ?? [], placement)
+    await addPageAnnotations(finalPdf, pdfPage, pageRef.annotations ?? [], placement, {
+      flatten: shouldFlattenAnnotations,
+    })
+  }
 
+  for (const pageRef of pages) {
+    const redactions = pageRef.redactions ?? []
+    if (redactions.length > 0 && redactionMode === 'raster') {
+      await addRasterizedPage(pageRef, redactions)
+    } else {
+      const sourcePdf = await loadSourcePdf(pageRef.sourceFileId)
       const copiedPages = await finalPdf.copyPages(sourcePdf, [pageRef.sourcePageIndex])
       const pdfPage = copiedPages[0]
       if (!pdfPage) {
         throw new Error('Failed to copy page')
       }
 
-      if (pageRef.targetDimensions) {
-        applyTargetDimensions(pdfPage, pageRef.targetDimensions)
+      let keepVectorPage = true
+      if (redactions.length > 0) {
+        try {
+          redactPageContent(pdfPage, redactions, pageRef.rotation ?? 0)
+        } catch (error) {
+          // Content that cannot be parsed must not leak, so burn the page instead.
+          if (!getPdfDocument) throw error
+          keepVectorPage = false
+        }
       }
 
-      if (pageRef.rotation !== 0) {
-        const currentRotation = pdfPage.getRotation().angle
-        pdfPage.setRotation(degrees(currentRotation + pageRef.rotation))
-      }
+      if (keepVectorPage) {
+        // Overlays are stored on the full page, so they map through the box before cropping.
+        const cropBox = pdfPage.getCropBox()
+        applyPageCrop(pdfPage, pageRef.crop)
+        const transform = applyTargetDimensions(pdfPage, pageRef.targetDimensions)
+        const placement = { cropBox, rotation: pageRef.rotation ?? 0, transform }
+        await drawPageSignatures(finalPdf, pdfPage, pageRef.signatures ?? [], placement)
+        await addPageAnnotations(finalPdf, pdfPage, pageRef.annotations ?? [], placement, {
+          flatten: shouldFlattenAnnotations,
+        })
+
+        if (pageRef.rotation !== 0) {
+          const currentRotation = pdfPage.getRotation().angle
+          pdfPage.setRotation(degrees(currentRotation + pageRef.rotation))
+        }
 
-      finalPdf.addPage(pdfPage)
+        finalPdf.addPage(pdfPage)
+        pageTransforms.push(transform)
+        linkedPages.push({ page: pdfPage, sourceFileId: pageRef.sourceFileId })
+      } else {
+        await addRasterizedPage(pageRef, redactions)
+      }
     }
 
     processedPages++
@@ -100,16 +208,83 @@ export async function generateRawPdf(
   }
 
   const pageIdToIndex = new Map<string, number>()
+  const exportIndexBySourcePage = new Map<string, number>()
   let exportIndex = 0
   for (const page of pages) {
     if (page.isDivider) continue
-    pageIdToIndex.set(page.id, exportIndex++)
+    pageIdToIndex.set(page.id, exportIndex)
+    const sourceKey = `${page.sourceFileId}:${page.sourcePageIndex}`
+    if (!exportIndexBySourcePage.has(sourceKey)) exportIndexBySourcePage.set(sourceKey, exportIndex)
+    exportIndex++
   }
 
-  if (outline?.include !== false) {
+  remapInternalLinks(finalPdf, linkedPages, {
+    sourceLinks,
+    getExportIndex: (sourceFileId, sourcePageIndex) =>
+      exportIndexBySourcePage.get(`${sourceFileId}:${sourcePageIndex}`),
+    pageTransforms,
+  })
+  attachFormFields(finalPdf, linkedPages, sourceForms)
+
+  // Imposed sheets embed page content only, so field values must be flattened first.
+  if (flattenForms || imposition) {
+    flattenFormFields(finalPdf)
+  }
+
+  // Front pages go in before the stamps, so numbering and overlays count them.
+  let frontCount = 0
+  if (frontMatter) {
+    frontCount = await insertFrontMatter(finalPdf, {
+      template: frontMatter,
+      metadata: {
+        title: headerFooterContext?.title ?? metadata?.title ?? '',
+        author: metadata?.author ?? '',
+        subject: metadata?.subject ?? '',
+      },
+      date: headerFooterContext?.date ?? new Date(),
+      outline: bookmarks ?? [],
+      pageIdToIndex,
+      formatPageNumber: pageNumbering
+        ? (index) => formatPageStamp(pageNumbering, pageNumbering.startNumber + index)
+        : undefined,
+    })
+  }
+
+  if (isWatermarkActive(watermark)) {
+    await stampWatermark(finalPdf, watermark)
+  }
+
+  if (pageNumbering) {
+    await stampPageNumbers(finalPdf, pageNumbering)
+  }
+
+  if (hasHeaderFooterContent(headerFooter)) {
+    await stampHeaderFooter(finalPdf, headerFooter, {
+      title: headerFooterContext?.title ?? metadata?.title ?? '',
+      author: headerFooterContext?.author ?? metadata?.author ?? '',
+      date: headerFooterContext?.date ?? new Date(),
+      sourceFilenames: headerFooterContext?.sourceFilenames ?? {},
+      pageSourceIds: [
+        ...Array.from({ length: frontCount }, () => ''),
+        ...pages.filter((page) => !page.isDivider).map((page) => page.sourceFileId),
+      ],
+    })
+  }
+
+  // Imposition replaces the pages with sheets, so document-level data is written to the new file.
+  let outputPdf = finalPdf
+  if (imposition) {
+    outputPdf = await imposePages(finalPdf, imposition)
+    applyExportMetadata(outputPdf, metadata)
+  }
+
+  if (outline?.include !== false && !imposition) {
+    const outlinePageIndex = frontCount
+      ? new Map(Array.from(pageIdToIndex, ([id, index]) => [id, index + frontCount]))
+      : pageIdToIndex
     let exportBookmarks = mapBookmarksToExport(
       bookmarks ?? [],
-      pageIdToIndex,
+      outlinePageIndex,
       pageIdToDocIndex,
     )
     if (outline?.flatten) {
@@ -118,24 +293,36 @@ export async function generateRawPdf(
     if (outline?.expandAll) {
       exportBookmarks = applyExpandedState(exportBookmarks, true)
     }
-    await addBookmarks(finalPdf, exportBookmarks)
+    await addBookmarks(outputPdf, exportBookmarks)
   }
 
-  return await finalPdf.save({
-    useObjectStreams: compress ?? false,
+  // PDF/A forbids encryption, so the archival profile wins over security settings.
+  const activeEncryption = isPdfA ? null : encryption
+  if (isPdfA) {
+    applyPdfAConformance(outputPdf)
+  } else if (activeEncryption) {
+    await encryptPdfDocument(outputPdf, activeEncryption)
+  }
+
+  return await outputPdf.save({
+    useObjectStreams: activeEncryption ? false : (compress ?? false),
     addDefaultPage: false,
   })
 }
 
-function applyTargetDimensions(
+/**
+ * Resizes the page to `target`, scaling its content and annotations to fit
+ * and centering them. Returns the transform applied to the content.
+ */
+export function applyTargetDimensions(
   pdfPage: PDFPage,
   target?: { width: number; height: number } | null,
-): void {
-  if (!target) return
-  if (target.width <= 0 || target.height <= 0) return
+): ExportPageTransform {
+  if (!target) return IDENTITY_TRANSFORM
+  if (target.width <= 0 || target.height <= 0) return IDENTITY_TRANSFORM
 
-  const current = pdfPage.getSize()
-  if (current.width <= 0 || current.height <= 0) return
+  const current = pdfPage.getMediaBox()
+  if (current.width <= 0 || current.height <= 0) return IDENTITY_TRANSFORM
 
   const scale = Math.min(target.width / current.width, target.height / current.height)
   pdfPage.setSize(target.width, target.height)
@@ -145,103 +332,12 @@ function applyTargetDimensions(
     pdfPage.scaleAnnotations(scale, scale)
   }
 
-  const xOffset = (target.width - current.width * scale) / 2
-  const yOffset = (target.height - current.height * scale) / 2
+  // Content scales around the user space origin, which cropped boxes do not start at.
+  const xOffset = (target.width - current.width * scale) / 2 + current.x * (1 - scale)
+  const yOffset = (target.height - current.height * scale) / 2 + current.y * (1 - scale)
   if (xOffset !== 0 || yOffset !== 0) {
     pdfPage.translateContent(xOffset, yOffset)
   }
-}
-
-async function rasterizePageWithRedactions(
-  pageRef: PageReference,
-  redactions: RedactionMark[],
-  options: {
-    getPdfDocument: (sourceFileId: string) => Promise<PDFDocumentProxy>
-    scale: number
-  },
-): Promise<{ bytes: Uint8Array; width: number; height: number }> {
-  const pdfDoc = await options.getPdfDocument(pageRef.sourceFileId)
-  const page = await pdfDoc.getPage(pageRef.sourcePageIndex + PDF_PAGE_INDEX_BASE)
-  const rotation = pageRef.rotation ?? 0
-  const viewport = page.getViewport({ scale: 1, rotation })
-  const scaledViewport = page.getViewport({ scale: options.scale, rotation })
-  const scaleX = scaledViewport.width / viewport.width
-  const scaleY = scaledViewport.height / viewport.height
-
-  const canvas = document.createElement('canvas')
-  const context = canvas.getContext('2d')
-  if (!context) {
-    throw new Error('Failed to create canvas context for redaction burn')
-  }
-
-  canvas.width = Math.floor(scaledViewport.width)
-  canvas.height = Math.floor(scaledViewport.height)
-
-  const renderTask = page.render({
-    canvas,
-    canvasContext: context,
-    viewport: scaledViewport,
-  })
-
-  await renderTask.promise
-
-  for (const redaction of redactions) {
-    const fill = redaction.color === 'white' ? '#ffffff' : '#000000'
-    context.fillStyle = fill
-    context.fillRect(
-      redaction.x * scaleX,
-      redaction.y * scaleY,
-      redaction.width * scaleX,
-      redaction.height * scaleY,
-    )
-  }
-
-  const blob = await new Promise<Blob>((resolve, reject) => {
-    canvas.toBlob(
-      (value) => (value ? resolve(value) : reject(new Error('Failed to create redaction blob'))),
-      'image/png',
-    )
-  })
 
-  const bytes = new Uint8Array(await blob.arrayBuffer())
-  return { bytes, width: viewport.width, height: viewport.height }
-}
-
-function fitContentToPage(
-  content: { width: number; height: number },
-  target?: { width: number; height: number } | null,
-): {
-  pageWidth: number
-  pageHeight: number
-  drawWidth: number
-  drawHeight: number
-  offsetX: number
-  offsetY: number
-} {
-  const pageWidth = target?.width ?? content.width
-  const pageHeight = target?.height ?? content.height
-
-  if (!target) {
-    return {
-      pageWidth,
-      pageHeight,
-      drawWidth: content.width,
-      drawHeight: content.height,
-      offsetX: 0,
-      offsetY: 0,
-    }
-  }
-
-  const scale = Math.min(pageWidth / content.width, pageHeight / content.height)
-  const drawWidth = content.width * scale
-  const drawHeight = content.height * scale
-
-  return {
-    pageWidth,
-    pageHeight,
-    drawWidth,
-    drawHeight,
-    offsetX: (pageWidth - drawWidth) / 2,
-    offsetY: (pageHeight - drawHeight) / 2,
-  }
+  return { scale, x: xOffset, y: yOffset }
 }
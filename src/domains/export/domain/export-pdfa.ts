@@ -0,0 +1,277 @@
+import {
+  PDFDict,
+  PDFDocument,
+  PDFHexString,
+  PDFName,
+  PDFNumber,
+  PDFString,
+} from 'pdf-lib'
+import type { DocumentMetadata } from '@/shared/types'
+import { randomBytes } from '@/shared/utils/pdf-crypto'
+import { toHex } from '@/shared/utils/pdf-standard-security'
+
+/**
+ * PDF/A-2b output: XMP metadata mirroring the Info dictionary, an sRGB output
+ * intent, a file identifier and page transparency groups. Fonts and colour
+ * spaces inside copied source pages are kept as they are, so preflight warns
+ * about pages that cannot be verified.
+ */
+
+export const PDFA_PART = 2
+export const PDFA_CONFORMANCE = 'B'
+
+const SRGB_IDENTIFIER = 'sRGB IEC61966-2.1'
+
+export interface PdfAInfo {
+  title: string
+  author: string
+  subject: string
+  keywords: readonly string[]
+  creator?: string
+  producer: string
+  createdAt: Date
+  modifiedAt: Date
+}
+
+export function isPdfAExport(metadata?: Pick<DocumentMetadata, 'pdfVersion'> | null): boolean {
+  return metadata?.pdfVersion === 'PDF/A'
+}
+
+function escapeXml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+}
+
+/** Matches the `D:YYYYMMDDHHmmSSZ` dates pdf-lib writes into the Info dictionary. */
+function toXmpDate(date: Date): string {
+  return `${date.toISOString().slice(0, 19)}Z`
+}
+
+function langAlt(value: string): string {
+  return `<rdf:Alt><rdf:li xml:lang="x-default">${escapeXml(value)}</rdf:li></rdf:Alt>`
+}
+
+export function buildXmpPacket(info: PdfAInfo): string {
+  const properties = [
+    `<pdfaid:part>${PDFA_PART}</pdfaid:part>`,
+    `<pdfaid:conformance>${PDFA_CONFORMANCE}</pdfaid:conformance>`,
+    '<dc:format>application/pdf</dc:format>',
+    info.title ? `<dc:title>${langAlt(info.title)}</dc:title>` : '',
+    info.author
+      ? `<dc:creator><rdf:Seq><rdf:li>${escapeXml(info.author)}</rdf:li></rdf:Seq></dc:creator>`
+      : '',
+    info.subject ? `<dc:description>${langAlt(info.subject)}</dc:description>` : '',
+    info.keywords.length ? `<pdf:Keywords>${escapeXml(info.keywords.join(' '))}</pdf:Keywords>` : '',
+    `<pdf:Producer>${escapeXml(info.producer)}</pdf:Producer>`,
+    info.creator ? `<xmp:CreatorTool>${escapeXml(info.creator)}</xmp:CreatorTool>` : '',
+    `<xmp:CreateDate>${toXmpDate(info.createdAt)}</xmp:CreateDate>`,
+    `<xmp:ModifyDate>${toXmpDate(info.modifiedAt)}</xmp:ModifyDate>`,
+    `<xmp:MetadataDate>${toXmpDate(info.modifiedAt)}</xmp:MetadataDate>`,
+  ].filter(Boolean)
+
+  return [
+    '<?xpacket begin="\uFEFF" id="W5M0MpCehiHzreSzNTczkc9d"?>',
+    '<x:xmpmeta xmlns:x="adobe:ns:meta/">',
+    '<rdf:RDF xmlns:rdf="http://www.w3.org/1999/02/22-rdf-syntax-ns#">',
+    '<rdf:Description rdf:about=""',
+    ' xmlns:pdfaid="http://www.aiim.org/pdfa/ns/id/"',
+    ' xmlns:dc="http://purl.org/dc/elements/1.1/"',
+    ' xmlns:pdf="http://ns.adobe.com/pdf/1.3/"',
+    ' xmlns:xmp="http://ns.adobe.com/xap/1.0/">',
+    ...properties,
+    '</rdf:Description>',
+    '</rdf:RDF>',
+    '</x:xmpmeta>',
+    '<?xpacket end="w"?>',
+  ].join('\n')
+}
+
+/** Attaches the XMP packet to the catalog. PDF/A requires the stream to stay unfiltered. */
+export function setXmpMetadata(pdfDoc: PDFDocument, info: PdfAInfo): void {
+  const { context } = pdfDoc
+  const bytes = new TextEncoder().encode(buildXmpPacket(info))
+  const stream = context.stream(bytes, { Type: 'Metadata', Subtype: 'XML' })
+  pdfDoc.catalog.set(PDFName.of('Metadata'), context.register(stream))
+}
+
+// --- sRGB ICC profile -------------------------------------------------------
+
+const ICC_HEADER_SIZE = 128
+const SRGB_CURVE_POINTS = 256
+
+// sRGB primaries adapted to the D50 profile connection space (Bradford).
+const D50_WHITE: [number, number, number] = [0.9642, 1, 0.8249]
+const SRGB_RED: [number, number, number] = [0.436074, 0.222504, 0.013932]
+const SRGB_GREEN: [number, number, number] = [0.385065, 0.716879, 0.097105]
+const SRGB_BLUE: [number, number, number] = [0.14308, 0.060617, 0.714173]
+
+function zeros(length: number): number[] {
+  return Array.from({ length }, () => 0)
+}
+
+function ascii(value: string): number[] {
+  return Array.from(value, (char) => char.charCodeAt(0) & 0x7f)
+}
+
+function uint16(value: number): number[] {
+  return [(value >>> 8) & 0xff, value & 0xff]
+}
+
+function uint32(value: number): number[] {
+  return [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff]
+}
+
+function s15Fixed16(value: number): number[] {
+  return uint32(Math.round(value * 65536) >>> 0)
+}
+
+function xyzTag(xyz: [number, number, number]): number[] {
+  return [...ascii('XYZ '), ...uint32(0), ...xyz.flatMap(s15Fixed16)]
+}
+
+function textDescriptionTag(text: string): number[] {
+  return [
+    ...ascii('desc'),
+    ...uint32(0),
+    ...uint32(text.length + 1),
+    ...ascii(text),
+    0,
+    // Empty Unicode and ScriptCode descriptions.
+    ...uint32(0),
+    ...uint32(0),
+    ...uint16(0),
+    0,
+    ...zeros(67),
+  ]
+}
+
+function textTag(text: string): number[] {
+  return [...ascii('text'), ...uint32(0), ...ascii(text), 0]
+}
+
+function srgbCurveTag(): number[] {
+  const points: number[] = []
+  for (let i = 0; i < SRGB_CURVE_POINTS; i++) {
+    const encoded = i / (SRGB_CURVE_POINTS - 1)
+    const linear =
+      encoded <= 0.04045 ? encoded / 12.92 : Math.pow((encoded + 0.055) / 1.055, 2.4)
+    points.push(...uint16(Math.round(linear * 0xffff)))
+  }
+  return [...ascii('curv'), ...uint32(0), ...uint32(SRGB_CURVE_POINTS), ...points]
+}
+
+/**
+ * Builds a compact ICC v2 display profile for sRGB: matrix/TRC with a
+ * 256-point tone curve shared by the three channels.
+ */
+export function createSrgbIccProfile(): Uint8Array {
+  const curve = srgbCurveTag()
+  const tags: Array<{ signature: string; data: number[] }> = [
+    { signature: 'desc', data: textDescriptionTag(SRGB_IDENTIFIER) },
+    { signature: 'cprt', data: textTag('No copyright, use freely') },
+    { signature: 'wtpt', data: xyzTag(D50_WHITE) },
+    { signature: 'rXYZ', data: xyzTag(SRGB_RED) },
+    { signature: 'gXYZ', data: xyzTag(SRGB_GREEN) },
+    { signature: 'bXYZ', data: xyzTag(SRGB_BLUE) },
+    { signature: 'rTRC', data: curve },
+    { signature: 'gTRC', data: curve },
+    { signature: 'bTRC', data: curve },
+  ]
+
+  const tagTableSize = 4 + tags.length * 12
+  const tagTable: number[] = [...uint32(tags.length)]
+  const tagData: number[] = []
+  const offsets = new Map<number[], number>()
+
+  for (const tag of tags) {
+    let offset = offsets.get(tag.data)
+    if (offset === undefined) {
+      offset = ICC_HEADER_SIZE + tagTableSize + tagData.length
+      offsets.set(tag.data, offset)
+      tagData.push(...tag.data)
+      while (tagData.length % 4 !== 0) tagData.push(0)
+    }
+    tagTable.push(...ascii(tag.signature), ...uint32(offset), ...uint32(tag.data.length))
+  }
+
+  const size = ICC_HEADER_SIZE + tagTableSize + tagData.length
+  const header = [
+    ...uint32(size),
+    ...uint32(0), // preferred CMM
+    ...uint32(0x02100000), // version 2.1
+    ...ascii('mntr'),
+    ...ascii('RGB '),
+    ...ascii('XYZ '),
+    ...[2026, 1, 1, 0, 0, 0].flatMap(uint16),
+    ...ascii('acsp'),
+    ...zeros(24), // platform, flags, manufacturer, model, attributes
+    ...uint32(0), // perceptual rendering intent
+    ...D50_WHITE.flatMap(s15Fixed16),
+  ]
+  while (header.length < ICC_HEADER_SIZE) header.push(0)
+
+  return Uint8Array.from([...header, ...tagTable, ...tagData])
+}
+
+/** Adds the sRGB OutputIntent every PDF/A file needs for device colour. */
+export function addSrgbOutputIntent(pdfDoc: PDFDocument): void {
+  const { context } = pdfDoc
+  const profile = context.flateStream(createSrgbIccProfile(), { N: 3 })
+  const outputIntent = context.obj({
+    Type: 'OutputIntent',
+    S: 'GTS_PDFA1',
+    OutputConditionIdentifier: PDFString.of(SRGB_IDENTIFIER),
+    Info: PDFString.of(SRGB_IDENTIFIER),
+    RegistryName: PDFString.of('http://www.color.org'),
+    DestOutputProfile: context.register(profile),
+  })
+  pdfDoc.catalog.set(PDFName.of('OutputIntents'), context.obj([context.register(outputIntent)]))
+}
+
+/** PDF/A requires a trailer ID; both halves match for a newly created file. */
+export function setFileIdentifier(pdfDoc: PDFDocument): void {
+  const id = PDFHexString.of(toHex(randomBytes(16)))
+  pdfDoc.context.trailerInfo.ID = pdfDoc.context.obj([id, id])
+}
+
+function usesTransparency(pdfDoc: PDFDocument, resources: PDFDict | undefined): boolean {
+  const states = resources?.lookupMaybe(PDFName.of('ExtGState'), PDFDict)
+  if (!states) return false
+
+  return states.values().some((value) => {
+    const state = pdfDoc.context.lookup(value)
+    if (!(state instanceof PDFDict)) return false
+    const softMask = state.lookup(PDFName.of('SMask'))
+    if (softMask && softMask !== PDFName.of('None')) return true
+    return ['CA', 'ca'].some((key) => {
+      const alpha = state.lookup(PDFName.of(key))
+      return alpha instanceof PDFNumber && alpha.asNumber() < 1
+    })
+  })
+}
+
+/**
+ * Gives pages drawn with constant alpha or soft masks an explicit RGB
+ * transparency group, so blending never falls back to a CMYK device space.
+ */
+export function addTransparencyGroups(pdfDoc: PDFDocument): void {
+  for (const page of pdfDoc.getPages()) {
+    if (page.node.get(PDFName.of('Group'))) continue
+    if (!usesTransparency(pdfDoc, page.node.Resources())) continue
+
+    page.node.set(
+      PDFName.of('Group'),
+      pdfDoc.context.obj({ Type: 'Group', S: 'Transparency', CS: 'DeviceRGB' }),
+    )
+  }
+}
+
+/** Document-level PDF/A-2b structures, applied once all pages are final. */
+export function applyPdfAConformance(pdfDoc: PDFDocument): void {
+  addSrgbOutputIntent(pdfDoc)
+  addTransparencyGroups(pdfDoc)
+  setFileIdentifier(pdfDoc)
+}
@@ -0,0 +1,959 @@
+import {
+  PDFArray,
+  PDFContentStream,
+  PDFDict,
+  PDFName,
+  PDFNumber,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  StandardFontEmbedder,
+  StandardFonts,
+  decodePDFRawStream,
+  type PDFContext,
+  type PDFObject,
+  type PDFPage,
+} from 'pdf-lib'
+import type { RedactionMark } from '@/shared/types'
+import {
+  decodeLatin1,
+  encodeLatin1,
+  formatNumber,
+  parseContentStream,
+  serializeName,
+  serializeOperation,
+  type ContentOperand,
+  type ContentOperation,
+} from '@/domains/export/domain/pdf-content-stream'
+
+type Matrix = [number, number, number, number, number, number]
+
+/** Axis-aligned box in PDF user space. */
+export interface RedactionArea {
+  left: number
+  bottom: number
+  right: number
+  top: number
+}
+
+interface FontMetrics {
+  readCode: (bytes: string, offset: number) => { code: number; length: number }
+  /** Horizontal advance in text space units per unit of font size. */
+  widthOf: (code: number) => number
+  ascent: number
+  descent: number
+}
+
+interface GraphicsState {
+  ctm: Matrix
+  lineWidth: number
+  font: FontMetrics
+  fontSize: number
+  charSpacing: number
+  wordSpacing: number
+  horizontalScaling: number
+  leading: number
+  rise: number
+}
+
+interface Subpath {
+  operations: ContentOperation[]
+  points: Array<[number, number]>
+}
+
+interface RedactionContext {
+  context: PDFContext
+  areas: RedactionArea[]
+  fonts: Map<PDFDict, FontMetrics>
+  /** XObject names per resource dict, split by whether any draw survived. */
+  droppedXObjects: Map<PDFDict, Set<string>>
+  keptXObjects: Map<PDFDict, Set<string>>
+}
+
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0]
+const MAX_FORM_DEPTH = 8
+const DEFAULT_ASCENT = 0.9
+const DEFAULT_DESCENT = -0.2
+const DEFAULT_GLYPH_WIDTH = 0.5
+const STREAM_ENCODING_KEYS = new Set(['Filter', 'DecodeParms', 'Length', 'DL'])
+
+const PATH_CONSTRUCTION = new Set(['m', 'l', 'c', 'v', 'y', 'h', 're'])
+const PATH_PAINTING = new Set(['S', 's', 'f', 'F', 'f*', 'B', 'B*', 'b', 'b*', 'n'])
+const PATH_STROKING = new Set(['S', 's', 'B', 'B*', 'b', 'b*'])
+const PATH_CLIPPING = new Set(['W', 'W*'])
+
+const DEFAULT_FONT_METRICS: FontMetrics = {
+  readCode: (bytes, offset) => ({ code: bytes.charCodeAt(offset), length: 1 }),
+  widthOf: () => DEFAULT_GLYPH_WIDTH,
+  ascent: DEFAULT_ASCENT,
+  descent: DEFAULT_DESCENT,
+}
+
+const STANDARD_FONT_ALIASES: Record<string, StandardFonts> = {
+  Arial: StandardFonts.Helvetica,
+  'Arial,Bold': StandardFonts.HelveticaBold,
+  'Arial,Italic': StandardFonts.HelveticaOblique,
+  'Arial,BoldItalic': StandardFonts.HelveticaBoldOblique,
+  TimesNewRoman: StandardFonts.TimesRoman,
+  'TimesNewRoman,Bold': StandardFonts.TimesRomanBold,
+  'TimesNewRoman,Italic': StandardFonts.TimesRomanItalic,
+  'TimesNewRoman,BoldItalic': StandardFonts.TimesRomanBoldItalic,
+  CourierNew: StandardFonts.Courier,
+  'CourierNew,Bold': StandardFonts.CourierBold,
+}
+
+/**
+ * Maps a point from the editor's page space (top-left origin, in the page
+ * viewport rotated by the page's editor rotation) into the page's unrotated
+ * user space.
+ */
+export function createViewToUserSpace(
+  cropBox: { x: number; y: number; width: number; height: number },
+  rotation: number,
+): (viewX: number, viewY: number) => [number, number] {
+  const x0 = cropBox.x
+  const y0 = cropBox.y
+  const x1 = cropBox.x + cropBox.width
+  const y1 = cropBox.y + cropBox.height
+  const normalized = (((Math.round(rotation / 90) * 90) % 360) + 360) % 360
+
+  return (vx, vy) => {
+    switch (normalized) {
+      case 90:
+        return [x0 + vy, y0 + vx]
+      case 180:
+        return [x1 - vx, y0 + vy]
+      case 270:
+        return [x1 - vy, y1 - vx]
+      default:
+        return [x0 + vx, y1 - vy]
+    }
+  }
+}
+
+/**
+ * Maps editor redaction marks (top-left origin, in the page viewport rotated
+ * by the page's editor rotation) into the page's unrotated user space.
+ */
+export function resolveRedactionAreas(
+  marks: RedactionMark[],
+  cropBox: { x: number; y: number; width: number; height: number },
+  rotation: number,
+): RedactionArea[] {
+  const toUserSpace = createViewToUserSpace(cropBox, rotation)
+
+  return marks
+    .filter((mark) => mark.width > 0 && mark.height > 0)
+    .map((mark) => {
+      const [ax, ay] = toUserSpace(mark.x, mark.y)
+      const [bx, by] = toUserSpace(mark.x + mark.width, mark.y + mark.height)
+      return {
+        left: Math.min(ax, bx),
+        bottom: Math.min(ay, by),
+        right: Math.max(ax, bx),
+        top: Math.max(ay, by),
+      }
+    })
+}
+
+/**
+ * Removes text, images and paths under the redaction marks from the page's
+ * content stream, then paints the marks on top. Everything outside the marks
+ * stays vector content.
+ */
+export function redactPageContent(page: PDFPage, marks: RedactionMark[], rotation: number): void {
+  const context = page.doc.context
+  const visibleMarks = marks.filter((mark) => mark.width > 0 && mark.height > 0)
+  const areas = resolveRedactionAreas(visibleMarks, page.getCropBox(), rotation)
+  if (areas.length === 0) return
+
+  const redaction: RedactionContext = {
+    context,
+    areas,
+    fonts: new Map(),
+    droppedXObjects: new Map(),
+    keptXObjects: new Map(),
+  }
+  const previousContents = page.node.get(PDFName.of('Contents'))
+  const source = readPageContent(page)
+  const filtered = redactContent(source, page.node.Resources(), IDENTITY, redaction, 0)
+
+  const fills = areas.map((area, index) => {
+    const gray = visibleMarks[index]?.color === 'white' ? 1 : 0
+    return [
+      'q',
+      `${gray} g`,
+      [area.left, area.bottom, area.right - area.left, area.top - area.bottom]
+        .map(formatNumber)
+        .join(' ') + ' re',
+      'f',
+      'Q',
+    ].join('\n')
+  })
+
+  const content = ['q', filtered, 'Q', ...fills].join('\n')
+  page.node.set(PDFName.of('Contents'), context.register(context.flateStream(encodeLatin1(content))))
+
+  const orphans: Array<PDFObject | undefined> = [previousContents, page.node.get(PDFName.of('Thumb'))]
+  // Thumbnails would still show the original content.
+  page.node.delete(PDFName.of('Thumb'))
+  orphans.push(...removeIntersectingAnnotations(page, areas))
+  orphans.push(...pruneDroppedXObjects(redaction))
+  deleteUnreachableObjects(page, orphans)
+}
+
+/**
+ * pdf-lib writes every registered object, so content that is no longer
+ * referenced by the page would still end up in the file.
+ */
+function deleteUnreachableObjects(page: PDFPage, candidates: Array<PDFObject | undefined>): void {
+  const context = page.doc.context
+  const reachable = collectRefs(page.node, context, new Set())
+  const orphans = new Set<PDFRef>()
+  for (const candidate of candidates) collectRefs(candidate, context, orphans)
+  for (const ref of orphans) {
+    if (!reachable.has(ref)) context.delete(ref)
+  }
+}
+
+function collectRefs(
+  object: PDFObject | undefined,
+  context: PDFContext,
+  refs: Set<PDFRef>,
+): Set<PDFRef> {
+  if (object instanceof PDFRef) {
+    if (refs.has(object)) return refs
+    refs.add(object)
+    return collectRefs(context.lookup(object), context, refs)
+  }
+  if (object instanceof PDFStream) return collectRefs(object.dict, context, refs)
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      // Back references lead to the page tree and would reach the whole document.
+      if (key === PDFName.of('Parent') || key === PDFName.of('P')) continue
+      collectRefs(value, context, refs)
+    }
+  }
+  if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      collectRefs(object.get(index), context, refs)
+    }
+  }
+  return refs
+}
+
+function pruneDroppedXObjects(redaction: RedactionContext): PDFObject[] {
+  const removed: PDFObject[] = []
+  for (const [xObjects, names] of redaction.droppedXObjects) {
+    const kept = redaction.keptXObjects.get(xObjects)
+    for (const name of names) {
+      if (kept?.has(name)) continue
+      const value = xObjects.get(PDFName.of(name))
+      if (value) removed.push(value)
+      xObjects.delete(PDFName.of(name))
+    }
+  }
+  return removed
+}
+
+function trackXObject(registry: Map<PDFDict, Set<string>>, xObjects: PDFDict, name: string): void {
+  const names = registry.get(xObjects) ?? new Set<string>()
+  names.add(name)
+  registry.set(xObjects, names)
+}
+
+/** Decoded content of all the page's content streams */
+export function readPageContent(page: PDFPage): string {
+  const contents = page.node.Contents()
+  if (!contents) return ''
+  if (contents instanceof PDFStream) return readStream(contents)
+
+  const parts: string[] = []
+  for (let index = 0; index < contents.size(); index++) {
+    const stream = contents.lookup(index)
+    if (stream instanceof PDFStream) parts.push(readStream(stream))
+  }
+  return parts.join('\n')
+}
+
+function readStream(stream: PDFStream): string {
+  if (stream instanceof PDFContentStream) {
+    return decodeLatin1(stream.getUnencodedContents())
+  }
+  if (stream instanceof PDFRawStream) {
+    return decodeLatin1(decodePDFRawStream(stream).decode())
+  }
+  return decodeLatin1(stream.getContents())
+}
+
+function removeIntersectingAnnotations(page: PDFPage, areas: RedactionArea[]): PDFObject[] {
+  const removed: PDFObject[] = []
+  const annots = page.node.Annots()
+  if (!annots) return removed
+
+  for (let index = annots.size() - 1; index >= 0; index--) {
+    const annot = annots.lookup(index)
+    if (!(annot instanceof PDFDict)) continue
+    const rect = readNumbers(annot.lookup(PDFName.of('Rect')))
+    if (rect.length < 4) continue
+    const box = boxFromPoints([
+      [rect[0]!, rect[1]!],
+      [rect[2]!, rect[3]!],
+    ])
+    if (intersectsAny(box, areas)) {
+      removed.push(annots.get(index))
+      annots.remove(index)
+    }
+  }
+  return removed
+}
+
+function redactContent(
+  source: string,
+  resources: PDFDict | undefined,
+  initialCtm: Matrix,
+  redaction: RedactionContext,
+  depth: number,
+): string {
+  const operations = parseContentStream(source)
+  const output: string[] = []
+  const stack: GraphicsState[] = []
+  let state: GraphicsState = {
+    ctm: initialCtm,
+    lineWidth: 1,
+    font: DEFAULT_FONT_METRICS,
+    fontSize: 0,
+    charSpacing: 0,
+    wordSpacing: 0,
+    horizontalScaling: 1,
+    leading: 0,
+    rise: 0,
+  }
+  let textMatrix: Matrix = IDENTITY
+  let lineMatrix: Matrix = IDENTITY
+  let subpaths: Subpath[] = []
+  let clip: ContentOperation | null = null
+
+  const raw = (operation: ContentOperation) => source.slice(operation.start, operation.end)
+
+  const flushPath = (paint: ContentOperation | null) => {
+    const construction = subpaths.flatMap((subpath) => subpath.operations)
+    const pad = paint && PATH_STROKING.has(paint.operator) ? strokePadding(state) : 0
+    const kept = subpaths.filter(
+      (subpath) => !intersectsAny(expandBox(boxFromPoints(subpath.points), pad), redaction.areas),
+    )
+
+    if (kept.length === subpaths.length || !paint) {
+      output.push(...construction.map(raw))
+      if (clip) output.push(raw(clip))
+      if (paint) output.push(raw(paint))
+    } else {
+      if (clip) output.push(...construction.map(raw), raw(clip), 'n')
+      if (paint.operator !== 'n' && kept.length > 0) {
+        output.push(...kept.flatMap((subpath) => subpath.operations).map(raw), raw(paint))
+      }
+    }
+
+    subpaths = []
+    clip = null
+  }
+
+  const moveTextLine = (tx: number, ty: number) => {
+    lineMatrix = multiply([1, 0, 0, 1, tx, ty], lineMatrix)
+    textMatrix = lineMatrix
+  }
+
+  const showText = (items: ContentOperand[]): string | null => {
+    const rewritten: ContentOperand[] = []
+    let removedAny = false
+    let pending = ''
+    let pendingAdjustment = 0
+
+    const flushString = () => {
+      if (pending) rewritten.push({ type: 'string', value: pending })
+      pending = ''
+    }
+    const flushAdjustment = () => {
+      if (pendingAdjustment !== 0) rewritten.push({ type: 'number', value: pendingAdjustment })
+      pendingAdjustment = 0
+    }
+
+    for (const item of items) {
+      if (item.type === 'number') {
+        textMatrix = multiply(
+          [1, 0, 0, 1, (-item.value / 1000) * state.fontSize * state.horizontalScaling, 0],
+          textMatrix,
+        )
+        flushString()
+        pendingAdjustment += item.value
+        continue
+      }
+      if (item.type !== 'string') continue
+
+      let offset = 0
+      while (offset < item.value.length) {
+        const { code, length } = state.font.readCode(item.value, offset)
+        const bytes = item.value.slice(offset, offset + length)
+        offset += length
+
+        const width = state.font.widthOf(code)
+        const spacing =
+          state.charSpacing + (length === 1 && code === 32 ? state.wordSpacing : 0)
+        const renderMatrix = multiply(
+          multiply(
+            [
+              state.fontSize * state.horizontalScaling,
+              0,
+              0,
+              state.fontSize,
+              0,
+              state.rise,
+            ],
+            textMatrix,
+          ),
+          state.ctm,
+        )
+        const glyphBox = boxFromPoints(
+          [
+            [0, state.font.descent],
+            [width, state.font.descent],
+            [0, state.font.ascent],
+            [width, state.font.ascent],
+          ].map(([x, y]) => transformPoint(renderMatrix, x!, y!)),
+        )
+
+        if (intersectsAny(glyphBox, redaction.areas)) {
+          removedAny = true
+          flushString()
+          if (state.fontSize !== 0) {
+            pendingAdjustment -= width * 1000 + (spacing * 1000) / state.fontSize
+          }
+        } else {
+          flushAdjustment()
+          pending += bytes
+        }
+
+        const advance = (width * state.fontSize + spacing) * state.horizontalScaling
+        textMatrix = multiply([1, 0, 0, 1, advance, 0], textMatrix)
+      }
+    }
+
+    if (!removedAny) return null
+    flushString()
+    flushAdjustment()
+    return serializeOperation('TJ', [{ type: 'array', value: rewritten }])
+  }
+
+  for (const operation of operations) {
+    const { operator, operands } = operation
+    const numbers = operands.map((operand) => (operand.type === 'number' ? operand.value : 0))
+
+    if (PATH_CONSTRUCTION.has(operator)) {
+      const points = pathPoints(operator, numbers).map(([x, y]) =>
+        transformPoint(state.ctm, x, y),
+      )
+      const last = subpaths[subpaths.length - 1]
+      if (operator === 'm' || operator === 're' || !last) {
+        subpaths.push({ operations: [operation], points })
+      } else {
+        last.operations.push(operation)
+        last.points.push(...points)
+      }
+      continue
+    }
+    if (PATH_CLIPPING.has(operator) && subpaths.length > 0) {
+      clip = operation
+      continue
+    }
+    if (PATH_PAINTING.has(operator) && subpaths.length > 0) {
+      flushPath(operation)
+      continue
+    }
+    if (subpaths.length > 0) flushPath(null)
+
+    switch (operator) {
+      case 'q':
+        stack.push({ ...state })
+        break
+      case 'Q': {
+        const previous = stack.pop()
+        if (!previous) continue
+        state = previous
+        break
+      }
+      case 'cm':
+        if (numbers.length >= 6) state.ctm = multiply(numbers.slice(0, 6) as Matrix, state.ctm)
+        break
+      case 'w':
+        state.lineWidth = numbers[0] ?? 1
+        break
+      case 'BT':
+        textMatrix = IDENTITY
+        lineMatrix = IDENTITY
+        break
+      case 'Tf': {
+        const name = operands[0]?.type === 'name' ? operands[0].value : ''
+        state.font = resolveFont(resources, name, redaction)
+        state.fontSize = numbers[1] ?? 0
+        break
+      }
+      case 'Tc':
+        state.charSpacing = numbers[0] ?? 0
+        break
+      case 'Tw':
+        state.wordSpacing = numbers[0] ?? 0
+        break
+      case 'Tz':
+        state.horizontalScaling = (numbers[0] ?? 100) / 100
+        break
+      case 'TL':
+        state.leading = numbers[0] ?? 0
+        break
+      case 'Ts':
+        state.rise = numbers[0] ?? 0
+        break
+      case 'Td':
+        moveTextLine(numbers[0] ?? 0, numbers[1] ?? 0)
+        break
+      case 'TD':
+        state.leading = -(numbers[1] ?? 0)
+        moveTextLine(numbers[0] ?? 0, numbers[1] ?? 0)
+        break
+      case 'Tm':
+        if (numbers.length >= 6) {
+          lineMatrix = numbers.slice(0, 6) as Matrix
+          textMatrix = lineMatrix
+        }
+        break
+      case 'T*':
+        moveTextLine(0, -state.leading)
+        break
+      case 'Tj': {
+        const rewritten = showText(operands.slice(0, 1))
+        output.push(rewritten ?? raw(operation))
+        continue
+      }
+      case 'TJ': {
+        const items = operands[0]?.type === 'array' ? operands[0].value : []
+        const rewritten = showText(items)
+        output.push(rewritten ?? raw(operation))
+        continue
+      }
+      case "'": {
+        moveTextLine(0, -state.leading)
+        const rewritten = showText(operands.slice(0, 1))
+        output.push(rewritten ? `T*\n${rewritten}` : raw(operation))
+        continue
+      }
+      case '"': {
+        state.wordSpacing = numbers[0] ?? 0
+        state.charSpacing = numbers[1] ?? 0
+        moveTextLine(0, -state.leading)
+        const rewritten = showText(operands.slice(2, 3))
+        output.push(
+          rewritten
+            ? `${formatNumber(state.wordSpacing)} Tw ${formatNumber(state.charSpacing)} Tc T*\n${rewritten}`
+            : raw(operation),
+        )
+        continue
+      }
+      case 'BI':
+        if (intersectsAny(unitSquareBox(state.ctm), redaction.areas)) continue
+        break
+      case 'Do': {
+        const replacement = redactXObject(operands[0], resources, state.ctm, redaction, depth)
+        if (replacement === null) continue
+        if (replacement !== undefined) {
+          output.push(replacement)
+          continue
+        }
+        break
+      }
+    }
+
+    output.push(raw(operation))
+  }
+
+  if (subpaths.length > 0) flushPath(null)
+  // Close graphics states left open so appended content starts clean.
+  for (let index = 0; index < stack.length; index++) output.push('Q')
+
+  return output.join('\n')
+}
+
+/**
+ * Returns null to drop the operator, undefined to keep it unchanged, or the
+ * replacement operator for a redacted form XObject copy.
+ */
+function redactXObject(
+  nameOperand: ContentOperand | undefined,
+  resources: PDFDict | undefined,
+  ctm: Matrix,
+  redaction: RedactionContext,
+  depth: number,
+): string | null | undefined {
+  if (nameOperand?.type !== 'name') return undefined
+  const xObjects = resources?.lookup(PDFName.of('XObject'))
+  if (!(xObjects instanceof PDFDict)) return undefined
+  const xObject = xObjects.lookup(PDFName.of(nameOperand.value))
+  if (!(xObject instanceof PDFStream)) return undefined
+
+  const name = nameOperand.value
+  const keep = () => {
+    trackXObject(redaction.keptXObjects, xObjects, name)
+    return undefined
+  }
+  const drop = () => {
+    trackXObject(redaction.droppedXObjects, xObjects, name)
+    return null
+  }
+
+  const subtype = xObject.dict.lookup(PDFName.of('Subtype'))
+  if (subtype === PDFName.of('Image')) {
+    return intersectsAny(unitSquareBox(ctm), redaction.areas) ? drop() : keep()
+  }
+  if (subtype !== PDFName.of('Form')) return keep()
+
+  const matrix = readNumbers(xObject.dict.lookup(PDFName.of('Matrix')))
+  const formCtm = multiply(matrix.length >= 6 ? (matrix.slice(0, 6) as Matrix) : IDENTITY, ctm)
+  const bbox = readNumbers(xObject.dict.lookup(PDFName.of('BBox')))
+  if (bbox.length >= 4) {
+    const box = boxFromPoints(
+      [
+        [bbox[0]!, bbox[1]!],
+        [bbox[2]!, bbox[1]!],
+        [bbox[0]!, bbox[3]!],
+        [bbox[2]!, bbox[3]!],
+      ].map(([x, y]) => transformPoint(formCtm, x!, y!)),
+    )
+    if (!intersectsAny(box, redaction.areas)) return keep()
+  }
+  if (depth >= MAX_FORM_DEPTH) return drop()
+
+  const formResources = xObject.dict.lookup(PDFName.of('Resources'))
+  const filtered = redactContent(
+    readStream(xObject),
+    formResources instanceof PDFDict ? formResources : resources,
+    formCtm,
+    redaction,
+    depth + 1,
+  )
+
+  // The form may be drawn elsewhere with a different transform, so the
+  // redacted version is stored as a new XObject instead of replacing it.
+  const { context } = redaction
+  const copy = context.flateStream(encodeLatin1(filtered))
+  for (const [key, value] of xObject.dict.entries()) {
+    if (!STREAM_ENCODING_KEYS.has(key.decodeText())) copy.dict.set(key, value)
+  }
+
+  let index = 1
+  let copyName = `${name}R${index}`
+  while (xObjects.has(PDFName.of(copyName))) copyName = `${name}R${++index}`
+  xObjects.set(PDFName.of(copyName), context.register(copy))
+  trackXObject(redaction.keptXObjects, xObjects, copyName)
+  drop()
+
+  return `${serializeName(copyName)} Do`
+}
+
+function resolveFont(
+  resources: PDFDict | undefined,
+  name: string,
+  redaction: RedactionContext,
+): FontMetrics {
+  const fonts = resources?.lookup(PDFName.of('Font'))
+  const font = fonts instanceof PDFDict ? fonts.lookup(PDFName.of(name)) : undefined
+  if (!(font instanceof PDFDict)) return DEFAULT_FONT_METRICS
+
+  const cached = redaction.fonts.get(font)
+  if (cached) return cached
+  const metrics = buildFontMetrics(font)
+  redaction.fonts.set(font, metrics)
+  return metrics
+}
+
+function buildFontMetrics(font: PDFDict): FontMetrics {
+  const subtype = font.lookup(PDFName.of('Subtype'))
+  if (subtype === PDFName.of('Type0')) return buildCompositeFontMetrics(font)
+
+  const isType3 = subtype === PDFName.of('Type3')
+  const fontMatrix = readNumbers(font.lookup(PDFName.of('FontMatrix')))
+  const widthScale = isType3 && fontMatrix.length >= 4 ? fontMatrix[0]! : 0.001
+  const firstChar = readNumber(font.lookup(PDFName.of('FirstChar'))) ?? 0
+  const widths = readNumbers(font.lookup(PDFName.of('Widths')))
+  const descriptor = font.lookup(PDFName.of('FontDescriptor'))
+  const missingWidth =
+    descriptor instanceof PDFDict ? readNumber(descriptor.lookup(PDFName.of('MissingWidth'))) : null
+  const standard = widths.length === 0 ? resolveStandardFontWidths(font) : null
+
+  let { ascent, descent } = readDescriptorExtents(descriptor)
+  if (isType3) {
+    const bbox = readNumbers(font.lookup(PDFName.of('FontBBox')))
+    const scaleY = fontMatrix.length >= 4 ? fontMatrix[3]! : 0.001
+    if (bbox.length >= 4 && bbox[3]! > bbox[1]!) {
+      ascent = bbox[3]! * scaleY
+      descent = bbox[1]! * scaleY
+    }
+  } else if (standard) {
+    ascent = standard.ascent
+    descent = standard.descent
+  }
+
+  return {
+    readCode: DEFAULT_FONT_METRICS.readCode,
+    widthOf: (code) => {
+      const width = widths[code - firstChar]
+      if (width !== undefined) return width * widthScale
+      if (standard) return standard.widthOf(code)
+      if (missingWidth !== null) return missingWidth * widthScale
+      return DEFAULT_GLYPH_WIDTH
+    },
+    ascent,
+    descent,
+  }
+}
+
+function buildCompositeFontMetrics(font: PDFDict): FontMetrics {
+  const descendants = font.lookup(PDFName.of('DescendantFonts'))
+  const descendant = descendants instanceof PDFArray ? descendants.lookup(0) : undefined
+  const cidFont = descendant instanceof PDFDict ? descendant : undefined
+
+  const defaultWidth = readNumber(cidFont?.lookup(PDFName.of('DW'))) ?? 1000
+  const widths = readCidWidths(cidFont?.lookup(PDFName.of('W')))
+  const encoding = font.lookup(PDFName.of('Encoding'))
+  const isIdentity =
+    encoding === PDFName.of('Identity-H') || encoding === PDFName.of('Identity-V')
+  const codespaces = encoding instanceof PDFStream ? readCodespaceRanges(encoding) : []
+
+  return {
+    readCode: (bytes, offset) => {
+      for (const range of codespaces) {
+        if (offset + range.length > bytes.length) continue
+        const code = readCode(bytes, offset, range.length)
+        if (code >= range.low && code <= range.high) return { code, length: range.length }
+      }
+      const length = Math.min(2, bytes.length - offset)
+      return { code: readCode(bytes, offset, length), length }
+    },
+    // Without an identity CMap the CID is unknown, so the default width is used.
+    widthOf: (code) => ((isIdentity ? widths.get(code) : undefined) ?? defaultWidth) / 1000,
+    ...readDescriptorExtents(cidFont?.lookup(PDFName.of('FontDescriptor'))),
+  }
+}
+
+function readCode(bytes: string, offset: number, length: number): number {
+  let code = 0
+  for (let index = 0; index < length; index++) {
+    code = code * 256 + bytes.charCodeAt(offset + index)
+  }
+  return code
+}
+
+function readCidWidths(value: PDFObject | undefined): Map<number, number> {
+  const widths = new Map<number, number>()
+  if (!(value instanceof PDFArray)) return widths
+
+  let index = 0
+  while (index < value.size()) {
+    const first = readNumber(value.lookup(index))
+    const next = value.lookup(index + 1)
+    if (first === null) break
+
+    if (next instanceof PDFArray) {
+      readNumbers(next).forEach((width, offset) => widths.set(first + offset, width))
+      index += 2
+    } else {
+      const last = readNumber(next)
+      const width = readNumber(value.lookup(index + 2))
+      if (last === null || width === null) break
+      for (let cid = first; cid <= last; cid++) widths.set(cid, width)
+      index += 3
+    }
+  }
+  return widths
+}
+
+function readCodespaceRanges(
+  cmap: PDFStream,
+): Array<{ low: number; high: number; length: number }> {
+  let text: string
+  try {
+    text = readStream(cmap)
+  } catch {
+    return []
+  }
+
+  const ranges: Array<{ low: number; high: number; length: number }> = []
+  for (const block of text.matchAll(/begincodespacerange([\s\S]*?)endcodespacerange/g)) {
+    for (const pair of (block[1] ?? '').matchAll(/<([0-9a-fA-F]+)>\s*<([0-9a-fA-F]+)>/g)) {
+      const low = pair[1] ?? ''
+      ranges.push({
+        low: Number.parseInt(low, 16),
+        high: Number.parseInt(pair[2] ?? '', 16),
+        length: Math.ceil(low.length / 2),
+      })
+    }
+  }
+  return ranges.sort((a, b) => a.length - b.length)
+}
+
+function readDescriptorExtents(descriptor: PDFObject | undefined): {
+  ascent: number
+  descent: number
+} {
+  if (!(descriptor instanceof PDFDict)) return { ascent: DEFAULT_ASCENT, descent: DEFAULT_DESCENT }
+  const ascent = readNumber(descriptor.lookup(PDFName.of('Ascent'))) ?? 0
+  const descent = readNumber(descriptor.lookup(PDFName.of('Descent'))) ?? 0
+  return {
+    ascent: ascent > 0 ? ascent / 1000 : DEFAULT_ASCENT,
+    descent: descent < 0 ? descent / 1000 : DEFAULT_DESCENT,
+  }
+}
+
+/**
+ * Widths for the standard 14 fonts, which may omit /Widths.
+ */
+function resolveStandardFontWidths(font: PDFDict): Pick<
+  FontMetrics,
+  'widthOf' | 'ascent' | 'descent'
+> | null {
+  const baseFont = font.lookup(PDFName.of('BaseFont'))
+  if (!(baseFont instanceof PDFName)) return null
+  const name = baseFont.decodeText().replace(/^[A-Z]{6}\+/, '')
+  const standardName =
+    STANDARD_FONT_ALIASES[name] ??
+    Object.values(StandardFonts).find((candidate) => candidate === name)
+  if (!standardName) return null
+
+  const embedder = StandardFontEmbedder.for(
+    standardName as unknown as Parameters<typeof StandardFontEmbedder.for>[0],
+  )
+  const glyphNames = new Map<number, string>()
+  for (const codePoint of embedder.encoding.supportedCodePoints) {
+    const glyph = embedder.encoding.encodeUnicodeCodePoint(codePoint)
+    if (!glyphNames.has(glyph.code)) glyphNames.set(glyph.code, glyph.name)
+  }
+
+  const encoding = font.lookup(PDFName.of('Encoding'))
+  const differences =
+    encoding instanceof PDFDict ? encoding.lookup(PDFName.of('Differences')) : undefined
+  if (differences instanceof PDFArray) {
+    let code = 0
+    for (let index = 0; index < differences.size(); index++) {
+      const entry = differences.lookup(index)
+      if (entry instanceof PDFNumber) {
+        code = entry.asNumber()
+      } else if (entry instanceof PDFName) {
+        glyphNames.set(code++, entry.decodeText())
+      }
+    }
+  }
+
+  return {
+    widthOf: (code) => {
+      const glyphName = glyphNames.get(code)
+      const width = glyphName ? embedder.font.getWidthOfGlyph(glyphName) : undefined
+      return typeof width === 'number' ? width / 1000 : DEFAULT_GLYPH_WIDTH
+    },
+    ascent: typeof embedder.font.Ascender === 'number' ? embedder.font.Ascender / 1000 : DEFAULT_ASCENT,
+    descent:
+      typeof embedder.font.Descender === 'number' ? embedder.font.Descender / 1000 : DEFAULT_DESCENT,
+  }
+}
+
+function readNumber(value: PDFObject | undefined): number | null {
+  return value instanceof PDFNumber ? value.asNumber() : null
+}
+
+function readNumbers(value: PDFObject | undefined): number[] {
+  if (!(value instanceof PDFArray)) return []
+  const numbers: number[] = []
+  for (let index = 0; index < value.size(); index++) {
+    numbers.push(readNumber(value.lookup(index)) ?? 0)
+  }
+  return numbers
+}
+
+function pathPoints(operator: string, numbers: number[]): Array<[number, number]> {
+  if (operator === 're') {
+    const [x = 0, y = 0, width = 0, height = 0] = numbers
+    return [
+      [x, y],
+      [x + width, y],
+      [x, y + height],
+      [x + width, y + height],
+    ]
+  }
+  const points: Array<[number, number]> = []
+  for (let index = 0; index + 1 < numbers.length; index += 2) {
+    points.push([numbers[index]!, numbers[index + 1]!])
+  }
+  return points
+}
+
+function strokePadding(state: GraphicsState): number {
+  const [a, b, c, d] = state.ctm
+  const scale = Math.sqrt(Math.abs(a * d - b * c))
+  return (Math.max(state.lineWidth, 1) * scale) / 2
+}
+
+function multiply(left: Matrix, right: Matrix): Matrix {
+  const [a1, b1, c1, d1, e1, f1] = left
+  const [a2, b2, c2, d2, e2, f2] = right
+  return [
+    a1 * a2 + b1 * c2,
+    a1 * b2 + b1 * d2,
+    c1 * a2 + d1 * c2,
+    c1 * b2 + d1 * d2,
+    e1 * a2 + f1 * c2 + e2,
+    e1 * b2 + f1 * d2 + f2,
+  ]
+}
+
+function transformPoint(matrix: Matrix, x: number, y: number): [number, number] {
+  const [a, b, c, d, e, f] = matrix
+  return [a * x + c * y + e, b * x + d * y + f]
+}
+
+function unitSquareBox(ctm: Matrix): RedactionArea {
+  return boxFromPoints(
+    [
+      [0, 0],
+      [1, 0],
+      [0, 1],
+      [1, 1],
+    ].map(([x, y]) => transformPoint(ctm, x!, y!)),
+  )
+}
+
+function boxFromPoints(points: Array<[number, number]>): RedactionArea {
+  const box = { left: Infinity, bottom: Infinity, right: -Infinity, top: -Infinity }
+  for (const [x, y] of points) {
+    box.left = Math.min(box.left, x)
+    box.right = Math.max(box.right, x)
+    box.bottom = Math.min(box.bottom, y)
+    box.top = Math.max(box.top, y)
+  }
+  return box
+}
+
+function expandBox(box: RedactionArea, amount: number): RedactionArea {
+  return {
+    left: box.left - amount,
+    bottom: box.bottom - amount,
+    right: box.right + amount,
+    top: box.top + amount,
+  }
+}
+
+function intersectsAny(box: RedactionArea, areas: RedactionArea[]): boolean {
+  if (!Number.isFinite(box.left)) return false
+  return areas.some(
+    (area) =>
+      box.left < area.right &&
+      box.right > area.left &&
+      box.bottom < area.top &&
+      box.top > area.bottom,
+  )
+}
@@ -0,0 +1,138 @@
+import {
+  LineCapStyle,
+  LineJoinStyle,
+  concatTransformationMatrix,
+  drawObject,
+  lineTo,
+  moveTo,
+  popGraphicsState,
+  pushGraphicsState,
+  setLineCap,
+  setLineJoin,
+  setLineWidth,
+  setStrokingRgbColor,
+  stroke,
+  type PDFDocument,
+  type PDFImage,
+  type PDFOperator,
+  type PDFPage,
+} from 'pdf-lib'
+import type { PageSignature, SignatureArtwork } from '@/shared/types'
+import {
+  createPointMapper,
+  parseColor,
+  type AnnotationPlacement,
+  type PointMapper,
+} from '@/domains/export/domain/export-annotations'
+import { isolatePageContent } from '@/domains/export/domain/export-page-overlay'
+
+/**
+ * Signatures are always burned into the page content: drawn signatures as
+ * vector strokes, typed and uploaded ones as PNG images. The placement box
+ * is mapped to user space the same way as annotations.
+ */
+
+type Point = [number, number]
+type Matrix = [number, number, number, number, number, number]
+
+const signatureImages = new WeakMap<PDFDocument, Map<string, Promise<PDFImage>>>()
+
+// Placing one signature on many pages embeds its image once.
+function getSignatureImage(pdfDoc: PDFDocument, image: string): Promise<PDFImage> {
+  let images = signatureImages.get(pdfDoc)
+  if (!images) {
+    images = new Map()
+    signatureImages.set(pdfDoc, images)
+  }
+  let embedded = images.get(image)
+  if (!embedded) {
+    embedded = pdfDoc.embedPng(image)
+    images.set(image, embedded)
+  }
+  return embedded
+}
+
+/** Axes of the placement box in user space, top-left corner first */
+function getBoxAxes(
+  signature: PageSignature,
+  map: PointMapper,
+): { origin: Point; across: Point; down: Point } {
+  const { x, y, width, height } = signature
+  const [originX, originY] = map(x, y)
+  const [rightX, rightY] = map(x + width, y)
+  const [downX, downY] = map(x, y + height)
+  return {
+    origin: [originX, originY],
+    across: [rightX - originX, rightY - originY],
+    down: [downX - originX, downY - originY],
+  }
+}
+
+function drawStrokes(artwork: SignatureArtwork, matrix: Matrix): PDFOperator[] {
+  const operators: PDFOperator[] = [
+    pushGraphicsState(),
+    concatTransformationMatrix(...matrix),
+    setStrokingRgbColor(...parseColor(artwork.strokeColor ?? '#000000')),
+    setLineWidth(artwork.strokeWidth ?? 1),
+    setLineCap(LineCapStyle.Round),
+    setLineJoin(LineJoinStyle.Round),
+  ]
+  for (const points of artwork.strokes ?? []) {
+    const [x = 0, y = 0] = points
+    operators.push(moveTo(x, y))
+    // A single point still needs a segment to paint its round cap.
+    if (points.length <= 2) operators.push(lineTo(x, y))
+    for (let index = 2; index + 1 < points.length; index += 2) {
+      operators.push(lineTo(points[index]!, points[index + 1]!))
+    }
+    operators.push(stroke())
+  }
+  operators.push(popGraphicsState())
+  return operators
+}
+
+/** Paints the signatures of one page over its content */
+export async function drawPageSignatures(
+  pdfDoc: PDFDocument,
+  page: PDFPage,
+  signatures: readonly PageSignature[],
+  placement: AnnotationPlacement,
+): Promise<void> {
+  const visible = signatures.filter(
+    (signature) =>
+      signature.width > 0 &&
+      signature.height > 0 &&
+      (signature.artwork.image || signature.artwork.strokes?.length),
+  )
+  if (visible.length === 0) return
+
+  const map = createPointMapper(placement)
+  isolatePageContent(pdfDoc, page)
+
+  for (const signature of visible) {
+    const { artwork } = signature
+    const { origin, across, down } = getBoxAxes(signature, map)
+    const [ox, oy] = origin
+    const [ax, ay] = across
+    const [dx, dy] = down
+
+    if (artwork.image) {
+      // Images fill the unit square with a bottom-left origin.
+      const image = await getSignatureImage(pdfDoc, artwork.image)
+      const name = page.node.newXObject('FluxSig', image.ref)
+      page.pushOperators(
+        pushGraphicsState(),
+        concatTransformationMatrix(ax, ay, -dx, -dy, ox + dx, oy + dy),
+        drawObject(name),
+        popGraphicsState(),
+      )
+      continue
+    }
+
+    const scaleX = 1 / Math.max(artwork.width, 1)
+    const scaleY = 1 / Math.max(artwork.height, 1)
+    page.pushOperators(
+      ...drawStrokes(artwork, [ax * scaleX, ay * scaleX, dx * scaleY, dy * scaleY, ox, oy]),
+    )
+  }
+}
@@ -1,11 +1,85 @@
 import type { PDFDocumentProxy } from 'pdfjs-dist'
-import type { DocumentMetadata, OutlineNode, PageEntry, PageReference } from '@/shared/types'
+import type {
+  DocumentMetadata,
+  FormFieldValues,
+  HeaderFooterSettings,
+  OutlineNode,
+  PageEntry,
+  PageReference,
+  SecurityMetadata,
+  WatermarkSettings,
+} from '@/shared/types'
+import type { PdfEncryptionOptions } from '@/domains/export/domain/export-encryption'
+import type { HeaderFooterDocumentContext } from '@/domains/export/domain/export-header-footer'
+import type { FrontMatterTemplate } from '@/domains/export/domain/export-front-matter'
 
 export type ExportMetadata = DocumentMetadata & {
   creator?: string
   producer?: string
 }
 
+/**
+ * How redaction marks are applied on export: `vector` removes the covered
+ * content from the page, `raster` burns the whole page into an image.
+ */
+export type RedactionMode = 'vector' | 'raster'
+
+export type PageStampAnchor =
+  | 'top-left'
+  | 'top-center'
+  | 'top-right'
+  | 'bottom-left'
+  | 'bottom-center'
+  | 'bottom-right'
+
+/**
+ * Page number / Bates stamp drawn on every exported page. A plain page number
+ * is a stamp without prefix or padding.
+ */
+export interface PageNumberingOptions {
+  prefix: string
+  startNumber: number
+  /** Minimum digit count, zero padded */
+  padding: number
+  fontSize: number
+  anchor: PageStampAnchor
+  /** Distance from the page edges in points */
+  margin: number
+  /** Start again at `startNumber` in every file when dividers split the export */
+  restartPerSegment: boolean
+}
+
+export type ImpositionLayout = '2-up' | '4-up' | '9-up' | 'booklet'
+
+export type ImpositionSheetSize = 'letter' | 'a4' | 'tabloid' | 'a3'
+
+/**
+ * Places several exported pages on each printed sheet. `booklet` orders pages
+ * for saddle stitching: two per side, both sides of every sheet, duplex.
+ */
+export interface ImpositionOptions {
+  layout: ImpositionLayout
+  sheetSize: ImpositionSheetSize
+  /** Space between pages in points */
+  gutter: number
+  /** Distance from the sheet edges in points */
+  margin: number
+  cropMarks: boolean
+}
+
+export type ImageExportFormat = 'png' | 'jpeg' | 'webp'
+
+/** Renders every exported page to an image and bundles them in a ZIP. */
+export interface ImageExportOptions {
+  format: ImageExportFormat
+  /** Render resolution in dots per inch */
+  dpi: number
+  /** Encoder quality from 0 to 1; ignored for PNG */
+  quality: number
+  /** Name of each image; filename pattern tokens plus `{page}` */
+  filenamePattern: string
+}
+
 export interface ExportResult {
   filename: string
   mimeType: string
@@ -28,6 +102,20 @@ export interface ExportOptions {
     flatten?: boolean
     expandAll?: boolean
   }
+  security?: SecurityMetadata
+  redactionMode?: RedactionMode
+  pageNumbering?: PageNumberingOptions | null
+  watermark?: WatermarkSettings | null
+  headerFooter?: HeaderFooterSettings | null
+  /** Cover and/or contents pages placed before the exported pages */
+  frontMatter?: FrontMatterTemplate | null
+  /** Draws form fields into the page content instead of keeping them fillable */
+  flattenForms?: boolean
+  /** Paints page annotations into the page content instead of keeping them editable */
+  flattenAnnotations?: boolean
+  imposition?: ImpositionOptions | null
+  /** Exports page images instead of a PDF when set */
+  image?: ImageExportOptions | null
 }
 
 export interface GeneratorOptions {
@@ -40,9 +128,31 @@ export interface GenerateRawPdfOptions extends GeneratorOptions {
   getPdfBlob: (sourceFileId: string) => Promise<ArrayBuffer | undefined>
   getPdfDocument?: (sourceFileId: string) => Promise<PDFDocumentProxy>
   burnScale?: number
+  redactionMode?: RedactionMode
+  pageNumbering?: PageNumberingOptions | null
+  /** Drawn after page resizing, so it fits each page's final size */
+  watermark?: WatermarkSettings | null
+  headerFooter?: HeaderFooterSettings | null
+  /** Token values for header and footer templates */
+  headerFooterContext?: HeaderFooterDocumentContext
+  /** Generated from metadata and `bookmarks`; contents entries link to their pages */
+  frontMatter?: FrontMatterTemplate | null
+  /** Form fields are kept fillable unless flattened; imposition always flattens */
+  flattenForms?: boolean
+  /** Values entered in the editor, written into the source fields before copying */
+  formValues?: FormFieldValues
+  /** Page annotations stay editable unless flattened; imposition always flattens */
+  flattenAnnotations?: boolean
+  /** Runs last on page content, after overlays; imposed output has no outline */
+  imposition?: ImpositionOptions | null
   bookmarks?: OutlineNode[]
   pageIdToDocIndex?: Map<string, number>
   outline?: ExportOptions['outline']
+  /**
+   * Encrypts the output; object stream compression is skipped when set.
+   * Ignored for PDF/A exports (`metadata.pdfVersion === 'PDF/A'`).
+   */
+  encryption?: PdfEncryptionOptions | null
 }
 
 export interface ResolveExportPagesOptions {
@@ -0,0 +1,191 @@
+import {
+  PDFDocument,
+  StandardFonts,
+  degrees,
+  rgb,
+  type PDFFont,
+  type PDFImage,
+  type PDFPage,
+} from 'pdf-lib'
+import { PAGE_NUMBER_BASE } from '@/shared/constants'
+import type { PageReference, WatermarkSettings } from '@/shared/types'
+import { parsePageRange } from '@/domains/export/domain/export-page-range'
+import {
+  getPageView,
+  isolatePageContent,
+  mapViewPointToUserSpace,
+  toEncodableText,
+} from '@/domains/export/domain/export-page-overlay'
+
+const WATERMARK_TEXT_COLOR = rgb(0.5, 0.5, 0.5)
+/** Space between tiles, relative to the rotated watermark bounds */
+const TILE_GAP_RATIO = 0.5
+
+type EmbeddedWatermark =
+  | { kind: 'text'; text: string; font: PDFFont }
+  | { kind: 'image'; image: PDFImage }
+
+export function isWatermarkActive(
+  watermark: WatermarkSettings | null | undefined,
+): watermark is WatermarkSettings {
+  if (!watermark?.enabled || !(watermark.opacity > 0) || !(watermark.scale > 0)) return false
+  return watermark.kind === 'text' ? watermark.text.trim().length > 0 : !!watermark.imageDataUrl
+}
+
+/**
+ * Watermark settings for each export segment. The page range counts pages
+ * across the whole export, so it is re-based onto every file; segments
+ * outside the range get no watermark.
+ */
+export function resolveSegmentWatermarks(
+  segments: ReadonlyArray<ReadonlyArray<PageReference>>,
+  watermark: WatermarkSettings,
+): Array<WatermarkSettings | null> {
+  if (!watermark.pageRange.trim()) return segments.map(() => watermark)
+
+  const totalPages = segments.reduce((total, segment) => total + segment.length, 0)
+  const indices = parsePageRange(watermark.pageRange, totalPages)
+  let offset = 0
+
+  return segments.map((segment) => {
+    const start = offset
+    offset += segment.length
+    const pageNumbers = indices
+      .filter((index) => index >= start && index < offset)
+      .map((index) => index - start + PAGE_NUMBER_BASE)
+    if (pageNumbers.length === 0) return null
+    return { ...watermark, pageRange: pageNumbers.join(',') }
+  })
+}
+
+/**
+ * Draws the watermark over the pages in its range, laid out in each page's
+ * displayed orientation and final size.
+ */
+export async function stampWatermark(
+  pdfDoc: PDFDocument,
+  watermark: WatermarkSettings,
+): Promise<void> {
+  if (!isWatermarkActive(watermark)) return
+
+  const pages = pdfDoc.getPages()
+  const indices = watermark.pageRange.trim()
+    ? parsePageRange(watermark.pageRange, pages.length)
+    : pages.map((_, index) => index)
+  if (indices.length === 0) return
+
+  const embedded = await embedWatermark(pdfDoc, watermark)
+  if (!embedded) return
+  for (const index of indices) {
+    const page = pages[index]
+    if (!page) continue
+    isolatePageContent(pdfDoc, page)
+    drawWatermark(page, embedded, watermark)
+  }
+}
+
+/**
+ * Fonts and images for the watermark; null when the text has no character
+ * the standard font can draw, rather than a row of placeholders.
+ */
+async function embedWatermark(
+  pdfDoc: PDFDocument,
+  watermark: WatermarkSettings,
+): Promise<EmbeddedWatermark | null> {
+  if (watermark.kind === 'text') {
+    const font = await pdfDoc.embedFont(StandardFonts.HelveticaBold)
+    const original = watermark.text.trim()
+    const text = toEncodableText(font, original)
+    const hasDrawableText = Array.from(original).some(
+      (char) => char.trim() && char !== '?' && text.includes(char),
+    )
+    return hasDrawableText ? { kind: 'text', text, font } : null
+  }
+
+  const dataUrl = watermark.imageDataUrl ?? ''
+  const image = /^data:image\/png/i.test(dataUrl)
+    ? await pdfDoc.embedPng(dataUrl)
+    : await pdfDoc.embedJpg(dataUrl)
+  return { kind: 'image', image }
+}
+
+function drawWatermark(
+  page: PDFPage,
+  embedded: EmbeddedWatermark,
+  watermark: WatermarkSettings,
+): void {
+  const view = getPageView(page)
+  const opacity = Math.min(1, watermark.opacity)
+  const width = view.width * watermark.scale
+  const fontSize =
+    embedded.kind === 'text' ? width / embedded.font.widthOfTextAtSize(embedded.text, 1) : 0
+  const height =
+    embedded.kind === 'text'
+      ? embedded.font.heightAtSize(fontSize, { descender: false })
+      : (width * embedded.image.height) / embedded.image.width
+
+  const angle = (watermark.rotation * Math.PI) / 180
+  const cos = Math.cos(angle)
+  const sin = Math.sin(angle)
+  // Offset from the drawing origin (bottom-left corner) to the center.
+  const centerOffsetX = (width / 2) * cos - (height / 2) * sin
+  const centerOffsetY = (width / 2) * sin + (height / 2) * cos
+  const rotate = degrees(watermark.rotation + view.rotation)
+
+  const centers =
+    watermark.layout === 'tile'
+      ? getTileCenters(view, {
+          width: Math.abs(width * cos) + Math.abs(height * sin),
+          height: Math.abs(width * sin) + Math.abs(height * cos),
+        })
+      : [{ x: view.width / 2, y: view.height / 2 }]
+
+  for (const center of centers) {
+    const { x, y } = mapViewPointToUserSpace(
+      center.x - centerOffsetX,
+      center.y - centerOffsetY,
+      view,
+    )
+    if (embedded.kind === 'text') {
+      page.drawText(embedded.text, {
+        x,
+        y,
+        size: fontSize,
+        font: embedded.font,
+        color: WATERMARK_TEXT_COLOR,
+        opacity,
+        rotate,
+      })
+    } else {
+      page.drawImage(embedded.image, { x, y, width, height, opacity, rotate })
+    }
+  }
+}
+
+/**
+ * Grid of tile centers covering the page, with every other row shifted by
+ * half a step. The grid is anchored on the page center.
+ */
+function getTileCenters(
+  view: { width: number; height: number },
+  bounds: { width: number; height: number },
+): Array<{ x: number; y: number }> {
+  const stepX = bounds.width * (1 + TILE_GAP_RATIO)
+  const stepY = bounds.height * (1 + TILE_GAP_RATIO)
+  const columns = Math.ceil(view.width / 2 / stepX) + 1
+  const rows = Math.ceil(view.height / 2 / stepY) + 1
+  const centers: Array<{ x: number; y: number }> = []
+
+  for (let row = -rows; row <= rows; row++) {
+    const shift = Math.abs(row) % 2 === 1 ? stepX / 2 : 0
+    const y = view.height / 2 + row * stepY
+    if (y + bounds.height / 2 < 0 || y - bounds.height / 2 > view.height) continue
+    for (let column = -columns; column <= columns; column++) {
+      const x = view.width / 2 + column * stepX + shift
+      if (x + bounds.width / 2 < 0 || x - bounds.width / 2 > view.width) continue
+      centers.push({ x, y })
+    }
+  }
+
+  return centers
+}
@@ -5,6 +5,14 @@ export type {
   ExportResult,
   GenerateRawPdfOptions,
   GeneratorOptions,
+  ImageExportFormat,
+  ImageExportOptions,
+  ImpositionLayout,
+  ImpositionOptions,
+  ImpositionSheetSize,
+  PageNumberingOptions,
+  PageStampAnchor,
+  RedactionMode,
   ResolveExportPagesOptions,
 } from '@/domains/export/domain/export-types'
 
@@ -15,6 +23,106 @@ export {
   validatePageRange,
 } from '@/domains/export/domain/export-page-range'
 
-export { generateRawPdf } from '@/domains/export/domain/export-pdf'
+export { applyTargetDimensions, generateRawPdf } from '@/domains/export/domain/export-pdf'
+
+export {
+  DEFAULT_IMPOSITION,
+  IMPOSITION_LAYOUTS,
+  IMPOSITION_SHEET_SIZES,
+  getImpositionCells,
+  getImpositionSheet,
+  imposePages,
+  planImpositionSides,
+  type ImpositionCell,
+} from '@/domains/export/domain/export-imposition'
+
+export {
+  DEFAULT_IMAGE_EXPORT,
+  IMAGE_EXPORT_DPI_RANGE,
+  IMAGE_EXPORT_FORMATS,
+  renderPageImage,
+  resolveImageFilenames,
+} from '@/domains/export/domain/export-images'
+
+export {
+  readPageContent,
+  redactPageContent,
+  resolveRedactionAreas,
+} from '@/domains/export/domain/export-redaction'
+
+export {
+  DEFAULT_PAGE_NUMBERING,
+  formatPageStamp,
+  resolveSegmentStartNumbers,
+  stampPageNumbers,
+} from '@/domains/export/domain/export-page-numbering'
+
+export {
+  HEADER_FOOTER_TOKENS,
+  formatHeaderFooterText,
+  hasHeaderFooterContent,
+  resolveHeaderFooterTexts,
+  stampHeaderFooter,
+  type HeaderFooterDocumentContext,
+  type HeaderFooterToken,
+  type HeaderFooterTokenContext,
+} from '@/domains/export/domain/export-header-footer'
+
+export {
+  FRONT_MATTER_TEMPLATES,
+  collectTocEntries,
+  generateFrontMatterPdf,
+  getFrontMatterPageCount,
+  getSplitExportFrontMatter,
+  insertFrontMatter,
+  type FrontMatterOptions,
+  type FrontMatterTemplate,
+  type FrontMatterTocEntry,
+} from '@/domains/export/domain/export-front-matter'
+
+export {
+  isWatermarkActive,
+  resolveSegmentWatermarks,
+  stampWatermark,
+} from '@/domains/export/domain/export-watermark'
+
+export {
+  applyPdfAConformance,
+  buildXmpPacket,
+  createSrgbIccProfile,
+  isPdfAExport,
+  type PdfAInfo,
+} from '@/domains/export/domain/export-pdfa'
+
+export {
+  computePermissionFlags,
+  encryptPdfBytes,
+  encryptPdfDocument,
+  resolvePdfEncryptionOptions,
+  type PdfEncryptionOptions,
+} from '@/domains/export/domain/export-encryption'
+
+export {
+  parseContentStream,
+  type ContentOperand,
+  type ContentOperation,
+} from '@/domains/export/domain/pdf-content-stream'
 
 export { addBookmarks, mapBookmarksToExport } from '@/domains/export/domain/export-bookmarks'
+
+export {
+  detachInternalLinks,
+  remapInternalLinks,
+  type ExportPageTransform,
+  type InternalLinkTarget,
+} from '@/domains/export/domain/export-links'
+
+export {
+  attachFormFields,
+  detachFormFields,
+  fillFormFields,
+  flattenFormFields,
+  resolveFormFieldNames,
+  type SourceForm,
+  type SourceFormField,
+} from '@/domains/export/domain/export-forms'
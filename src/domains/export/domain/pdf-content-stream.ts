@@ -0,0 +1,320 @@
+/**
+ * Minimal PDF content stream tokenizer. Operations remember their source
+ * offsets so untouched operators can be written back byte for byte.
+ *
+ * Content is handled as a latin1 string: every char code is one source byte.
+ */
+
+export type ContentOperand =
+  | { type: 'number'; value: number }
+  | { type: 'name'; value: string }
+  | { type: 'string'; value: string }
+  | { type: 'keyword'; value: string }
+  | { type: 'array'; value: ContentOperand[] }
+  | { type: 'dict'; value: Array<[string, ContentOperand]> }
+
+export interface ContentOperation {
+  operator: string
+  operands: ContentOperand[]
+  start: number
+  end: number
+}
+
+const WHITESPACE = new Set([0x00, 0x09, 0x0a, 0x0c, 0x0d, 0x20])
+const DELIMITERS = new Set([0x28, 0x29, 0x3c, 0x3e, 0x5b, 0x5d, 0x7b, 0x7d, 0x2f, 0x25])
+
+const STRING_ESCAPES: Record<string, string> = {
+  n: '\n',
+  r: '\r',
+  t: '\t',
+  b: '\b',
+  f: '\f',
+}
+
+export function decodeLatin1(bytes: Uint8Array): string {
+  let result = ''
+  const chunkSize = 0x8000
+  for (let offset = 0; offset < bytes.length; offset += chunkSize) {
+    result += String.fromCharCode(...bytes.subarray(offset, offset + chunkSize))
+  }
+  return result
+}
+
+export function encodeLatin1(text: string): Uint8Array {
+  const bytes = new Uint8Array(text.length)
+  for (let i = 0; i < text.length; i++) {
+    bytes[i] = text.charCodeAt(i) & 0xff
+  }
+  return bytes
+}
+
+export function parseContentStream(source: string): ContentOperation[] {
+  return new ContentStreamParser(source).parse()
+}
+
+export function serializeOperand(operand: ContentOperand): string {
+  switch (operand.type) {
+    case 'number':
+      return formatNumber(operand.value)
+    case 'name':
+      return serializeName(operand.value)
+    case 'string':
+      return `<${toHexString(operand.value)}>`
+    case 'keyword':
+      return operand.value
+    case 'array':
+      return `[${operand.value.map(serializeOperand).join(' ')}]`
+    case 'dict':
+      return `<<${operand.value
+        .map(([key, value]) => `${serializeName(key)} ${serializeOperand(value)}`)
+        .join(' ')}>>`
+  }
+}
+
+export function serializeOperation(operator: string, operands: ContentOperand[] = []): string {
+  return [...operands.map(serializeOperand), operator].join(' ')
+}
+
+export function serializeName(name: string): string {
+  let result = '/'
+  for (let i = 0; i < name.length; i++) {
+    const code = name.charCodeAt(i)
+    const isRegular = code > 0x20 && code < 0x7f && !DELIMITERS.has(code) && code !== 0x23
+    result += isRegular ? name[i] : `#${code.toString(16).padStart(2, '0')}`
+  }
+  return result
+}
+
+export function formatNumber(value: number): string {
+  if (Number.isInteger(value)) return String(value)
+  return value.toFixed(4).replace(/\.?0+$/, '')
+}
+
+function toHexString(value: string): string {
+  let hex = ''
+  for (let i = 0; i < value.length; i++) {
+    hex += (value.charCodeAt(i) & 0xff).toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+class ContentStreamParser {
+  private pos = 0
+
+  constructor(private readonly source: string) {}
+
+  parse(): ContentOperation[] {
+    const operations: ContentOperation[] = []
+    let operands: ContentOperand[] = []
+    let start = -1
+
+    while (true) {
+      this.skipWhitespace()
+      if (this.pos >= this.source.length) break
+      if (start < 0) start = this.pos
+
+      const operand = this.readOperand()
+      if (operand) {
+        operands.push(operand)
+        continue
+      }
+
+      const word = this.readWord()
+      if (!word) {
+        // Stray delimiter such as an unbalanced `]` or `>`.
+        this.pos++
+        continue
+      }
+
+      if (word === 'BI') this.skipInlineImage()
+      operations.push({ operator: word, operands, start, end: this.pos })
+      operands = []
+      start = -1
+    }
+
+    return operations
+  }
+
+  private code(offset = 0): number {
+    return this.source.charCodeAt(this.pos + offset)
+  }
+
+  private skipWhitespace(): void {
+    while (this.pos < this.source.length) {
+      const code = this.code()
+      if (WHITESPACE.has(code)) {
+        this.pos++
+      } else if (code === 0x25) {
+        while (this.pos < this.source.length && this.code() !== 0x0a && this.code() !== 0x0d) {
+          this.pos++
+        }
+      } else {
+        break
+      }
+    }
+  }
+
+  private readOperand(): ContentOperand | null {
+    const char = this.source[this.pos]
+    if (char === '/') return this.readName()
+    if (char === '(') return this.readLiteralString()
+    if (char === '<') {
+      return this.source[this.pos + 1] === '<' ? this.readDict() : this.readHexString()
+    }
+    if (char === '[') return this.readArray()
+    if (char !== undefined && /[-+.\d]/.test(char)) return this.readNumber()
+
+    const start = this.pos
+    const word = this.readWord()
+    if (word === 'true' || word === 'false' || word === 'null') {
+      return { type: 'keyword', value: word }
+    }
+    this.pos = start
+    return null
+  }
+
+  private readWord(): string {
+    const start = this.pos
+    while (this.pos < this.source.length) {
+      const code = this.code()
+      if (WHITESPACE.has(code) || DELIMITERS.has(code)) break
+      this.pos++
+    }
+    return this.source.slice(start, this.pos)
+  }
+
+  private readNumber(): ContentOperand {
+    const word = this.readWord()
+    const value = Number.parseFloat(word)
+    return { type: 'number', value: Number.isFinite(value) ? value : 0 }
+  }
+
+  private readName(): ContentOperand {
+    this.pos++
+    const raw = this.readWord()
+    const value = raw.replace(/#([0-9a-fA-F]{2})/g, (_, hex: string) =>
+      String.fromCharCode(Number.parseInt(hex, 16)),
+    )
+    return { type: 'name', value }
+  }
+
+  private readLiteralString(): ContentOperand {
+    this.pos++
+    let depth = 1
+    let value = ''
+
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos++]!
+      if (char === '\\') {
+        const next = this.source[this.pos++] ?? ''
+        if (next in STRING_ESCAPES) {
+          value += STRING_ESCAPES[next]
+        } else if (/[0-7]/.test(next)) {
+          let octal = next
+          while (octal.length < 3 && /[0-7]/.test(this.source[this.pos] ?? '')) {
+            octal += this.source[this.pos++]
+          }
+          value += String.fromCharCode(Number.parseInt(octal, 8) & 0xff)
+        } else if (next === '\r') {
+          if (this.source[this.pos] === '\n') this.pos++
+        } else if (next !== '\n') {
+          value += next
+        }
+        continue
+      }
+      if (char === '(') depth++
+      if (char === ')') {
+        depth--
+        if (depth === 0) break
+      }
+      if (char === '\r') {
+        if (this.source[this.pos] === '\n') this.pos++
+        value += '\n'
+        continue
+      }
+      value += char
+    }
+
+    return { type: 'string', value }
+  }
+
+  private readHexString(): ContentOperand {
+    const end = this.source.indexOf('>', this.pos)
+    const stop = end < 0 ? this.source.length : end
+    let hex = this.source.slice(this.pos + 1, stop).replace(/[^0-9a-fA-F]/g, '')
+    this.pos = stop + 1
+    if (hex.length % 2 === 1) hex += '0'
+
+    let value = ''
+    for (let i = 0; i < hex.length; i += 2) {
+      value += String.fromCharCode(Number.parseInt(hex.slice(i, i + 2), 16))
+    }
+    return { type: 'string', value }
+  }
+
+  private readArray(): ContentOperand {
+    this.pos++
+    const value: ContentOperand[] = []
+    while (true) {
+      this.skipWhitespace()
+      if (this.pos >= this.source.length) break
+      if (this.source[this.pos] === ']') {
+        this.pos++
+        break
+      }
+      const operand = this.readOperand()
+      if (operand) {
+        value.push(operand)
+      } else if (!this.readWord()) {
+        this.pos++
+      }
+    }
+    return { type: 'array', value }
+  }
+
+  private readDict(): ContentOperand {
+    this.pos += 2
+    const value: Array<[string, ContentOperand]> = []
+    let key: string | null = null
+    while (true) {
+      this.skipWhitespace()
+      if (this.pos >= this.source.length) break
+      if (this.source.startsWith('>>', this.pos)) {
+        this.pos += 2
+        break
+      }
+      const operand = this.readOperand()
+      if (!operand) {
+        if (!this.readWord()) this.pos++
+        continue
+      }
+      if (key === null && operand.type === 'name') {
+        key = operand.value
+      } else if (key !== null) {
+        value.push([key, operand])
+        key = null
+      }
+    }
+    return { type: 'dict', value }
+  }
+
+  /**
+   * Moves past `ID <binary data> EI`. The image data is opaque, so the end is
+   * the first `EI` surrounded by whitespace.
+   */
+  private skipInlineImage(): void {
+    const idPattern = /(?:^|[\s/\]>)])ID[\s]/g
+    idPattern.lastIndex = this.pos
+    const id = idPattern.exec(this.source)
+    if (!id) {
+      this.pos = this.source.length
+      return
+    }
+
+    const dataStart = id.index + id[0].length
+    const eiPattern = /[\s]EI(?=[\s]|$)/g
+    eiPattern.lastIndex = dataStart
+    const ei = eiPattern.exec(this.source)
+    this.pos = ei ? ei.index + ei[0].length : this.source.length
+  }
+}
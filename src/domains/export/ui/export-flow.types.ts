@@ -1,7 +1,19 @@
 import type { CompressionQuality } from '@/domains/export/application/usePdfCompression'
+import type { HeaderFooterSettings, WatermarkSettings } from '@/shared/types'
+import type {
+  FrontMatterTemplate,
+  ImageExportOptions,
+  ImpositionOptions,
+  PageNumberingOptions,
+  RedactionMode,
+} from '@/domains/export/domain/export'
+
+export type ExportOutputFormat = 'pdf' | 'image'
 
 export interface ExportSettings {
   filename: string
+  outputFormat: ExportOutputFormat
+  image: ImageExportOptions
   pageRangeMode: 'all' | 'selected' | 'custom'
   customPageRange: string
   compress: boolean
@@ -9,6 +21,17 @@ export interface ExportSettings {
   outlineInclude: boolean
   outlineFlatten: boolean
   outlineExpandAll: boolean
+  redactionMode: RedactionMode
+  flattenForms: boolean
+  flattenAnnotations: boolean
+  pageNumberingEnabled: boolean
+  pageNumbering: PageNumberingOptions
+  watermark: WatermarkSettings
+  headerFooter: HeaderFooterSettings
+  frontMatterEnabled: boolean
+  frontMatter: FrontMatterTemplate
+  impositionEnabled: boolean
+  imposition: ImpositionOptions
 }
 
 export interface ExportStats {
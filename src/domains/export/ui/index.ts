@@ -1,6 +1,7 @@
 export { default as ExportConfiguration } from './components/ExportConfiguration.vue'
 export { default as ExportModal } from './components/ExportModal.vue'
 export { default as ExportStatus } from './components/ExportStatus.vue'
+export { default as HeaderFooterFields } from './components/HeaderFooterFields.vue'
 export { default as MobileExportSheet } from './components/mobile/MobileExportSheet.vue'
 export { default as MobileExportSheetView } from './components/mobile/MobileExportSheetView.vue'
 export type { ExportSettings, ExportStats } from './export-flow.types'
@@ -1,11 +1,17 @@
 import { computed, ref, shallowRef, watch, type Ref } from 'vue'
-import type { ExportOptions } from '@/domains/export/domain/export'
+import {
+  DEFAULT_IMAGE_EXPORT,
+  DEFAULT_IMPOSITION,
+  DEFAULT_PAGE_NUMBERING,
+  type ExportOptions,
+} from '@/domains/export/domain/export'
 import {
   useDocumentActionsContext,
   type DocumentActions,
 } from '@/domains/editor/application/useDocumentActions'
 import { useProjectSession } from '@/domains/project-session/session'
 import type { ProjectSession } from '@/domains/project-session/domain/project-session'
+import type { HeaderFooterSettings, WatermarkSettings } from '@/shared/types'
 import type { ExportSettings, ExportStats } from '@/domains/export/ui/export-flow.types'
 
 type ExportActions = Pick<
@@ -16,11 +22,16 @@ type ExportActions = Pick<
   | 'clearExportError'
   | 'parsePageRange'
   | 'validatePageRange'
+  | 'setWatermark'
+  | 'setHeaderFooter'
 >
 
 type ExportDocumentState = Pick<
   ProjectSession['document'],
   | 'metadata'
+  | 'security'
+  | 'watermark'
+  | 'headerFooter'
   | 'projectTitle'
   | 'selectedCount'
   | 'selectedIds'
@@ -45,9 +56,13 @@ function createInitialExportSettings(options: {
   filename: string
   exportSelected: boolean
   selectedCount: number
+  watermark: WatermarkSettings
+  headerFooter: HeaderFooterSettings
 }): ExportSettings {
   return {
     filename: options.filename,
+    outputFormat: 'pdf',
+    image: { ...DEFAULT_IMAGE_EXPORT },
     pageRangeMode: options.exportSelected && options.selectedCount > 0 ? 'selected' : 'all',
     customPageRange: '',
     compress: false,
@@ -55,6 +70,21 @@ function createInitialExportSettings(options: {
     outlineInclude: true,
     outlineFlatten: false,
     outlineExpandAll: false,
+    redactionMode: 'vector',
+    flattenForms: false,
+    flattenAnnotations: false,
+    pageNumberingEnabled: false,
+    pageNumbering: { ...DEFAULT_PAGE_NUMBERING },
+    watermark: { ...options.watermark },
+    headerFooter: {
+      ...options.headerFooter,
+      header: { ...options.headerFooter.header },
+      footer: { ...options.headerFooter.footer },
+    },
+    frontMatterEnabled: false,
+    frontMatter: 'cover-toc',
+    impositionEnabled: false,
+    imposition: { ...DEFAULT_IMPOSITION },
   }
 }
 
@@ -74,6 +104,8 @@ export function useExportFlowController(
       filename: '',
       exportSelected: false,
       selectedCount: 0,
+      watermark: document.watermark,
+      headerFooter: document.headerFooter,
     }),
   )
 
@@ -104,6 +136,8 @@ export function useExportFlowController(
         filename: actions.getSuggestedFilename(),
         exportSelected: Boolean(options.exportSelected.value),
         selectedCount: document.selectedCount,
+        watermark: document.watermark,
+        headerFooter: document.headerFooter,
       })
       exportComplete.value = false
       exportStats.value = null
@@ -117,6 +151,10 @@ export function useExportFlowController(
     const startTime = now()
 
     try {
+      // Watermark and header/footer are project settings, so keep what this export used.
+      actions.setWatermark({ ...settings.value.watermark })
+      actions.setHeaderFooter(settings.value.headerFooter)
+
       const title = document.metadata.title?.trim() || document.projectTitle?.trim()
       const exportOptions: ExportOptions = {
         filename: settings.value.filename.trim(),
@@ -132,6 +170,18 @@ export function useExportFlowController(
           keywords: [...document.metadata.keywords],
           title: title ?? document.metadata.title,
         },
+        security: { ...document.security },
+        redactionMode: settings.value.redactionMode,
+        flattenForms: settings.value.flattenForms,
+        flattenAnnotations: settings.value.flattenAnnotations,
+        pageNumbering: settings.value.pageNumberingEnabled
+          ? { ...settings.value.pageNumbering }
+          : null,
+        watermark: settings.value.watermark.enabled ? { ...settings.value.watermark } : null,
+        headerFooter: settings.value.headerFooter.enabled ? settings.value.headerFooter : null,
+        frontMatter: settings.value.frontMatterEnabled ? settings.value.frontMatter : null,
+        imposition: settings.value.impositionEnabled ? { ...settings.value.imposition } : null,
+        image: settings.value.outputFormat === 'image' ? { ...settings.value.image } : null,
       }
 
       if (settings.value.pageRangeMode === 'selected') {
@@ -1,40 +1,63 @@
 import { ROTATION_DELTA_DEGREES, type RotationDelta } from '@/shared/constants'
 import {
   isPageEntry,
+  type DocumentMetadata,
+  type FormFieldValue,
   type OutlineNode,
+  type PageAnnotation,
+  type PageCrop,
   type PageEntry,
   type PageReference,
+  type PageSignature,
   type RedactionMark,
+  type SecurityMetadata,
   type SourceFile,
 } from '@/shared/types'
 import {
+  AddAnnotationCommand,
   AddPagesCommand,
   AddRedactionCommand,
+  AddSignatureCommand,
   AddSourceCommand,
   BatchCommand,
+  CropPagesCommand,
   CommandType,
+  DeleteAnnotationCommand,
   DeletePagesCommand,
   DeleteRedactionCommand,
+  DeleteSignatureCommand,
   DuplicatePagesCommand,
+  InsertPagesCommand,
   RemoveSourceCommand,
   ReorderPagesCommand,
   ResizePagesCommand,
   RotatePagesCommand,
   SplitGroupCommand,
+  SplitSpreadCommand,
+  UpdateAnnotationCommand,
+  UpdateMetadataCommand,
   UpdateOutlineCommand,
   UpdateRedactionCommand,
+  UpdateSignatureCommand,
+  UpdateSecurityCommand,
+  UpdateFormFieldCommand,
 } from '@/domains/history/domain/commands'
 import type { Command, PageSnapshot } from '@/domains/history/domain/commands/types'
 import { createLogger, type Logger } from '@/shared/infrastructure/logger'
 import {
   cloneDividerReference,
   cloneOutlineTree,
+  clonePageAnnotation,
   clonePageEntries,
   clonePageReference,
   clonePageReferences,
+  clonePageSignature,
+  cloneDocumentMetadata,
   cloneRedactionMark,
+  cloneSecurityMetadata,
   cloneSourceFile,
 } from '@/shared/utils/document-clone'
+import { getDisplayedCropRect } from '@/shared/utils/page-crop'
 
 export interface HistoryDocumentStoreAdapter {
   sources: Map<string, SourceFile>
@@ -58,13 +81,24 @@ export interface HistoryDocumentStoreAdapter {
     pageId: string,
     targetDimensions?: { width: number; height: number } | null,
   ): void
+  setPageCropBatch(targets: ReadonlyArray<{ pageId: string; crop?: PageCrop | null }>): void
   addRedaction(pageId: string, redaction: RedactionMark): void
   addRedactions(pageId: string, redactions: RedactionMark[]): void
   updateRedaction(pageId: string, redaction: RedactionMark): void
   removeRedaction(pageId: string, redactionId: string): void
   removeRedactions(pageId: string, redactionIds: string[]): void
+  addAnnotations(pageId: string, annotations: PageAnnotation[]): void
+  updateAnnotation(pageId: string, annotation: PageAnnotation): void
+  removeAnnotations(pageId: string, annotationIds: string[]): void
+  addSignatures(pageId: string, signatures: PageSignature[]): void
+  updateSignature(pageId: string, signature: PageSignature): void
+  removeSignatures(pageId: string, signatureIds: string[]): void
   setOutlineTree(tree: OutlineNode[], markDirty?: boolean): void
   setOutlineDirty(value: boolean): void
+  setMetadata(next: Partial<DocumentMetadata>, markDirty?: boolean): void
+  setMetadataDirty(value: boolean): void
+  setSecurity(next: Partial<SecurityMetadata>): void
+  setFormFieldValue(sourceFileId: string, fieldName: string, value: FormFieldValue | null): void
 }
 
 export interface HistoryCommandExecutorDeps {
@@ -117,6 +151,11 @@ function applyCommand(
     return
   }
 
+  if (command.type === CommandType.INSERT && command instanceof InsertPagesCommand) {
+    applyInsertPages(command, direction, store)
+    return
+  }
+
   if (command.type === CommandType.DELETE && command instanceof DeletePagesCommand) {
     applyDeletePages(command, direction, store)
     return
@@ -142,11 +181,21 @@ function applyCommand(
     return
   }
 
+  if (command.type === CommandType.CROP && command instanceof CropPagesCommand) {
+    applyCropPages(command, direction, store)
+    return
+  }
+
   if (command.type === CommandType.SPLIT && command instanceof SplitGroupCommand) {
     applySplitGroup(command, direction, store)
     return
   }
 
+  if (command.type === CommandType.SPLIT_SPREAD && command instanceof SplitSpreadCommand) {
+    applySplitSpread(command, direction, store)
+    return
+  }
+
   if (command.type === CommandType.REMOVE_SOURCE && command instanceof RemoveSourceCommand) {
     applyRemoveSource(command, direction, store)
     return
@@ -167,11 +216,62 @@ function applyCommand(
     return
   }
 
+  if (command.type === CommandType.ADD_ANNOTATION && command instanceof AddAnnotationCommand) {
+    applyAddAnnotation(command, direction, store)
+    return
+  }
+
+  if (
+    command.type === CommandType.UPDATE_ANNOTATION &&
+    command instanceof UpdateAnnotationCommand
+  ) {
+    applyUpdateAnnotation(command, direction, store)
+    return
+  }
+
+  if (
+    command.type === CommandType.DELETE_ANNOTATION &&
+    command instanceof DeleteAnnotationCommand
+  ) {
+    applyDeleteAnnotation(command, direction, store)
+    return
+  }
+
+  if (command.type === CommandType.ADD_SIGNATURE && command instanceof AddSignatureCommand) {
+    applyAddSignature(command, direction, store)
+    return
+  }
+
+  if (command.type === CommandType.UPDATE_SIGNATURE && command instanceof UpdateSignatureCommand) {
+    applyUpdateSignature(command, direction, store)
+    return
+  }
+
+  if (command.type === CommandType.DELETE_SIGNATURE && command instanceof DeleteSignatureCommand) {
+    applyDeleteSignature(command, direction, store)
+    return
+  }
+
   if (command.type === CommandType.UPDATE_OUTLINE && command instanceof UpdateOutlineCommand) {
     applyUpdateOutline(command, direction, store)
     return
   }
 
+  if (command.type === CommandType.UPDATE_METADATA && command instanceof UpdateMetadataCommand) {
+    applyUpdateMetadata(command, direction, store)
+    return
+  }
+
+  if (command.type === CommandType.UPDATE_SECURITY && command instanceof UpdateSecurityCommand) {
+    applyUpdateSecurity(command, direction, store)
+    return
+  }
+
+  if (command.type === CommandType.UPDATE_FORM_FIELD && command instanceof UpdateFormFieldCommand) {
+    applyUpdateFormField(command, direction, store)
+    return
+  }
+
   log.warn(`No command handler registered for "${command.type}".`)
 }
 
@@ -209,6 +309,26 @@ function applyAddSource(
   store.removeSourceOnly(command.sourceFile.id)
 }
 
+function applyInsertPages(
+  command: InsertPagesCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  if (direction === 'execute') {
+    if (command.shouldAddSource && !store.sources.has(command.sourceFile.id)) {
+      store.addSourceFile(cloneSourceFile(command.sourceFile))
+    }
+    const index = Math.min(command.index, store.pages.length)
+    store.insertPages(index, clonePageReferences(command.pages))
+    return
+  }
+
+  store.deletePages(command.pages.map((page) => page.id))
+  if (command.shouldAddSource) {
+    store.removeSourceOnly(command.sourceFile.id)
+  }
+}
+
 function applyDeletePages(
   command: DeletePagesCommand,
   direction: ExecutionDirection,
@@ -346,6 +466,121 @@ function applyResizePages(
   store.setPageTargetDimensionsBatch(command.previousTargets)
 }
 
+function applyCropPages(
+  command: CropPagesCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  if (direction === 'execute') {
+    if (command.previousTargets.length === 0) {
+      const currentCropByPageId = new Map<string, PageCrop | null>()
+      const targetPageIds = new Set(command.targets.map((target) => target.pageId))
+      for (const entry of store.pages) {
+        if (!isPageEntry(entry) || !targetPageIds.has(entry.id)) continue
+        currentCropByPageId.set(entry.id, entry.crop ? { ...entry.crop } : null)
+      }
+      command.previousTargets = command.targets.map((target) => ({
+        pageId: target.pageId,
+        crop: currentCropByPageId.get(target.pageId) ?? null,
+      }))
+    }
+
+    store.setPageCropBatch(command.targets)
+    return
+  }
+
+  store.setPageCropBatch(command.previousTargets)
+}
+
+function applySplitSpread(
+  command: SplitSpreadCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  const targetIds = command.targets.map((target) => target.pageId)
+
+  if (direction === 'undo') {
+    store.deletePages(command.createdPageIds)
+    store.insertPagesBatch(toBatchInsertions(command.backupSnapshots, (page) => [page]))
+    return
+  }
+
+  if (command.backupSnapshots.length === 0) {
+    command.backupSnapshots = captureSnapshots(store.pages, targetIds)
+  }
+  if (command.backupSnapshots.length === 0) return
+
+  const isRedo = command.createdPageIds.length > 0
+  const createdIds = isRedo
+    ? [...command.createdPageIds]
+    : command.targets.flatMap(() => [crypto.randomUUID(), crypto.randomUUID()])
+  const halvesByPageId = new Map(
+    command.targets.map((target, index) => [
+      target.pageId,
+      target.crops.map((crop, half) => ({ crop, id: createdIds[index * 2 + half] })),
+    ]),
+  )
+
+  store.deletePages(targetIds)
+  store.insertPagesBatch(
+    toBatchInsertions(command.backupSnapshots, (page) =>
+      (halvesByPageId.get(page.id) ?? []).map(({ crop, id }) => ({
+        ...keepOverlaysInCrop(page, crop, store.sources),
+        id: id ?? crypto.randomUUID(),
+        crop: { ...crop },
+      })),
+    ),
+  )
+
+  if (!isRedo) {
+    command.createdPageIds = createdIds
+  }
+}
+
+/**
+ * Copy of `page` keeping only the annotations and signatures that overlap
+ * `crop`. Overlays are stored on the displayed page, so the crop is turned
+ * into that orientation first. Redactions stay on both halves of a split.
+ */
+function keepOverlaysInCrop(
+  page: PageReference,
+  crop: PageCrop,
+  sources: ReadonlyMap<string, SourceFile>,
+): PageReference {
+  const copy = clonePageReference(page)
+  const metrics = sources.get(page.sourceFileId)?.pageMetaData?.[page.sourcePageIndex]
+  const width = page.width ?? metrics?.width
+  const height = page.height ?? metrics?.height
+  if (!width || !height) return copy
+
+  const visible = getDisplayedCropRect(crop, { width, height }, page.rotation)
+  const overlaps = (box: PageCrop) =>
+    box.x < visible.x + visible.width &&
+    box.x + box.width > visible.x &&
+    box.y < visible.y + visible.height &&
+    box.y + box.height > visible.y
+
+  if (copy.annotations) copy.annotations = copy.annotations.filter(overlaps)
+  if (copy.signatures) copy.signatures = copy.signatures.filter(overlaps)
+  return copy
+}
+
+/**
+ * Batch insertions for snapshot positions, offset for the snapshot pages
+ * that are currently missing from the list.
+ */
+function toBatchInsertions(
+  snapshots: ReadonlyArray<PageSnapshot>,
+  toPages: (page: PageReference) => PageEntry[],
+): Array<{ index: number; pages: PageEntry[] }> {
+  return [...snapshots]
+    .sort((a, b) => a.index - b.index)
+    .map((snapshot, order) => ({
+      index: snapshot.index - order,
+      pages: toPages(clonePageReference(snapshot.page)),
+    }))
+}
+
 function applySplitGroup(
   command: SplitGroupCommand,
   direction: ExecutionDirection,
@@ -423,6 +658,82 @@ function applyDeleteRedaction(
   store.addRedaction(command.pageId, cloneRedactionMark(command.redaction))
 }
 
+function applyAddAnnotation(
+  command: AddAnnotationCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  if (direction === 'execute') {
+    store.addAnnotations(command.pageId, command.annotations.map(clonePageAnnotation))
+    return
+  }
+
+  store.removeAnnotations(
+    command.pageId,
+    command.annotations.map((annotation) => annotation.id),
+  )
+}
+
+function applyUpdateAnnotation(
+  command: UpdateAnnotationCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  const annotation = direction === 'execute' ? command.next : command.previous
+  store.updateAnnotation(command.pageId, clonePageAnnotation(annotation))
+}
+
+function applyDeleteAnnotation(
+  command: DeleteAnnotationCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  if (direction === 'execute') {
+    store.removeAnnotations(command.pageId, [command.annotation.id])
+    return
+  }
+
+  store.addAnnotations(command.pageId, [clonePageAnnotation(command.annotation)])
+}
+
+function applyAddSignature(
+  command: AddSignatureCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  if (direction === 'execute') {
+    store.addSignatures(command.pageId, command.signatures.map(clonePageSignature))
+    return
+  }
+
+  store.removeSignatures(
+    command.pageId,
+    command.signatures.map((signature) => signature.id),
+  )
+}
+
+function applyUpdateSignature(
+  command: UpdateSignatureCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  const signature = direction === 'execute' ? command.next : command.previous
+  store.updateSignature(command.pageId, clonePageSignature(signature))
+}
+
+function applyDeleteSignature(
+  command: DeleteSignatureCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  if (direction === 'execute') {
+    store.removeSignatures(command.pageId, [command.signature.id])
+    return
+  }
+
+  store.addSignatures(command.pageId, [clonePageSignature(command.signature)])
+}
+
 function applyUpdateOutline(
   command: UpdateOutlineCommand,
   direction: ExecutionDirection,
@@ -437,3 +748,38 @@ function applyUpdateOutline(
   store.setOutlineTree(cloneOutlineTree(command.previousTree), false)
   store.setOutlineDirty(command.previousDirty)
 }
+
+function applyUpdateMetadata(
+  command: UpdateMetadataCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  const metadata = direction === 'execute' ? command.next : command.previous
+  const dirty = direction === 'execute' ? command.nextDirty : command.previousDirty
+  // Snapshots omit unset optional fields; clear them so the store matches exactly.
+  store.setMetadata({ pdfVersion: undefined, ...cloneDocumentMetadata(metadata) }, false)
+  store.setMetadataDirty(dirty)
+}
+
+function applyUpdateSecurity(
+  command: UpdateSecurityCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  const security = direction === 'execute' ? command.next : command.previous
+  store.setSecurity({
+    userPassword: undefined,
+    ownerPassword: undefined,
+    encryptionAlgorithm: undefined,
+    ...cloneSecurityMetadata(security),
+  })
+}
+
+function applyUpdateFormField(
+  command: UpdateFormFieldCommand,
+  direction: ExecutionDirection,
+  store: HistoryDocumentStoreAdapter,
+): void {
+  const value = direction === 'execute' ? command.next : command.previous
+  store.setFormFieldValue(command.sourceFileId, command.fieldName, value)
+}
@@ -0,0 +1,50 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { SerializedCommand } from './types'
+import type { PageAnnotation } from '@/shared/types'
+import { clonePageAnnotation } from '@/shared/utils/document-clone'
+
+export class AddAnnotationCommand extends BaseCommand {
+  public readonly type = CommandType.ADD_ANNOTATION
+  public readonly name: string
+
+  public readonly pageId: string
+  public readonly annotations: PageAnnotation[]
+
+  constructor(pageId: string, annotations: PageAnnotation[], id?: string, createdAt?: number) {
+    super(id, createdAt)
+
+    if (!pageId) {
+      throw new Error('AddAnnotationCommand requires a page ID')
+    }
+    if (!annotations || annotations.length === 0) {
+      throw new Error('AddAnnotationCommand requires at least one annotation')
+    }
+
+    this.pageId = pageId
+    this.annotations = annotations.map(clonePageAnnotation)
+    this.name =
+      this.annotations.length === 1
+        ? 'Add annotation'
+        : `Add ${this.annotations.length} annotations`
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      pageId: this.pageId,
+      annotations: this.annotations.map(clonePageAnnotation),
+    }
+  }
+
+  static deserialize(data: SerializedCommand): AddAnnotationCommand {
+    const { id, pageId, annotations } = data.payload as {
+      id: string
+      pageId: string
+      annotations: PageAnnotation[]
+    }
+
+    return new AddAnnotationCommand(pageId, annotations, id, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.ADD_ANNOTATION, AddAnnotationCommand)
@@ -0,0 +1,48 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { SerializedCommand } from './types'
+import type { PageSignature } from '@/shared/types'
+import { clonePageSignature } from '@/shared/utils/document-clone'
+
+export class AddSignatureCommand extends BaseCommand {
+  public readonly type = CommandType.ADD_SIGNATURE
+  public readonly name: string
+
+  public readonly pageId: string
+  public readonly signatures: PageSignature[]
+
+  constructor(pageId: string, signatures: PageSignature[], id?: string, createdAt?: number) {
+    super(id, createdAt)
+
+    if (!pageId) {
+      throw new Error('AddSignatureCommand requires a page ID')
+    }
+    if (!signatures || signatures.length === 0) {
+      throw new Error('AddSignatureCommand requires at least one signature')
+    }
+
+    this.pageId = pageId
+    this.signatures = signatures.map(clonePageSignature)
+    this.name =
+      this.signatures.length === 1 ? 'Add signature' : `Add ${this.signatures.length} signatures`
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      pageId: this.pageId,
+      signatures: this.signatures.map(clonePageSignature),
+    }
+  }
+
+  static deserialize(data: SerializedCommand): AddSignatureCommand {
+    const { id, pageId, signatures } = data.payload as {
+      id: string
+      pageId: string
+      signatures: PageSignature[]
+    }
+
+    return new AddSignatureCommand(pageId, signatures, id, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.ADD_SIGNATURE, AddSignatureCommand)
@@ -0,0 +1,68 @@
+import type { PageCrop } from '@/shared/types'
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { SerializedCommand } from './types'
+
+export type CropTarget = {
+  pageId: string
+  crop?: PageCrop | null
+}
+
+export class CropPagesCommand extends BaseCommand {
+  public readonly type = CommandType.CROP
+  public readonly name: string
+
+  public readonly targets: CropTarget[]
+  public previousTargets: CropTarget[] = []
+
+  constructor(
+    targets: CropTarget[],
+    id?: string,
+    previousTargets?: CropTarget[],
+    createdAt?: number,
+  ) {
+    super(id, createdAt)
+
+    if (!targets || targets.length === 0) {
+      throw new Error('CropPagesCommand requires at least one target')
+    }
+
+    this.targets = cloneCropTargets(targets)
+
+    if (previousTargets) {
+      this.previousTargets = cloneCropTargets(previousTargets)
+    }
+
+    const verb = this.targets.every((target) => !target.crop) ? 'Uncrop' : 'Crop'
+    this.name = this.targets.length === 1 ? `${verb} page` : `${verb} ${this.targets.length} pages`
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      targets: cloneCropTargets(this.targets),
+      previousTargets: cloneCropTargets(this.previousTargets),
+    }
+  }
+
+  static deserialize(data: SerializedCommand): CropPagesCommand {
+    const { id, targets, previousTargets } = data.payload as {
+      id: string
+      targets: CropTarget[]
+      previousTargets: CropTarget[]
+    }
+    return new CropPagesCommand(targets, id, previousTargets, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.CROP, CropPagesCommand)
+
+function cloneCropTarget(target: CropTarget): CropTarget {
+  return {
+    pageId: target.pageId,
+    crop: target.crop ? { ...target.crop } : null,
+  }
+}
+
+function cloneCropTargets(targets: ReadonlyArray<CropTarget>): CropTarget[] {
+  return targets.map(cloneCropTarget)
+}
@@ -0,0 +1,45 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { SerializedCommand } from './types'
+import type { PageAnnotation } from '@/shared/types'
+import { clonePageAnnotation } from '@/shared/utils/document-clone'
+
+export class DeleteAnnotationCommand extends BaseCommand {
+  public readonly type = CommandType.DELETE_ANNOTATION
+  public readonly name = 'Delete annotation'
+
+  public readonly pageId: string
+  public readonly annotation: PageAnnotation
+
+  constructor(pageId: string, annotation: PageAnnotation, id?: string, createdAt?: number) {
+    super(id, createdAt)
+
+    if (!pageId) {
+      throw new Error('DeleteAnnotationCommand requires a page ID')
+    }
+    if (!annotation?.id) {
+      throw new Error('DeleteAnnotationCommand requires an annotation')
+    }
+
+    this.pageId = pageId
+    this.annotation = clonePageAnnotation(annotation)
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      pageId: this.pageId,
+      annotation: clonePageAnnotation(this.annotation),
+    }
+  }
+
+  static deserialize(data: SerializedCommand): DeleteAnnotationCommand {
+    const { id, pageId, annotation } = data.payload as {
+      id: string
+      pageId: string
+      annotation: PageAnnotation
+    }
+    return new DeleteAnnotationCommand(pageId, annotation, id, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.DELETE_ANNOTATION, DeleteAnnotationCommand)
@@ -0,0 +1,45 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { SerializedCommand } from './types'
+import type { PageSignature } from '@/shared/types'
+import { clonePageSignature } from '@/shared/utils/document-clone'
+
+export class DeleteSignatureCommand extends BaseCommand {
+  public readonly type = CommandType.DELETE_SIGNATURE
+  public readonly name = 'Delete signature'
+
+  public readonly pageId: string
+  public readonly signature: PageSignature
+
+  constructor(pageId: string, signature: PageSignature, id?: string, createdAt?: number) {
+    super(id, createdAt)
+
+    if (!pageId) {
+      throw new Error('DeleteSignatureCommand requires a page ID')
+    }
+    if (!signature?.id) {
+      throw new Error('DeleteSignatureCommand requires an signature')
+    }
+
+    this.pageId = pageId
+    this.signature = clonePageSignature(signature)
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      pageId: this.pageId,
+      signature: clonePageSignature(this.signature),
+    }
+  }
+
+  static deserialize(data: SerializedCommand): DeleteSignatureCommand {
+    const { id, pageId, signature } = data.payload as {
+      id: string
+      pageId: string
+      signature: PageSignature
+    }
+    return new DeleteSignatureCommand(pageId, signature, id, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.DELETE_SIGNATURE, DeleteSignatureCommand)
@@ -0,0 +1,86 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { SerializedCommand } from './types'
+import type { PageReference, SourceFile } from '@/shared/types'
+import { clonePageReferences, cloneSourceFile } from '@/shared/utils/document-clone'
+
+/**
+ * Command to insert pages of a generated source at a position
+ *
+ * Used for pages the editor creates itself (e.g. blank pages). The source is
+ * added alongside the pages unless it is already part of the project.
+ * On undo, removes the pages and the source (if added).
+ */
+export class InsertPagesCommand extends BaseCommand {
+  public readonly type = CommandType.INSERT
+  public readonly name: string
+
+  /** Metadata about the source PDF file */
+  public readonly sourceFile: SourceFile
+
+  /** Page references to insert */
+  public readonly pages: PageReference[]
+
+  /** Position in the page list where the pages are inserted */
+  public readonly index: number
+
+  /** Whether this command should add the source file (vs it already existing) */
+  public readonly shouldAddSource: boolean
+
+  constructor(
+    sourceFile: SourceFile,
+    pages: PageReference[],
+    index: number,
+    shouldAddSource = true,
+    name?: string,
+    id?: string,
+    createdAt?: number,
+  ) {
+    super(id, createdAt)
+
+    if (!sourceFile || !sourceFile.id) {
+      throw new Error('InsertPagesCommand requires a valid sourceFile')
+    }
+    if (!pages || pages.length === 0) {
+      throw new Error('InsertPagesCommand requires at least one page')
+    }
+
+    this.sourceFile = cloneSourceFile(sourceFile)
+    this.pages = clonePageReferences(pages)
+    this.index = Math.max(0, index)
+    this.shouldAddSource = shouldAddSource
+    this.name = name ?? (pages.length === 1 ? 'Insert page' : `Insert ${pages.length} pages`)
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      sourceFile: cloneSourceFile(this.sourceFile),
+      pages: clonePageReferences(this.pages),
+      index: this.index,
+      shouldAddSource: this.shouldAddSource,
+      name: this.name,
+    }
+  }
+
+  static deserialize(data: SerializedCommand): InsertPagesCommand {
+    const { id, sourceFile, pages, index, shouldAddSource, name } = data.payload as {
+      id: string
+      sourceFile: SourceFile
+      pages: PageReference[]
+      index: number
+      shouldAddSource: boolean
+      name: string
+    }
+    return new InsertPagesCommand(
+      sourceFile,
+      pages,
+      index,
+      shouldAddSource,
+      name,
+      id,
+      data.timestamp,
+    )
+  }
+}
+
+registerCommand(CommandType.INSERT, InsertPagesCommand)
@@ -0,0 +1,87 @@
+import type { PageCrop } from '@/shared/types'
+import { clonePageReference } from '@/shared/utils/document-clone'
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { PageSnapshot, SerializedCommand } from './types'
+
+export type SpreadSplitTarget = {
+  pageId: string
+  /** Crops of the two new pages, in reading order */
+  crops: [PageCrop, PageCrop]
+}
+
+/**
+ * Command to split scanned spreads into two pages
+ *
+ * Each target page is replaced in place by two references to the same
+ * source page, each cropped to one half. Snapshots of the originals are
+ * captured on first execute() and restored on undo(); the created IDs are
+ * reused on redo.
+ */
+export class SplitSpreadCommand extends BaseCommand {
+  public readonly type = CommandType.SPLIT_SPREAD
+  public readonly name: string
+
+  public readonly targets: SpreadSplitTarget[]
+
+  /** IDs of the created pages, two per target in target order */
+  public createdPageIds: string[] = []
+
+  /** Snapshots of the split pages BEFORE execution */
+  public backupSnapshots: PageSnapshot[] = []
+
+  constructor(
+    targets: SpreadSplitTarget[],
+    id?: string,
+    createdPageIds?: string[],
+    backupSnapshots?: PageSnapshot[],
+    createdAt?: number,
+  ) {
+    super(id, createdAt)
+
+    if (!targets || targets.length === 0) {
+      throw new Error('SplitSpreadCommand requires at least one target')
+    }
+
+    this.targets = targets.map(cloneSpreadSplitTarget)
+    this.name = this.targets.length === 1 ? 'Split page' : `Split ${this.targets.length} pages`
+
+    if (createdPageIds) {
+      this.createdPageIds = [...createdPageIds]
+    }
+    if (backupSnapshots) {
+      this.backupSnapshots = backupSnapshots.map(clonePageSnapshot)
+    }
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      targets: this.targets.map(cloneSpreadSplitTarget),
+      createdPageIds: [...this.createdPageIds],
+      backupSnapshots: this.backupSnapshots.map(clonePageSnapshot),
+    }
+  }
+
+  static deserialize(data: SerializedCommand): SplitSpreadCommand {
+    const { id, targets, createdPageIds, backupSnapshots } = data.payload as {
+      id: string
+      targets: SpreadSplitTarget[]
+      createdPageIds: string[]
+      backupSnapshots: PageSnapshot[]
+    }
+    return new SplitSpreadCommand(targets, id, createdPageIds, backupSnapshots, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.SPLIT_SPREAD, SplitSpreadCommand)
+
+function cloneSpreadSplitTarget(target: SpreadSplitTarget): SpreadSplitTarget {
+  return {
+    pageId: target.pageId,
+    crops: [{ ...target.crops[0] }, { ...target.crops[1] }],
+  }
+}
+
+function clonePageSnapshot(snapshot: PageSnapshot): PageSnapshot {
+  return { page: clonePageReference(snapshot.page), index: snapshot.index }
+}
@@ -0,0 +1,55 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { SerializedCommand } from './types'
+import type { PageAnnotation } from '@/shared/types'
+import { clonePageAnnotation } from '@/shared/utils/document-clone'
+
+export class UpdateAnnotationCommand extends BaseCommand {
+  public readonly type = CommandType.UPDATE_ANNOTATION
+  public readonly name = 'Update annotation'
+
+  public readonly pageId: string
+  public readonly previous: PageAnnotation
+  public readonly next: PageAnnotation
+
+  constructor(
+    pageId: string,
+    previous: PageAnnotation,
+    next: PageAnnotation,
+    id?: string,
+    createdAt?: number,
+  ) {
+    super(id, createdAt)
+
+    if (!pageId) {
+      throw new Error('UpdateAnnotationCommand requires a page ID')
+    }
+    if (!previous?.id || !next?.id) {
+      throw new Error('UpdateAnnotationCommand requires valid annotations')
+    }
+
+    this.pageId = pageId
+    this.previous = clonePageAnnotation(previous)
+    this.next = clonePageAnnotation(next)
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      pageId: this.pageId,
+      previous: clonePageAnnotation(this.previous),
+      next: clonePageAnnotation(this.next),
+    }
+  }
+
+  static deserialize(data: SerializedCommand): UpdateAnnotationCommand {
+    const { id, pageId, previous, next } = data.payload as {
+      id: string
+      pageId: string
+      previous: PageAnnotation
+      next: PageAnnotation
+    }
+    return new UpdateAnnotationCommand(pageId, previous, next, id, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.UPDATE_ANNOTATION, UpdateAnnotationCommand)
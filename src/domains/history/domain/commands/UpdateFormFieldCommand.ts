@@ -0,0 +1,89 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { Command, SerializedCommand } from './types'
+import type { FormFieldValue } from '@/shared/types'
+import { HISTORY } from '@/shared/constants'
+
+export class UpdateFormFieldCommand extends BaseCommand {
+  public readonly type = CommandType.UPDATE_FORM_FIELD
+  public readonly name: string
+
+  public readonly sourceFileId: string
+  public readonly fieldName: string
+  /** Null when the field had no entered value and showed its source value */
+  public readonly previous: FormFieldValue | null
+  public readonly next: FormFieldValue | null
+  /** Consecutive edits with the same key (e.g. typing in one field) merge */
+  public readonly mergeKey: string | null
+
+  constructor(
+    sourceFileId: string,
+    fieldName: string,
+    previous: FormFieldValue | null,
+    next: FormFieldValue | null,
+    name: string,
+    mergeKey: string | null = null,
+    id?: string,
+    createdAt?: number,
+  ) {
+    super(id, createdAt)
+    this.sourceFileId = sourceFileId
+    this.fieldName = fieldName
+    this.previous = previous
+    this.next = next
+    this.name = name
+    this.mergeKey = mergeKey
+  }
+
+  mergeWith(next: Command): UpdateFormFieldCommand | null {
+    if (!(next instanceof UpdateFormFieldCommand)) return null
+    if (!this.mergeKey || next.mergeKey !== this.mergeKey) return null
+    if (next.createdAt - this.createdAt > HISTORY.MERGE_WINDOW_MS) return null
+
+    return new UpdateFormFieldCommand(
+      this.sourceFileId,
+      this.fieldName,
+      this.previous,
+      next.next,
+      next.name,
+      next.mergeKey,
+      this.id,
+      next.createdAt,
+    )
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      sourceFileId: this.sourceFileId,
+      fieldName: this.fieldName,
+      previous: this.previous,
+      next: this.next,
+      name: this.name,
+      mergeKey: this.mergeKey,
+    }
+  }
+
+  static deserialize(data: SerializedCommand): UpdateFormFieldCommand {
+    const { id, sourceFileId, fieldName, previous, next, name, mergeKey } = data.payload as {
+      id: string
+      sourceFileId: string
+      fieldName: string
+      previous: FormFieldValue | null
+      next: FormFieldValue | null
+      name: string
+      mergeKey?: string | null
+    }
+    return new UpdateFormFieldCommand(
+      sourceFileId,
+      fieldName,
+      previous,
+      next,
+      name,
+      mergeKey ?? null,
+      id,
+      data.timestamp,
+    )
+  }
+}
+
+registerCommand(CommandType.UPDATE_FORM_FIELD, UpdateFormFieldCommand)
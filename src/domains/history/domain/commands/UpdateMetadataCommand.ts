@@ -0,0 +1,89 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { Command, SerializedCommand } from './types'
+import type { DocumentMetadata } from '@/shared/types'
+import { HISTORY } from '@/shared/constants'
+import { cloneDocumentMetadata } from '@/shared/utils/document-clone'
+
+export class UpdateMetadataCommand extends BaseCommand {
+  public readonly type = CommandType.UPDATE_METADATA
+  public readonly name: string
+
+  public readonly previous: DocumentMetadata
+  public readonly next: DocumentMetadata
+  public readonly previousDirty: boolean
+  public readonly nextDirty: boolean
+  /** Consecutive edits with the same key (e.g. typing in one field) merge */
+  public readonly mergeKey: string | null
+
+  constructor(
+    previous: DocumentMetadata,
+    next: DocumentMetadata,
+    previousDirty: boolean,
+    nextDirty: boolean,
+    name: string,
+    mergeKey: string | null = null,
+    id?: string,
+    createdAt?: number,
+  ) {
+    super(id, createdAt)
+    this.previous = cloneDocumentMetadata(previous)
+    this.next = cloneDocumentMetadata(next)
+    this.previousDirty = previousDirty
+    this.nextDirty = nextDirty
+    this.name = name
+    this.mergeKey = mergeKey
+  }
+
+  mergeWith(next: Command): UpdateMetadataCommand | null {
+    if (!(next instanceof UpdateMetadataCommand)) return null
+    if (!this.mergeKey || next.mergeKey !== this.mergeKey) return null
+    if (next.createdAt - this.createdAt > HISTORY.MERGE_WINDOW_MS) return null
+
+    return new UpdateMetadataCommand(
+      this.previous,
+      next.next,
+      this.previousDirty,
+      next.nextDirty,
+      next.name,
+      next.mergeKey,
+      this.id,
+      next.createdAt,
+    )
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      previous: cloneDocumentMetadata(this.previous),
+      next: cloneDocumentMetadata(this.next),
+      previousDirty: this.previousDirty,
+      nextDirty: this.nextDirty,
+      name: this.name,
+      mergeKey: this.mergeKey,
+    }
+  }
+
+  static deserialize(data: SerializedCommand): UpdateMetadataCommand {
+    const { id, previous, next, previousDirty, nextDirty, name, mergeKey } = data.payload as {
+      id: string
+      previous: DocumentMetadata
+      next: DocumentMetadata
+      previousDirty: boolean
+      nextDirty: boolean
+      name: string
+      mergeKey?: string | null
+    }
+    return new UpdateMetadataCommand(
+      previous,
+      next,
+      previousDirty,
+      nextDirty,
+      name,
+      mergeKey ?? null,
+      id,
+      data.timestamp,
+    )
+  }
+}
+
+registerCommand(CommandType.UPDATE_METADATA, UpdateMetadataCommand)
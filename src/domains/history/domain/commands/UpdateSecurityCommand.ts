@@ -0,0 +1,76 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { Command, SerializedCommand } from './types'
+import type { SecurityMetadata } from '@/shared/types'
+import { HISTORY } from '@/shared/constants'
+import { cloneSecurityMetadata } from '@/shared/utils/document-clone'
+
+function withoutPasswords(security: SecurityMetadata): SecurityMetadata {
+  return cloneSecurityMetadata({ ...security, userPassword: undefined, ownerPassword: undefined })
+}
+
+export class UpdateSecurityCommand extends BaseCommand {
+  public readonly type = CommandType.UPDATE_SECURITY
+  public readonly name: string
+
+  public readonly previous: SecurityMetadata
+  public readonly next: SecurityMetadata
+  /** Consecutive edits with the same key (e.g. typing a password) merge */
+  public readonly mergeKey: string | null
+
+  constructor(
+    previous: SecurityMetadata,
+    next: SecurityMetadata,
+    name: string,
+    mergeKey: string | null = null,
+    id?: string,
+    createdAt?: number,
+  ) {
+    super(id, createdAt)
+    this.previous = cloneSecurityMetadata(previous)
+    this.next = cloneSecurityMetadata(next)
+    this.name = name
+    this.mergeKey = mergeKey
+  }
+
+  mergeWith(next: Command): UpdateSecurityCommand | null {
+    if (!(next instanceof UpdateSecurityCommand)) return null
+    if (!this.mergeKey || next.mergeKey !== this.mergeKey) return null
+    if (next.createdAt - this.createdAt > HISTORY.MERGE_WINDOW_MS) return null
+
+    return new UpdateSecurityCommand(
+      this.previous,
+      next.next,
+      next.name,
+      next.mergeKey,
+      this.id,
+      next.createdAt,
+    )
+  }
+
+  /**
+   * Passwords are left out so they never reach persisted history; a step
+   * restored after a reload applies its other settings with empty passwords.
+   */
+  protected getPayload(): Record<string, unknown> {
+    return {
+      previous: withoutPasswords(this.previous),
+      next: withoutPasswords(this.next),
+      name: this.name,
+      mergeKey: this.mergeKey,
+    }
+  }
+
+  static deserialize(data: SerializedCommand): UpdateSecurityCommand {
+    const { id, previous, next, name, mergeKey } = data.payload as {
+      id: string
+      previous: SecurityMetadata
+      next: SecurityMetadata
+      name: string
+      mergeKey?: string | null
+    }
+    return new UpdateSecurityCommand(previous, next, name, mergeKey ?? null, id, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.UPDATE_SECURITY, UpdateSecurityCommand)
@@ -0,0 +1,55 @@
+import { BaseCommand } from './BaseCommand'
+import { CommandType, registerCommand } from './registry'
+import type { SerializedCommand } from './types'
+import type { PageSignature } from '@/shared/types'
+import { clonePageSignature } from '@/shared/utils/document-clone'
+
+export class UpdateSignatureCommand extends BaseCommand {
+  public readonly type = CommandType.UPDATE_SIGNATURE
+  public readonly name = 'Update signature'
+
+  public readonly pageId: string
+  public readonly previous: PageSignature
+  public readonly next: PageSignature
+
+  constructor(
+    pageId: string,
+    previous: PageSignature,
+    next: PageSignature,
+    id?: string,
+    createdAt?: number,
+  ) {
+    super(id, createdAt)
+
+    if (!pageId) {
+      throw new Error('UpdateSignatureCommand requires a page ID')
+    }
+    if (!previous?.id || !next?.id) {
+      throw new Error('UpdateSignatureCommand requires valid signatures')
+    }
+
+    this.pageId = pageId
+    this.previous = clonePageSignature(previous)
+    this.next = clonePageSignature(next)
+  }
+
+  protected getPayload(): Record<string, unknown> {
+    return {
+      pageId: this.pageId,
+      previous: clonePageSignature(this.previous),
+      next: clonePageSignature(this.next),
+    }
+  }
+
+  static deserialize(data: SerializedCommand): UpdateSignatureCommand {
+    const { id, pageId, previous, next } = data.payload as {
+      id: string
+      pageId: string
+      previous: PageSignature
+      next: PageSignature
+    }
+    return new UpdateSignatureCommand(pageId, previous, next, id, data.timestamp)
+  }
+}
+
+registerCommand(CommandType.UPDATE_SIGNATURE, UpdateSignatureCommand)
@@ -48,17 +48,29 @@ export { CommandType, type CommandTypeValue, commandRegistry, registerCommand }
 // Commands (importing registers them with the registry)
 export { AddPagesCommand } from './AddPagesCommand'
 export { AddSourceCommand } from './AddSourceCommand'
+export { InsertPagesCommand } from './InsertPagesCommand'
 export { DeletePagesCommand } from './DeletePagesCommand'
 export { DuplicatePagesCommand } from './DuplicatePagesCommand'
 export { ReorderPagesCommand } from './ReorderPagesCommand'
 export { RotatePagesCommand } from './RotatePagesCommand'
 export { ResizePagesCommand } from './ResizePagesCommand'
+export { CropPagesCommand } from './CropPagesCommand'
 export { AddRedactionCommand } from './AddRedactionCommand'
 export { UpdateRedactionCommand } from './UpdateRedactionCommand'
 export { DeleteRedactionCommand } from './DeleteRedactionCommand'
+export { AddAnnotationCommand } from './AddAnnotationCommand'
+export { UpdateAnnotationCommand } from './UpdateAnnotationCommand'
+export { DeleteAnnotationCommand } from './DeleteAnnotationCommand'
+export { AddSignatureCommand } from './AddSignatureCommand'
+export { UpdateSignatureCommand } from './UpdateSignatureCommand'
+export { DeleteSignatureCommand } from './DeleteSignatureCommand'
 export { SplitGroupCommand } from './SplitGroupCommand'
+export { SplitSpreadCommand } from './SplitSpreadCommand'
 export { RemoveSourceCommand } from './RemoveSourceCommand'
 export { UpdateOutlineCommand } from './UpdateOutlineCommand'
+export { UpdateMetadataCommand } from './UpdateMetadataCommand'
+export { UpdateSecurityCommand } from './UpdateSecurityCommand'
+export { UpdateFormFieldCommand } from './UpdateFormFieldCommand'
 export { BatchCommand } from './BatchCommand'
 
 
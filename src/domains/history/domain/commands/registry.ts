@@ -8,17 +8,29 @@ import { createLogger } from '@/shared/infrastructure/logger'
 export const CommandType = {
   ADD: 'AddPages',
   ADD_SOURCE: 'AddSource',
+  INSERT: 'InsertPages',
   DELETE: 'DeletePages',
   DUPLICATE: 'DuplicatePages',
   REORDER: 'ReorderPages',
   ROTATE: 'RotatePages',
   RESIZE: 'ResizePages',
+  CROP: 'CropPages',
   SPLIT: 'SplitGroup',
+  SPLIT_SPREAD: 'SplitSpread',
   REMOVE_SOURCE: 'RemoveSource',
   REDACT: 'AddRedaction',
   UPDATE_REDACTION: 'UpdateRedaction',
   DELETE_REDACTION: 'DeleteRedaction',
+  ADD_ANNOTATION: 'AddAnnotation',
+  UPDATE_ANNOTATION: 'UpdateAnnotation',
+  DELETE_ANNOTATION: 'DeleteAnnotation',
+  ADD_SIGNATURE: 'AddSignature',
+  UPDATE_SIGNATURE: 'UpdateSignature',
+  DELETE_SIGNATURE: 'DeleteSignature',
   UPDATE_OUTLINE: 'UpdateOutline',
+  UPDATE_METADATA: 'UpdateMetadata',
+  UPDATE_SECURITY: 'UpdateSecurity',
+  UPDATE_FORM_FIELD: 'UpdateFormField',
   BATCH: 'BatchCommand',
 } as const
 
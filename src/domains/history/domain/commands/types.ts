@@ -50,6 +50,12 @@ export interface Command {
    * Must capture all state needed to reconstruct the command
    */
   serialize(): SerializedCommand
+
+  /**
+   * Combine with a command executed right after this one
+   * Returns the merged command to replace this history entry, or null to keep both
+   */
+  mergeWith?(next: Command): Command | null
 }
 
 /**
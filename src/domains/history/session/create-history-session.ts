@@ -159,6 +159,14 @@ export function createHistorySession(
 
     commandExecutor.execute(command)
 
+    const lastIndex = history.value.length - 1
+    const merged = history.value[lastIndex]?.command.mergeWith?.(command) ?? null
+    if (merged) {
+      history.value.splice(lastIndex, 1, { command: merged, timestamp: merged.createdAt })
+      historyPointer.value = lastIndex
+      return
+    }
+
     history.value.push({
       command,
       timestamp: command.createdAt,
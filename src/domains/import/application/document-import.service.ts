@@ -4,7 +4,11 @@ import type { Result } from '@/shared/types/result'
 import type { JobState } from '@/shared/types/jobs'
 import { buildOutlineForImport } from '@/domains/document/domain/outline'
 import { getImportErrorMessage, makeImportError } from '@/domains/import/domain/errors'
-import { loadPdfFiles } from '@/domains/import/infrastructure/import'
+import {
+  loadBlankPdfFile,
+  loadGeneratedPdfFile,
+  loadPdfFiles,
+} from '@/domains/import/infrastructure/import'
 import { addPagesBatch, addSources } from '@/domains/document/application/use-cases'
 import type {
   ImportOptions,
@@ -73,6 +77,7 @@ export function createDocumentImportService(deps: ImportServiceDeps) {
     try {
       const results = await loadPdfFiles(fileList, {
         initialColorIndex: store.sources.size,
+        password: options.password,
       })
       for (const result of results) {
         if (result.success && result.sourceFile?.metadata) {
@@ -141,8 +146,18 @@ export function createDocumentImportService(deps: ImportServiceDeps) {
     }
   }
 
+  function createBlankSource(size: { width: number; height: number }, filename: string) {
+    return loadBlankPdfFile(size, { colorIndex: store.sources.size, filename })
+  }
+
+  function createGeneratedSource(pdfBytes: Uint8Array, filename: string) {
+    return loadGeneratedPdfFile(pdfBytes, { colorIndex: store.sources.size, filename })
+  }
+
   return {
     importFiles,
+    createBlankSource,
+    createGeneratedSource,
     importJob: ui?.importJob,
   }
 }
@@ -23,6 +23,8 @@ export interface ImportSummary {
 
 export interface ImportOptions {
   addPages?: boolean
+  /** Password used to open protected PDFs in this batch. */
+  password?: string
 }
 
 export interface ImportServiceDeps {
@@ -37,4 +39,11 @@ export interface ImportService {
     files: FileList | File[],
     options?: ImportOptions,
   ): Promise<Result<ImportSummary>>
+  /** Stores a generated one-page blank PDF; the caller adds its page through history. */
+  createBlankSource(
+    size: { width: number; height: number },
+    filename: string,
+  ): Promise<FileUploadResult>
+  /** Stores a PDF generated by the editor; the caller adds its pages through history. */
+  createGeneratedSource(pdfBytes: Uint8Array, filename: string): Promise<FileUploadResult>
 }
@@ -12,6 +12,7 @@ const IMPORT_MESSAGES: Record<ImportErrorCode, string> = {
   IMPORT_FAILED: 'Import failed',
   IMPORT_PDF_LOAD_FAILED: 'Failed to read the PDF file',
   IMPORT_IMAGE_CONVERSION_FAILED: 'Unsupported image format. Use JPG or PNG.',
+  IMPORT_PASSWORD_REQUIRED: 'This PDF is password protected',
 }
 
 export function getImportErrorMessage(code: ImportErrorCode, fallback?: string): string {
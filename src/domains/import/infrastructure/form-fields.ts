@@ -0,0 +1,113 @@
+import { AnnotationType, type PDFDocumentProxy } from 'pdfjs-dist'
+import type { FormFieldInfo, FormFieldKind, FormFieldValue } from '@/shared/types'
+
+/**
+ * Widget annotation data as reported by pdf.js. Only the fields used to
+ * build the editor's form overlay are listed.
+ */
+type PdfJsWidgetAnnotation = {
+  annotationType: number
+  fieldName?: string
+  fieldType?: string
+  fieldValue?: unknown
+  rect?: number[]
+  hidden?: boolean
+  readOnly?: boolean
+  multiLine?: boolean
+  maxLen?: number
+  checkBox?: boolean
+  radioButton?: boolean
+  pushButton?: boolean
+  exportValue?: string
+  buttonValue?: string
+  combo?: boolean
+  multiSelect?: boolean
+  options?: Array<{ exportValue?: string; displayValue?: string }>
+  datetimeFormat?: string
+}
+
+function resolveKind(annotation: PdfJsWidgetAnnotation): FormFieldKind | null {
+  switch (annotation.fieldType) {
+    case 'Tx':
+      return annotation.datetimeFormat ? 'date' : 'text'
+    case 'Btn':
+      if (annotation.checkBox) return 'checkbox'
+      if (annotation.radioButton) return 'radio'
+      return null
+    case 'Ch':
+      // Multi-select lists cannot be expressed as a single value.
+      return annotation.multiSelect ? null : 'dropdown'
+    default:
+      return null
+  }
+}
+
+function resolveValue(kind: FormFieldKind, annotation: PdfJsWidgetAnnotation): FormFieldValue {
+  const raw = Array.isArray(annotation.fieldValue)
+    ? annotation.fieldValue[0]
+    : annotation.fieldValue
+  const text = typeof raw === 'string' ? raw : ''
+  if (kind === 'checkbox') return text !== '' && text !== 'Off'
+  if (kind === 'radio') return text === 'Off' ? '' : text
+  return text
+}
+
+/**
+ * Reads the fillable fields of a document. Widgets are returned in points
+ * of the unrotated page with a top-left origin, like a pdf.js viewport at
+ * scale 1 and rotation 0.
+ * Signature fields, push buttons and multi-select lists are skipped.
+ */
+export async function extractFormFields(pdfDoc: PDFDocumentProxy): Promise<FormFieldInfo[]> {
+  const fieldObjects = await pdfDoc.getFieldObjects().catch(() => null)
+  if (!fieldObjects || Object.keys(fieldObjects).length === 0) return []
+
+  const fields = new Map<string, FormFieldInfo>()
+  for (let pageIndex = 0; pageIndex < pdfDoc.numPages; pageIndex++) {
+    const page = await pdfDoc.getPage(pageIndex + 1)
+    const viewport = page.getViewport({ scale: 1, rotation: 0 })
+    const annotations = (await page.getAnnotations()) as PdfJsWidgetAnnotation[]
+
+    for (const annotation of annotations) {
+      if (annotation.annotationType !== AnnotationType.WIDGET) continue
+      if (!annotation.fieldName || annotation.hidden || !annotation.rect) continue
+      const kind = resolveKind(annotation)
+      if (!kind) continue
+
+      const [x1, y1, x2, y2] = viewport.convertToViewportRectangle(annotation.rect)
+      if ([x1, y1, x2, y2].some((value) => !Number.isFinite(value))) continue
+
+      const field = fields.get(annotation.fieldName) ?? {
+        name: annotation.fieldName,
+        kind,
+        value: resolveValue(kind, annotation),
+        ...(kind === 'dropdown'
+          ? {
+              options: (annotation.options ?? []).map((option) => ({
+                value: option.exportValue ?? option.displayValue ?? '',
+                label: option.displayValue ?? option.exportValue ?? '',
+              })),
+            }
+          : {}),
+        ...(kind === 'date' ? { dateFormat: annotation.datetimeFormat } : {}),
+        ...(annotation.multiLine ? { multiline: true } : {}),
+        ...(annotation.maxLen ? { maxLength: annotation.maxLen } : {}),
+        ...(annotation.readOnly ? { readOnly: true } : {}),
+        widgets: [],
+      }
+
+      const exportValue = kind === 'radio' ? annotation.buttonValue : annotation.exportValue
+      field.widgets.push({
+        pageIndex,
+        x: Math.min(x1!, x2!),
+        y: Math.min(y1!, y2!),
+        width: Math.abs(x2! - x1!),
+        height: Math.abs(y2! - y1!),
+        ...((kind === 'checkbox' || kind === 'radio') && exportValue ? { exportValue } : {}),
+      })
+      fields.set(field.name, field)
+    }
+  }
+
+  return [...fields.values()]
+}
@@ -15,6 +15,8 @@ import type {
 } from '@/shared/types'
 import { hasPageAnalysisMetrics } from '@/shared/types'
 import type { ImportErrorCode } from '@/shared/types/errors'
+import { extractFormFields } from './form-fields'
+import { decryptPdfBytes } from './pdf-decryption'
 
 pdfjs.GlobalWorkerOptions.workerSrc = pdfjsWorkerUrl
 
@@ -273,10 +275,23 @@ function resolvePageBaseMetrics(page: PDFPageProxy, existing?: Partial<PageMetri
 export interface LoadPdfFileOptions {
   colorIndex: number
   isImageSource?: boolean
+  isBlankSource?: boolean
+  password?: string
 }
 
 export interface LoadPdfFilesOptions {
   initialColorIndex?: number
+  password?: string
+}
+
+const PDFJS_INCORRECT_PASSWORD = 2
+
+function isPasswordException(error: unknown): error is { name: string; code?: number } {
+  return (
+    !!error &&
+    typeof error === 'object' &&
+    (error as { name?: unknown }).name === 'PasswordException'
+  )
 }
 
 export async function loadPdfFile(
@@ -284,24 +299,47 @@ export async function loadPdfFile(
   options: LoadPdfFileOptions,
 ): Promise<FileUploadResult> {
   try {
-    const arrayBuffer = await file.arrayBuffer()
+    let arrayBuffer = await file.arrayBuffer()
 
-    const loadingTask = pdfjs.getDocument({ data: arrayBuffer.slice(0) })
+    const loadingTask = pdfjs.getDocument({
+      data: arrayBuffer.slice(0),
+      ...(options.password !== undefined ? { password: options.password } : {}),
+    })
     const pdfDoc = await loadingTask.promise
     const outline = await extractPdfOutline(pdfDoc)
+    const formFields = await extractFormFields(pdfDoc).catch((error) => {
+      console.warn('Failed to read PDF form fields', error)
+      return []
+    })
     let extractedMetadata: DocumentMetadata | null = null
+    let isEncrypted = false
     try {
       const meta = await pdfDoc.getMetadata()
-      extractedMetadata = buildDocumentMetadata((meta?.info ?? {}) as Record<string, unknown>)
+      const info = (meta?.info ?? {}) as Record<string, unknown>
+      extractedMetadata = buildDocumentMetadata(info)
+      isEncrypted = Boolean(info.EncryptFilterName)
     } catch {
       extractedMetadata = null
     }
 
+    // Stored sources are re-opened by pdf-lib for export, which cannot read
+    // encrypted files, so the unlocked bytes are kept instead of the original.
+    if (isEncrypted) {
+      const decrypted = await decryptPdfBytes(arrayBuffer, options.password)
+      arrayBuffer = decrypted.buffer.slice(
+        decrypted.byteOffset,
+        decrypted.byteOffset + decrypted.byteLength,
+      ) as ArrayBuffer
+    }
+    const fileSize = isEncrypted ? arrayBuffer.byteLength : file.size
+
     const sourceFileId = crypto.randomUUID()
     const color = getNextColor(options.colorIndex)
     const addedAt = Date.now()
     const outlinePayload = outline.length > 0 ? { outline } : {}
     const metadataPayload = extractedMetadata ? { metadata: extractedMetadata } : {}
+    const formFieldsPayload = formFields.length > 0 ? { formFields } : {}
+    const blankPayload = options.isBlankSource ? { isBlankSource: true } : {}
 
     const groupId = crypto.randomUUID()
     const pageMetaData: PageMetrics[] = []
@@ -326,33 +364,46 @@ export async function loadPdfFile(
       id: sourceFileId,
       data: arrayBuffer,
       filename: file.name,
-      fileSize: file.size,
+      fileSize,
       pageCount: pdfDoc.numPages,
       addedAt,
       color,
       pageMetaData,
       isImageSource: options.isImageSource ?? false,
+      ...blankPayload,
       ...outlinePayload,
       ...metadataPayload,
+      ...formFieldsPayload,
     })
 
     const sourceFile: SourceFile = {
       id: sourceFileId,
       filename: file.name,
       pageCount: pdfDoc.numPages,
-      fileSize: file.size,
+      fileSize,
       addedAt,
       color,
       pageMetaData,
       isImageSource: options.isImageSource ?? false,
+      ...blankPayload,
       ...outlinePayload,
       ...metadataPayload,
+      ...formFieldsPayload,
     }
 
     pdfDocCache.set(sourceFileId, pdfDoc)
 
     return { success: true, sourceFile, pageRefs }
   } catch (error) {
+    if (isPasswordException(error)) {
+      return {
+        success: false,
+        error:
+          error.code === PDFJS_INCORRECT_PASSWORD ? 'Incorrect password' : 'Password required',
+        errorCode: 'IMPORT_PASSWORD_REQUIRED',
+        file,
+      }
+    }
     console.error('Failed to load PDF file:', error)
     return {
       success: false,
@@ -371,7 +422,9 @@ export async function loadPdfFiles(
 
   for (const file of Array.from(files)) {
     if (file.type === 'application/pdf') {
-      results.push(await loadPdfFile(file, { colorIndex, isImageSource: false }))
+      results.push(
+        await loadPdfFile(file, { colorIndex, isImageSource: false, password: options.password }),
+      )
       colorIndex++
     } else if (file.type.startsWith('image/')) {
       const conversion = await convertImageToPdf(file)
@@ -391,6 +444,30 @@ export async function loadPdfFiles(
   return results
 }
 
+/**
+ * Generates a one-page blank PDF and loads it as a source, so blank pages
+ * render, persist and export like any imported page.
+ */
+export async function loadBlankPdfFile(
+  size: { width: number; height: number },
+  options: { colorIndex: number; filename: string },
+): Promise<FileUploadResult> {
+  const pdfDoc = await PDFDocument.create()
+  pdfDoc.addPage([size.width, size.height])
+  const pdfBytes = await pdfDoc.save()
+  const file = new File([pdfBytes as BlobPart], options.filename, { type: 'application/pdf' })
+  return loadPdfFile(file, { colorIndex: options.colorIndex, isBlankSource: true })
+}
+
+/** Loads a PDF the editor generated (e.g. front matter) as a regular source. */
+export async function loadGeneratedPdfFile(
+  pdfBytes: Uint8Array,
+  options: { colorIndex: number; filename: string },
+): Promise<FileUploadResult> {
+  const file = new File([pdfBytes as BlobPart], options.filename, { type: 'application/pdf' })
+  return loadPdfFile(file, { colorIndex: options.colorIndex })
+}
+
 export async function ensureSourcePageAnalysisMetrics(
   sourceFileId: string,
 ): Promise<PageMetrics[]> {
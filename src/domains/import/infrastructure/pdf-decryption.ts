@@ -0,0 +1,314 @@
+import {
+  PDFArray,
+  PDFBool,
+  PDFDict,
+  PDFHexString,
+  PDFInvalidObject,
+  PDFName,
+  PDFNumber,
+  PDFObjectParser,
+  PDFObjectStreamParser,
+  PDFParser,
+  PDFRawStream,
+  PDFRef,
+  PDFStream,
+  PDFStreamWriter,
+  PDFString,
+  type PDFContext,
+  type PDFObject,
+} from 'pdf-lib'
+import { aesCbcDecryptNoPadding, aesDecryptWithIv, rc4 } from '@/shared/utils/pdf-crypto'
+import {
+  bytesEqual,
+  computeHardenedHash,
+  computeLegacyFileKey,
+  computeObjectKey,
+  computeUserEntry,
+  encodeUtf8Password,
+  padPassword,
+  recoverUserPasswordFromOwner,
+  toHex,
+} from '@/shared/utils/pdf-standard-security'
+
+type CryptMethod = 'identity' | 'rc4' | 'aesv2' | 'aesv3'
+
+interface DecryptionHandler {
+  decrypt: (ref: PDFRef, data: Uint8Array, method: CryptMethod) => Promise<Uint8Array>
+  stringMethod: CryptMethod
+  streamMethod: CryptMethod
+  encryptMetadata: boolean
+}
+
+export class PdfPasswordError extends Error {
+  constructor(message = 'Incorrect password') {
+    super(message)
+    this.name = 'PdfPasswordError'
+  }
+}
+
+/**
+ * Removes standard security handler encryption so pdf-lib can copy pages
+ * from the file. Unencrypted input is returned unchanged.
+ */
+export async function decryptPdfBytes(
+  data: ArrayBuffer | Uint8Array,
+  password = '',
+): Promise<Uint8Array> {
+  const bytes = data instanceof Uint8Array ? data : new Uint8Array(data)
+  const context = await PDFParser.forBytesWithOptions(bytes.slice()).parseDocument()
+
+  const encryptRef = context.trailerInfo.Encrypt
+  const encryptDict = context.lookup(encryptRef)
+  if (!(encryptDict instanceof PDFDict)) return bytes
+
+  const handler = await createDecryptionHandler(encryptDict, readFileId(context), password)
+
+  for (const [ref, object] of context.enumerateIndirectObjects()) {
+    if (ref === encryptRef) continue
+
+    if (object instanceof PDFInvalidObject) {
+      // pdf-lib cannot inflate encrypted object streams while parsing, so they
+      // surface as invalid objects and are expanded once decrypted.
+      await expandEncryptedObjectStream(context, ref, object, handler)
+      continue
+    }
+
+    if (object instanceof PDFStream) {
+      await decryptStrings(object.dict, ref, handler)
+      if (shouldDecryptStream(object, handler)) {
+        const contents = await handler.decrypt(ref, object.getContents(), handler.streamMethod)
+        context.assign(ref, PDFRawStream.of(object.dict, contents))
+      }
+      continue
+    }
+
+    const decrypted = await decryptStrings(object, ref, handler)
+    if (decrypted !== object) context.assign(ref, decrypted)
+  }
+
+  if (encryptRef instanceof PDFRef) context.delete(encryptRef)
+  context.trailerInfo.Encrypt = undefined
+
+  return await PDFStreamWriter.forContext(context, 50).serializeToBuffer()
+}
+
+async function expandEncryptedObjectStream(
+  context: PDFContext,
+  ref: PDFRef,
+  object: PDFInvalidObject,
+  handler: DecryptionHandler,
+): Promise<void> {
+  const raw = new Uint8Array(object.sizeInBytes())
+  object.copyBytesInto(raw, 0)
+
+  let parsed: PDFObject
+  try {
+    parsed = PDFObjectParser.forBytes(raw, context).parseObject()
+  } catch {
+    return
+  }
+  if (!(parsed instanceof PDFRawStream)) return
+  if (parsed.dict.lookup(PDFName.of('Type')) !== PDFName.of('ObjStm')) return
+
+  const contents = await handler.decrypt(ref, parsed.getContents(), handler.streamMethod)
+  await PDFObjectStreamParser.forStream(PDFRawStream.of(parsed.dict, contents)).parseIntoContext()
+  context.delete(ref)
+}
+
+function shouldDecryptStream(stream: PDFStream, handler: DecryptionHandler): boolean {
+  const type = stream.dict.lookup(PDFName.of('Type'))
+  if (type === PDFName.of('XRef')) return false
+  if (type === PDFName.of('Metadata') && !handler.encryptMetadata) return false
+  return true
+}
+
+async function decryptStrings(
+  object: PDFObject,
+  ref: PDFRef,
+  handler: DecryptionHandler,
+): Promise<PDFObject> {
+  if (object instanceof PDFString || object instanceof PDFHexString) {
+    const decrypted = await handler.decrypt(ref, object.asBytes(), handler.stringMethod)
+    return PDFHexString.of(toHex(decrypted))
+  }
+
+  if (object instanceof PDFDict) {
+    for (const [key, value] of object.entries()) {
+      const decrypted = await decryptStrings(value, ref, handler)
+      if (decrypted !== value) object.set(key, decrypted)
+    }
+    return object
+  }
+
+  if (object instanceof PDFArray) {
+    for (let index = 0; index < object.size(); index++) {
+      const value = object.get(index)
+      const decrypted = await decryptStrings(value, ref, handler)
+      if (decrypted !== value) object.set(index, decrypted)
+    }
+  }
+
+  return object
+}
+
+function readFileId(context: PDFContext): Uint8Array {
+  const id = context.lookup(context.trailerInfo.ID)
+  if (id instanceof PDFArray) {
+    const first = id.get(0)
+    if (first instanceof PDFString || first instanceof PDFHexString) return first.asBytes()
+  }
+  return new Uint8Array(0)
+}
+
+function readBytes(dict: PDFDict, key: string): Uint8Array {
+  const value = dict.lookup(PDFName.of(key))
+  if (value instanceof PDFString || value instanceof PDFHexString) return value.asBytes()
+  return new Uint8Array(0)
+}
+
+function readNumber(dict: PDFDict, key: string, fallback: number): number {
+  const value = dict.lookup(PDFName.of(key))
+  return value instanceof PDFNumber ? value.asNumber() : fallback
+}
+
+function resolveCryptMethod(encryptDict: PDFDict, filterKey: 'StmF' | 'StrF'): CryptMethod {
+  const version = readNumber(encryptDict, 'V', 0)
+  if (version < 4) return 'rc4'
+
+  const filterName = encryptDict.lookup(PDFName.of(filterKey))
+  if (!(filterName instanceof PDFName) || filterName === PDFName.of('Identity')) return 'identity'
+
+  const filters = encryptDict.lookup(PDFName.of('CF'))
+  const filter = filters instanceof PDFDict ? filters.lookup(filterName) : undefined
+  const method = filter instanceof PDFDict ? filter.lookup(PDFName.of('CFM')) : undefined
+
+  if (method === PDFName.of('V2')) return 'rc4'
+  if (method === PDFName.of('AESV2')) return 'aesv2'
+  if (method === PDFName.of('AESV3')) return 'aesv3'
+  return 'identity'
+}
+
+async function createDecryptionHandler(
+  encryptDict: PDFDict,
+  fileId: Uint8Array,
+  password: string,
+): Promise<DecryptionHandler> {
+  if (encryptDict.lookup(PDFName.of('Filter')) !== PDFName.of('Standard')) {
+    throw new Error('Unsupported PDF security handler')
+  }
+
+  const version = readNumber(encryptDict, 'V', 0)
+  const revision = readNumber(encryptDict, 'R', 2)
+  const encryptMetadataValue = encryptDict.lookup(PDFName.of('EncryptMetadata'))
+  const encryptMetadata = encryptMetadataValue instanceof PDFBool
+    ? encryptMetadataValue.asBoolean()
+    : true
+
+  const fileKey =
+    revision >= 5
+      ? await authenticateAes256(encryptDict, password, revision)
+      : authenticateLegacy(encryptDict, fileId, password, version, revision, encryptMetadata)
+
+  if (!fileKey) throw new PdfPasswordError()
+
+  return {
+    stringMethod: resolveCryptMethod(encryptDict, 'StrF'),
+    streamMethod: resolveCryptMethod(encryptDict, 'StmF'),
+    encryptMetadata,
+    decrypt: async (ref, data, method) => {
+      if (method === 'identity') return data
+      if (method === 'aesv3') return aesDecryptWithIv(fileKey, data)
+      const objectKey = computeObjectKey(
+        fileKey,
+        ref.objectNumber,
+        ref.generationNumber,
+        method === 'aesv2',
+      )
+      return method === 'aesv2' ? aesDecryptWithIv(objectKey, data) : rc4(objectKey, data)
+    },
+  }
+}
+
+function authenticateLegacy(
+  encryptDict: PDFDict,
+  fileId: Uint8Array,
+  password: string,
+  version: number,
+  revision: number,
+  encryptMetadata: boolean,
+): Uint8Array | null {
+  const ownerEntry = readBytes(encryptDict, 'O')
+  const userEntry = readBytes(encryptDict, 'U')
+  const permissions = readNumber(encryptDict, 'P', 0)
+  const keyLength = version === 1 ? 5 : Math.floor(readNumber(encryptDict, 'Length', 40) / 8)
+  const compareLength = revision >= 3 ? 16 : 32
+
+  const tryUserPassword = (paddedUserPassword: Uint8Array) => {
+    const fileKey = computeLegacyFileKey({
+      paddedUserPassword,
+      ownerEntry,
+      permissions,
+      fileId,
+      revision,
+      keyLength,
+      encryptMetadata,
+    })
+    const expected = computeUserEntry(fileKey, fileId, revision)
+    return bytesEqual(
+      expected.subarray(0, compareLength),
+      userEntry.subarray(0, compareLength),
+    )
+      ? fileKey
+      : null
+  }
+
+  return (
+    tryUserPassword(padPassword(password)) ??
+    tryUserPassword(recoverUserPasswordFromOwner(password, ownerEntry, revision, keyLength))
+  )
+}
+
+async function authenticateAes256(
+  encryptDict: PDFDict,
+  password: string,
+  revision: number,
+): Promise<Uint8Array | null> {
+  const passwordBytes = encodeUtf8Password(password)
+  const userEntry = readBytes(encryptDict, 'U').subarray(0, 48)
+  const ownerEntry = readBytes(encryptDict, 'O').subarray(0, 48)
+  const zeroIv = new Uint8Array(16)
+
+  const userHash = await computeHardenedHash(
+    passwordBytes,
+    userEntry.subarray(32, 40),
+    undefined,
+    revision,
+  )
+  if (bytesEqual(userHash, userEntry.subarray(0, 32))) {
+    const key = await computeHardenedHash(
+      passwordBytes,
+      userEntry.subarray(40, 48),
+      undefined,
+      revision,
+    )
+    return aesCbcDecryptNoPadding(key, zeroIv, readBytes(encryptDict, 'UE'))
+  }
+
+  const ownerHash = await computeHardenedHash(
+    passwordBytes,
+    ownerEntry.subarray(32, 40),
+    userEntry,
+    revision,
+  )
+  if (bytesEqual(ownerHash, ownerEntry.subarray(0, 32))) {
+    const key = await computeHardenedHash(
+      passwordBytes,
+      ownerEntry.subarray(40, 48),
+      userEntry,
+      revision,
+    )
+    return aesCbcDecryptNoPadding(key, zeroIv, readBytes(encryptDict, 'OE'))
+  }
+
+  return null
+}
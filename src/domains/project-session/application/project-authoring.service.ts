@@ -41,6 +41,9 @@ export interface PersistProjectInput {
     outlineDirty: NonNullable<ProjectSnapshot['outlineDirty']>
     metadata: NonNullable<ProjectSnapshot['metadata']>
     security: ProjectSnapshot['security']
+    watermark: ProjectSnapshot['watermark']
+    headerFooter: ProjectSnapshot['headerFooter']
+    formValues: NonNullable<ProjectSnapshot['formValues']>
     metadataDirty: NonNullable<ProjectSnapshot['metadataDirty']>
     ignoredPreflightRuleIds: NonNullable<ProjectSnapshot['ignoredPreflightRuleIds']>
   }
@@ -119,6 +122,9 @@ export function createProjectAuthoringService(persistence: ProjectAuthoringPersi
       outlineDirty: input.snapshot.outlineDirty,
       metadata: input.snapshot.metadata,
       security: input.snapshot.security,
+      watermark: input.snapshot.watermark,
+      headerFooter: input.snapshot.headerFooter,
+      formValues: input.snapshot.formValues,
       metadataDirty: input.snapshot.metadataDirty,
       ignoredPreflightRuleIds: input.snapshot.ignoredPreflightRuleIds,
     })
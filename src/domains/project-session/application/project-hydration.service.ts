@@ -11,6 +11,9 @@ import type {
   PageEntry,
   PageReference,
   SecurityMetadata,
+  WatermarkSettings,
+  HeaderFooterSettings,
+  FormFieldValues,
   SourceFile,
 } from '@/shared/types'
 import type { SerializedCommand } from '@/domains/history/domain/commands/types'
@@ -24,6 +27,9 @@ export interface ProjectHydrationDocumentStore {
   setMetadata: (next: Partial<DocumentMetadata>, markDirty?: boolean) => void
   setMetadataDirty: (value: boolean) => void
   setSecurity: (next: Partial<SecurityMetadata>) => void
+  setWatermark: (next: Partial<WatermarkSettings>) => void
+  setHeaderFooter: (next: Partial<HeaderFooterSettings>) => void
+  setFormValues: (values: FormFieldValues) => void
   setOutlineTree: (tree: OutlineNode[], markDirty?: boolean) => void
   contentPages: PageReference[]
   sources: Map<string, SourceFile>
@@ -64,8 +70,10 @@ export function toSourceFile(file: StoredFile): SourceFile {
     color: file.color,
     pageMetaData: file.pageMetaData ?? [],
     isImageSource: file.isImageSource ?? false,
+    ...(file.isBlankSource ? { isBlankSource: true } : {}),
     outline: file.outline,
     metadata: file.metadata,
+    formFields: file.formFields,
   }
 }
 
@@ -110,6 +118,18 @@ export function hydrateProjectWorkspace(input: HydrateProjectWorkspaceInput): vo
     documentStore.setSecurity(state.security)
   }
 
+  if (state.watermark) {
+    documentStore.setWatermark(state.watermark)
+  }
+
+  if (state.headerFooter) {
+    documentStore.setHeaderFooter(state.headerFooter)
+  }
+
+  if (state.formValues) {
+    documentStore.setFormValues(state.formValues)
+  }
+
   const autoOutline = autoGenOutlineFromPages(documentStore.contentPages, documentStore.sources)
   const hydratedOutline = resolveOutlineTreeForHydration({
     persistedOutlineTree: state.outlineTree,
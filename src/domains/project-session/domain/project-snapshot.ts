@@ -7,6 +7,9 @@ import type {
   PageEntry,
   PageReference,
   SecurityMetadata,
+  WatermarkSettings,
+  HeaderFooterSettings,
+  FormFieldValues,
 } from '@/shared/types'
 
 export interface ProjectSnapshot {
@@ -19,6 +22,9 @@ export interface ProjectSnapshot {
   outlineDirty?: boolean
   metadata?: DocumentMetadata
   security?: SecurityMetadata
+  watermark?: WatermarkSettings
+  headerFooter?: HeaderFooterSettings
+  formValues?: FormFieldValues
   metadataDirty?: boolean
   ignoredPreflightRuleIds?: string[]
 }
@@ -88,6 +94,9 @@ export function buildInitialProjectSnapshot(options: {
     outlineDirty: false,
     metadata: options.metadata,
     security: undefined,
+    watermark: undefined,
+    headerFooter: undefined,
+    formValues: {},
     metadataDirty: false,
     ignoredPreflightRuleIds: [],
   }
@@ -121,6 +130,9 @@ export function buildPersistedProjectSnapshot(options: {
   outlineDirty: boolean
   metadata: DocumentMetadata
   security: SecurityMetadata | undefined
+  watermark: WatermarkSettings | undefined
+  headerFooter: HeaderFooterSettings | undefined
+  formValues: FormFieldValues
   metadataDirty: boolean
   ignoredPreflightRuleIds: string[]
 }): ProjectSnapshot {
@@ -134,6 +146,9 @@ export function buildPersistedProjectSnapshot(options: {
     outlineDirty: options.outlineDirty,
     metadata: options.metadata,
     security: options.security,
+    watermark: options.watermark,
+    headerFooter: options.headerFooter,
+    formValues: options.formValues,
     metadataDirty: options.metadataDirty,
     ignoredPreflightRuleIds: options.ignoredPreflightRuleIds,
   }
@@ -188,6 +203,9 @@ export function buildProjectState(id: string, snapshot: ProjectSnapshot): Projec
     outlineDirty: Boolean(snapshot.outlineDirty),
     metadata: snapshot.metadata ? toPlain(snapshot.metadata) : undefined,
     security: snapshot.security ? toPlain(snapshot.security) : undefined,
+    watermark: snapshot.watermark ? toPlain(snapshot.watermark) : undefined,
+    headerFooter: snapshot.headerFooter ? toPlain(snapshot.headerFooter) : undefined,
+    formValues: toPlain(snapshot.formValues ?? {}),
     metadataDirty: Boolean(snapshot.metadataDirty),
     ignoredPreflightRuleIds: toPlain(snapshot.ignoredPreflightRuleIds ?? []),
   }
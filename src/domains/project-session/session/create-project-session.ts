@@ -76,6 +76,9 @@ export function createProjectSession(): ProjectSession {
         outlineDirty: document.outlineDirty,
         metadata: document.metadata,
         security: document.security,
+        watermark: document.watermark,
+        headerFooter: document.headerFooter,
+        formValues: document.formValues,
         metadataDirty: document.metadataDirty,
         ignoredPreflightRuleIds: editor.ignoredPreflightRuleIds,
       }
@@ -201,6 +204,9 @@ export function createProjectSession(): ProjectSession {
         document.outlineVersion,
         document.metadataVersion,
         document.securityVersion,
+        document.watermarkVersion,
+        document.headerFooterVersion,
+        document.formValuesVersion,
         history.historyPointer,
         history.history.length,
         document.projectTitle,
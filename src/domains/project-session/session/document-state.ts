@@ -13,12 +13,22 @@ import type {
   OutlineNode,
   DocumentMetadata,
   SecurityMetadata,
+  WatermarkSettings,
+  HeaderFooterSettings,
+  FormFieldValue,
+  FormFieldValues,
+  PageAnnotation,
+  PageCrop,
+  PageSignature,
   RedactionMark,
 } from '@/shared/types'
 import { isPageEntry } from '@/shared/types'
 import {
+  cloneFormFieldValues,
+  clonePageAnnotation,
   clonePageEntries,
   clonePageReferences,
+  clonePageSignature,
   cloneRedactionMark,
   cloneSourceFile,
 } from '@/shared/utils/document-clone'
@@ -44,6 +54,31 @@ export function createDocumentState() {
     allowModifying: false,
   }
 
+  const DEFAULT_WATERMARK: WatermarkSettings = {
+    enabled: false,
+    kind: 'text',
+    text: 'CONFIDENTIAL',
+    opacity: 0.2,
+    rotation: 45,
+    scale: 0.7,
+    layout: 'center',
+    pageRange: '',
+  }
+
+  const DEFAULT_HEADER_FOOTER: HeaderFooterSettings = {
+    enabled: false,
+    header: { left: '', center: '', right: '' },
+    footer: { left: '', center: '', right: '' },
+    font: 'helvetica',
+    fontSize: 9,
+    margin: 24,
+    skipFirstPage: false,
+  }
+
+  function cloneHeaderFooter(value: HeaderFooterSettings): HeaderFooterSettings {
+    return { ...value, header: { ...value.header }, footer: { ...value.footer } }
+  }
+
   // Mutable document graphs stay on deep refs because the editor mutates nested
   // pages, outlines, metadata, and selection state in place.
   const contentState = {
@@ -60,12 +95,30 @@ export function createDocumentState() {
     security: ref<SecurityMetadata>({ ...DEFAULT_SECURITY }),
     metadataVersion: shallowRef(0),
     securityVersion: shallowRef(0),
+    watermark: ref<WatermarkSettings>({ ...DEFAULT_WATERMARK }),
+    watermarkVersion: shallowRef(0),
+    headerFooter: ref<HeaderFooterSettings>(cloneHeaderFooter(DEFAULT_HEADER_FOOTER)),
+    headerFooterVersion: shallowRef(0),
+    formValues: ref<FormFieldValues>({}),
+    formValuesVersion: shallowRef(0),
     metadataDirty: shallowRef(false),
     // Session-scoped project label state is shallow because it is replaced as a whole.
     projectTitle: shallowRef(DEFAULT_PROJECT_TITLE),
   }
-  const { metadata, security, metadataVersion, securityVersion, metadataDirty, projectTitle } =
-    documentMetaState
+  const {
+    metadata,
+    security,
+    metadataVersion,
+    securityVersion,
+    watermark,
+    watermarkVersion,
+    headerFooter,
+    headerFooterVersion,
+    formValues,
+    formValuesVersion,
+    metadataDirty,
+    projectTitle,
+  } = documentMetaState
 
   const outlineState = {
     outlineTree: ref<OutlineNode[]>([]),
@@ -137,6 +190,18 @@ export function createDocumentState() {
     securityVersion.value += 1
   }
 
+  function bumpWatermarkVersion() {
+    watermarkVersion.value += 1
+  }
+
+  function bumpHeaderFooterVersion() {
+    headerFooterVersion.value += 1
+  }
+
+  function bumpFormValuesVersion() {
+    formValuesVersion.value += 1
+  }
+
   function addSourceFile(sourceFile: SourceFile) {
     sources.value.set(sourceFile.id, cloneSourceFile(sourceFile))
     bumpSourcesVersion()
@@ -275,6 +340,26 @@ export function createDocumentState() {
     setPageTargetDimensionsBatch([{ pageId, targetDimensions }])
   }
 
+  function setPageCropBatch(targets: ReadonlyArray<{ pageId: string; crop?: PageCrop | null }>) {
+    if (targets.length === 0) return
+    const cropByPageId = new Map(
+      targets.map((target) => [target.pageId, target.crop ?? null] as const),
+    )
+    let didUpdate = false
+
+    for (const entry of pages.value) {
+      if (!isPageEntry(entry)) continue
+      if (!cropByPageId.has(entry.id)) continue
+      const nextCrop = cropByPageId.get(entry.id) ?? null
+      entry.crop = nextCrop ? { ...nextCrop } : undefined
+      didUpdate = true
+    }
+
+    if (didUpdate) {
+      bumpPagesVersion()
+    }
+  }
+
   function setSourcePageMetrics(sourceFileId: string, nextPageMetaData: SourceFile['pageMetaData']) {
     const source = sources.value.get(sourceFileId)
     if (!source) return
@@ -326,6 +411,60 @@ export function createDocumentState() {
     bumpPagesVersion()
   }
 
+  function addAnnotations(pageId: string, annotations: PageAnnotation[]) {
+    if (!annotations || annotations.length === 0) return
+    const page = pages.value.find((p): p is PageReference => isPageEntry(p) && p.id === pageId)
+    if (!page) return
+    if (!page.annotations) page.annotations = []
+    page.annotations.push(...annotations.map(clonePageAnnotation))
+    bumpPagesVersion()
+  }
+
+  function updateAnnotation(pageId: string, annotation: PageAnnotation) {
+    const page = pages.value.find((p): p is PageReference => isPageEntry(p) && p.id === pageId)
+    if (!page?.annotations?.length) return
+    page.annotations = page.annotations.map((a) =>
+      a.id === annotation.id ? clonePageAnnotation(annotation) : a,
+    )
+    bumpPagesVersion()
+  }
+
+  function removeAnnotations(pageId: string, annotationIds: string[]) {
+    if (!annotationIds || annotationIds.length === 0) return
+    const page = pages.value.find((p): p is PageReference => isPageEntry(p) && p.id === pageId)
+    if (!page?.annotations?.length) return
+    const removeSet = new Set(annotationIds)
+    page.annotations = page.annotations.filter((a) => !removeSet.has(a.id))
+    bumpPagesVersion()
+  }
+
+  function addSignatures(pageId: string, signatures: PageSignature[]) {
+    if (!signatures || signatures.length === 0) return
+    const page = pages.value.find((p): p is PageReference => isPageEntry(p) && p.id === pageId)
+    if (!page) return
+    if (!page.signatures) page.signatures = []
+    page.signatures.push(...signatures.map(clonePageSignature))
+    bumpPagesVersion()
+  }
+
+  function updateSignature(pageId: string, signature: PageSignature) {
+    const page = pages.value.find((p): p is PageReference => isPageEntry(p) && p.id === pageId)
+    if (!page?.signatures?.length) return
+    page.signatures = page.signatures.map((s) =>
+      s.id === signature.id ? clonePageSignature(signature) : s,
+    )
+    bumpPagesVersion()
+  }
+
+  function removeSignatures(pageId: string, signatureIds: string[]) {
+    if (!signatureIds || signatureIds.length === 0) return
+    const page = pages.value.find((p): p is PageReference => isPageEntry(p) && p.id === pageId)
+    if (!page?.signatures?.length) return
+    const removeSet = new Set(signatureIds)
+    page.signatures = page.signatures.filter((s) => !removeSet.has(s.id))
+    bumpPagesVersion()
+  }
+
   // === SELECTION ===
   function selectPage(pageId: string, addToSelection = false) {
     if (!addToSelection) selection.value.selectedIds.clear()
@@ -422,6 +561,53 @@ export function createDocumentState() {
     bumpSecurityVersion()
   }
 
+  function setWatermark(next: Partial<WatermarkSettings>) {
+    watermark.value = { ...watermark.value, ...next }
+    bumpWatermarkVersion()
+  }
+
+  function resetWatermark() {
+    watermark.value = { ...DEFAULT_WATERMARK }
+    bumpWatermarkVersion()
+  }
+
+  function setHeaderFooter(next: Partial<HeaderFooterSettings>) {
+    headerFooter.value = cloneHeaderFooter({ ...headerFooter.value, ...next })
+    bumpHeaderFooterVersion()
+  }
+
+  function resetHeaderFooter() {
+    headerFooter.value = cloneHeaderFooter(DEFAULT_HEADER_FOOTER)
+    bumpHeaderFooterVersion()
+  }
+
+  /** A null value drops the entry so the field shows its source value again. */
+  function setFormFieldValue(
+    sourceFileId: string,
+    fieldName: string,
+    value: FormFieldValue | null,
+  ) {
+    const fields = { ...formValues.value[sourceFileId] }
+    if (value === null) delete fields[fieldName]
+    else fields[fieldName] = value
+
+    const next = { ...formValues.value }
+    if (Object.keys(fields).length > 0) next[sourceFileId] = fields
+    else delete next[sourceFileId]
+    formValues.value = next
+    bumpFormValuesVersion()
+  }
+
+  function setFormValues(values: FormFieldValues) {
+    formValues.value = cloneFormFieldValues(values)
+    bumpFormValuesVersion()
+  }
+
+  function resetFormValues() {
+    formValues.value = {}
+    bumpFormValuesVersion()
+  }
+
   function normalizeOutlineTree(
     nodes: OutlineNode[],
     parentId: string | null = null,
@@ -490,6 +676,9 @@ export function createDocumentState() {
     projectTitle.value = DEFAULT_PROJECT_TITLE
     resetMetadata()
     resetSecurity()
+    resetWatermark()
+    resetHeaderFooter()
+    resetFormValues()
     resetOutline()
     bumpSourcesVersion()
     bumpPagesStructureVersion()
@@ -514,6 +703,9 @@ export function createDocumentState() {
     outlineVersion,
     metadataVersion,
     securityVersion,
+    watermarkVersion,
+    headerFooterVersion,
+    formValuesVersion,
     selection,
     activePageId,
     pageCount,
@@ -538,6 +730,7 @@ export function createDocumentState() {
     rotatePages,
     rotatePage,
     setPageTargetDimensionsBatch,
+    setPageCropBatch,
     setPageTargetDimensions,
     setSourcePageMetrics,
     addRedaction,
@@ -546,6 +739,12 @@ export function createDocumentState() {
     removeRedaction,
     removeRedactions,
     clearRedactions,
+    addAnnotations,
+    updateAnnotation,
+    removeAnnotations,
+    addSignatures,
+    updateSignature,
+    removeSignatures,
     selectPage,
     deselectPage,
     togglePageSelection,
@@ -576,6 +775,16 @@ export function createDocumentState() {
     security,
     setSecurity,
     resetSecurity,
+    watermark,
+    setWatermark,
+    resetWatermark,
+    headerFooter,
+    setHeaderFooter,
+    resetHeaderFooter,
+    formValues,
+    setFormFieldValue,
+    setFormValues,
+    resetFormValues,
   })
 }
 
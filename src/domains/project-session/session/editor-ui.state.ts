@@ -1,6 +1,7 @@
 import { computed, ref, shallowRef, reactive } from 'vue'
 import { ZOOM } from '@/shared/constants'
 import type { PageReference } from '@/shared/types'
+import type { BlankPagePlacement } from '@/domains/document/domain/blank-pages'
 import {
   EDITOR_TOOLS,
   MOBILE_EDITOR_MODES,
@@ -74,6 +75,14 @@ export function createEditorUiState() {
   const previewPageRef = ref<PageReference | null>(null)
   const showDiffModal = shallowRef(false)
   const diffPages = ref<[PageReference, PageReference] | null>(null)
+  const showSplitSpreadDialog = shallowRef(false)
+  const splitSpreadPageRef = ref<PageReference | null>(null)
+  const showBlankPageDialog = shallowRef(false)
+  const blankPageAnchorId = shallowRef<string | null>(null)
+  const blankPagePlacement = shallowRef<BlankPagePlacement>('after')
+  const showFrontMatterDialog = shallowRef(false)
+  const showApplyWorkflowDialog = shallowRef(false)
+  const showRedactionSearch = shallowRef(false)
 
   // Outline targeting mode
   const outlineTargetNodeId = shallowRef<string | null>(null)
@@ -87,6 +96,11 @@ export function createEditorUiState() {
     () =>
       showPreviewModal.value ||
       showDiffModal.value ||
+      showSplitSpreadDialog.value ||
+      showBlankPageDialog.value ||
+      showFrontMatterDialog.value ||
+      showApplyWorkflowDialog.value ||
+      showRedactionSearch.value ||
       showCommandPalette.value ||
       showOutlineUrlDialog.value ||
       showSettingsSheet.value ||
@@ -175,6 +189,51 @@ export function createEditorUiState() {
     diffPages.value = null
   }
 
+  function openSplitSpreadDialog(pageRef: PageReference) {
+    splitSpreadPageRef.value = pageRef
+    showSplitSpreadDialog.value = true
+  }
+
+  function closeSplitSpreadDialog() {
+    showSplitSpreadDialog.value = false
+    splitSpreadPageRef.value = null
+  }
+
+  function openBlankPageDialog(anchorId: string | null, placement: BlankPagePlacement) {
+    blankPageAnchorId.value = anchorId
+    blankPagePlacement.value = placement
+    showBlankPageDialog.value = true
+  }
+
+  function closeBlankPageDialog() {
+    showBlankPageDialog.value = false
+    blankPageAnchorId.value = null
+  }
+
+  function openFrontMatterDialog() {
+    showFrontMatterDialog.value = true
+  }
+
+  function closeFrontMatterDialog() {
+    showFrontMatterDialog.value = false
+  }
+
+  function openApplyWorkflowDialog() {
+    showApplyWorkflowDialog.value = true
+  }
+
+  function closeApplyWorkflowDialog() {
+    showApplyWorkflowDialog.value = false
+  }
+
+  function openRedactionSearch() {
+    showRedactionSearch.value = true
+  }
+
+  function closeRedactionSearch() {
+    showRedactionSearch.value = false
+  }
+
   function beginOutlineTargeting(nodeId: string) {
     if (currentTool.value !== EDITOR_TOOLS.TARGET) {
       previousTool.value = currentTool.value
@@ -303,6 +362,14 @@ export function createEditorUiState() {
     previewPageRef,
     showDiffModal,
     diffPages,
+    showSplitSpreadDialog,
+    splitSpreadPageRef,
+    showBlankPageDialog,
+    blankPageAnchorId,
+    blankPagePlacement,
+    showFrontMatterDialog,
+    showApplyWorkflowDialog,
+    showRedactionSearch,
     ignoredPreflightRuleIds,
     outlineTargetNodeId,
     isOutlineTargeting,
@@ -334,9 +401,21 @@ export function createEditorUiState() {
     // Diff Modal Actions
     openDiffModal,
     closeDiffModal,
+    openSplitSpreadDialog,
+    closeSplitSpreadDialog,
+    openBlankPageDialog,
+    closeBlankPageDialog,
+    openFrontMatterDialog,
+    closeFrontMatterDialog,
+    openApplyWorkflowDialog,
+    closeApplyWorkflowDialog,
     beginOutlineTargeting,
     endOutlineTargeting,
 
+    // Redaction Search Actions
+    openRedactionSearch,
+    closeRedactionSearch,
+
     // Preflight
     setIgnoredPreflightRuleIds,
     ignorePreflightRule,
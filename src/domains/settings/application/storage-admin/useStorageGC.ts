@@ -176,6 +176,7 @@ export function useStorageGC() {
       db.states.clear(),
       db.files.clear(),
       db.workflows.clear(),
+      db.signatures.clear(),
     ])
     resetPreferences()
 
@@ -1,2 +1,5 @@
 export * from './useWorkflowRunner'
 export * from './workflow.service'
+export * from './useWorkflowFiles'
+export * from './workflow-steps'
+export * from './workflow-project'
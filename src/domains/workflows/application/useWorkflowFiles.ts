@@ -0,0 +1,56 @@
+import {
+  getWorkflowFileName,
+  parseWorkflowFile,
+  type WorkflowFile,
+  type WorkflowFileEntry,
+  type WorkflowFileError,
+} from '@/domains/workflows/domain/workflow-file'
+import { makeAppError } from '@/shared/types/errors'
+import { err, ok, type Result } from '@/shared/types/result'
+
+export function isWorkflowFile(file: File): boolean {
+  return file.type === 'application/json' || /\.json$/i.test(file.name)
+}
+
+export function useWorkflowFiles() {
+  /** Workflows from every dropped or picked file; the first bad file stops the import */
+  async function readWorkflowFiles(
+    files: File[],
+  ): Promise<Result<WorkflowFileEntry[], WorkflowFileError>> {
+    const workflows: WorkflowFileEntry[] = []
+
+    for (const file of files) {
+      let text: string
+      try {
+        text = await file.text()
+      } catch (cause) {
+        return err(makeAppError('WORKFLOW_FILE_INVALID', `Could not read ${file.name}.`, cause))
+      }
+
+      const parsed = parseWorkflowFile(text)
+      if (!parsed.ok) {
+        return err({ ...parsed.error, message: `${file.name}: ${parsed.error.message}` })
+      }
+      workflows.push(...parsed.value)
+    }
+
+    return ok(workflows)
+  }
+
+  function downloadWorkflowFile(file: WorkflowFile): void {
+    const blob = new Blob([JSON.stringify(file, null, 2)], { type: 'application/json' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = getWorkflowFileName(file.workflows)
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    setTimeout(() => URL.revokeObjectURL(url), 5_000)
+  }
+
+  return {
+    readWorkflowFiles,
+    downloadWorkflowFile,
+  }
+}
@@ -1,12 +1,29 @@
 import JSZip from 'jszip'
-import { PDFDocument, degrees as toDegrees } from 'pdf-lib'
-import { WorkflowActionType, isWorkflowActionType } from '@/domains/workflows/domain'
+import { PDFDocument } from 'pdf-lib'
+import { usePdfCompression } from '@/domains/export/application/usePdfCompression'
+import {
+  isWorkflowActionType,
+  readWorkflowOutput,
+  validateWorkflowStepParams,
+} from '@/domains/workflows/domain'
+import {
+  applyWorkflowStep,
+  getWorkflowCompression,
+  joinWorkflowParts,
+  mergeWorkflowOutputs,
+} from '@/domains/workflows/application/workflow-steps'
 import { formatFilenamePattern, stripPdfExtension } from '@/shared/utils/filename-pattern'
 import { err, ok, type Result } from '@/shared/types/result'
 import { makeAppError, type WorkflowErrorCode } from '@/shared/types/errors'
-import type { Workflow, WorkflowStep } from '@/shared/types/workflow'
+import type { Workflow } from '@/shared/types/workflow'
 
-type WorkflowRunPhase = 'loading' | 'applying' | 'saving' | 'zipping'
+export type WorkflowRunPhase =
+  | 'loading'
+  | 'applying'
+  | 'saving'
+  | 'compressing'
+  | 'merging'
+  | 'zipping'
 
 export interface WorkflowRunProgress {
   phase: WorkflowRunPhase
@@ -21,8 +38,10 @@ export interface WorkflowRunFailure {
 }
 
 export interface WorkflowRunResult {
-  zipFilename: string
-  zipBytes: Uint8Array
+  /** A ZIP of the output files, or the PDF itself when inputs are merged */
+  filename: string
+  mimeType: 'application/zip' | 'application/pdf'
+  bytes: Uint8Array
   processedFiles: number
   failedFiles: WorkflowRunFailure[]
 }
@@ -32,77 +51,14 @@ export interface WorkflowRunOptions {
 }
 
 function toSafeFilenameBase(value: string): string {
-  const normalized = value.replace(/\.[^.]+$/g, '')
   return (
-    normalized
+    stripPdfExtension(value)
       .replace(/[<>:"/\\|?*]|\p{Cc}/gu, '-')
       .replace(/\s+/g, ' ')
       .trim() || 'document'
   )
 }
 
-function normalizeRotation(value: number): number {
-  return ((value % 360) + 360) % 360
-}
-
-function readStepDegrees(step: WorkflowStep): number {
-  const rawDegrees = Number(step.params.degrees)
-  if (!Number.isFinite(rawDegrees) || rawDegrees === 0) {
-    return 90
-  }
-  return rawDegrees
-}
-
-function applyRotateStep(
-  pdfDocument: PDFDocument,
-  predicate: (pageNumber: number) => boolean,
-  degreesDelta: number,
-): void {
-  const pages = pdfDocument.getPages()
-  for (let index = 0; index < pages.length; index++) {
-    const page = pages[index]
-    if (!page) continue
-    const pageNumber = index + 1
-    if (!predicate(pageNumber)) continue
-    const currentRotation = page.getRotation().angle
-    page.setRotation(toDegrees(normalizeRotation(currentRotation + degreesDelta)))
-  }
-}
-
-function applyWorkflowStep(pdfDocument: PDFDocument, step: WorkflowStep): void {
-  if (step.commandType === WorkflowActionType.ROTATE_ALL) {
-    applyRotateStep(pdfDocument, () => true, readStepDegrees(step))
-    return
-  }
-
-  if (step.commandType === WorkflowActionType.ROTATE_EVEN) {
-    applyRotateStep(pdfDocument, (pageNumber) => pageNumber % 2 === 0, readStepDegrees(step))
-    return
-  }
-
-  if (step.commandType === WorkflowActionType.ROTATE_ODD) {
-    applyRotateStep(pdfDocument, (pageNumber) => pageNumber % 2 === 1, readStepDegrees(step))
-    return
-  }
-
-  if (step.commandType === WorkflowActionType.DELETE_FIRST_PAGE) {
-    if (pdfDocument.getPageCount() > 0) {
-      pdfDocument.removePage(0)
-    }
-    return
-  }
-
-  if (step.commandType === WorkflowActionType.DELETE_LAST_PAGE) {
-    const pageCount = pdfDocument.getPageCount()
-    if (pageCount > 0) {
-      pdfDocument.removePage(pageCount - 1)
-    }
-    return
-  }
-
-  throw new Error(`Unsupported workflow step type: ${step.commandType}`)
-}
-
 function validateWorkflow(workflow: Workflow): string | null {
   if (!workflow.steps || workflow.steps.length === 0) {
     return 'Workflow has no steps.'
@@ -112,6 +68,10 @@ function validateWorkflow(workflow: Workflow): string | null {
     if (!isWorkflowActionType(step.commandType)) {
       return `Unsupported step "${step.label}" (${step.commandType}).`
     }
+    const paramsError = validateWorkflowStepParams(step.commandType, step.params)
+    if (paramsError) {
+      return `Step "${step.label}": ${paramsError}`
+    }
   }
 
   return null
@@ -125,14 +85,39 @@ function buildZipFilename(workflowName: string): string {
   return `${safeBase}.zip`
 }
 
-function buildOutputPdfFilename(fileName: string): string {
-  const base = stripPdfExtension(fileName)
-  const normalizedBase = toSafeFilenameBase(base)
-  const outputBase = formatFilenamePattern('{original_name}_processed', {
+/**
+ * Name of one output PDF. `index` is the position of the input file, so the
+ * parts of a split input share it and are told apart by a `_part` suffix.
+ */
+function buildOutputPdfFilename(
+  pattern: string,
+  fileName: string,
+  context: { index: number; pageCount: number; partNumber?: number },
+): string {
+  const normalizedBase = toSafeFilenameBase(fileName)
+  const outputBase = formatFilenamePattern(pattern, {
     originalName: normalizedBase,
     name: normalizedBase,
+    index: context.index,
+    pageCount: context.pageCount,
   })
-  return `${outputBase}.pdf`
+  return context.partNumber
+    ? `${outputBase}_part${context.partNumber}.pdf`
+    : `${outputBase}.pdf`
+}
+
+/** `filename`, or `filename-2`, `-3`, ... when a pattern gives two outputs the same name */
+function claimFilename(filename: string, used: Set<string>): string {
+  let claimed = filename
+  for (let copy = 2; used.has(claimed.toLowerCase()); copy++) {
+    claimed = filename.replace(/\.pdf$/i, `-${copy}.pdf`)
+  }
+  used.add(claimed.toLowerCase())
+  return claimed
+}
+
+async function saveOutput(pdfDocument: PDFDocument): Promise<Uint8Array> {
+  return pdfDocument.save({ useObjectStreams: true, addDefaultPage: false })
 }
 
 function createWorkflowError(
@@ -143,7 +128,13 @@ function createWorkflowError(
   return makeAppError(code, message, cause)
 }
 
-export function useWorkflowRunner() {
+export interface WorkflowRunnerDeps {
+  compression?: Pick<ReturnType<typeof usePdfCompression>, 'compressPdf'>
+}
+
+export function useWorkflowRunner(deps: WorkflowRunnerDeps = {}) {
+  const compression = deps.compression ?? usePdfCompression()
+
   async function runWorkflow(
     workflow: Workflow,
     files: File[],
@@ -164,10 +155,19 @@ export function useWorkflowRunner() {
       return err(createWorkflowError('WORKFLOW_NO_FILES', 'No PDF files provided for workflow run.'))
     }
 
+    const compressionQuality = getWorkflowCompression(workflow.steps)
+    const output = readWorkflowOutput(workflow.output)
     const zip = new JSZip()
+    const usedFilenames = new Set<string>()
+    const mergeInputs: Array<{ fileName: string; parts: PDFDocument[] }> = []
     const failures: WorkflowRunFailure[] = []
     let processedFiles = 0
 
+    const compress = async (bytes: Uint8Array): Promise<Uint8Array> =>
+      compressionQuality
+        ? (await compression.compressPdf(bytes, { quality: compressionQuality })).data
+        : bytes
+
     for (let index = 0; index < pdfFiles.length; index++) {
       const file = pdfFiles[index]
       if (!file) continue
@@ -181,7 +181,7 @@ export function useWorkflowRunner() {
         })
 
         const inputBytes = await file.arrayBuffer()
-        const pdfDocument = await PDFDocument.load(inputBytes, { ignoreEncryption: true })
+        let parts = [await PDFDocument.load(inputBytes, { ignoreEncryption: true })]
 
         options.onProgress?.({
           phase: 'applying',
@@ -191,13 +191,21 @@ export function useWorkflowRunner() {
         })
 
         for (const step of workflow.steps) {
-          applyWorkflowStep(pdfDocument, step)
+          parts = await applyWorkflowStep(parts, step, { fileName: file.name })
         }
 
-        if (pdfDocument.getPageCount() === 0) {
+        parts = parts.filter((part) => part.getPageCount() > 0)
+        if (parts.length === 0) {
           throw new Error('Workflow removed every page from the document.')
         }
 
+        if (output.mode === 'merge') {
+          mergeInputs.push({ fileName: file.name, parts })
+          processedFiles++
+          continue
+        }
+        if (output.mode === 'separate') parts = [await joinWorkflowParts(parts)]
+
         options.onProgress?.({
           phase: 'saving',
           fileIndex: index,
@@ -205,12 +213,29 @@ export function useWorkflowRunner() {
           fileName: file.name,
         })
 
-        const outputBytes = await pdfDocument.save({
-          useObjectStreams: true,
-          addDefaultPage: false,
+        const outputs: Uint8Array[] = []
+        for (const part of parts) outputs.push(await saveOutput(part))
+
+        if (compressionQuality) {
+          options.onProgress?.({
+            phase: 'compressing',
+            fileIndex: index,
+            totalFiles: pdfFiles.length,
+            fileName: file.name,
+          })
+          for (let outputIndex = 0; outputIndex < outputs.length; outputIndex++) {
+            outputs[outputIndex] = await compress(outputs[outputIndex]!)
+          }
+        }
+
+        outputs.forEach((outputBytes, outputIndex) => {
+          const filename = buildOutputPdfFilename(output.filenamePattern, file.name, {
+            index: index + 1,
+            pageCount: parts[outputIndex]!.getPageCount(),
+            partNumber: outputs.length > 1 ? outputIndex + 1 : undefined,
+          })
+          zip.file(claimFilename(filename, usedFilenames), outputBytes)
         })
-        const outputFileName = buildOutputPdfFilename(file.name)
-        zip.file(outputFileName, outputBytes)
         processedFiles++
       } catch (error) {
         failures.push({
@@ -229,6 +254,48 @@ export function useWorkflowRunner() {
       )
     }
 
+    if (output.mode === 'merge') {
+      options.onProgress?.({
+        phase: 'merging',
+        fileIndex: processedFiles - 1,
+        totalFiles: pdfFiles.length,
+        fileName: workflow.name,
+      })
+
+      try {
+        const merged = await mergeWorkflowOutputs(mergeInputs)
+        let bytes = await saveOutput(merged)
+        if (compressionQuality) {
+          options.onProgress?.({
+            phase: 'compressing',
+            fileIndex: processedFiles - 1,
+            totalFiles: pdfFiles.length,
+            fileName: workflow.name,
+          })
+          bytes = await compress(bytes)
+        }
+
+        return ok({
+          filename: buildOutputPdfFilename(output.filenamePattern, workflow.name, {
+            index: 1,
+            pageCount: merged.getPageCount(),
+          }),
+          mimeType: 'application/pdf',
+          bytes,
+          processedFiles,
+          failedFiles: failures,
+        })
+      } catch (error) {
+        return err(
+          createWorkflowError(
+            'WORKFLOW_RUN_FAILED',
+            error instanceof Error ? error.message : String(error),
+            error,
+          ),
+        )
+      }
+    }
+
     options.onProgress?.({
       phase: 'zipping',
       fileIndex: processedFiles - 1,
@@ -238,21 +305,22 @@ export function useWorkflowRunner() {
 
     const zipBytes = await zip.generateAsync({ type: 'uint8array' })
     return ok({
-      zipFilename: buildZipFilename(workflow.name),
-      zipBytes,
+      filename: buildZipFilename(workflow.name),
+      mimeType: 'application/zip',
+      bytes: zipBytes,
       processedFiles,
       failedFiles: failures,
     })
   }
 
   function downloadWorkflowRun(result: WorkflowRunResult): void {
-    const safeBuffer = new ArrayBuffer(result.zipBytes.byteLength)
-    new Uint8Array(safeBuffer).set(result.zipBytes)
-    const blob = new Blob([safeBuffer], { type: 'application/zip' })
+    const safeBuffer = new ArrayBuffer(result.bytes.byteLength)
+    new Uint8Array(safeBuffer).set(result.bytes)
+    const blob = new Blob([safeBuffer], { type: result.mimeType })
     const url = URL.createObjectURL(blob)
     const link = document.createElement('a')
     link.href = url
-    link.download = result.zipFilename
+    link.download = result.filename
     document.body.appendChild(link)
     link.click()
     document.body.removeChild(link)
@@ -0,0 +1,44 @@
+import { PDFDocument } from 'pdf-lib'
+import type { PageReference, SourceFile } from '@/shared/types'
+import { isBlankPage } from './workflow-steps'
+
+/**
+ * Pages of an open project that show nothing. Generated blank pages count
+ * without loading their file; pages carrying annotations, signatures or
+ * redactions never do.
+ */
+export async function findBlankProjectPages(
+  pages: readonly PageReference[],
+  sources: ReadonlyMap<string, SourceFile>,
+  loadSourceBytes: (sourceFileId: string) => Promise<ArrayBuffer | undefined>,
+): Promise<Set<string>> {
+  const blankPageIds = new Set<string>()
+  const documents = new Map<string, Promise<PDFDocument | null>>()
+
+  const loadDocument = (sourceFileId: string) => {
+    let document = documents.get(sourceFileId)
+    if (!document) {
+      document = loadSourceBytes(sourceFileId).then((bytes) =>
+        bytes ? PDFDocument.load(bytes, { ignoreEncryption: true }) : null,
+      )
+      documents.set(sourceFileId, document)
+    }
+    return document
+  }
+
+  for (const page of pages) {
+    if (page.annotations?.length || page.signatures?.length || page.redactions?.length) continue
+    const source = sources.get(page.sourceFileId)
+    if (!source || source.isImageSource) continue
+    if (source.isBlankSource) {
+      blankPageIds.add(page.id)
+      continue
+    }
+
+    const document = await loadDocument(page.sourceFileId)
+    if (!document || page.sourcePageIndex >= document.getPageCount()) continue
+    if (isBlankPage(document.getPage(page.sourcePageIndex))) blankPageIds.add(page.id)
+  }
+
+  return blankPageIds
+}
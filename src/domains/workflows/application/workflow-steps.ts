@@ -0,0 +1,420 @@
+import { PDFDocument, degrees as toDegrees, type PDFPage } from 'pdf-lib'
+import {
+  addBookmarks,
+  applyTargetDimensions,
+  parseContentStream,
+  readPageContent,
+  redactPageContent,
+  stampPageNumbers,
+  stampWatermark,
+  type ContentOperand,
+  type ExportBookmarkNode,
+} from '@/domains/export/domain/export'
+import {
+  WORKFLOW_PAPER_SIZES,
+  WorkflowActionType,
+  getWorkflowMoveOrder,
+  isWorkflowActionType,
+  parseWorkflowPageSelector,
+  readWorkflowStepParams,
+  type WorkflowStepParams,
+} from '@/domains/workflows/domain'
+import { stripPdfExtension } from '@/shared/utils/filename-pattern'
+import type { WorkflowStep } from '@/shared/types/workflow'
+
+/** Operators that put marks on the page; fills are checked for white separately */
+const PAINT_OPERATORS = new Set([
+  'S',
+  's',
+  'B',
+  'B*',
+  'b',
+  'b*',
+  'sh',
+  'Do',
+  'BI',
+  'Tj',
+  'TJ',
+  "'",
+  '"',
+])
+const FILL_OPERATORS = new Set(['f', 'F', 'f*'])
+
+function normalizeRotation(value: number): number {
+  return ((value % 360) + 360) % 360
+}
+
+/** Facts about the input file that some steps need */
+export interface WorkflowStepOptions {
+  /** Name of the input file, for "bookmark source files" */
+  fileName?: string
+}
+
+function selectPages(pdfDocument: PDFDocument, range: string): Set<number> {
+  return new Set(parseWorkflowPageSelector(range, pdfDocument.getPageCount()))
+}
+
+function rotatePages(
+  pdfDocument: PDFDocument,
+  predicate: (pageNumber: number) => boolean,
+  degreesDelta: number,
+): void {
+  pdfDocument.getPages().forEach((page, index) => {
+    if (!predicate(index + 1)) return
+    const currentRotation = page.getRotation().angle
+    page.setRotation(toDegrees(normalizeRotation(currentRotation + degreesDelta)))
+  })
+}
+
+/**
+ * Keeps the pages at `indices`, in that order. Pages are detached and added
+ * back because pdf-lib does not refresh its page list after `removePage`.
+ */
+function arrangePages(pdfDocument: PDFDocument, indices: readonly number[]): void {
+  if (indices.length === 0) {
+    throw new Error('Workflow removed every page from the document.')
+  }
+  const pages = pdfDocument.getPages()
+  for (let index = pages.length - 1; index >= 0; index--) pdfDocument.removePage(index)
+  for (const index of indices) pdfDocument.addPage(pages[index]!)
+}
+
+function keepPages(pdfDocument: PDFDocument, predicate: (page: PDFPage, index: number) => boolean) {
+  const indices = pdfDocument
+    .getPages()
+    .flatMap((page, index) => (predicate(page, index) ? [index] : []))
+  if (indices.length !== pdfDocument.getPageCount()) arrangePages(pdfDocument, indices)
+}
+
+function isWhiteColor(operands: ContentOperand[]): boolean {
+  const values = operands.flatMap((operand) => (operand.type === 'number' ? [operand.value] : []))
+  if (values.length === 4) return values.every((value) => value === 0)
+  return values.length > 0 && values.every((value) => value === 1)
+}
+
+/**
+ * A page is blank when it has no annotations and its content draws nothing
+ * but white fills. XObjects count as content without being inspected.
+ */
+export function isBlankPage(page: PDFPage): boolean {
+  if ((page.node.Annots()?.size() ?? 0) > 0) return false
+
+  let whiteFill = false
+  const fillStack: boolean[] = []
+  for (const { operator, operands } of parseContentStream(readPageContent(page))) {
+    if (PAINT_OPERATORS.has(operator)) return false
+    if (FILL_OPERATORS.has(operator) && !whiteFill) return false
+
+    if (operator === 'q') fillStack.push(whiteFill)
+    else if (operator === 'Q') whiteFill = fillStack.pop() ?? false
+    else if (operator === 'g' || operator === 'rg' || operator === 'k') {
+      whiteFill = isWhiteColor(operands)
+    } else if (operator === 'sc' || operator === 'scn' || operator === 'cs') {
+      whiteFill = false
+    }
+  }
+  return true
+}
+
+async function duplicatePages(pdfDocument: PDFDocument, indices: readonly number[]) {
+  const copies = await pdfDocument.copyPages(pdfDocument, [...indices])
+  // From the end, so inserting a copy does not shift the pages still to copy.
+  for (let offset = indices.length - 1; offset >= 0; offset--) {
+    pdfDocument.insertPage(indices[offset]! + 1, copies[offset]!)
+  }
+}
+
+function resizePages(
+  pdfDocument: PDFDocument,
+  params: WorkflowStepParams<typeof WorkflowActionType.RESIZE_PAGES>,
+): void {
+  const paper = WORKFLOW_PAPER_SIZES[params.paperSize]
+  const listed = selectPages(pdfDocument, params.range)
+  for (const [index, page] of pdfDocument.getPages().entries()) {
+    if (!listed.has(index)) continue
+    const box = page.getMediaBox()
+    // Orientation is chosen for the displayed page; quarter turns swap the media box axes.
+    const quarterTurn = normalizeRotation(page.getRotation().angle) % 180 === 90
+    const displayLandscape =
+      params.orientation === 'auto'
+        ? (quarterTurn ? box.height : box.width) > (quarterTurn ? box.width : box.height)
+        : params.orientation === 'landscape'
+    const mediaLandscape = displayLandscape !== quarterTurn
+    applyTargetDimensions(
+      page,
+      mediaLandscape
+        ? { width: paper.height, height: paper.width }
+        : { width: paper.width, height: paper.height },
+    )
+  }
+}
+
+function setMetadata(
+  pdfDocument: PDFDocument,
+  params: WorkflowStepParams<typeof WorkflowActionType.SET_METADATA>,
+): void {
+  if (params.title.trim()) pdfDocument.setTitle(params.title.trim())
+  if (params.author.trim()) pdfDocument.setAuthor(params.author.trim())
+  if (params.subject.trim()) pdfDocument.setSubject(params.subject.trim())
+  const keywords = params.keywords
+    .split(',')
+    .map((keyword) => keyword.trim())
+    .filter(Boolean)
+  if (keywords.length > 0) pdfDocument.setKeywords(keywords)
+}
+
+function redactPages(
+  pdfDocument: PDFDocument,
+  params: WorkflowStepParams<typeof WorkflowActionType.REDACT_AREAS>,
+): void {
+  const marks = params.areas.map((area, index) => ({ ...area, id: `workflow-area-${index}` }))
+  const listed = selectPages(pdfDocument, params.range)
+  pdfDocument.getPages().forEach((page, index) => {
+    if (listed.has(index)) redactPageContent(page, marks, page.getRotation().angle)
+  })
+}
+
+async function bookmarkSourceFile(pdfDocument: PDFDocument, fileName: string | undefined) {
+  if (pdfDocument.getPageCount() === 0) return
+  await addBookmarks(pdfDocument, [
+    {
+      title: fileName ? stripPdfExtension(fileName) : pdfDocument.getTitle() || 'Document',
+      dest: { type: 'page', pageIndex: 0, fit: 'Fit' },
+      expanded: true,
+    },
+  ])
+}
+
+function copyMetadata(from: PDFDocument, to: PDFDocument): void {
+  const title = from.getTitle()
+  const author = from.getAuthor()
+  const subject = from.getSubject()
+  const keywords = from.getKeywords()
+  if (title) to.setTitle(title)
+  if (author) to.setAuthor(author)
+  if (subject) to.setSubject(subject)
+  if (keywords) to.setKeywords([keywords])
+}
+
+/** Splits before each index in `partStarts`; the first part always starts at page 0 */
+async function splitAt(
+  pdfDocument: PDFDocument,
+  partStarts: readonly number[],
+): Promise<PDFDocument[]> {
+  const pageCount = pdfDocument.getPageCount()
+  const starts = [0, ...partStarts.filter((index) => index > 0 && index < pageCount)]
+  if (starts.length === 1) return [pdfDocument]
+
+  const parts: PDFDocument[] = []
+  for (const [partIndex, start] of starts.entries()) {
+    const part = await PDFDocument.create()
+    const end = starts[partIndex + 1] ?? pageCount
+    const indices = Array.from({ length: end - start }, (_, offset) => start + offset)
+    const pages = await part.copyPages(pdfDocument, indices)
+    pages.forEach((page) => part.addPage(page))
+    copyMetadata(pdfDocument, part)
+    parts.push(part)
+  }
+  return parts
+}
+
+function splitEvery(pdfDocument: PDFDocument, pagesPerPart: number): Promise<PDFDocument[]> {
+  const partStarts: number[] = []
+  for (let start = pagesPerPart; start < pdfDocument.getPageCount(); start += pagesPerPart) {
+    partStarts.push(start)
+  }
+  return splitAt(pdfDocument, partStarts)
+}
+
+async function applyStepToDocument(
+  pdfDocument: PDFDocument,
+  step: WorkflowStep,
+  options: WorkflowStepOptions,
+): Promise<PDFDocument[]> {
+  const type = step.commandType
+  if (!isWorkflowActionType(type)) {
+    throw new Error(`Unsupported workflow step type: ${type}`)
+  }
+
+  switch (type) {
+    case WorkflowActionType.ROTATE_ALL:
+      rotatePages(pdfDocument, () => true, readWorkflowStepParams(type, step.params).degrees)
+      break
+    case WorkflowActionType.ROTATE_EVEN:
+      rotatePages(
+        pdfDocument,
+        (pageNumber) => pageNumber % 2 === 0,
+        readWorkflowStepParams(type, step.params).degrees,
+      )
+      break
+    case WorkflowActionType.ROTATE_ODD:
+      rotatePages(
+        pdfDocument,
+        (pageNumber) => pageNumber % 2 === 1,
+        readWorkflowStepParams(type, step.params).degrees,
+      )
+      break
+    case WorkflowActionType.ROTATE_PAGES: {
+      const { range, degrees } = readWorkflowStepParams(type, step.params)
+      const listed = selectPages(pdfDocument, range)
+      rotatePages(pdfDocument, (pageNumber) => listed.has(pageNumber - 1), degrees)
+      break
+    }
+    case WorkflowActionType.DELETE_FIRST_PAGE:
+      keepPages(pdfDocument, (_, index) => index !== 0)
+      break
+    case WorkflowActionType.DELETE_LAST_PAGE: {
+      const lastIndex = pdfDocument.getPageCount() - 1
+      keepPages(pdfDocument, (_, index) => index !== lastIndex)
+      break
+    }
+    case WorkflowActionType.DELETE_PAGE_RANGE:
+    case WorkflowActionType.KEEP_PAGE_RANGE: {
+      const { range } = readWorkflowStepParams(type, step.params)
+      const listed = selectPages(pdfDocument, range)
+      const keepListed = type === WorkflowActionType.KEEP_PAGE_RANGE
+      keepPages(pdfDocument, (_, index) => listed.has(index) === keepListed)
+      break
+    }
+    case WorkflowActionType.REVERSE_ORDER: {
+      const pageCount = pdfDocument.getPageCount()
+      arrangePages(
+        pdfDocument,
+        Array.from({ length: pageCount }, (_, index) => pageCount - 1 - index),
+      )
+      break
+    }
+    case WorkflowActionType.MOVE_PAGES: {
+      const { range, position, after } = readWorkflowStepParams(type, step.params)
+      const pageCount = pdfDocument.getPageCount()
+      const order = getWorkflowMoveOrder(
+        pageCount,
+        parseWorkflowPageSelector(range, pageCount),
+        position,
+        after,
+      )
+      if (order.some((pageIndex, index) => pageIndex !== index)) arrangePages(pdfDocument, order)
+      break
+    }
+    case WorkflowActionType.DUPLICATE_PAGES: {
+      const { range } = readWorkflowStepParams(type, step.params)
+      await duplicatePages(
+        pdfDocument,
+        parseWorkflowPageSelector(range, pdfDocument.getPageCount()),
+      )
+      break
+    }
+    case WorkflowActionType.REMOVE_BLANK_PAGES:
+      keepPages(pdfDocument, (page) => !isBlankPage(page))
+      break
+    case WorkflowActionType.RESIZE_PAGES:
+      resizePages(pdfDocument, readWorkflowStepParams(type, step.params))
+      break
+    case WorkflowActionType.SET_METADATA:
+      setMetadata(pdfDocument, readWorkflowStepParams(type, step.params))
+      break
+    case WorkflowActionType.ADD_PAGE_NUMBERS:
+      await stampPageNumbers(pdfDocument, {
+        ...readWorkflowStepParams(type, step.params),
+        restartPerSegment: false,
+      })
+      break
+    case WorkflowActionType.ADD_WATERMARK:
+      await stampWatermark(pdfDocument, {
+        ...readWorkflowStepParams(type, step.params),
+        enabled: true,
+        kind: 'text',
+        pageRange: '',
+      })
+      break
+    case WorkflowActionType.SPLIT_EVERY:
+      return splitEvery(pdfDocument, readWorkflowStepParams(type, step.params).pages)
+    case WorkflowActionType.SPLIT_AFTER: {
+      const { range } = readWorkflowStepParams(type, step.params)
+      const listed = parseWorkflowPageSelector(range, pdfDocument.getPageCount())
+      return splitAt(
+        pdfDocument,
+        listed.map((index) => index + 1),
+      )
+    }
+    case WorkflowActionType.GENERATE_OUTLINE:
+      await bookmarkSourceFile(pdfDocument, options.fileName)
+      break
+    case WorkflowActionType.REDACT_AREAS:
+      redactPages(pdfDocument, readWorkflowStepParams(type, step.params))
+      break
+    case WorkflowActionType.COMPRESS:
+      // Compression rewrites the saved file, so the runner applies it after saving.
+      break
+  }
+
+  return [pdfDocument]
+}
+
+/**
+ * Applies one step to every part of the output. Parts start as the input
+ * document; "split every N pages" turns each part into several, and later
+ * steps run on every part.
+ */
+export async function applyWorkflowStep(
+  parts: PDFDocument[],
+  step: WorkflowStep,
+  options: WorkflowStepOptions = {},
+): Promise<PDFDocument[]> {
+  const nextParts: PDFDocument[] = []
+  for (const part of parts) {
+    nextParts.push(...(await applyStepToDocument(part, step, options)))
+  }
+  return nextParts
+}
+
+/** Quality of the last compress step, or null when the workflow does not compress */
+export function getWorkflowCompression(
+  steps: readonly WorkflowStep[],
+): WorkflowStepParams<typeof WorkflowActionType.COMPRESS>['quality'] | null {
+  const step = [...steps]
+    .reverse()
+    .find((candidate) => candidate.commandType === WorkflowActionType.COMPRESS)
+  return step ? readWorkflowStepParams(WorkflowActionType.COMPRESS, step.params).quality : null
+}
+
+async function appendDocuments(
+  target: PDFDocument,
+  documents: readonly PDFDocument[],
+): Promise<void> {
+  for (const document of documents) {
+    const pages = await target.copyPages(document, document.getPageIndices())
+    pages.forEach((page) => target.addPage(page))
+  }
+}
+
+/** Puts the parts of one input back into a single document */
+export async function joinWorkflowParts(parts: PDFDocument[]): Promise<PDFDocument> {
+  const [first] = parts
+  if (parts.length === 1 && first) return first
+
+  const joined = await PDFDocument.create()
+  if (first) copyMetadata(first, joined)
+  await appendDocuments(joined, parts)
+  return joined
+}
+
+/** Joins the output of every input into one document with a bookmark at the start of each */
+export async function mergeWorkflowOutputs(
+  outputs: ReadonlyArray<{ fileName: string; parts: PDFDocument[] }>,
+): Promise<PDFDocument> {
+  const merged = await PDFDocument.create()
+  const bookmarks: ExportBookmarkNode[] = []
+  for (const output of outputs) {
+    const before = merged.getPageCount()
+    await appendDocuments(merged, output.parts)
+    if (merged.getPageCount() === before) continue
+    bookmarks.push({
+      title: stripPdfExtension(output.fileName),
+      dest: { type: 'page', pageIndex: before, fit: 'Fit' },
+      expanded: true,
+    })
+  }
+  await addBookmarks(merged, bookmarks)
+  return merged
+}
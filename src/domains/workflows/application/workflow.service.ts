@@ -1,9 +1,23 @@
+import { readWorkflowOutput } from '@/domains/workflows/domain/workflow-output'
+import {
+  createWorkflowFile,
+  type WorkflowFile,
+  type WorkflowFileEntry,
+} from '@/domains/workflows/domain/workflow-file'
 import { db } from '@/shared/infrastructure/db'
-import type { Workflow, WorkflowStep } from '@/shared/types/workflow'
+import type { Workflow, WorkflowOutput, WorkflowStep } from '@/shared/types/workflow'
 
 const DEFAULT_WORKFLOW_NAME = 'Untitled Workflow'
 const DEFAULT_WORKFLOW_ICON = 'workflow'
 
+/** What to do with an imported workflow whose name is already taken */
+export type WorkflowImportConflict = 'rename' | 'overwrite'
+
+export interface WorkflowImportResult {
+  created: Workflow[]
+  overwritten: Workflow[]
+}
+
 export interface WorkflowRepository {
   listByUpdatedAtDesc: () => Promise<Workflow[]>
   get: (id: string) => Promise<Workflow | undefined>
@@ -33,6 +47,20 @@ function cloneSteps(steps: ReadonlyArray<WorkflowStep>): WorkflowStep[] {
   }))
 }
 
+function toNameKey(name: string): string {
+  return normalizeName(name).toLowerCase()
+}
+
+/** First of "Name", "Name (2)", "Name (3)", ... that is not taken */
+function getAvailableName(name: string, takenKeys: ReadonlySet<string>): string {
+  const base = normalizeName(name)
+  let candidate = base
+  for (let suffix = 2; takenKeys.has(toNameKey(candidate)); suffix++) {
+    candidate = `${base} (${suffix})`
+  }
+  return candidate
+}
+
 export function createWorkflowRepository(): WorkflowRepository {
   return {
     listByUpdatedAtDesc: async () => db.workflows.orderBy('updatedAt').reverse().toArray(),
@@ -60,6 +88,7 @@ export function createWorkflowService(repository: WorkflowRepository = createWor
     description?: string
     icon?: string
     steps: WorkflowStep[]
+    output?: WorkflowOutput
   }): Promise<Workflow> {
     const now = Date.now()
     const id =
@@ -73,6 +102,7 @@ export function createWorkflowService(repository: WorkflowRepository = createWor
       icon: normalizeIcon(options.icon),
       description: normalizeDescription(options.description),
       steps: cloneSteps(options.steps),
+      output: readWorkflowOutput(options.output),
       createdAt: now,
       updatedAt: now,
     }
@@ -83,7 +113,7 @@ export function createWorkflowService(repository: WorkflowRepository = createWor
 
   async function updateWorkflow(
     id: string,
-    updates: Partial<Pick<Workflow, 'name' | 'description' | 'icon' | 'steps'>>,
+    updates: Partial<Pick<Workflow, 'name' | 'description' | 'icon' | 'steps' | 'output'>>,
   ): Promise<Workflow | null> {
     const existing = await repository.get(id)
     if (!existing) return null
@@ -97,6 +127,7 @@ export function createWorkflowService(repository: WorkflowRepository = createWor
           : existing.description,
       icon: updates.icon !== undefined ? normalizeIcon(updates.icon) : existing.icon,
       steps: updates.steps ? cloneSteps(updates.steps) : existing.steps,
+      output: updates.output ? readWorkflowOutput(updates.output) : existing.output,
       updatedAt: Date.now(),
     }
 
@@ -117,6 +148,7 @@ export function createWorkflowService(repository: WorkflowRepository = createWor
       description: existing.description,
       icon: existing.icon,
       steps: existing.steps,
+      output: existing.output,
     })
   }
 
@@ -124,6 +156,68 @@ export function createWorkflowService(repository: WorkflowRepository = createWor
     await repository.delete(id)
   }
 
+  /** Shareable file with the given workflows, or every workflow when no IDs are given */
+  async function exportWorkflows(ids?: ReadonlyArray<string>): Promise<WorkflowFile> {
+    const workflows = await repository.listByUpdatedAtDesc()
+    const selected = ids ? workflows.filter((workflow) => ids.includes(workflow.id)) : workflows
+    return createWorkflowFile(selected)
+  }
+
+  /** Names of imported workflows that already exist, to ask before importing */
+  async function findImportConflicts(
+    entries: ReadonlyArray<WorkflowFileEntry>,
+  ): Promise<string[]> {
+    const existingKeys = new Set(
+      (await repository.listByUpdatedAtDesc()).map((workflow) => toNameKey(workflow.name)),
+    )
+    return entries
+      .map((entry) => normalizeName(entry.name))
+      .filter((name) => existingKeys.has(toNameKey(name)))
+  }
+
+  /**
+   * Adds workflows from a workflow file. A name that is already taken either
+   * gets a numbered suffix or replaces the steps of the existing workflow,
+   * keeping its ID so nothing else has to follow it.
+   */
+  async function importWorkflows(
+    entries: ReadonlyArray<WorkflowFileEntry>,
+    onConflict: WorkflowImportConflict = 'rename',
+  ): Promise<WorkflowImportResult> {
+    const idsByName = new Map(
+      (await repository.listByUpdatedAtDesc()).map((workflow) => [
+        toNameKey(workflow.name),
+        workflow.id,
+      ]),
+    )
+    const result: WorkflowImportResult = { created: [], overwritten: [] }
+
+    for (const entry of entries) {
+      const existingId = idsByName.get(toNameKey(entry.name))
+      if (existingId && onConflict === 'overwrite') {
+        const updated = await updateWorkflow(existingId, {
+          description: entry.description,
+          icon: entry.icon,
+          steps: entry.steps,
+          output: entry.output,
+        })
+        if (updated) {
+          result.overwritten.push(updated)
+          continue
+        }
+      }
+
+      const created = await createWorkflow({
+        ...entry,
+        name: getAvailableName(entry.name, new Set(idsByName.keys())),
+      })
+      idsByName.set(toNameKey(created.name), created.id)
+      result.created.push(created)
+    }
+
+    return result
+  }
+
   return {
     listWorkflows,
     getWorkflow,
@@ -132,5 +226,8 @@ export function createWorkflowService(repository: WorkflowRepository = createWor
     renameWorkflow,
     duplicateWorkflow,
     deleteWorkflow,
+    exportWorkflows,
+    findImportConflicts,
+    importWorkflows,
   }
 }
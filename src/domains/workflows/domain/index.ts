@@ -1 +1,5 @@
 export * from './workflow-actions'
+export * from './workflow-project-plan'
+export * from './workflow-page-selector'
+export * from './workflow-file'
+export * from './workflow-output'
@@ -1,9 +1,29 @@
+import type { PageStampAnchor } from '@/domains/export/domain/export-types'
+import type { RedactionMark, WatermarkLayout } from '@/shared/types'
+import { describeWorkflowPageSelector, isWorkflowPageSelector } from './workflow-page-selector'
+
 export const WorkflowActionType = {
   ROTATE_ALL: 'workflow.rotate_all',
   ROTATE_EVEN: 'workflow.rotate_even',
   ROTATE_ODD: 'workflow.rotate_odd',
+  ROTATE_PAGES: 'workflow.rotate_pages',
   DELETE_FIRST_PAGE: 'workflow.delete_first_page',
   DELETE_LAST_PAGE: 'workflow.delete_last_page',
+  DELETE_PAGE_RANGE: 'workflow.delete_page_range',
+  KEEP_PAGE_RANGE: 'workflow.keep_page_range',
+  REVERSE_ORDER: 'workflow.reverse_order',
+  MOVE_PAGES: 'workflow.move_pages',
+  DUPLICATE_PAGES: 'workflow.duplicate_pages',
+  REMOVE_BLANK_PAGES: 'workflow.remove_blank_pages',
+  RESIZE_PAGES: 'workflow.resize_pages',
+  SET_METADATA: 'workflow.set_metadata',
+  ADD_PAGE_NUMBERS: 'workflow.add_page_numbers',
+  ADD_WATERMARK: 'workflow.add_watermark',
+  SPLIT_EVERY: 'workflow.split_every',
+  SPLIT_AFTER: 'workflow.split_after',
+  GENERATE_OUTLINE: 'workflow.generate_outline',
+  REDACT_AREAS: 'workflow.redact_areas',
+  COMPRESS: 'workflow.compress',
 } as const
 
 export type WorkflowActionTypeValue =
@@ -12,3 +32,455 @@ export type WorkflowActionTypeValue =
 export function isWorkflowActionType(value: string): value is WorkflowActionTypeValue {
   return Object.values(WorkflowActionType).includes(value as WorkflowActionTypeValue)
 }
+
+export type WorkflowPaperSize = 'a4' | 'a3' | 'a5' | 'letter' | 'legal'
+export type WorkflowPaperOrientation = 'auto' | 'portrait' | 'landscape'
+export type WorkflowCompressionQuality = 'screen' | 'ebook' | 'printer' | 'prepress'
+export type WorkflowMovePosition = 'start' | 'end' | 'after'
+/** Redaction box in points from the top-left of the page as displayed */
+export type WorkflowRedactionArea = Omit<RedactionMark, 'id'>
+
+/** Paper sizes in points, portrait */
+export const WORKFLOW_PAPER_SIZES: Record<
+  WorkflowPaperSize,
+  { label: string; width: number; height: number }
+> = {
+  a4: { label: 'A4', width: 595.28, height: 841.89 },
+  a3: { label: 'A3', width: 841.89, height: 1190.55 },
+  a5: { label: 'A5', width: 419.53, height: 595.28 },
+  letter: { label: 'Letter', width: 612, height: 792 },
+  legal: { label: 'Legal', width: 612, height: 1008 },
+}
+
+export const WORKFLOW_COMPRESSION_QUALITIES: Record<WorkflowCompressionQuality, string> = {
+  screen: 'Smallest (72 dpi)',
+  ebook: 'Balanced (150 dpi)',
+  printer: 'Print (300 dpi)',
+  prepress: 'Prepress (300 dpi, color preserving)',
+}
+
+interface RotateParams {
+  /** Clockwise degrees; negative rotates left */
+  degrees: number
+}
+
+interface PageRangeParams {
+  /** Page selector such as `1-3, 7`, `even` or `2-last`; pages past the end are ignored */
+  range: string
+}
+
+/** Typed `params` of each step type */
+export interface WorkflowStepParamsMap {
+  'workflow.rotate_all': RotateParams
+  'workflow.rotate_even': RotateParams
+  'workflow.rotate_odd': RotateParams
+  'workflow.rotate_pages': RotateParams & PageRangeParams
+  'workflow.delete_first_page': Record<string, never>
+  'workflow.delete_last_page': Record<string, never>
+  'workflow.delete_page_range': PageRangeParams
+  'workflow.keep_page_range': PageRangeParams
+  'workflow.reverse_order': Record<string, never>
+  'workflow.move_pages': PageRangeParams & {
+    position: WorkflowMovePosition
+    /** With `after`: the page, counted without the moved pages, that they follow */
+    after: number
+  }
+  'workflow.duplicate_pages': PageRangeParams
+  'workflow.remove_blank_pages': Record<string, never>
+  'workflow.resize_pages': PageRangeParams & {
+    paperSize: WorkflowPaperSize
+    /** `auto` follows the orientation of each page */
+    orientation: WorkflowPaperOrientation
+  }
+  'workflow.set_metadata': {
+    /** Empty fields keep the value of the input file */
+    title: string
+    author: string
+    subject: string
+    /** Comma separated */
+    keywords: string
+  }
+  'workflow.add_page_numbers': {
+    prefix: string
+    startNumber: number
+    /** Minimum digit count, zero padded */
+    padding: number
+    fontSize: number
+    anchor: PageStampAnchor
+    margin: number
+  }
+  'workflow.add_watermark': {
+    text: string
+    opacity: number
+    rotation: number
+    scale: number
+    layout: WatermarkLayout
+  }
+  'workflow.split_every': {
+    /** Pages per output file */
+    pages: number
+  }
+  'workflow.split_after': PageRangeParams
+  'workflow.generate_outline': Record<string, never>
+  'workflow.redact_areas': PageRangeParams & {
+    areas: WorkflowRedactionArea[]
+  }
+  'workflow.compress': {
+    quality: WorkflowCompressionQuality
+  }
+}
+
+export type WorkflowStepParams<T extends WorkflowActionTypeValue = WorkflowActionTypeValue> =
+  WorkflowStepParamsMap[T]
+
+export interface WorkflowStepDefinition<T extends WorkflowActionTypeValue> {
+  label: string
+  description: string
+  defaultParams: WorkflowStepParamsMap[T]
+}
+
+export const WORKFLOW_STEP_CATALOG: {
+  [T in WorkflowActionTypeValue]: WorkflowStepDefinition<T>
+} = {
+  'workflow.rotate_all': {
+    label: 'Rotate all pages',
+    description: 'Turn every page by the given angle.',
+    defaultParams: { degrees: 90 },
+  },
+  'workflow.rotate_even': {
+    label: 'Rotate even pages',
+    description: 'Turn pages 2, 4, 6, ... by the given angle.',
+    defaultParams: { degrees: 90 },
+  },
+  'workflow.rotate_odd': {
+    label: 'Rotate odd pages',
+    description: 'Turn pages 1, 3, 5, ... by the given angle.',
+    defaultParams: { degrees: 90 },
+  },
+  'workflow.rotate_pages': {
+    label: 'Rotate pages',
+    description: 'Turn the listed pages by the given angle.',
+    defaultParams: { range: '1', degrees: 90 },
+  },
+  'workflow.delete_first_page': {
+    label: 'Delete first page',
+    description: 'Remove the first page.',
+    defaultParams: {},
+  },
+  'workflow.delete_last_page': {
+    label: 'Delete last page',
+    description: 'Remove the last page.',
+    defaultParams: {},
+  },
+  'workflow.delete_page_range': {
+    label: 'Delete pages',
+    description: 'Remove the listed pages.',
+    defaultParams: { range: '1' },
+  },
+  'workflow.keep_page_range': {
+    label: 'Keep pages',
+    description: 'Remove every page that is not listed.',
+    defaultParams: { range: '1-1' },
+  },
+  'workflow.reverse_order': {
+    label: 'Reverse page order',
+    description: 'Put the last page first.',
+    defaultParams: {},
+  },
+  'workflow.move_pages': {
+    label: 'Move pages',
+    description: 'Move the listed pages to the start, the end or after another page.',
+    defaultParams: { range: 'last', position: 'start', after: 1 },
+  },
+  'workflow.duplicate_pages': {
+    label: 'Duplicate pages',
+    description: 'Insert a copy after each listed page.',
+    defaultParams: { range: '1' },
+  },
+  'workflow.remove_blank_pages': {
+    label: 'Remove blank pages',
+    description: 'Remove pages without text, images, drawings or annotations.',
+    defaultParams: {},
+  },
+  'workflow.resize_pages': {
+    label: 'Resize to paper size',
+    description: 'Scale the listed pages to fit the paper size, centered.',
+    defaultParams: { range: 'all', paperSize: 'a4', orientation: 'auto' },
+  },
+  'workflow.set_metadata': {
+    label: 'Set document properties',
+    description: 'Replace title, author, subject or keywords.',
+    defaultParams: { title: '', author: '', subject: '', keywords: '' },
+  },
+  'workflow.add_page_numbers': {
+    label: 'Add page numbers',
+    description: 'Stamp page or Bates numbers on every page.',
+    defaultParams: {
+      prefix: '',
+      startNumber: 1,
+      padding: 0,
+      fontSize: 10,
+      anchor: 'bottom-center',
+      margin: 24,
+    },
+  },
+  'workflow.add_watermark': {
+    label: 'Add watermark',
+    description: 'Draw a text watermark on every page.',
+    defaultParams: { text: 'CONFIDENTIAL', opacity: 0.2, rotation: 45, scale: 0.6, layout: 'center' },
+  },
+  'workflow.split_every': {
+    label: 'Split every N pages',
+    description: 'Save each run of N pages as its own file.',
+    defaultParams: { pages: 1 },
+  },
+  'workflow.split_after': {
+    label: 'Split after pages',
+    description: 'Start a new file after each listed page.',
+    defaultParams: { range: '1' },
+  },
+  'workflow.generate_outline': {
+    label: 'Bookmark source files',
+    description: 'Replace the outline with a bookmark at the first page of each source file.',
+    defaultParams: {},
+  },
+  'workflow.redact_areas': {
+    label: 'Redact areas',
+    description: 'Black out the same boxes on the listed pages and remove what is under them.',
+    defaultParams: {
+      range: 'all',
+      areas: [{ x: 0, y: 0, width: 100, height: 40, color: 'black' }],
+    },
+  },
+  'workflow.compress': {
+    label: 'Compress',
+    description: 'Shrink the saved file. Runs after all other steps.',
+    defaultParams: { quality: 'ebook' },
+  },
+}
+
+const PAGE_STAMP_ANCHORS: readonly PageStampAnchor[] = [
+  'top-left',
+  'top-center',
+  'top-right',
+  'bottom-left',
+  'bottom-center',
+  'bottom-right',
+]
+
+function readNumber(value: unknown, fallback: number): number {
+  const number = Number(value)
+  return value !== '' && value !== null && Number.isFinite(number) ? number : fallback
+}
+
+function readString(value: unknown, fallback: string): string {
+  return typeof value === 'string' ? value : fallback
+}
+
+function readOption<T extends string>(value: unknown, options: readonly T[], fallback: T): T {
+  return options.includes(value as T) ? (value as T) : fallback
+}
+
+function readRedactionAreas(value: unknown): WorkflowRedactionArea[] {
+  if (!Array.isArray(value)) return []
+  return value.flatMap((area: Record<string, unknown> | null): WorkflowRedactionArea[] => {
+    if (!area || typeof area !== 'object') return []
+    return [
+      {
+        x: readNumber(area.x, 0),
+        y: readNumber(area.y, 0),
+        width: readNumber(area.width, 0),
+        height: readNumber(area.height, 0),
+        color: readOption<'black' | 'white'>(area.color, ['black', 'white'], 'black'),
+      },
+    ]
+  })
+}
+
+/**
+ * Step params with defaults filled in and unusable values replaced, so steps
+ * saved by older versions or edited by hand still run.
+ */
+export function readWorkflowStepParams<T extends WorkflowActionTypeValue>(
+  type: T,
+  params: Readonly<Record<string, unknown>>,
+): WorkflowStepParamsMap[T] {
+  const defaults = WORKFLOW_STEP_CATALOG[type].defaultParams as Record<string, unknown>
+  const result: Record<string, unknown> = { ...defaults }
+
+  for (const [key, fallback] of Object.entries(defaults)) {
+    const value = params[key]
+    if (typeof fallback === 'number') result[key] = readNumber(value, fallback)
+    else if (typeof fallback === 'string') result[key] = readString(value, fallback)
+  }
+
+  if ('degrees' in result && result.degrees === 0) result.degrees = defaults.degrees
+  if (type === WorkflowActionType.MOVE_PAGES) {
+    result.position = readOption(params.position, ['start', 'end', 'after'], 'start')
+  }
+  if (type === WorkflowActionType.REDACT_AREAS) {
+    result.areas = readRedactionAreas(params.areas)
+  }
+  if (type === WorkflowActionType.RESIZE_PAGES) {
+    result.paperSize = readOption(
+      params.paperSize,
+      Object.keys(WORKFLOW_PAPER_SIZES) as WorkflowPaperSize[],
+      'a4',
+    )
+    result.orientation = readOption(params.orientation, ['auto', 'portrait', 'landscape'], 'auto')
+  }
+  if (type === WorkflowActionType.ADD_PAGE_NUMBERS) {
+    result.anchor = readOption(params.anchor, PAGE_STAMP_ANCHORS, 'bottom-center')
+  }
+  if (type === WorkflowActionType.ADD_WATERMARK) {
+    result.layout = readOption(params.layout, ['center', 'tile'], 'center')
+  }
+  if (type === WorkflowActionType.COMPRESS) {
+    result.quality = readOption(
+      params.quality,
+      Object.keys(WORKFLOW_COMPRESSION_QUALITIES) as WorkflowCompressionQuality[],
+      'ebook',
+    )
+  }
+
+  return result as WorkflowStepParamsMap[T]
+}
+
+const RANGE_ERROR = 'Enter pages like 1-3, 7, even or 2-last.'
+
+function isValidRange(
+  type: WorkflowActionTypeValue,
+  params: Readonly<Record<string, unknown>>,
+): boolean {
+  // Resize steps saved before they had a range cover every page.
+  const fallback = type === WorkflowActionType.RESIZE_PAGES ? 'all' : ''
+  return isWorkflowPageSelector(String(params.range ?? fallback))
+}
+
+/** Problem with a step's params, or null when the step can run */
+export function validateWorkflowStepParams(
+  type: WorkflowActionTypeValue,
+  params: Readonly<Record<string, unknown>>,
+): string | null {
+  switch (type) {
+    case WorkflowActionType.ROTATE_ALL:
+    case WorkflowActionType.ROTATE_EVEN:
+    case WorkflowActionType.ROTATE_ODD:
+    case WorkflowActionType.ROTATE_PAGES: {
+      if (type === WorkflowActionType.ROTATE_PAGES && !isValidRange(type, params)) return RANGE_ERROR
+      const degrees = Number(params.degrees)
+      if (!Number.isInteger(degrees) || degrees === 0 || degrees % 90 !== 0) {
+        return 'Rotation must be a multiple of 90 degrees.'
+      }
+      return null
+    }
+    case WorkflowActionType.DELETE_PAGE_RANGE:
+    case WorkflowActionType.KEEP_PAGE_RANGE:
+    case WorkflowActionType.DUPLICATE_PAGES:
+    case WorkflowActionType.SPLIT_AFTER:
+    case WorkflowActionType.RESIZE_PAGES:
+      return isValidRange(type, params) ? null : RANGE_ERROR
+    case WorkflowActionType.MOVE_PAGES: {
+      if (!isValidRange(type, params)) return RANGE_ERROR
+      const { position, after } = readWorkflowStepParams(type, params)
+      return position !== 'after' || (Number.isInteger(after) && after >= 1)
+        ? null
+        : 'Move after page 1 or later.'
+    }
+    case WorkflowActionType.REDACT_AREAS: {
+      if (!isValidRange(type, params)) return RANGE_ERROR
+      const { areas } = readWorkflowStepParams(type, params)
+      if (areas.length === 0) return 'Add at least one area.'
+      return areas.every((area) => area.width > 0 && area.height > 0 && area.x >= 0 && area.y >= 0)
+        ? null
+        : 'Areas need a positive width and height inside the page.'
+    }
+    case WorkflowActionType.SET_METADATA: {
+      const { title, author, subject, keywords } = readWorkflowStepParams(type, params)
+      return [title, author, subject, keywords].some((value) => value.trim())
+        ? null
+        : 'Fill in at least one property.'
+    }
+    case WorkflowActionType.ADD_PAGE_NUMBERS: {
+      const { startNumber, padding, fontSize, margin } = readWorkflowStepParams(type, params)
+      if (!Number.isInteger(startNumber) || startNumber < 0) return 'Start at 0 or higher.'
+      if (!Number.isInteger(padding) || padding < 0 || padding > 12) return 'Use 0 to 12 digits.'
+      if (!(fontSize > 0) || !(margin >= 0)) return 'Font size and margin must be positive.'
+      return null
+    }
+    case WorkflowActionType.ADD_WATERMARK: {
+      const { text, opacity, scale } = readWorkflowStepParams(type, params)
+      if (!text.trim()) return 'Enter the watermark text.'
+      if (!(opacity > 0 && opacity <= 1)) return 'Opacity must be between 1% and 100%.'
+      if (!(scale > 0 && scale <= 2)) return 'Size must be between 1% and 200% of the page.'
+      return null
+    }
+    case WorkflowActionType.SPLIT_EVERY: {
+      const pages = Number(params.pages)
+      return Number.isInteger(pages) && pages >= 1 ? null : 'Split after 1 or more pages.'
+    }
+    default:
+      return null
+  }
+}
+
+/** Short summary of a step's params for lists, e.g. "Pages 1-3" */
+export function describeWorkflowStep(
+  type: WorkflowActionTypeValue,
+  params: Readonly<Record<string, unknown>>,
+): string {
+  switch (type) {
+    case WorkflowActionType.ROTATE_ALL:
+    case WorkflowActionType.ROTATE_EVEN:
+    case WorkflowActionType.ROTATE_ODD: {
+      const { degrees } = readWorkflowStepParams(type, params)
+      return degrees > 0 ? `${degrees}° right` : `${-degrees}° left`
+    }
+    case WorkflowActionType.ROTATE_PAGES: {
+      const { range, degrees } = readWorkflowStepParams(type, params)
+      const angle = degrees > 0 ? `${degrees}° right` : `${-degrees}° left`
+      return `${describeWorkflowPageSelector(range)}, ${angle}`
+    }
+    case WorkflowActionType.DELETE_PAGE_RANGE:
+    case WorkflowActionType.KEEP_PAGE_RANGE:
+    case WorkflowActionType.DUPLICATE_PAGES:
+    case WorkflowActionType.SPLIT_AFTER:
+      return describeWorkflowPageSelector(readWorkflowStepParams(type, params).range)
+    case WorkflowActionType.MOVE_PAGES: {
+      const { range, position, after } = readWorkflowStepParams(type, params)
+      const target = position === 'after' ? `after page ${after}` : `to the ${position}`
+      return `${describeWorkflowPageSelector(range)} ${target}`
+    }
+    case WorkflowActionType.RESIZE_PAGES: {
+      const { range, paperSize, orientation } = readWorkflowStepParams(type, params)
+      const size = WORKFLOW_PAPER_SIZES[paperSize].label
+      const paper = orientation === 'auto' ? size : `${size} ${orientation}`
+      return range.trim() === 'all' ? paper : `${describeWorkflowPageSelector(range)}, ${paper}`
+    }
+    case WorkflowActionType.REDACT_AREAS: {
+      const { range, areas } = readWorkflowStepParams(type, params)
+      return `${describeWorkflowPageSelector(range)}, ${areas.length} area${areas.length === 1 ? '' : 's'}`
+    }
+    case WorkflowActionType.SET_METADATA: {
+      const values = readWorkflowStepParams(type, params)
+      const fields = (['title', 'author', 'subject', 'keywords'] as const).filter((key) =>
+        values[key].trim(),
+      )
+      return fields.length > 0 ? fields.join(', ') : 'Nothing set'
+    }
+    case WorkflowActionType.ADD_PAGE_NUMBERS: {
+      const { prefix, startNumber, anchor } = readWorkflowStepParams(type, params)
+      return `${prefix}${startNumber}, ${anchor.replace('-', ' ')}`
+    }
+    case WorkflowActionType.ADD_WATERMARK:
+      return `"${readWorkflowStepParams(type, params).text.trim()}"`
+    case WorkflowActionType.SPLIT_EVERY: {
+      const { pages } = readWorkflowStepParams(type, params)
+      return `${pages} page${pages === 1 ? '' : 's'} per file`
+    }
+    case WorkflowActionType.COMPRESS:
+      return WORKFLOW_COMPRESSION_QUALITIES[readWorkflowStepParams(type, params).quality]
+    default:
+      return ''
+  }
+}
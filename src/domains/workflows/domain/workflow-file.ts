@@ -0,0 +1,163 @@
+/**
+ * Shareable workflow files: a versioned JSON document holding one or more
+ * workflows without their local IDs or timestamps, so a teammate can import
+ * them into their own library.
+ */
+
+import { makeAppError, type AppError } from '@/shared/types/errors'
+import { err, ok, type Result } from '@/shared/types/result'
+import type { Workflow, WorkflowStep } from '@/shared/types/workflow'
+import {
+  isWorkflowActionType,
+  readWorkflowStepParams,
+  validateWorkflowStepParams,
+  WORKFLOW_STEP_CATALOG,
+} from './workflow-actions'
+import { readWorkflowOutput } from './workflow-output'
+
+export const WORKFLOW_FILE_FORMAT = 'flux-pdf-workflows'
+export const WORKFLOW_FILE_VERSION = 1
+export const WORKFLOW_FILE_EXTENSION = '.workflows.json'
+
+export type WorkflowFileEntry = Pick<Workflow, 'name' | 'icon' | 'description' | 'steps' | 'output'>
+
+export interface WorkflowFile {
+  format: typeof WORKFLOW_FILE_FORMAT
+  version: number
+  exportedAt: string
+  workflows: WorkflowFileEntry[]
+}
+
+export type WorkflowFileError = AppError<'WORKFLOW_FILE_INVALID'>
+
+function invalid(message: string, cause?: unknown): WorkflowFileError {
+  return makeAppError('WORKFLOW_FILE_INVALID', message, cause)
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+export function createWorkflowFile(
+  workflows: ReadonlyArray<WorkflowFileEntry>,
+  exportedAt: Date = new Date(),
+): WorkflowFile {
+  return {
+    format: WORKFLOW_FILE_FORMAT,
+    version: WORKFLOW_FILE_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    workflows: workflows.map((workflow) => ({
+      name: workflow.name,
+      icon: workflow.icon,
+      description: workflow.description,
+      steps: workflow.steps.map((step) => ({
+        id: step.id,
+        label: step.label,
+        commandType: step.commandType,
+        params: JSON.parse(JSON.stringify(step.params)),
+      })),
+      output: readWorkflowOutput(workflow.output),
+    })),
+  }
+}
+
+function parseStep(value: unknown, index: number): Result<WorkflowStep, WorkflowFileError> {
+  const position = `step ${index + 1}`
+  if (!isRecord(value)) return err(invalid(`${position} is not a step.`))
+
+  const commandType = String(value.commandType ?? '')
+  if (!isWorkflowActionType(commandType)) {
+    return err(invalid(`${position} has an unknown type "${commandType}".`))
+  }
+
+  const params = isRecord(value.params) ? value.params : {}
+  const paramsError = validateWorkflowStepParams(commandType, params)
+  if (paramsError) return err(invalid(`${position}: ${paramsError}`))
+
+  const label = typeof value.label === 'string' ? value.label.trim() : ''
+  return ok({
+    id: typeof value.id === 'string' && value.id ? value.id : `step-${index + 1}`,
+    label: label || WORKFLOW_STEP_CATALOG[commandType].label,
+    commandType,
+    params: { ...readWorkflowStepParams(commandType, params) },
+  })
+}
+
+function parseWorkflow(
+  value: unknown,
+  index: number,
+): Result<WorkflowFileEntry, WorkflowFileError> {
+  if (!isRecord(value)) return err(invalid(`Workflow ${index + 1} is not a workflow.`))
+
+  const name =
+    typeof value.name === 'string' && value.name.trim()
+      ? value.name.trim()
+      : `Workflow ${index + 1}`
+  if (!Array.isArray(value.steps) || value.steps.length === 0) {
+    return err(invalid(`"${name}" has no steps.`))
+  }
+
+  const steps: WorkflowStep[] = []
+  for (const [stepIndex, rawStep] of value.steps.entries()) {
+    const step = parseStep(rawStep, stepIndex)
+    if (!step.ok) return err(invalid(`"${name}" ${step.error.message}`))
+    steps.push(step.value)
+  }
+
+  return ok({
+    name,
+    icon: typeof value.icon === 'string' ? value.icon : '',
+    description: typeof value.description === 'string' ? value.description : '',
+    steps,
+    output: readWorkflowOutput(value.output),
+  })
+}
+
+/**
+ * Workflows from the text of a workflow file. Files from a newer version are
+ * rejected rather than half-imported; every step must be a known type with
+ * params that would pass the step editor.
+ */
+export function parseWorkflowFile(text: string): Result<WorkflowFileEntry[], WorkflowFileError> {
+  let data: unknown
+  try {
+    data = JSON.parse(text)
+  } catch (cause) {
+    return err(invalid('The file is not valid JSON.', cause))
+  }
+
+  if (!isRecord(data) || data.format !== WORKFLOW_FILE_FORMAT) {
+    return err(invalid('The file is not a workflow file.'))
+  }
+  const version = Number(data.version)
+  if (!Number.isInteger(version) || version < 1) {
+    return err(invalid('The workflow file has no version.'))
+  }
+  if (version > WORKFLOW_FILE_VERSION) {
+    return err(invalid('The workflow file was made by a newer version of the app.'))
+  }
+  if (!Array.isArray(data.workflows) || data.workflows.length === 0) {
+    return err(invalid('The workflow file has no workflows.'))
+  }
+
+  const workflows: WorkflowFileEntry[] = []
+  for (const [index, rawWorkflow] of data.workflows.entries()) {
+    const workflow = parseWorkflow(rawWorkflow, index)
+    if (!workflow.ok) return workflow
+    workflows.push(workflow.value)
+  }
+  return ok(workflows)
+}
+
+/** Named after the workflow when there is only one, e.g. "Invoice cleanup.workflows.json" */
+export function getWorkflowFileName(workflows: ReadonlyArray<Pick<Workflow, 'name'>>): string {
+  const [only] = workflows
+  const base =
+    workflows.length === 1 && only
+      ? only.name
+          .replace(/[<>:"/\\|?*]|\p{Cc}/gu, '-')
+          .replace(/\s+/g, ' ')
+          .trim()
+      : ''
+  return `${base || 'flux-pdf'}${WORKFLOW_FILE_EXTENSION}`
+}
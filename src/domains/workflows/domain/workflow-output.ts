@@ -0,0 +1,44 @@
+import type { WorkflowOutput, WorkflowOutputMode } from '@/shared/types/workflow'
+
+export const WORKFLOW_OUTPUT_MODES: Record<
+  WorkflowOutputMode,
+  { label: string; description: string }
+> = {
+  split: {
+    label: 'One file per part',
+    description: 'Each input becomes one PDF, or one per part when a step splits it.',
+  },
+  separate: {
+    label: 'One file per input',
+    description: 'Each input becomes one PDF; split steps are ignored.',
+  },
+  merge: {
+    label: 'Merge into one file',
+    description: 'All inputs are joined into one PDF with a bookmark for each input.',
+  },
+}
+
+export const WORKFLOW_OUTPUT_TOKENS = [
+  '{original_name}',
+  '{index}',
+  '{page_count}',
+  '{date}',
+] as const
+
+export const DEFAULT_WORKFLOW_OUTPUT: WorkflowOutput = {
+  mode: 'split',
+  filenamePattern: '{original_name}_processed',
+}
+
+/** Output settings with defaults for workflows saved before they had any */
+export function readWorkflowOutput(value: unknown): WorkflowOutput {
+  const output: Partial<Record<keyof WorkflowOutput, unknown>> =
+    typeof value === 'object' && value !== null ? value : {}
+  const modes = Object.keys(WORKFLOW_OUTPUT_MODES) as WorkflowOutputMode[]
+  const mode = modes.find((candidate) => candidate === output.mode)
+  const pattern = typeof output.filenamePattern === 'string' ? output.filenamePattern.trim() : ''
+  return {
+    mode: mode ?? DEFAULT_WORKFLOW_OUTPUT.mode,
+    filenamePattern: pattern || DEFAULT_WORKFLOW_OUTPUT.filenamePattern,
+  }
+}
@@ -0,0 +1,122 @@
+/**
+ * Page selectors pick pages by position so a step recorded on one file
+ * replays on another: `all`, `even`, `odd`, `first`, `last`, page numbers
+ * and ranges such as `1-3` or `5-last`, separated by commas.
+ */
+
+import type { WorkflowMovePosition } from './workflow-actions'
+
+const SELECTOR_TOKEN = String.raw`(?:all|even|odd|first|last|\d+(?:\s*-\s*(?:\d+|last))?)`
+const SELECTOR_PATTERN = new RegExp(
+  String.raw`^\s*${SELECTOR_TOKEN}(?:\s*,\s*${SELECTOR_TOKEN})*\s*$`,
+  'i',
+)
+
+export function isWorkflowPageSelector(selector: string): boolean {
+  return SELECTOR_PATTERN.test(selector)
+}
+
+function parsePageNumber(value: string, pageCount: number): number {
+  return value.trim().toLowerCase() === 'last' ? pageCount : parseInt(value, 10)
+}
+
+/** 0-based indices of the selected pages, in order; pages past the end are ignored */
+export function parseWorkflowPageSelector(selector: string, pageCount: number): number[] {
+  const indices = new Set<number>()
+  const add = (pageNumber: number) => {
+    if (pageNumber >= 1 && pageNumber <= pageCount) indices.add(pageNumber - 1)
+  }
+
+  for (const token of selector.split(',').map((part) => part.trim().toLowerCase())) {
+    if (!token) continue
+    if (token === 'all' || token === 'even' || token === 'odd') {
+      for (let pageNumber = 1; pageNumber <= pageCount; pageNumber++) {
+        if (token === 'all' || (pageNumber % 2 === 0) === (token === 'even')) add(pageNumber)
+      }
+    } else if (token === 'first') {
+      add(1)
+    } else if (token.includes('-')) {
+      const [start = '', end = ''] = token.split('-')
+      const first = Math.max(1, parseInt(start, 10))
+      const last = Math.min(pageCount, parsePageNumber(end, pageCount))
+      for (let pageNumber = first; pageNumber <= last; pageNumber++) add(pageNumber)
+    } else {
+      add(parsePageNumber(token, pageCount))
+    }
+  }
+
+  return [...indices].sort((a, b) => a - b)
+}
+
+/**
+ * Smallest selector for the pages at `indices` out of `pageCount`. Ranges
+ * that reach the end use `last`, so the step keeps meaning "through the end"
+ * on longer files.
+ */
+export function formatWorkflowPageSelector(indices: readonly number[], pageCount: number): string {
+  const sorted = [...new Set(indices)]
+    .filter((index) => index >= 0 && index < pageCount)
+    .sort((a, b) => a - b)
+  if (sorted.length === 0) return ''
+  if (sorted.length === pageCount) return 'all'
+
+  const matchesParity = (parity: 0 | 1) =>
+    sorted.length === Math.floor((pageCount + 1 - parity) / 2) &&
+    sorted.every((index) => index % 2 === parity)
+  if (pageCount > 2 && matchesParity(1)) return 'even'
+  if (pageCount > 2 && matchesParity(0)) return 'odd'
+
+  const formatPage = (index: number) => (index === pageCount - 1 ? 'last' : String(index + 1))
+  const parts: string[] = []
+  let start = sorted[0]!
+  let previous = start
+  for (const index of [...sorted.slice(1), Number.NaN]) {
+    if (index === previous + 1) {
+      previous = index
+      continue
+    }
+    parts.push(start === previous ? formatPage(start) : `${start + 1}-${formatPage(previous)}`)
+    start = index
+    previous = index
+  }
+  return parts.join(', ')
+}
+
+/** "All pages", "Even pages", "Last page" or "Pages 1-3" */
+export function describeWorkflowPageSelector(selector: string): string {
+  const normalized = selector.trim().toLowerCase().replace(/\s+/g, ' ')
+  switch (normalized) {
+    case 'all':
+      return 'All pages'
+    case 'even':
+      return 'Even pages'
+    case 'odd':
+      return 'Odd pages'
+    case 'first':
+    case '1':
+      return 'First page'
+    case 'last':
+      return 'Last page'
+  }
+  return /^\d+$/.test(normalized) ? `Page ${normalized}` : `Pages ${normalized}`
+}
+
+/**
+ * Order of `pageCount` pages after moving the pages at `indices`, as 0-based
+ * indices into the current order. `after` counts the pages that stay, so
+ * "after page 2" puts the moved pages behind the second unmoved page; past
+ * the end it means the end.
+ */
+export function getWorkflowMoveOrder(
+  pageCount: number,
+  indices: readonly number[],
+  position: WorkflowMovePosition,
+  after: number,
+): number[] {
+  const moved = new Set(indices.filter((index) => index >= 0 && index < pageCount))
+  const all = Array.from({ length: pageCount }, (_, index) => index)
+  const kept = all.filter((index) => !moved.has(index))
+  const movedOrder = all.filter((index) => moved.has(index))
+  const insertAt = position === 'start' ? 0 : position === 'end' ? kept.length : after
+  return [...kept.slice(0, insertAt), ...movedOrder, ...kept.slice(insertAt)]
+}
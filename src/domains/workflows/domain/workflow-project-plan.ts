@@ -0,0 +1,342 @@
+import { ROTATION_DELTA_DEGREES, type RotationAngle, type RotationDelta } from '@/shared/constants'
+import {
+  isDividerEntry,
+  type DividerReference,
+  type DocumentMetadata,
+  type OutlineNode,
+  type PageEntry,
+  type PageReference,
+  type RedactionMark,
+  type SourceFile,
+} from '@/shared/types'
+import { autoGenOutlineFromPages } from '@/shared/utils/auto-gen-tree'
+import {
+  cloneDocumentMetadata,
+  cloneOutlineTree,
+  clonePageEntries,
+  clonePageReference,
+} from '@/shared/utils/document-clone'
+import {
+  WORKFLOW_PAPER_SIZES,
+  WORKFLOW_STEP_CATALOG,
+  WorkflowActionType,
+  isWorkflowActionType,
+  readWorkflowStepParams,
+  validateWorkflowStepParams,
+} from './workflow-actions'
+import { getWorkflowMoveOrder, parseWorkflowPageSelector } from './workflow-page-selector'
+import type { WorkflowStep } from '@/shared/types/workflow'
+
+/**
+ * Translation of a saved workflow into edits of an open project. Steps work
+ * on the project's pages, or on the selected pages only, in page list order;
+ * positions like "first page" or "pages 1-3" count within that scope.
+ */
+
+/** One history edit; applied in order, each against the state the previous left */
+export type WorkflowProjectOperation =
+  | { type: 'rotate'; pageIds: string[]; degrees: RotationDelta }
+  | { type: 'delete'; pageIds: string[] }
+  | { type: 'reorder'; previousOrder: PageEntry[]; nextOrder: PageEntry[] }
+  | {
+      type: 'resize'
+      targets: Array<{ pageId: string; targetDimensions: { width: number; height: number } }>
+    }
+  | { type: 'metadata'; previous: DocumentMetadata; next: DocumentMetadata }
+  | { type: 'split'; index: number; divider: DividerReference }
+  | { type: 'duplicate'; pageIds: string[]; createdPageIds: string[] }
+  | { type: 'outline'; previous: OutlineNode[]; next: OutlineNode[] }
+  | { type: 'redact'; pageId: string; redactions: RedactionMark[] }
+
+export interface WorkflowProjectSkippedStep {
+  stepId: string
+  label: string
+  reason: string
+}
+
+export interface WorkflowProjectPlan {
+  operations: WorkflowProjectOperation[]
+  skippedSteps: WorkflowProjectSkippedStep[]
+}
+
+export interface WorkflowProjectContext {
+  pages: readonly PageEntry[]
+  metadata: DocumentMetadata
+  outlineTree: OutlineNode[]
+  sources: Map<string, SourceFile>
+  /** Limits the steps to these pages; null applies them to every page */
+  scopePageIds: ReadonlySet<string> | null
+  /** Page size before rotation, or null when unknown */
+  getPageSize: (page: PageReference) => { width: number; height: number } | null
+  /** Pages without content, for "remove blank pages" */
+  blankPageIds?: ReadonlySet<string>
+}
+
+/** Why steps that only change the saved file do nothing in a project */
+const EXPORT_ONLY_REASONS: Partial<Record<string, string>> = {
+  [WorkflowActionType.ADD_PAGE_NUMBERS]: 'Page numbers are set in the export options.',
+  [WorkflowActionType.ADD_WATERMARK]: 'Watermarks are set in the export options.',
+  [WorkflowActionType.COMPRESS]: 'Compression is chosen when exporting.',
+}
+
+function toRotationDeltas(degrees: number): RotationDelta[] {
+  const quarterTurns = (((Math.round(degrees / 90) % 4) + 4) % 4) as 0 | 1 | 2 | 3
+  if (quarterTurns === 3) return [ROTATION_DELTA_DEGREES.LEFT]
+  return Array.from({ length: quarterTurns }, () => ROTATION_DELTA_DEGREES.RIGHT)
+}
+
+function rotateAngle(angle: RotationAngle, delta: RotationDelta): RotationAngle {
+  return ((((angle + delta) % 360) + 360) % 360) as RotationAngle
+}
+
+/**
+ * Plans the history edits for the workflow. Steps that cannot change a
+ * project, or would remove every page, are reported in `skippedSteps`.
+ */
+export function planWorkflowForProject(
+  steps: readonly WorkflowStep[],
+  context: WorkflowProjectContext,
+): WorkflowProjectPlan {
+  let entries = clonePageEntries([...context.pages])
+  let metadata = cloneDocumentMetadata(context.metadata)
+  let outlineTree = cloneOutlineTree(context.outlineTree)
+  const operations: WorkflowProjectOperation[] = []
+  const skippedSteps: WorkflowProjectSkippedStep[] = []
+
+  const isInScope = (page: PageReference) =>
+    context.scopePageIds === null || context.scopePageIds.has(page.id)
+  const getScopePages = () =>
+    entries.filter((entry): entry is PageReference => !isDividerEntry(entry) && isInScope(entry))
+  const skip = (step: WorkflowStep, reason: string) =>
+    skippedSteps.push({ stepId: step.id, label: step.label, reason })
+
+  const deletePages = (step: WorkflowStep, pageIds: string[]) => {
+    if (pageIds.length === 0) return
+    const removed = new Set(pageIds)
+    const remaining = entries.filter((entry) => !removed.has(entry.id))
+    if (!remaining.some((entry) => !isDividerEntry(entry))) {
+      skip(step, 'This step would remove every page.')
+      return
+    }
+    entries = remaining
+    operations.push({ type: 'delete', pageIds })
+  }
+
+  // Scope pages take each other's places; other pages and dividers keep their positions.
+  const reorderScopePages = (scopePages: PageReference[], nextScopeOrder: PageReference[]) => {
+    if (nextScopeOrder.every((page, index) => page === scopePages[index])) return
+    const positions = entries.flatMap((entry, index) =>
+      !isDividerEntry(entry) && isInScope(entry) ? [index] : [],
+    )
+    const previousOrder = clonePageEntries(entries)
+    positions.forEach((position, index) => (entries[position] = nextScopeOrder[index]!))
+    operations.push({ type: 'reorder', previousOrder, nextOrder: clonePageEntries(entries) })
+  }
+
+  const splitAfterPages = (scopePages: PageReference[], pages: PageReference[]) => {
+    const lastPage = scopePages[scopePages.length - 1]
+    for (const page of pages) {
+      if (page === lastPage) continue
+      const index = entries.indexOf(page) + 1
+      if (entries[index] && isDividerEntry(entries[index])) continue
+      const divider: DividerReference = { id: crypto.randomUUID(), isDivider: true }
+      entries.splice(index, 0, divider)
+      operations.push({ type: 'split', index, divider })
+    }
+  }
+
+  for (const step of steps) {
+    const type = step.commandType
+    if (!isWorkflowActionType(type)) {
+      skip(step, 'This step is not supported.')
+      continue
+    }
+    const exportOnlyReason = EXPORT_ONLY_REASONS[type]
+    if (exportOnlyReason) {
+      skip(step, exportOnlyReason)
+      continue
+    }
+    const paramsError = validateWorkflowStepParams(type, step.params)
+    if (paramsError) {
+      skip(step, paramsError)
+      continue
+    }
+
+    const scopePages = getScopePages()
+    const selectScopePages = (range: string) =>
+      parseWorkflowPageSelector(range, scopePages.length).map((index) => scopePages[index]!)
+    switch (type) {
+      case WorkflowActionType.ROTATE_ALL:
+      case WorkflowActionType.ROTATE_EVEN:
+      case WorkflowActionType.ROTATE_ODD:
+      case WorkflowActionType.ROTATE_PAGES: {
+        const listed =
+          type === WorkflowActionType.ROTATE_PAGES
+            ? new Set(selectScopePages(readWorkflowStepParams(type, step.params).range))
+            : null
+        const pages = scopePages.filter((page, index) => {
+          if (listed) return listed.has(page)
+          if (type === WorkflowActionType.ROTATE_EVEN) return index % 2 === 1
+          if (type === WorkflowActionType.ROTATE_ODD) return index % 2 === 0
+          return true
+        })
+        if (pages.length === 0) break
+        const pageIds = pages.map((page) => page.id)
+        for (const delta of toRotationDeltas(readWorkflowStepParams(type, step.params).degrees)) {
+          pages.forEach((page) => (page.rotation = rotateAngle(page.rotation, delta)))
+          operations.push({ type: 'rotate', pageIds, degrees: delta })
+        }
+        break
+      }
+      case WorkflowActionType.DELETE_FIRST_PAGE:
+        deletePages(
+          step,
+          scopePages.slice(0, 1).map((page) => page.id),
+        )
+        break
+      case WorkflowActionType.DELETE_LAST_PAGE:
+        deletePages(
+          step,
+          scopePages.slice(-1).map((page) => page.id),
+        )
+        break
+      case WorkflowActionType.DELETE_PAGE_RANGE:
+      case WorkflowActionType.KEEP_PAGE_RANGE: {
+        const { range } = readWorkflowStepParams(type, step.params)
+        const listed = new Set(selectScopePages(range))
+        const keepListed = type === WorkflowActionType.KEEP_PAGE_RANGE
+        deletePages(
+          step,
+          scopePages.filter((page) => listed.has(page) !== keepListed).map((page) => page.id),
+        )
+        break
+      }
+      case WorkflowActionType.REMOVE_BLANK_PAGES:
+        deletePages(
+          step,
+          scopePages.filter((page) => context.blankPageIds?.has(page.id)).map((page) => page.id),
+        )
+        break
+      case WorkflowActionType.REVERSE_ORDER:
+        reorderScopePages(scopePages, [...scopePages].reverse())
+        break
+      case WorkflowActionType.MOVE_PAGES: {
+        const { range, position, after } = readWorkflowStepParams(type, step.params)
+        const order = getWorkflowMoveOrder(
+          scopePages.length,
+          parseWorkflowPageSelector(range, scopePages.length),
+          position,
+          after,
+        )
+        reorderScopePages(
+          scopePages,
+          order.map((index) => scopePages[index]!),
+        )
+        break
+      }
+      case WorkflowActionType.DUPLICATE_PAGES: {
+        const pages = selectScopePages(readWorkflowStepParams(type, step.params).range)
+        if (pages.length === 0) break
+        const createdPageIds = pages.map(() => crypto.randomUUID())
+        // From the end, so each copy lands right after its page.
+        for (let offset = pages.length - 1; offset >= 0; offset--) {
+          const copy = clonePageReference(pages[offset]!)
+          copy.id = createdPageIds[offset]!
+          entries.splice(entries.indexOf(pages[offset]!) + 1, 0, copy)
+        }
+        operations.push({
+          type: 'duplicate',
+          pageIds: pages.map((page) => page.id),
+          createdPageIds,
+        })
+        break
+      }
+      case WorkflowActionType.RESIZE_PAGES: {
+        const { range, paperSize, orientation } = readWorkflowStepParams(type, step.params)
+        const paper = WORKFLOW_PAPER_SIZES[paperSize]
+        const targets = selectScopePages(range).flatMap((page) => {
+          const size = context.getPageSize(page)
+          if (!size) return []
+          // Orientation is chosen for the displayed page; quarter turns swap the axes.
+          const quarterTurn = page.rotation % 180 === 90
+          const displayLandscape =
+            orientation === 'auto'
+              ? (quarterTurn ? size.height : size.width) > (quarterTurn ? size.width : size.height)
+              : orientation === 'landscape'
+          const targetDimensions =
+            displayLandscape !== quarterTurn
+              ? { width: paper.height, height: paper.width }
+              : { width: paper.width, height: paper.height }
+          page.targetDimensions = targetDimensions
+          return [{ pageId: page.id, targetDimensions }]
+        })
+        if (targets.length > 0) operations.push({ type: 'resize', targets })
+        break
+      }
+      case WorkflowActionType.SET_METADATA: {
+        const values = readWorkflowStepParams(type, step.params)
+        const keywords = values.keywords
+          .split(',')
+          .map((keyword) => keyword.trim())
+          .filter(Boolean)
+        const next: DocumentMetadata = {
+          ...metadata,
+          ...(values.title.trim() ? { title: values.title.trim() } : {}),
+          ...(values.author.trim() ? { author: values.author.trim() } : {}),
+          ...(values.subject.trim() ? { subject: values.subject.trim() } : {}),
+          keywords: keywords.length > 0 ? keywords : [...metadata.keywords],
+        }
+        operations.push({ type: 'metadata', previous: metadata, next })
+        metadata = next
+        break
+      }
+      case WorkflowActionType.SPLIT_EVERY: {
+        const { pages } = readWorkflowStepParams(type, step.params)
+        // A divider goes after every N-th page, unless one is already there.
+        splitAfterPages(
+          scopePages,
+          scopePages.filter((_, index) => (index + 1) % pages === 0),
+        )
+        break
+      }
+      case WorkflowActionType.SPLIT_AFTER:
+        splitAfterPages(scopePages, selectScopePages(readWorkflowStepParams(type, step.params).range))
+        break
+      case WorkflowActionType.GENERATE_OUTLINE: {
+        // The outline covers the whole project, whatever the scope.
+        const contentPages = entries.filter((entry): entry is PageReference => !isDividerEntry(entry))
+        const next = autoGenOutlineFromPages(contentPages, context.sources)
+        operations.push({ type: 'outline', previous: outlineTree, next })
+        outlineTree = next
+        break
+      }
+      case WorkflowActionType.REDACT_AREAS: {
+        const { range, areas } = readWorkflowStepParams(type, step.params)
+        for (const page of selectScopePages(range)) {
+          const redactions = areas.map((area) => ({ ...area, id: crypto.randomUUID() }))
+          page.redactions = [...(page.redactions ?? []), ...redactions]
+          operations.push({ type: 'redact', pageId: page.id, redactions })
+        }
+        break
+      }
+    }
+  }
+
+  return { operations, skippedSteps }
+}
+
+/** Steps of a workflow that have no effect on a project, with the reason */
+export function getProjectSkippedSteps(
+  steps: readonly WorkflowStep[],
+): WorkflowProjectSkippedStep[] {
+  return steps.flatMap((step) => {
+    const reason = isWorkflowActionType(step.commandType)
+      ? EXPORT_ONLY_REASONS[step.commandType]
+      : 'This step is not supported.'
+    if (!reason) return []
+    const label = isWorkflowActionType(step.commandType)
+      ? step.label || WORKFLOW_STEP_CATALOG[step.commandType].label
+      : step.label
+    return [{ stepId: step.id, label, reason }]
+  })
+}
@@ -0,0 +1,56 @@
+import { ref, shallowRef } from 'vue'
+
+export interface PasswordPromptOptions {
+  filename: string
+  /** Set when a previously entered password was rejected. */
+  isRetry?: boolean
+}
+
+interface PasswordPromptState extends PasswordPromptOptions {
+  resolve: (value: string | null) => void
+}
+
+const isOpen = shallowRef(false)
+const state = ref<PasswordPromptState | null>(null)
+
+/**
+ * Composable for asking the user to unlock a password-protected file
+ */
+export function usePasswordPrompt() {
+  /**
+   * Show the password dialog. Resolves with the entered password, or null
+   * when the user skips the file.
+   */
+  function promptPassword(options: PasswordPromptOptions): Promise<string | null> {
+    state.value?.resolve(null)
+    return new Promise((resolve) => {
+      state.value = { ...options, isRetry: options.isRetry ?? false, resolve }
+      isOpen.value = true
+    })
+  }
+
+  function handleSubmit(password: string): void {
+    const resolver = state.value?.resolve
+    close()
+    if (resolver) resolver(password)
+  }
+
+  function handleCancel(): void {
+    const resolver = state.value?.resolve
+    close()
+    if (resolver) resolver(null)
+  }
+
+  function close(): void {
+    isOpen.value = false
+    state.value = null
+  }
+
+  return {
+    isOpen,
+    state,
+    promptPassword,
+    handleSubmit,
+    handleCancel,
+  }
+}
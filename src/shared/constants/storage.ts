@@ -1,4 +1,6 @@
 export const HISTORY = {
   MAX_ENTRIES: 50,
   POINTER_START: -1,
+  /** Edits to the same field within this window share one history entry */
+  MERGE_WINDOW_MS: 1000,
 } as const
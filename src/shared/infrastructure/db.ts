@@ -4,7 +4,12 @@ import type {
   PdfOutlineNode,
   DocumentMetadata,
   SecurityMetadata,
+  WatermarkSettings,
+  HeaderFooterSettings,
   PageMetrics,
+  FormFieldInfo,
+  FormFieldValues,
+  SavedSignature,
 } from '@/shared/types'
 import type { SerializedCommand } from '@/domains/history/domain/commands'
 import type { Workflow } from '@/shared/types/workflow'
@@ -75,6 +80,15 @@ export interface ProjectState {
   /** Security options persisted with the project */
   security?: SecurityMetadata
 
+  /** Export watermark persisted with the project */
+  watermark?: WatermarkSettings
+
+  /** Export header and footer templates persisted with the project */
+  headerFooter?: HeaderFooterSettings
+
+  /** Form values entered in the editor, by source and field name */
+  formValues?: FormFieldValues
+
   /** Whether user has customized metadata (prevents auto-apply on import) */
   metadataDirty?: boolean
 
@@ -111,12 +125,17 @@ export interface StoredFile {
   pageMetaData?: PageMetrics[]
   /** True when source was generated from an image import */
   isImageSource?: boolean
+  /** True when source is a generated blank page */
+  isBlankSource?: boolean
 
   /** Optional outline extracted from the PDF */
   outline?: PdfOutlineNode[]
 
   /** Optional metadata extracted from the PDF */
   metadata?: DocumentMetadata
+
+  /** Fillable form fields detected on import */
+  formFields?: FormFieldInfo[]
 }
 
 /**
@@ -127,12 +146,14 @@ export interface StoredFile {
  * - states: Heavy per-project state
  * - files: Source PDF binary data (shared)
  * - workflows: Saved workflow scripts
+ * - signatures: Signature library shared by all projects
  */
 export class FluxDatabase extends Dexie {
   projects!: Table<ProjectMeta>
   states!: Table<ProjectState>
   files!: Table<StoredFile>
   workflows!: Table<Workflow>
+  signatures!: Table<SavedSignature>
 
   constructor() {
     super('FluxPDF_DB')
@@ -143,6 +164,10 @@ export class FluxDatabase extends Dexie {
       files: 'id',
       workflows: 'id, updatedAt, createdAt',
     })
+
+    this.version(2).stores({
+      signatures: 'id, createdAt',
+    })
   }
 }
 
@@ -9,6 +9,12 @@ export const UserAction = {
   DELETE: 'delete',
   DUPLICATE: 'duplicate',
   DIFF: 'diff',
+  SPLIT_SPREAD: 'split-spread',
+  INSERT_BLANK_BEFORE: 'insert-blank-before',
+  INSERT_BLANK_AFTER: 'insert-blank-after',
+  INSERT_FRONT_MATTER: 'insert-front-matter',
+  SEARCH_REDACT: 'search-redact',
+  APPLY_WORKFLOW: 'apply-workflow',
 
   // File / Project
   EXPORT: 'export',
@@ -19,10 +19,14 @@ export interface SourceFile {
   pageMetaData: PageMetrics[]
   /** True when source was generated from an image import */
   isImageSource?: boolean
+  /** True when source is a generated blank page */
+  isBlankSource?: boolean
   /** Optional outline extracted from the source PDF */
   outline?: PdfOutlineNode[]
   /** Optional metadata extracted from the source PDF */
   metadata?: DocumentMetadata
+  /** Fillable AcroForm fields detected on import */
+  formFields?: FormFieldInfo[]
 }
 
 /**
@@ -60,6 +64,49 @@ export function hasPageAnalysisMetrics(metrics: PageMetrics | null | undefined):
   )
 }
 
+export type FormFieldKind = 'text' | 'checkbox' | 'radio' | 'dropdown' | 'date'
+
+/** Checkboxes hold a boolean; other fields hold text or the chosen export value. */
+export type FormFieldValue = string | boolean
+
+/**
+ * One widget of a form field in points of the unrotated source page
+ * (top-left origin).
+ */
+export interface FormFieldWidget {
+  pageIndex: number
+  x: number
+  y: number
+  width: number
+  height: number
+  /** On-state of a checkbox or radio button */
+  exportValue?: string
+}
+
+/**
+ * AcroForm field of a source file, keyed by its fully qualified name.
+ */
+export interface FormFieldInfo {
+  name: string
+  kind: FormFieldKind
+  /** Value saved in the source file */
+  value: FormFieldValue
+  /** Dropdown choices */
+  options?: Array<{ value: string; label: string }>
+  /** Display format of date fields, e.g. `mm/dd/yyyy` */
+  dateFormat?: string
+  multiline?: boolean
+  maxLength?: number
+  readOnly?: boolean
+  widgets: FormFieldWidget[]
+}
+
+/**
+ * Form values entered in the editor, by source file id and field name.
+ * Fields without an entry keep the value saved in the source.
+ */
+export type FormFieldValues = Record<string, Record<string, FormFieldValue>>
+
 /**
  * Redaction rectangle stored in PDF point coordinates (top-left origin).
  */
@@ -72,6 +119,82 @@ export interface RedactionMark {
   color?: 'black' | 'white'
 }
 
+export type PageAnnotationKind =
+  | 'note'
+  | 'highlight'
+  | 'underline'
+  | 'strikeout'
+  | 'freeText'
+  | 'rectangle'
+  | 'ellipse'
+
+/** Axis-aligned box in the same space as redaction marks */
+export interface AnnotationBox {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
+/**
+ * Non-destructive page annotation, stored in the same space as redaction
+ * marks (points of the page viewport with the page rotation applied,
+ * top-left origin).
+ */
+export interface PageAnnotation extends AnnotationBox {
+  id: string
+  kind: PageAnnotationKind
+  /** Hex color such as `#ffd400` */
+  color: string
+  /** Note body or free-text content */
+  text?: string
+  /** Free-text font size in points */
+  fontSize?: number
+  /** Text markup only: one box per run of selected text, inside the bounds */
+  boxes?: AnnotationBox[]
+}
+
+export type SignatureKind = 'drawn' | 'typed' | 'uploaded'
+
+/**
+ * Signature artwork in its own pixel space (top-left origin). Drawn
+ * signatures keep their pen strokes so they export as vector paths; typed
+ * and uploaded signatures are PNG images.
+ */
+export interface SignatureArtwork {
+  kind: SignatureKind
+  width: number
+  height: number
+  /** Drawn only: pen strokes as flat `[x0, y0, x1, y1, ...]` point lists */
+  strokes?: number[][]
+  /** Drawn only: hex pen color */
+  strokeColor?: string
+  /** Drawn only: pen width in artwork pixels */
+  strokeWidth?: number
+  /** Typed and uploaded only: PNG data URL */
+  image?: string
+}
+
+/** Entry of the signature library, shared by all projects */
+export interface SavedSignature extends SignatureArtwork {
+  id: string
+  name: string
+  createdAt: number
+}
+
+/** Signature placed on a page, in the same space as redaction marks */
+export interface PageSignature extends AnnotationBox {
+  id: string
+  /** Library entry the signature was placed from */
+  signatureId: string
+  artwork: SignatureArtwork
+}
+
+/**
+ * Standard security handler variants supported on export.
+ */
+export type PdfEncryptionAlgorithm = 'rc4-128' | 'aes-128' | 'aes-256'
+
 /**
  * Security options for export and session persistence.
  */
@@ -79,11 +202,76 @@ export interface SecurityMetadata {
   isEncrypted: boolean
   userPassword?: string
   ownerPassword?: string
+  /** Cipher used when encrypting the export (defaults to AES-256) */
+  encryptionAlgorithm?: PdfEncryptionAlgorithm
   allowPrinting: boolean
   allowCopying: boolean
   allowModifying: boolean
 }
 
+export type WatermarkKind = 'text' | 'image'
+
+export type WatermarkLayout = 'center' | 'tile'
+
+/**
+ * Watermark drawn over exported pages, persisted per project.
+ */
+export interface WatermarkSettings {
+  enabled: boolean
+  kind: WatermarkKind
+  text: string
+  /** Uploaded PNG or JPG as a data URL */
+  imageDataUrl?: string
+  imageName?: string
+  /** 0 (invisible) to 1 (opaque) */
+  opacity: number
+  /** Counter-clockwise degrees in the displayed page */
+  rotation: number
+  /** Watermark width as a fraction of the displayed page width */
+  scale: number
+  layout: WatermarkLayout
+  /** Export page range such as `1-3, 7`; empty applies to every page */
+  pageRange: string
+}
+
+export type HeaderFooterFont = 'helvetica' | 'times' | 'courier'
+
+/** Templates for one header or footer row; empty slots are skipped. */
+export interface HeaderFooterSlots {
+  left: string
+  center: string
+  right: string
+}
+
+/**
+ * Templated header and footer text stamped on export, persisted per project.
+ * Templates may use `{page}`, `{total}`, `{title}`, `{author}`, `{date}` and
+ * `{source_filename}`.
+ */
+export interface HeaderFooterSettings {
+  enabled: boolean
+  header: HeaderFooterSlots
+  footer: HeaderFooterSlots
+  font: HeaderFooterFont
+  fontSize: number
+  /** Distance from the page edges in points */
+  margin: number
+  /** Leave the first page of every exported file blank */
+  skipFirstPage: boolean
+}
+
+/**
+ * Visible part of a page, in points of the unrotated source page with a
+ * top-left origin, so the crop stays on the same content when the page is
+ * rotated afterwards.
+ */
+export interface PageCrop {
+  x: number
+  y: number
+  width: number
+  height: number
+}
+
 /**
  * The atomic unit - a reference to a specific page in a source file.
  * This is what we manipulate in the UI grid.
@@ -99,8 +287,14 @@ export interface PageReference {
   height?: number
   /** Optional export-time override for page dimensions */
   targetDimensions?: { width: number; height: number }
+  /** Region kept on export; the rest of the page is cropped away */
+  crop?: PageCrop
   /** Optional destructive redactions (top-left coordinate space) */
   redactions?: RedactionMark[]
+  /** Notes, text markup, free text and shapes drawn over the page */
+  annotations?: PageAnnotation[]
+  /** Signatures burned into the page on export */
+  signatures?: PageSignature[]
 
   // Grouping
   groupId?: string // specific group/batch ID, defaults to sourceFileId
@@ -210,4 +404,6 @@ export interface FileUploadResult {
   pageRefs?: PageReference[]
   error?: string
   errorCode?: ImportErrorCode
+  /** Original file, kept on password failures so the import can be retried. */
+  file?: File
 }
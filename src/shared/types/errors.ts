@@ -4,6 +4,7 @@ export const IMPORT_ERROR_CODES = [
   'IMPORT_FAILED',
   'IMPORT_PDF_LOAD_FAILED',
   'IMPORT_IMAGE_CONVERSION_FAILED',
+  'IMPORT_PASSWORD_REQUIRED',
 ] as const
 export type ImportErrorCode = (typeof IMPORT_ERROR_CODES)[number]
 
@@ -11,6 +12,7 @@ export const EXPORT_ERROR_CODES = [
   'EXPORT_NO_PAGES',
   'EXPORT_SOURCE_MISSING',
   'EXPORT_COMPRESSION_FAILED',
+  'EXPORT_ENCRYPTION_FAILED',
   'EXPORT_FAILED',
 ] as const
 export type ExportErrorCode = (typeof EXPORT_ERROR_CODES)[number]
@@ -19,6 +21,7 @@ export type DocumentErrorCode = ImportErrorCode | ExportErrorCode
 
 export const WORKFLOW_ERROR_CODES = [
   'WORKFLOW_INVALID',
+  'WORKFLOW_FILE_INVALID',
   'WORKFLOW_NO_FILES',
   'WORKFLOW_RUN_FAILED',
 ] as const
@@ -7,8 +7,28 @@ export type {
   SourceFile,
   DocumentMetadata,
   PageMetrics,
+  FormFieldKind,
+  FormFieldValue,
+  FormFieldWidget,
+  FormFieldInfo,
+  FormFieldValues,
   RedactionMark,
+  PageAnnotationKind,
+  AnnotationBox,
+  PageAnnotation,
+  SignatureKind,
+  SignatureArtwork,
+  SavedSignature,
+  PageSignature,
+  PdfEncryptionAlgorithm,
   SecurityMetadata,
+  WatermarkKind,
+  WatermarkLayout,
+  WatermarkSettings,
+  HeaderFooterFont,
+  HeaderFooterSlots,
+  HeaderFooterSettings,
+  PageCrop,
   PageReference,
   DividerReference,
   PageEntry,
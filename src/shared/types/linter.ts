@@ -8,6 +8,7 @@ export enum PreflightRuleId {
   HEAVY = 'heavy-pages',
   LOW_QUALITY = 'low-quality',
   METADATA = 'metadata-title',
+  PDFA = 'pdfa-conformance',
 }
 
 export enum PreflightFixId {
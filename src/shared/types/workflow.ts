@@ -5,12 +5,22 @@ export interface WorkflowStep {
   params: Record<string, unknown>
 }
 
+export type WorkflowOutputMode = 'split' | 'separate' | 'merge'
+
+export interface WorkflowOutput {
+  mode: WorkflowOutputMode
+  /** Output file name pattern; see `formatFilenamePattern` for the tokens */
+  filenamePattern: string
+}
+
 export interface Workflow {
   id: string
   name: string
   icon: string
   description: string
   steps: WorkflowStep[]
+  /** Missing on workflows saved before output modes existed */
+  output?: WorkflowOutput
   createdAt: number
   updatedAt: number
 }
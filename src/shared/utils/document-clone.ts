@@ -1,12 +1,18 @@
 import type {
   DocumentMetadata,
   DividerReference,
+  FormFieldInfo,
+  FormFieldValues,
   OutlineNode,
+  PageAnnotation,
   PageEntry,
   PageMetrics,
   PageReference,
+  PageSignature,
   PdfOutlineNode,
   RedactionMark,
+  SecurityMetadata,
+  SignatureArtwork,
   SourceFile,
 } from '@/shared/types'
 import { isDividerEntry } from '@/shared/types'
@@ -23,11 +29,32 @@ export function cloneRedactionMark(value: RedactionMark): RedactionMark {
   })
 }
 
+export function clonePageAnnotation(value: PageAnnotation): PageAnnotation {
+  return omitUndefinedProperties({
+    ...value,
+    boxes: value.boxes?.map((box) => ({ ...box })),
+  })
+}
+
+export function cloneSignatureArtwork(value: SignatureArtwork): SignatureArtwork {
+  return omitUndefinedProperties({
+    ...value,
+    strokes: value.strokes?.map((stroke) => [...stroke]),
+  })
+}
+
+export function clonePageSignature(value: PageSignature): PageSignature {
+  return { ...value, artwork: cloneSignatureArtwork(value.artwork) }
+}
+
 export function clonePageReference(value: PageReference): PageReference {
   return omitUndefinedProperties({
     ...value,
     targetDimensions: value.targetDimensions ? { ...value.targetDimensions } : undefined,
+    crop: value.crop ? { ...value.crop } : undefined,
     redactions: value.redactions?.map(cloneRedactionMark),
+    annotations: value.annotations?.map(clonePageAnnotation),
+    signatures: value.signatures?.map(clonePageSignature),
   })
 }
 
@@ -66,6 +93,12 @@ export function cloneDocumentMetadata(value: DocumentMetadata): DocumentMetadata
   })
 }
 
+export function cloneSecurityMetadata(value: SecurityMetadata): SecurityMetadata {
+  return omitUndefinedProperties({
+    ...value,
+  })
+}
+
 export function clonePdfOutlineNode(value: PdfOutlineNode): PdfOutlineNode {
   return omitUndefinedProperties({
     title: value.title,
@@ -86,11 +119,26 @@ export function cloneOutlineTree(values: ReadonlyArray<OutlineNode>): OutlineNod
   return values.map(cloneOutlineNode)
 }
 
+export function cloneFormFieldInfo(value: FormFieldInfo): FormFieldInfo {
+  return omitUndefinedProperties({
+    ...value,
+    options: value.options?.map((option) => ({ ...option })),
+    widgets: value.widgets.map((widget) => omitUndefinedProperties({ ...widget })),
+  })
+}
+
+export function cloneFormFieldValues(value: FormFieldValues): FormFieldValues {
+  return Object.fromEntries(
+    Object.entries(value).map(([sourceFileId, fields]) => [sourceFileId, { ...fields }]),
+  )
+}
+
 export function cloneSourceFile(value: SourceFile): SourceFile {
   return omitUndefinedProperties({
     ...value,
     pageMetaData: value.pageMetaData.map(clonePageMetrics),
     outline: value.outline?.map(clonePdfOutlineNode),
     metadata: value.metadata ? cloneDocumentMetadata(value.metadata) : undefined,
+    formFields: value.formFields?.map(cloneFormFieldInfo),
   })
 }
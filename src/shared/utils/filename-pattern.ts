@@ -3,9 +3,12 @@ export interface FilenamePatternContext {
   name?: string
   date?: Date | string
   version?: number | string
+  /** 1-based position of the input among the files processed together */
+  index?: number
+  pageCount?: number
 }
 
-const TOKEN_REGEX = /\{(original_name|name|date|version)\}/gi
+const TOKEN_REGEX = /\{(original_name|name|date|version|index|page_count)\}/gi
 const INVALID_FILENAME_CHARS_REGEX = /[<>:"/\\|?*]|\p{Cc}/gu
 
 function toDateToken(value?: Date | string): string {
@@ -55,6 +58,8 @@ export function formatFilenamePattern(
     if (normalizedToken === 'name') return resolvedName
     if (normalizedToken === 'date') return resolvedDate
     if (normalizedToken === 'version') return resolvedVersion
+    if (normalizedToken === 'index') return String(context.index ?? 1)
+    if (normalizedToken === 'page_count') return String(context.pageCount ?? '')
     return ''
   })
 
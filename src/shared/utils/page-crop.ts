@@ -0,0 +1,120 @@
+import type { PageCrop } from '@/shared/types'
+
+/**
+ * Crop geometry shared by the preview, thumbnails and export.
+ *
+ * Crops are stored on the unrotated page (top-left origin) while the editor
+ * draws pages with the user rotation applied, so boxes are turned into the
+ * displayed orientation and back. `pageSize` is always the unrotated size.
+ */
+
+type Size = { width: number; height: number }
+
+/** Smallest crop edge in points */
+export const MIN_PAGE_CROP_SIZE = 18
+
+function normalizeRotation(rotation: number): number {
+  return (((Math.round(rotation / 90) * 90) % 360) + 360) % 360
+}
+
+/** Places a crop on the page as displayed with `rotation` (clockwise degrees) */
+export function getDisplayedCropRect(crop: PageCrop, pageSize: Size, rotation: number): PageCrop {
+  const { x, y, width, height } = crop
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return { x: pageSize.height - y - height, y: x, width: height, height: width }
+    case 180:
+      return { x: pageSize.width - x - width, y: pageSize.height - y - height, width, height }
+    case 270:
+      return { x: y, y: pageSize.width - x - width, width: height, height: width }
+    default:
+      return { x, y, width, height }
+  }
+}
+
+/** Inverse of `getDisplayedCropRect`: maps a displayed box back onto the unrotated page */
+export function getSourceCropRect(rect: PageCrop, pageSize: Size, rotation: number): PageCrop {
+  const { x, y, width, height } = rect
+  switch (normalizeRotation(rotation)) {
+    case 90:
+      return { x: y, y: pageSize.height - x - width, width: height, height: width }
+    case 180:
+      return { x: pageSize.width - x - width, y: pageSize.height - y - height, width, height }
+    case 270:
+      return { x: pageSize.width - y - height, y: x, width: height, height: width }
+    default:
+      return { x, y, width, height }
+  }
+}
+
+/** Keeps a crop on the page and at least `MIN_PAGE_CROP_SIZE` wide and tall */
+export function clampPageCrop(crop: PageCrop, pageSize: Size): PageCrop {
+  const width = Math.min(pageSize.width, Math.max(MIN_PAGE_CROP_SIZE, crop.width))
+  const height = Math.min(pageSize.height, Math.max(MIN_PAGE_CROP_SIZE, crop.height))
+  return {
+    x: Math.min(pageSize.width - width, Math.max(0, crop.x)),
+    y: Math.min(pageSize.height - height, Math.max(0, crop.y)),
+    width,
+    height,
+  }
+}
+
+/** A crop covering the whole page (within half a point) has no effect */
+export function isFullPageCrop(crop: PageCrop, pageSize: Size): boolean {
+  return (
+    crop.x <= 0.5 &&
+    crop.y <= 0.5 &&
+    crop.x + crop.width >= pageSize.width - 0.5 &&
+    crop.y + crop.height >= pageSize.height - 0.5
+  )
+}
+
+export type PageSplitDirection = 'vertical' | 'horizontal'
+
+/**
+ * Cuts the visible part of a page in two along a line at `ratio` (0-1) of
+ * its displayed width (vertical split) or height (horizontal split). The
+ * halves come back in reading order: left then right, or top then bottom.
+ */
+export function splitPageCrop(
+  pageSize: Size,
+  rotation: number,
+  crop: PageCrop | null | undefined,
+  direction: PageSplitDirection,
+  ratio: number,
+): [PageCrop, PageCrop] {
+  const isSideways = normalizeRotation(rotation) % 180 !== 0
+  const displayed = crop
+    ? getDisplayedCropRect(crop, pageSize, rotation)
+    : {
+        x: 0,
+        y: 0,
+        width: isSideways ? pageSize.height : pageSize.width,
+        height: isSideways ? pageSize.width : pageSize.height,
+      }
+  const t = Math.min(1, Math.max(0, ratio))
+
+  const [first, second]: [PageCrop, PageCrop] =
+    direction === 'vertical'
+      ? [
+          { ...displayed, width: displayed.width * t },
+          {
+            ...displayed,
+            x: displayed.x + displayed.width * t,
+            width: displayed.width * (1 - t),
+          },
+        ]
+      : [
+          { ...displayed, height: displayed.height * t },
+          {
+            ...displayed,
+            y: displayed.y + displayed.height * t,
+            height: displayed.height * (1 - t),
+          },
+        ]
+
+  return [
+    getSourceCropRect(first, pageSize, rotation),
+    getSourceCropRect(second, pageSize, rotation),
+  ]
+}
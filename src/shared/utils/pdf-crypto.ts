@@ -0,0 +1,225 @@
+/**
+ * Byte-level crypto primitives used by the PDF standard security handler.
+ * MD5 and RC4 are not exposed by WebCrypto, so they are implemented here;
+ * AES and SHA-2 are delegated to `crypto.subtle`.
+ */
+
+const MD5_SHIFTS = [
+  7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 7, 12, 17, 22, 5, 9, 14, 20, 5, 9, 14, 20, 5, 9, 14,
+  20, 5, 9, 14, 20, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 4, 11, 16, 23, 6, 10, 15, 21, 6,
+  10, 15, 21, 6, 10, 15, 21, 6, 10, 15, 21,
+]
+
+const MD5_CONSTANTS = Array.from({ length: 64 }, (_, index) =>
+  Math.floor(Math.abs(Math.sin(index + 1)) * 0x100000000),
+)
+
+const AES_BLOCK_SIZE = 16
+
+export function concatBytes(...parts: ReadonlyArray<Uint8Array>): Uint8Array {
+  const length = parts.reduce((total, part) => total + part.length, 0)
+  const result = new Uint8Array(length)
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+export function randomBytes(length: number): Uint8Array {
+  const bytes = new Uint8Array(length)
+  crypto.getRandomValues(bytes)
+  return bytes
+}
+
+export function md5(data: Uint8Array): Uint8Array {
+  const paddedLength = (((data.length + 8) >>> 6) + 1) << 6
+  const buffer = new Uint8Array(paddedLength)
+  buffer.set(data)
+  buffer[data.length] = 0x80
+  const bitLength = data.length * 8
+  const view = new DataView(buffer.buffer)
+  view.setUint32(paddedLength - 8, bitLength >>> 0, true)
+  view.setUint32(paddedLength - 4, Math.floor(bitLength / 0x100000000), true)
+
+  let a0 = 0x67452301
+  let b0 = 0xefcdab89
+  let c0 = 0x98badcfe
+  let d0 = 0x10325476
+  const words = new Uint32Array(16)
+
+  for (let chunk = 0; chunk < paddedLength; chunk += 64) {
+    for (let i = 0; i < 16; i++) {
+      words[i] = view.getUint32(chunk + i * 4, true)
+    }
+
+    let a = a0
+    let b = b0
+    let c = c0
+    let d = d0
+
+    for (let i = 0; i < 64; i++) {
+      let f: number
+      let g: number
+      if (i < 16) {
+        f = (b & c) | (~b & d)
+        g = i
+      } else if (i < 32) {
+        f = (d & b) | (~d & c)
+        g = (5 * i + 1) % 16
+      } else if (i < 48) {
+        f = b ^ c ^ d
+        g = (3 * i + 5) % 16
+      } else {
+        f = c ^ (b | ~d)
+        g = (7 * i) % 16
+      }
+
+      const sum = (a + f + MD5_CONSTANTS[i]! + words[g]!) >>> 0
+      const shift = MD5_SHIFTS[i]!
+      a = d
+      d = c
+      c = b
+      b = (b + ((sum << shift) | (sum >>> (32 - shift)))) >>> 0
+    }
+
+    a0 = (a0 + a) >>> 0
+    b0 = (b0 + b) >>> 0
+    c0 = (c0 + c) >>> 0
+    d0 = (d0 + d) >>> 0
+  }
+
+  const digest = new Uint8Array(16)
+  const digestView = new DataView(digest.buffer)
+  digestView.setUint32(0, a0, true)
+  digestView.setUint32(4, b0, true)
+  digestView.setUint32(8, c0, true)
+  digestView.setUint32(12, d0, true)
+  return digest
+}
+
+/**
+ * RC4 is symmetric: the same call encrypts and decrypts.
+ */
+export function rc4(key: Uint8Array, data: Uint8Array): Uint8Array {
+  const state = new Uint8Array(256)
+  for (let i = 0; i < 256; i++) state[i] = i
+
+  let j = 0
+  for (let i = 0; i < 256; i++) {
+    j = (j + state[i]! + key[i % key.length]!) & 0xff
+    const swap = state[i]!
+    state[i] = state[j]!
+    state[j] = swap
+  }
+
+  const output = new Uint8Array(data.length)
+  let x = 0
+  let y = 0
+  for (let index = 0; index < data.length; index++) {
+    x = (x + 1) & 0xff
+    y = (y + state[x]!) & 0xff
+    const swap = state[x]!
+    state[x] = state[y]!
+    state[y] = swap
+    output[index] = data[index]! ^ state[(state[x]! + state[y]!) & 0xff]!
+  }
+  return output
+}
+
+export async function sha(
+  algorithm: 'SHA-256' | 'SHA-384' | 'SHA-512',
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  return new Uint8Array(await crypto.subtle.digest(algorithm, data as BufferSource))
+}
+
+async function importAesKey(key: Uint8Array, usage: 'encrypt' | 'decrypt'): Promise<CryptoKey> {
+  return crypto.subtle.importKey('raw', key as BufferSource, { name: 'AES-CBC' }, false, [usage])
+}
+
+/**
+ * AES-CBC with PKCS#7 padding.
+ */
+export async function aesCbcEncrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  const cryptoKey = await importAesKey(key, 'encrypt')
+  const encrypted = await crypto.subtle.encrypt(
+    { name: 'AES-CBC', iv: iv as BufferSource },
+    cryptoKey,
+    data as BufferSource,
+  )
+  return new Uint8Array(encrypted)
+}
+
+/**
+ * AES-CBC without padding. WebCrypto always pads, so the trailing padding
+ * block is dropped; `data` must be a multiple of the block size.
+ */
+export async function aesCbcEncryptNoPadding(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  if (data.length % AES_BLOCK_SIZE !== 0) {
+    throw new Error('AES input must be a multiple of the block size')
+  }
+  const encrypted = await aesCbcEncrypt(key, iv, data)
+  return encrypted.subarray(0, data.length)
+}
+
+/**
+ * Encrypts `data` as a PDF AES string/stream: a random IV followed by the
+ * padded ciphertext.
+ */
+export async function aesEncryptWithIv(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  const iv = randomBytes(AES_BLOCK_SIZE)
+  return concatBytes(iv, await aesCbcEncrypt(key, iv, data))
+}
+
+export async function aesCbcDecrypt(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  const cryptoKey = await importAesKey(key, 'decrypt')
+  const decrypted = await crypto.subtle.decrypt(
+    { name: 'AES-CBC', iv: iv as BufferSource },
+    cryptoKey,
+    data as BufferSource,
+  )
+  return new Uint8Array(decrypted)
+}
+
+/**
+ * AES-CBC decryption without padding. WebCrypto insists on valid PKCS#7
+ * padding, so a synthetic block that decrypts to a full padding block is
+ * appended before decrypting.
+ */
+export async function aesCbcDecryptNoPadding(
+  key: Uint8Array,
+  iv: Uint8Array,
+  data: Uint8Array,
+): Promise<Uint8Array> {
+  if (data.length === 0 || data.length % AES_BLOCK_SIZE !== 0) {
+    throw new Error('AES input must be a multiple of the block size')
+  }
+  const lastBlock = data.subarray(data.length - AES_BLOCK_SIZE)
+  const paddingBlock = new Uint8Array(AES_BLOCK_SIZE).fill(AES_BLOCK_SIZE)
+  const syntheticBlock = await aesCbcEncryptNoPadding(key, lastBlock, paddingBlock)
+  return aesCbcDecrypt(key, iv, concatBytes(data, syntheticBlock))
+}
+
+/**
+ * Decrypts a PDF AES string/stream whose first block is the IV.
+ */
+export async function aesDecryptWithIv(key: Uint8Array, data: Uint8Array): Promise<Uint8Array> {
+  if (data.length < AES_BLOCK_SIZE * 2 || data.length % AES_BLOCK_SIZE !== 0) {
+    return new Uint8Array(0)
+  }
+  return aesCbcDecrypt(key, data.subarray(0, AES_BLOCK_SIZE), data.subarray(AES_BLOCK_SIZE))
+}
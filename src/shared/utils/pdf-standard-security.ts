@@ -0,0 +1,219 @@
+/**
+ * Key derivation for the PDF standard security handler (ISO 32000-2, 7.6.4),
+ * shared by export encryption and import decryption.
+ */
+import { aesCbcEncryptNoPadding, concatBytes, md5, rc4, sha } from '@/shared/utils/pdf-crypto'
+
+/** Password padding string from the PDF specification (Algorithm 2, step a). */
+export const PASSWORD_PADDING = new Uint8Array([
+  0x28, 0xbf, 0x4e, 0x5e, 0x4e, 0x75, 0x8a, 0x41, 0x64, 0x00, 0x4e, 0x56, 0xff, 0xfa, 0x01, 0x08,
+  0x2e, 0x2e, 0x00, 0xb6, 0xd0, 0x68, 0x3e, 0x80, 0x2f, 0x0c, 0xa9, 0xfe, 0x64, 0x53, 0x69, 0x7a,
+])
+
+const MAX_UTF8_PASSWORD_LENGTH = 127
+const AES_SALT = new Uint8Array([0x73, 0x41, 0x6c, 0x54])
+
+/**
+ * Pads a revision 2-4 password. Characters are truncated to one byte, matching
+ * how pdf.js turns typed passwords into bytes.
+ */
+export function padPassword(password: string): Uint8Array {
+  const padded = new Uint8Array(32)
+  const length = Math.min(password.length, 32)
+  for (let i = 0; i < length; i++) {
+    padded[i] = password.charCodeAt(i) & 0xff
+  }
+  padded.set(PASSWORD_PADDING.subarray(0, 32 - length), length)
+  return padded
+}
+
+/**
+ * Revision 5-6 passwords are UTF-8, capped at 127 bytes.
+ */
+export function encodeUtf8Password(password: string): Uint8Array {
+  return new TextEncoder().encode(password).subarray(0, MAX_UTF8_PASSWORD_LENGTH)
+}
+
+/**
+ * RC4 key used to compute or unwrap the /O entry (Algorithm 3, steps a-d).
+ */
+export function computeOwnerKey(
+  ownerPassword: string,
+  revision: number,
+  keyLength: number,
+): Uint8Array {
+  let digest = md5(padPassword(ownerPassword))
+  if (revision >= 3) {
+    for (let i = 0; i < 50; i++) {
+      digest = md5(digest)
+    }
+  }
+  return digest.subarray(0, keyLength)
+}
+
+export function computeOwnerEntry(
+  ownerPassword: string,
+  userPassword: string,
+  revision: number,
+  keyLength: number,
+): Uint8Array {
+  const key = computeOwnerKey(ownerPassword, revision, keyLength)
+  let entry = rc4(key, padPassword(userPassword))
+  if (revision >= 3) {
+    for (let i = 1; i <= 19; i++) {
+      entry = rc4(xorKey(key, i), entry)
+    }
+  }
+  return entry
+}
+
+/**
+ * Recovers the padded user password from the /O entry (Algorithm 7).
+ */
+export function recoverUserPasswordFromOwner(
+  ownerPassword: string,
+  ownerEntry: Uint8Array,
+  revision: number,
+  keyLength: number,
+): Uint8Array {
+  const key = computeOwnerKey(ownerPassword, revision, keyLength)
+  if (revision < 3) return rc4(key, ownerEntry)
+
+  let entry = ownerEntry
+  for (let i = 19; i >= 0; i--) {
+    entry = rc4(xorKey(key, i), entry)
+  }
+  return entry
+}
+
+export interface LegacyFileKeyInput {
+  paddedUserPassword: Uint8Array
+  ownerEntry: Uint8Array
+  permissions: number
+  fileId: Uint8Array
+  revision: number
+  keyLength: number
+  encryptMetadata?: boolean
+}
+
+/**
+ * File encryption key for revisions 2-4 (Algorithm 2).
+ */
+export function computeLegacyFileKey(input: LegacyFileKeyInput): Uint8Array {
+  const permissionBytes = new Uint8Array(4)
+  new DataView(permissionBytes.buffer).setInt32(0, input.permissions, true)
+  const metadataFlag =
+    input.revision >= 4 && input.encryptMetadata === false
+      ? new Uint8Array([0xff, 0xff, 0xff, 0xff])
+      : new Uint8Array(0)
+
+  let digest = md5(
+    concatBytes(
+      input.paddedUserPassword.subarray(0, 32),
+      input.ownerEntry.subarray(0, 32),
+      permissionBytes,
+      input.fileId,
+      metadataFlag,
+    ),
+  )
+  if (input.revision >= 3) {
+    for (let i = 0; i < 50; i++) {
+      digest = md5(digest.subarray(0, input.keyLength))
+    }
+  }
+  return digest.subarray(0, input.keyLength)
+}
+
+/**
+ * /U entry for revisions 2-4 (Algorithms 4 and 5). Only the first 16 bytes
+ * are significant for revision 3 and later.
+ */
+export function computeUserEntry(
+  fileKey: Uint8Array,
+  fileId: Uint8Array,
+  revision: number,
+): Uint8Array {
+  if (revision < 3) return rc4(fileKey, PASSWORD_PADDING)
+
+  let entry = rc4(fileKey, md5(concatBytes(PASSWORD_PADDING, fileId)))
+  for (let i = 1; i <= 19; i++) {
+    entry = rc4(xorKey(fileKey, i), entry)
+  }
+  return concatBytes(entry, new Uint8Array(16))
+}
+
+/**
+ * Per-object key for revisions 2-4 (Algorithm 1).
+ */
+export function computeObjectKey(
+  fileKey: Uint8Array,
+  objectNumber: number,
+  generation: number,
+  isAes: boolean,
+): Uint8Array {
+  const suffix = new Uint8Array([
+    objectNumber & 0xff,
+    (objectNumber >> 8) & 0xff,
+    (objectNumber >> 16) & 0xff,
+    generation & 0xff,
+    (generation >> 8) & 0xff,
+  ])
+  const digest = md5(concatBytes(fileKey, suffix, isAes ? AES_SALT : new Uint8Array(0)))
+  return digest.subarray(0, Math.min(fileKey.length + 5, 16))
+}
+
+/**
+ * Password hash for revisions 5 and 6 (Algorithm 2.B for revision 6).
+ */
+export async function computeHardenedHash(
+  password: Uint8Array,
+  salt: Uint8Array,
+  userEntry: Uint8Array = new Uint8Array(0),
+  revision = 6,
+): Promise<Uint8Array> {
+  let hash = await sha('SHA-256', concatBytes(password, salt, userEntry))
+  if (revision < 6) return hash
+
+  let lastByte = 0
+  for (let round = 0; round < 64 || lastByte > round - 32; round++) {
+    const sequence = concatBytes(password, hash, userEntry)
+    const repeated = new Uint8Array(sequence.length * 64)
+    for (let i = 0; i < 64; i++) {
+      repeated.set(sequence, i * sequence.length)
+    }
+
+    const encrypted = await aesCbcEncryptNoPadding(
+      hash.subarray(0, 16),
+      hash.subarray(16, 32),
+      repeated,
+    )
+
+    let sum = 0
+    for (let i = 0; i < 16; i++) sum += encrypted[i]!
+    const algorithm = (['SHA-256', 'SHA-384', 'SHA-512'] as const)[sum % 3]!
+    hash = await sha(algorithm, encrypted)
+    lastByte = encrypted[encrypted.length - 1]!
+  }
+
+  return hash.subarray(0, 32)
+}
+
+export function bytesEqual(left: Uint8Array, right: Uint8Array): boolean {
+  if (left.length !== right.length) return false
+  for (let i = 0; i < left.length; i++) {
+    if (left[i] !== right[i]) return false
+  }
+  return true
+}
+
+export function toHex(bytes: Uint8Array): string {
+  let hex = ''
+  for (const byte of bytes) {
+    hex += byte.toString(16).padStart(2, '0')
+  }
+  return hex
+}
+
+function xorKey(key: Uint8Array, value: number): Uint8Array {
+  return key.map((byte) => byte ^ value)
+}
@@ -1,7 +1,28 @@
-import { CommandType, type Command, type SerializedCommand } from '@/domains/history/domain/commands'
-import { WorkflowActionType } from '@/domains/workflows/domain'
+import {
+  CommandType,
+  type Command,
+  type SerializedCommand,
+} from '@/domains/history/domain/commands'
+import {
+  WORKFLOW_PAPER_SIZES,
+  WORKFLOW_STEP_CATALOG,
+  WorkflowActionType,
+  formatWorkflowPageSelector,
+  getWorkflowMoveOrder,
+  type WorkflowActionTypeValue,
+  type WorkflowMovePosition,
+  type WorkflowPaperOrientation,
+  type WorkflowPaperSize,
+} from '@/domains/workflows/domain'
 import type { WorkflowStep } from '@/shared/types/workflow'
 
+/**
+ * Turns the edit history into workflow steps. Commands name concrete page
+ * IDs; the tracker follows the page order through the history so each edit
+ * can be restated by position ("pages 1-3", "even", "last") and replayed on
+ * other files.
+ */
+
 export interface WorkflowCandidateStep {
   commandId: string
   label: string
@@ -16,10 +37,39 @@ export interface WorkflowCandidateBuildResult {
   unsupportedCount: number
 }
 
+interface TrackedEntry {
+  id: string
+  isDivider: boolean
+}
+
+interface TrackedPage {
+  rotation: number
+  width?: number
+  height?: number
+}
+
 interface WorkflowPageTrackerState {
-  pageIds: string[]
+  /** Pages and dividers in page list order */
+  entries: TrackedEntry[]
+  pages: Map<string, TrackedPage>
 }
 
+type CandidateDraft = Pick<WorkflowCandidateStep, 'commandType' | 'params'> & { label?: string }
+
+/** Commands that bring files in; they are the workflow's input, not a step */
+const INPUT_COMMAND_TYPES = new Set<string>([
+  CommandType.ADD,
+  CommandType.ADD_SOURCE,
+  CommandType.INSERT,
+  CommandType.REMOVE_SOURCE,
+])
+
+/** Outline edits with this name rebuild the outline from the source files */
+const RESET_OUTLINE_NAME = 'Reset outline'
+
+/** Points of slack when matching a target size to a paper size */
+const PAPER_SIZE_TOLERANCE = 0.5
+
 function toPlain<T>(value: T): T {
   return JSON.parse(JSON.stringify(value))
 }
@@ -29,6 +79,13 @@ function toRecord(value: unknown): Record<string, unknown> {
   return value as Record<string, unknown>
 }
 
+function toRecordArray(value: unknown): Record<string, unknown>[] {
+  if (!Array.isArray(value)) return []
+  return value.filter(
+    (item): item is Record<string, unknown> => Boolean(item) && typeof item === 'object',
+  )
+}
+
 function toStringArray(value: unknown): string[] {
   if (!Array.isArray(value)) return []
   return value.filter((item): item is string => typeof item === 'string')
@@ -44,281 +101,486 @@ function toCommandId(serialized: SerializedCommand): string {
   return `workflow-candidate-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`
 }
 
-function setEquals(left: ReadonlySet<string>, right: ReadonlySet<string>): boolean {
-  if (left.size !== right.size) return false
-  for (const value of left) {
-    if (!right.has(value)) return false
-  }
-  return true
+function normalizeRotation(value: number): number {
+  return ((value % 360) + 360) % 360
 }
 
-function removePageIds(state: WorkflowPageTrackerState, idsToRemove: ReadonlyArray<string>): void {
-  if (idsToRemove.length === 0 || state.pageIds.length === 0) return
-  const removeSet = new Set(idsToRemove)
-  state.pageIds = state.pageIds.filter((id) => !removeSet.has(id))
+function getContentIds(state: WorkflowPageTrackerState): string[] {
+  return state.entries.filter((entry) => !entry.isDivider).map((entry) => entry.id)
 }
 
-function applyAddPages(serialized: SerializedCommand, state: WorkflowPageTrackerState): void {
-  const payload = toRecord(serialized.payload)
-  const pages = Array.isArray(payload.pages) ? payload.pages : []
-  const pageIds: string[] = []
-
-  for (const page of pages) {
-    if (!page || typeof page !== 'object') continue
-    const id = (page as { id?: unknown }).id
-    const isDivider = (page as { isDivider?: unknown }).isDivider
-    if (typeof id !== 'string' || id.length === 0) continue
-    if (isDivider === true) continue
-    pageIds.push(id)
-  }
-
-  if (pageIds.length > 0) {
-    state.pageIds = [...state.pageIds, ...pageIds]
-  }
+/** 0-based positions of `pageIds` among the content pages, skipping unknown IDs */
+function getPositions(state: WorkflowPageTrackerState, pageIds: readonly string[]): number[] {
+  const contentIds = getContentIds(state)
+  const positionById = new Map(contentIds.map((id, index) => [id, index]))
+  return pageIds.flatMap((id) => {
+    const position = positionById.get(id)
+    return position === undefined ? [] : [position]
+  })
 }
 
-function applyDeletePages(serialized: SerializedCommand, state: WorkflowPageTrackerState): void {
-  const payload = toRecord(serialized.payload)
-  const ids = toStringArray(payload.pageIds)
-  removePageIds(state, ids)
+function readEntries(value: unknown, state: WorkflowPageTrackerState): TrackedEntry[] {
+  return toRecordArray(value).flatMap((page) => {
+    if (typeof page.id !== 'string' || page.id.length === 0) return []
+    const isDivider = page.isDivider === true
+    if (!isDivider) {
+      state.pages.set(page.id, {
+        rotation: typeof page.rotation === 'number' ? normalizeRotation(page.rotation) : 0,
+        width: typeof page.width === 'number' ? page.width : undefined,
+        height: typeof page.height === 'number' ? page.height : undefined,
+      })
+    }
+    return [{ id: page.id, isDivider }]
+  })
 }
 
-function applyDuplicatePages(serialized: SerializedCommand, state: WorkflowPageTrackerState): void {
-  const payload = toRecord(serialized.payload)
-  const sourcePageIds = toStringArray(payload.sourcePageIds)
-  const createdPageIds = toStringArray(payload.createdPageIds)
+function removeEntries(state: WorkflowPageTrackerState, idsToRemove: ReadonlyArray<string>): void {
+  if (idsToRemove.length === 0 || state.entries.length === 0) return
+  const removeSet = new Set(idsToRemove)
+  state.entries = state.entries.filter((entry) => !removeSet.has(entry.id))
+}
 
-  if (createdPageIds.length === 0) return
+function insertEntries(state: WorkflowPageTrackerState, index: number, entries: TrackedEntry[]) {
+  const safeIndex = Math.max(0, Math.min(index, state.entries.length))
+  state.entries.splice(safeIndex, 0, ...entries)
+}
 
-  const nextPageIds = [...state.pageIds]
-  const inserted = new Set<string>()
+function insertAfter(state: WorkflowPageTrackerState, pageId: string, entries: TrackedEntry[]) {
+  const index = state.entries.findIndex((entry) => entry.id === pageId)
+  if (index < 0) state.entries.push(...entries)
+  else state.entries.splice(index + 1, 0, ...entries)
+}
 
-  for (let i = 0; i < sourcePageIds.length; i++) {
-    const sourceId = sourcePageIds[i]
-    const createdId = createdPageIds[i]
-    if (!sourceId || !createdId) continue
+function copyTrackedPage(state: WorkflowPageTrackerState, fromId: string, toId: string) {
+  const page = state.pages.get(fromId)
+  state.pages.set(toId, page ? { ...page } : { rotation: 0 })
+}
 
-    const sourceIndex = nextPageIds.indexOf(sourceId)
-    if (sourceIndex < 0) continue
-    nextPageIds.splice(sourceIndex + 1, 0, createdId)
-    inserted.add(createdId)
-  }
+function applyCommandToTracker(
+  serialized: SerializedCommand,
+  state: WorkflowPageTrackerState,
+): void {
+  const payload = toRecord(serialized.payload)
 
-  for (const createdId of createdPageIds) {
-    if (!inserted.has(createdId) && !nextPageIds.includes(createdId)) {
-      nextPageIds.push(createdId)
+  switch (serialized.type) {
+    case CommandType.BATCH:
+      for (const child of toRecordArray(payload.commands)) {
+        applyCommandToTracker(child as unknown as SerializedCommand, state)
+      }
+      return
+    case CommandType.ADD:
+      state.entries.push(...readEntries(payload.pages, state))
+      return
+    case CommandType.INSERT:
+      insertEntries(
+        state,
+        typeof payload.index === 'number' ? payload.index : state.entries.length,
+        readEntries(payload.pages, state),
+      )
+      return
+    case CommandType.DELETE:
+      removeEntries(state, toStringArray(payload.pageIds))
+      return
+    case CommandType.REMOVE_SOURCE:
+      removeEntries(
+        state,
+        toRecordArray(payload.pageSnapshots).flatMap((snapshot) => {
+          const id = toRecord(snapshot.page).id
+          return typeof id === 'string' ? [id] : []
+        }),
+      )
+      return
+    case CommandType.DUPLICATE: {
+      const sourcePageIds = toStringArray(payload.sourcePageIds)
+      const createdPageIds = toStringArray(payload.createdPageIds)
+      sourcePageIds.forEach((sourceId, index) => {
+        const createdId = createdPageIds[index]
+        if (!createdId) return
+        copyTrackedPage(state, sourceId, createdId)
+        insertAfter(state, sourceId, [{ id: createdId, isDivider: false }])
+      })
+      return
+    }
+    case CommandType.REORDER: {
+      const entries = readEntries(payload.newOrder, state)
+      if (entries.length > 0) state.entries = entries
+      return
+    }
+    case CommandType.ROTATE: {
+      const degrees = Number(payload.degrees)
+      if (!Number.isFinite(degrees)) return
+      for (const pageId of toStringArray(payload.pageIds)) {
+        const page = state.pages.get(pageId)
+        if (page) page.rotation = normalizeRotation(page.rotation + degrees)
+      }
+      return
+    }
+    case CommandType.SPLIT: {
+      const divider = toRecord(payload.divider)
+      if (typeof divider.id !== 'string' || typeof payload.index !== 'number') return
+      insertEntries(state, payload.index, [{ id: divider.id, isDivider: true }])
+      return
+    }
+    case CommandType.SPLIT_SPREAD: {
+      const createdPageIds = toStringArray(payload.createdPageIds)
+      toRecordArray(payload.targets).forEach((target, index) => {
+        if (typeof target.pageId !== 'string') return
+        const halves = createdPageIds.slice(index * 2, index * 2 + 2)
+        halves.forEach((id) => copyTrackedPage(state, target.pageId as string, id))
+        insertAfter(
+          state,
+          target.pageId,
+          halves.map((id) => ({ id, isDivider: false })),
+        )
+        removeEntries(state, [target.pageId])
+      })
+      return
     }
   }
-
-  state.pageIds = nextPageIds
 }
 
-function applyReorderPages(serialized: SerializedCommand, state: WorkflowPageTrackerState): void {
-  const payload = toRecord(serialized.payload)
-  const newOrder = Array.isArray(payload.newOrder) ? payload.newOrder : []
-  const pageIds: string[] = []
-
-  for (const entry of newOrder) {
-    if (!entry || typeof entry !== 'object') continue
-    const id = (entry as { id?: unknown }).id
-    const isDivider = (entry as { isDivider?: unknown }).isDivider
-    if (typeof id !== 'string' || id.length === 0) continue
-    if (isDivider === true) continue
-    pageIds.push(id)
+function mapRotateCommand(
+  payload: Record<string, unknown>,
+  state: WorkflowPageTrackerState,
+): CandidateDraft[] | null {
+  const degrees = Number(payload.degrees)
+  if (!Number.isFinite(degrees) || degrees === 0) return null
+  const positions = getPositions(state, toStringArray(payload.pageIds))
+  if (positions.length === 0) return null
+
+  const range = formatWorkflowPageSelector(positions, getContentIds(state).length)
+  const direction = degrees > 0 ? 'right' : 'left'
+  if (range === 'all') {
+    return [
+      {
+        commandType: WorkflowActionType.ROTATE_ALL,
+        label: `Rotate all pages ${direction}`,
+        params: { degrees },
+      },
+    ]
   }
-
-  if (pageIds.length > 0) {
-    state.pageIds = pageIds
+  if (range === 'even' || range === 'odd') {
+    return [
+      {
+        commandType:
+          range === 'even' ? WorkflowActionType.ROTATE_EVEN : WorkflowActionType.ROTATE_ODD,
+        label: `Rotate ${range} pages ${direction}`,
+        params: { degrees },
+      },
+    ]
   }
+  return [{ commandType: WorkflowActionType.ROTATE_PAGES, params: { range, degrees } }]
 }
 
-function applyRemoveSource(serialized: SerializedCommand, state: WorkflowPageTrackerState): void {
-  const payload = toRecord(serialized.payload)
-  const snapshots = Array.isArray(payload.pageSnapshots) ? payload.pageSnapshots : []
-  const pageIds: string[] = []
-
-  for (const snapshot of snapshots) {
-    if (!snapshot || typeof snapshot !== 'object') continue
-    const page = (snapshot as { page?: unknown }).page
-    if (!page || typeof page !== 'object') continue
-    const id = (page as { id?: unknown }).id
-    if (typeof id === 'string' && id.length > 0) {
-      pageIds.push(id)
-    }
-  }
+function mapDeleteCommand(
+  payload: Record<string, unknown>,
+  state: WorkflowPageTrackerState,
+): CandidateDraft[] | null {
+  const pageCount = getContentIds(state).length
+  const positions = getPositions(state, toStringArray(payload.pageIds))
+  if (positions.length === 0 || positions.length >= pageCount) return null
 
-  removePageIds(state, pageIds)
+  if (positions.length === 1 && positions[0] === 0) {
+    return [{ commandType: WorkflowActionType.DELETE_FIRST_PAGE, params: {} }]
+  }
+  if (positions.length === 1 && positions[0] === pageCount - 1) {
+    return [{ commandType: WorkflowActionType.DELETE_LAST_PAGE, params: {} }]
+  }
+  return [
+    {
+      commandType: WorkflowActionType.DELETE_PAGE_RANGE,
+      params: { range: formatWorkflowPageSelector(positions, pageCount) },
+    },
+  ]
 }
 
-function applyCommandToTracker(serialized: SerializedCommand, state: WorkflowPageTrackerState): void {
-  if (serialized.type === CommandType.BATCH) {
-    const payload = toRecord(serialized.payload)
-    const children = Array.isArray(payload.commands) ? payload.commands : []
-    for (const child of children) {
-      if (!child || typeof child !== 'object') continue
-      const childSerialized = child as SerializedCommand
-      applyCommandToTracker(childSerialized, state)
+/** Indices into `values` of one longest strictly increasing subsequence */
+function findLongestIncreasingRun(values: readonly number[]): Set<number> {
+  const tails: number[] = []
+  const previous = Array.from({ length: values.length }, () => -1)
+  values.forEach((value, index) => {
+    let low = 0
+    let high = tails.length
+    while (low < high) {
+      const middle = (low + high) >> 1
+      if (values[tails[middle]!]! < value) low = middle + 1
+      else high = middle
     }
-    return
-  }
+    if (low > 0) previous[index] = tails[low - 1]!
+    tails[low] = index
+  })
 
-  if (serialized.type === CommandType.ADD) {
-    applyAddPages(serialized, state)
-    return
-  }
-
-  if (serialized.type === CommandType.DELETE) {
-    applyDeletePages(serialized, state)
-    return
+  const result = new Set<number>()
+  for (let index = tails[tails.length - 1] ?? -1; index >= 0; index = previous[index]!) {
+    result.add(index)
   }
+  return result
+}
 
-  if (serialized.type === CommandType.DUPLICATE) {
-    applyDuplicatePages(serialized, state)
-    return
+/**
+ * Restates a reorder as "reverse" or as moves of page blocks relative to the
+ * pages that kept their order. Pages outside the longest run that kept its
+ * order are moved, in target order, one contiguous block at a time.
+ */
+function mapReorderCommand(
+  payload: Record<string, unknown>,
+  state: WorkflowPageTrackerState,
+): CandidateDraft[] | null {
+  const currentIds = getContentIds(state)
+  const nextIds = toRecordArray(payload.newOrder).flatMap((entry) =>
+    entry.isDivider !== true && typeof entry.id === 'string' ? [entry.id] : [],
+  )
+  const currentIndex = new Map(currentIds.map((id, index) => [id, index]))
+  if (nextIds.length !== currentIds.length || nextIds.some((id) => !currentIndex.has(id))) {
+    return null
   }
+  // Only dividers moved; positions of pages cannot express that.
+  if (nextIds.every((id, index) => id === currentIds[index])) return null
 
-  if (serialized.type === CommandType.REORDER) {
-    applyReorderPages(serialized, state)
-    return
+  if (
+    nextIds.length > 1 &&
+    nextIds.every((id, index) => id === currentIds[currentIds.length - 1 - index])
+  ) {
+    return [{ commandType: WorkflowActionType.REVERSE_ORDER, params: {} }]
   }
 
-  if (serialized.type === CommandType.REMOVE_SOURCE) {
-    applyRemoveSource(serialized, state)
-  }
+  const kept = findLongestIncreasingRun(nextIds.map((id) => currentIndex.get(id)!))
+  const blocks: string[][] = []
+  nextIds.forEach((id, index) => {
+    if (kept.has(index)) return
+    const block = blocks[blocks.length - 1]
+    const previousId = nextIds[index - 1]
+    const continuesBlock =
+      block &&
+      previousId !== undefined &&
+      previousId === block[block.length - 1] &&
+      currentIndex.get(id) === currentIndex.get(previousId)! + 1
+    if (continuesBlock) block.push(id)
+    else blocks.push([id])
+  })
+
+  let order = [...currentIds]
+  return blocks.map((block) => {
+    const positions = block.map((id) => order.indexOf(id))
+    const remaining = order.filter((id) => !block.includes(id))
+    const anchor = nextIds[nextIds.indexOf(block[0]!) - 1]
+    const after = anchor === undefined ? 0 : remaining.indexOf(anchor) + 1
+    const position: WorkflowMovePosition =
+      after === 0 ? 'start' : after === remaining.length ? 'end' : 'after'
+    order = getWorkflowMoveOrder(order.length, positions, position, after).map(
+      (index) => order[index]!,
+    )
+    return {
+      commandType: WorkflowActionType.MOVE_PAGES,
+      params: {
+        range: formatWorkflowPageSelector(positions, order.length),
+        position,
+        after: position === 'after' ? after : 1,
+      },
+    }
+  })
 }
 
-function mapRotateCommandToCandidate(
-  serialized: SerializedCommand,
-  state: WorkflowPageTrackerState,
-  fallbackLabel: string,
-): WorkflowCandidateStep | null {
-  const payload = toRecord(serialized.payload)
-  const pageIds = toStringArray(payload.pageIds)
-  const degrees = Number(payload.degrees)
-  if (!Number.isFinite(degrees) || degrees === 0) return null
-  if (state.pageIds.length === 0 || pageIds.length === 0) return null
-
-  const pageIdSet = new Set(state.pageIds)
-  const selectedSet = new Set(pageIds.filter((id) => pageIdSet.has(id)))
-  if (selectedSet.size === 0) return null
-
-  const allSet = new Set(state.pageIds)
-  const evenSet = new Set(
-    state.pageIds.filter((_, index) => (index + 1) % 2 === 0),
-  )
-  const oddSet = new Set(
-    state.pageIds.filter((_, index) => (index + 1) % 2 === 1),
+function findPaperSize(width: number, height: number): WorkflowPaperSize | null {
+  const [short, long] = width < height ? [width, height] : [height, width]
+  const match = Object.entries(WORKFLOW_PAPER_SIZES).find(
+    ([, paper]) =>
+      Math.abs(paper.width - short) <= PAPER_SIZE_TOLERANCE &&
+      Math.abs(paper.height - long) <= PAPER_SIZE_TOLERANCE,
   )
+  return match ? (match[0] as WorkflowPaperSize) : null
+}
 
-  let commandType: string | null = null
-  let label = fallbackLabel
-
-  if (setEquals(selectedSet, allSet)) {
-    commandType = WorkflowActionType.ROTATE_ALL
-    label = degrees > 0 ? 'Rotate all pages right' : 'Rotate all pages left'
-  } else if (evenSet.size > 0 && setEquals(selectedSet, evenSet)) {
-    commandType = WorkflowActionType.ROTATE_EVEN
-    label = degrees > 0 ? 'Rotate even pages right' : 'Rotate even pages left'
-  } else if (oddSet.size > 0 && setEquals(selectedSet, oddSet)) {
-    commandType = WorkflowActionType.ROTATE_ODD
-    label = degrees > 0 ? 'Rotate odd pages right' : 'Rotate odd pages left'
+/**
+ * Groups resized pages by paper size and displayed orientation. Pages that
+ * kept their own orientation are recorded as `auto`.
+ */
+function mapResizeCommand(
+  payload: Record<string, unknown>,
+  state: WorkflowPageTrackerState,
+): CandidateDraft[] | null {
+  const pageCount = getContentIds(state).length
+  const groups = new Map<
+    string,
+    { paperSize: WorkflowPaperSize; orientation: WorkflowPaperOrientation; positions: number[] }
+  >()
+
+  for (const target of toRecordArray(payload.targets)) {
+    const dimensions = toRecord(target.targetDimensions)
+    const width = Number(dimensions.width)
+    const height = Number(dimensions.height)
+    const paperSize = findPaperSize(width, height)
+    const [position] = getPositions(state, [String(target.pageId)])
+    if (!paperSize || position === undefined) return null
+
+    const page = state.pages.get(String(target.pageId))
+    const quarterTurn = (page?.rotation ?? 0) % 180 === 90
+    const displayLandscape = width > height !== quarterTurn
+    const ownDisplayLandscape =
+      page?.width && page.height ? page.width > page.height !== quarterTurn : null
+    const orientation: WorkflowPaperOrientation =
+      ownDisplayLandscape === displayLandscape
+        ? 'auto'
+        : displayLandscape
+          ? 'landscape'
+          : 'portrait'
+
+    const key = `${paperSize}:${orientation}`
+    const group = groups.get(key) ?? { paperSize, orientation, positions: [] }
+    group.positions.push(position)
+    groups.set(key, group)
   }
 
-  if (!commandType) return null
+  if (groups.size === 0) return null
+  return [...groups.values()].map(({ paperSize, orientation, positions }) => ({
+    commandType: WorkflowActionType.RESIZE_PAGES,
+    params: { range: formatWorkflowPageSelector(positions, pageCount), paperSize, orientation },
+  }))
+}
 
-  return {
-    commandId: toCommandId(serialized),
-    label,
-    commandType,
-    params: { degrees },
-    includeByDefault: true,
-    sourceCommandType: serialized.type,
-  }
+/** A divider splits after the nearest page before it; dividers at either end change nothing */
+function mapSplitCommand(
+  payload: Record<string, unknown>,
+  state: WorkflowPageTrackerState,
+): CandidateDraft[] | null {
+  const index = Number(payload.index)
+  if (!Number.isInteger(index)) return null
+  const before = state.entries.slice(0, index).filter((entry) => !entry.isDivider)
+  const hasPagesAfter = state.entries.slice(index).some((entry) => !entry.isDivider)
+  const pageId = before[before.length - 1]?.id
+  if (!pageId || !hasPagesAfter) return []
+
+  return [
+    {
+      commandType: WorkflowActionType.SPLIT_AFTER,
+      params: {
+        range: formatWorkflowPageSelector(
+          getPositions(state, [pageId]),
+          getContentIds(state).length,
+        ),
+      },
+    },
+  ]
 }
 
-function mapDeleteCommandToCandidate(
-  serialized: SerializedCommand,
+function mapDuplicateCommand(
+  payload: Record<string, unknown>,
   state: WorkflowPageTrackerState,
-): WorkflowCandidateStep | null {
-  const payload = toRecord(serialized.payload)
-  const snapshots = Array.isArray(payload.backupSnapshots) ? payload.backupSnapshots : []
-  if (snapshots.length !== 1 || state.pageIds.length === 0) return null
-
-  const snapshot = snapshots[0]
-  if (!snapshot || typeof snapshot !== 'object') return null
-  const page = (snapshot as { page?: unknown }).page
-  const snapshotPageId =
-    page && typeof page === 'object' && typeof (page as { id?: unknown }).id === 'string'
-      ? ((page as { id: string }).id as string)
-      : null
-  const index = (snapshot as { index?: unknown }).index
-
-  const firstPageId = state.pageIds[0]
-  const lastPageId = state.pageIds[state.pageIds.length - 1]
-
-  if ((snapshotPageId && snapshotPageId === firstPageId) || index === 0) {
-    return {
-      commandId: toCommandId(serialized),
-      label: 'Delete first page',
-      commandType: WorkflowActionType.DELETE_FIRST_PAGE,
-      params: {},
-      includeByDefault: true,
-      sourceCommandType: serialized.type,
-    }
-  }
+): CandidateDraft[] | null {
+  const positions = getPositions(state, toStringArray(payload.sourcePageIds))
+  if (positions.length === 0) return null
+  return [
+    {
+      commandType: WorkflowActionType.DUPLICATE_PAGES,
+      params: { range: formatWorkflowPageSelector(positions, getContentIds(state).length) },
+    },
+  ]
+}
 
-  if (
-    (snapshotPageId && snapshotPageId === lastPageId) ||
-    (typeof index === 'number' && Number.isInteger(index) && index === state.pageIds.length - 1)
-  ) {
-    return {
-      commandId: toCommandId(serialized),
-      label: 'Delete last page',
-      commandType: WorkflowActionType.DELETE_LAST_PAGE,
-      params: {},
-      includeByDefault: true,
-      sourceCommandType: serialized.type,
-    }
+function mapRedactCommand(
+  payload: Record<string, unknown>,
+  state: WorkflowPageTrackerState,
+): CandidateDraft[] | null {
+  const positions = getPositions(state, [String(payload.pageId)])
+  const areas = toRecordArray(payload.redactions).map(({ x, y, width, height, color }) => ({
+    x,
+    y,
+    width,
+    height,
+    color: color === 'white' ? 'white' : 'black',
+  }))
+  if (positions.length === 0 || areas.length === 0) return null
+  return [
+    {
+      commandType: WorkflowActionType.REDACT_AREAS,
+      params: { range: formatWorkflowPageSelector(positions, getContentIds(state).length), areas },
+    },
+  ]
+}
+
+/** Fields that gained a value; cleared fields cannot be replayed and are left out */
+function mapMetadataCommand(payload: Record<string, unknown>): CandidateDraft[] | null {
+  const previous = toRecord(payload.previous)
+  const next = toRecord(payload.next)
+  const params: Record<string, string> = { title: '', author: '', subject: '', keywords: '' }
+
+  for (const key of ['title', 'author', 'subject'] as const) {
+    const nextValue = next[key]
+    const value = typeof nextValue === 'string' ? nextValue.trim() : ''
+    if (value && value !== previous[key]) params[key] = value
+  }
+  const keywords = toStringArray(next.keywords).join(', ')
+  if (keywords && keywords !== toStringArray(previous.keywords).join(', ')) {
+    params.keywords = keywords
   }
 
-  return null
+  if (!Object.values(params).some(Boolean)) return null
+  return [{ commandType: WorkflowActionType.SET_METADATA, params }]
 }
 
-function mapCommandToCandidate(
+/** Steps for one command, or null when the edit has no positional equivalent */
+function mapCommandToDrafts(
   serialized: SerializedCommand,
   state: WorkflowPageTrackerState,
-  fallbackLabel: string,
-): WorkflowCandidateStep | null {
-  if (serialized.type === CommandType.ROTATE) {
-    return mapRotateCommandToCandidate(serialized, state, fallbackLabel)
-  }
-  if (serialized.type === CommandType.DELETE) {
-    return mapDeleteCommandToCandidate(serialized, state)
+): CandidateDraft[] | null {
+  const payload = toRecord(serialized.payload)
+  switch (serialized.type) {
+    case CommandType.ROTATE:
+      return mapRotateCommand(payload, state)
+    case CommandType.DELETE:
+      return mapDeleteCommand(payload, state)
+    case CommandType.REORDER:
+      return mapReorderCommand(payload, state)
+    case CommandType.RESIZE:
+      return mapResizeCommand(payload, state)
+    case CommandType.SPLIT:
+      return mapSplitCommand(payload, state)
+    case CommandType.DUPLICATE:
+      return mapDuplicateCommand(payload, state)
+    case CommandType.REDACT:
+      return mapRedactCommand(payload, state)
+    case CommandType.UPDATE_METADATA:
+      return mapMetadataCommand(payload)
+    case CommandType.UPDATE_OUTLINE:
+      return payload.name === RESET_OUTLINE_NAME
+        ? [{ commandType: WorkflowActionType.GENERATE_OUTLINE, params: {} }]
+        : null
+    default:
+      return null
   }
-  return null
 }
 
 function collectCandidatesFromSerialized(
   serialized: SerializedCommand,
   state: WorkflowPageTrackerState,
-  fallbackLabel: string,
   result: WorkflowCandidateBuildResult,
 ): void {
   if (serialized.type === CommandType.BATCH) {
     const payload = toRecord(serialized.payload)
-    const children = Array.isArray(payload.commands) ? payload.commands : []
-    for (const child of children) {
-      if (!child || typeof child !== 'object') continue
-      collectCandidatesFromSerialized(child as SerializedCommand, state, fallbackLabel, result)
+    for (const child of toRecordArray(payload.commands)) {
+      collectCandidatesFromSerialized(child as unknown as SerializedCommand, state, result)
     }
     return
   }
 
-  const candidate = mapCommandToCandidate(serialized, state, fallbackLabel)
-  if (candidate) {
-    result.candidates.push(candidate)
-  } else if (serialized.type === CommandType.ROTATE || serialized.type === CommandType.DELETE) {
-    result.unsupportedCount += 1
+  if (!INPUT_COMMAND_TYPES.has(serialized.type)) {
+    const drafts = mapCommandToDrafts(serialized, state)
+    if (drafts) {
+      const commandId = toCommandId(serialized)
+      drafts.forEach((draft, index) => {
+        const commandType = draft.commandType as WorkflowActionTypeValue
+        result.candidates.push({
+          commandId: index === 0 ? commandId : `${commandId}:${index}`,
+          label: draft.label ?? WORKFLOW_STEP_CATALOG[commandType].label,
+          commandType,
+          params: draft.params,
+          includeByDefault: true,
+          sourceCommandType: serialized.type,
+        })
+      })
+    } else {
+      result.unsupportedCount += 1
+    }
   }
 
   applyCommandToTracker(serialized, state)
@@ -327,15 +589,14 @@ function collectCandidatesFromSerialized(
 export function buildWorkflowCandidateSteps(
   commands: ReadonlyArray<Command>,
 ): WorkflowCandidateBuildResult {
-  const trackerState: WorkflowPageTrackerState = { pageIds: [] }
+  const trackerState: WorkflowPageTrackerState = { entries: [], pages: new Map() }
   const result: WorkflowCandidateBuildResult = {
     candidates: [],
     unsupportedCount: 0,
   }
 
   for (const command of commands) {
-    const serialized = command.serialize()
-    collectCandidatesFromSerialized(serialized, trackerState, command.name, result)
+    collectCandidatesFromSerialized(command.serialize(), trackerState, result)
   }
 
   return result
@@ -354,4 +615,3 @@ export function materializeWorkflowSteps(
     params: toPlain(candidate.params),
   }))
 }
-
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest'
+import { createDocumentPreflightAnalysis } from '@/domains/document/application/preflight/analyze-document-preflight'
+import { createDocumentState } from '@/domains/project-session/session/document-state'
+import { PreflightRuleId } from '@/shared/types/linter'
+
+function createStore() {
+  const store = createDocumentState()
+  store.addSourceFile({
+    id: 'archive',
+    filename: 'archive.pdf',
+    pageCount: 1,
+    fileSize: 1024,
+    addedAt: Date.now(),
+    color: 'zinc',
+    pageMetaData: [{ width: 612, height: 792, rotation: 0 }],
+    metadata: { title: '', author: '', subject: '', keywords: [], pdfVersion: 'PDF/A' },
+  })
+  store.addSourceFile({
+    id: 'plain',
+    filename: 'plain.pdf',
+    pageCount: 1,
+    fileSize: 1024,
+    addedAt: Date.now(),
+    color: 'zinc',
+    pageMetaData: [{ width: 612, height: 792, rotation: 0 }],
+  })
+  store.addPages([
+    { id: 'p1', sourceFileId: 'archive', sourcePageIndex: 0, rotation: 0, width: 612, height: 792 },
+    { id: 'p2', sourceFileId: 'plain', sourcePageIndex: 0, rotation: 0, width: 612, height: 792 },
+  ])
+  store.setMetadata({ title: 'Annual report' })
+  return store
+}
+
+describe('document preflight PDF/A rule', () => {
+  it('flags features and pages that block PDF/A conformance only when PDF/A is selected', () => {
+    const store = createStore()
+    const problems = createDocumentPreflightAnalysis(store)
+    store.setSecurity({ isEncrypted: true, userPassword: 'secret' })
+    store.setWatermark({ enabled: true, kind: 'text', text: 'DRAFT' })
+
+    expect(problems.value.filter((problem) => problem.ruleId === PreflightRuleId.PDFA)).toEqual([])
+
+    store.setMetadata({ pdfVersion: 'PDF/A' })
+    const pdfaProblems = problems.value.filter((problem) => problem.ruleId === PreflightRuleId.PDFA)
+
+    expect(pdfaProblems).toEqual([
+      expect.objectContaining({ severity: 'error', pageIds: [] }),
+      expect.objectContaining({ severity: 'warning', pageIds: [] }),
+      expect.objectContaining({ severity: 'warning', pageIds: ['p2'] }),
+    ])
+    expect(pdfaProblems[0]?.message).toContain('text watermark')
+  })
+
+  it('lists pages whose free-text annotations use a standard font', () => {
+    const store = createStore()
+    store.addAnnotations('p1', [
+      {
+        id: 'a1',
+        kind: 'freeText',
+        color: '#000000',
+        text: 'Approved',
+        x: 10,
+        y: 10,
+        width: 80,
+        height: 20,
+      },
+    ])
+    const problems = createDocumentPreflightAnalysis(store)
+
+    store.setMetadata({ pdfVersion: 'PDF/A' })
+
+    expect(problems.value).toContainEqual(
+      expect.objectContaining({ ruleId: PreflightRuleId.PDFA, severity: 'error', pageIds: ['p1'] }),
+    )
+  })
+
+  it('does not list generated blank pages as non-conforming', () => {
+    const store = createStore()
+    store.addSourceFile({
+      id: 'blank',
+      filename: 'Blank page (Letter).pdf',
+      pageCount: 1,
+      fileSize: 512,
+      addedAt: Date.now(),
+      color: 'zinc',
+      pageMetaData: [{ width: 612, height: 792, rotation: 0 }],
+      isBlankSource: true,
+    })
+    store.addPages([
+      { id: 'p3', sourceFileId: 'blank', sourcePageIndex: 0, rotation: 0, width: 612, height: 792 },
+    ])
+    const problems = createDocumentPreflightAnalysis(store)
+
+    store.setMetadata({ pdfVersion: 'PDF/A' })
+
+    expect(problems.value).toContainEqual(
+      expect.objectContaining({ ruleId: PreflightRuleId.PDFA, pageIds: ['p2'] }),
+    )
+  })
+})
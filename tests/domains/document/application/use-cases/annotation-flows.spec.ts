@@ -0,0 +1,70 @@
+import { describe, expect, it, vi } from 'vitest'
+import {
+  addAnnotation,
+  deleteAnnotations,
+  updateAnnotation,
+} from '@/domains/document/application/use-cases'
+import {
+  AddAnnotationCommand,
+  BatchCommand,
+  DeleteAnnotationCommand,
+  UpdateAnnotationCommand,
+} from '@/domains/history/domain/commands'
+import type { PageAnnotation } from '@/shared/types'
+
+function createAnnotation(id: string): PageAnnotation {
+  return {
+    id,
+    kind: 'note',
+    x: 10,
+    y: 20,
+    width: 20,
+    height: 20,
+    color: '#ffd400',
+    text: 'Check',
+  }
+}
+
+describe('annotation command use-cases', () => {
+  it('delegates add annotation to history execution', () => {
+    const history = { execute: vi.fn() }
+
+    const command = addAnnotation(history, 'page-1', createAnnotation('a-1'))
+
+    expect(command).toBeInstanceOf(AddAnnotationCommand)
+    expect(command.name).toBe('Add annotation')
+    expect(history.execute).toHaveBeenCalledWith(command)
+  })
+
+  it('delegates update annotation to history execution', () => {
+    const history = { execute: vi.fn() }
+    const previous = createAnnotation('a-1')
+
+    const command = updateAnnotation(history, 'page-1', previous, { ...previous, text: 'Done' })
+
+    expect(command).toBeInstanceOf(UpdateAnnotationCommand)
+    expect(history.execute).toHaveBeenCalledWith(command)
+  })
+
+  it('ignores empty annotation collections', () => {
+    const history = { execute: vi.fn() }
+
+    expect(deleteAnnotations(history, 'page-1', [])).toBeNull()
+    expect(history.execute).not.toHaveBeenCalled()
+  })
+
+  it('deletes several annotations as one batch', () => {
+    const history = { execute: vi.fn() }
+
+    const command = deleteAnnotations(history, 'page-1', [
+      createAnnotation('a-1'),
+      createAnnotation('a-2'),
+    ])
+
+    expect(command).toBeInstanceOf(BatchCommand)
+    expect(command?.name).toBe('Delete 2 annotations')
+    const commands = (command as BatchCommand).getCommands()
+    expect(commands.every((entry) => entry instanceof DeleteAnnotationCommand)).toBe(true)
+    expect(history.execute).toHaveBeenCalledWith(command)
+  })
+})
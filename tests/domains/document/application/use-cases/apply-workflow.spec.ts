@@ -0,0 +1,192 @@
+import { describe, expect, it } from 'vitest'
+import { applyWorkflow } from '@/domains/document/application/use-cases'
+import { createHistoryCommandExecutor } from '@/domains/history/application'
+import { BatchCommand } from '@/domains/history/domain/commands'
+import { createDocumentState } from '@/domains/project-session/session/document-state'
+import {
+  WorkflowActionType,
+  planWorkflowForProject,
+  type WorkflowProjectContext,
+} from '@/domains/workflows/domain'
+import { isDividerEntry, type PageReference, type SourceFile } from '@/shared/types'
+import type { WorkflowStep } from '@/shared/types/workflow'
+
+function createSource(id: string, pageCount: number): SourceFile {
+  return {
+    id,
+    filename: `${id}.pdf`,
+    pageCount,
+    fileSize: 1024,
+    addedAt: Date.now(),
+    color: 'zinc',
+    pageMetaData: Array.from({ length: pageCount }, () => ({ width: 612, height: 792 })),
+  }
+}
+
+function createPage(index: number): PageReference {
+  return {
+    id: `page-${index + 1}`,
+    sourceFileId: 'source-1',
+    sourcePageIndex: index,
+    rotation: 0,
+    width: 612,
+    height: 792,
+  }
+}
+
+function step(commandType: string, params: Record<string, unknown> = {}): WorkflowStep {
+  return { id: commandType, label: commandType, commandType, params }
+}
+
+function createProject(pageCount = 5) {
+  const store = createDocumentState()
+  const executor = createHistoryCommandExecutor({ documentStore: store })
+  store.addSourceFile(createSource('source-1', pageCount))
+  store.addPages(Array.from({ length: pageCount }, (_, index) => createPage(index)))
+  return { store, executor }
+}
+
+function createContext(
+  store: ReturnType<typeof createDocumentState>,
+  overrides: Partial<WorkflowProjectContext> = {},
+): WorkflowProjectContext {
+  return {
+    pages: store.pages,
+    metadata: store.metadata,
+    outlineTree: store.outlineTree,
+    sources: store.sources,
+    scopePageIds: null,
+    getPageSize: (page) => ({ width: page.width ?? 0, height: page.height ?? 0 }),
+    ...overrides,
+  }
+}
+
+function getEntryIds(store: ReturnType<typeof createDocumentState>): string[] {
+  return store.pages.map((entry) => (isDividerEntry(entry) ? '|' : entry.id))
+}
+
+describe('applyWorkflow use-case', () => {
+  it('applies every step to the project as one batch that undo reverts', () => {
+    const { store, executor } = createProject()
+    const originalTitle = store.metadata.title
+    const plan = planWorkflowForProject(
+      [
+        step(WorkflowActionType.REMOVE_BLANK_PAGES),
+        step(WorkflowActionType.DELETE_PAGE_RANGE, { range: '4' }),
+        step(WorkflowActionType.REVERSE_ORDER),
+        step(WorkflowActionType.ROTATE_ODD, { degrees: 180 }),
+        step(WorkflowActionType.RESIZE_PAGES, { paperSize: 'a4', orientation: 'landscape' }),
+        step(WorkflowActionType.SET_METADATA, { title: 'Scans', keywords: 'a, b' }),
+        step(WorkflowActionType.SPLIT_EVERY, { pages: 2 }),
+        step(WorkflowActionType.COMPRESS, { quality: 'screen' }),
+      ],
+      createContext(store, { blankPageIds: new Set(['page-3']) }),
+    )
+
+    expect(plan.skippedSteps.map((skipped) => skipped.stepId)).toEqual([
+      WorkflowActionType.COMPRESS,
+    ])
+
+    const command = applyWorkflow(
+      { execute: (next) => executor.execute(next) },
+      { name: 'Scans', operations: plan.operations, metadataDirty: false, outlineDirty: false },
+    )
+
+    expect(command).toBeInstanceOf(BatchCommand)
+    expect(command?.name).toBe('Apply workflow "Scans"')
+    expect(getEntryIds(store)).toEqual(['page-4', 'page-2', '|', 'page-1'])
+
+    const [first, second] = store.contentPages
+    expect(first?.rotation).toBe(180)
+    expect(second?.rotation).toBe(0)
+    expect(first?.targetDimensions?.width).toBeCloseTo(841.89)
+    expect(first?.targetDimensions?.height).toBeCloseTo(595.28)
+    expect(store.metadata.title).toBe('Scans')
+    expect(store.metadata.keywords).toEqual(['a', 'b'])
+    expect(store.metadataDirty).toBe(true)
+
+    executor.undo(command!)
+
+    expect(getEntryIds(store)).toEqual(['page-1', 'page-2', 'page-3', 'page-4', 'page-5'])
+    expect(store.contentPages.every((page) => page.rotation === 0)).toBe(true)
+    expect(store.contentPages.every((page) => !page.targetDimensions)).toBe(true)
+    expect(store.metadata.title).toBe(originalTitle)
+    expect(store.metadataDirty).toBe(false)
+  })
+
+  it('counts page positions within the selection and leaves other pages alone', () => {
+    const { store, executor } = createProject()
+    const plan = planWorkflowForProject(
+      [
+        step(WorkflowActionType.DELETE_FIRST_PAGE),
+        step(WorkflowActionType.REVERSE_ORDER),
+        step(WorkflowActionType.ROTATE_ALL, { degrees: -90 }),
+      ],
+      createContext(store, { scopePageIds: new Set(['page-2', 'page-3', 'page-4']) }),
+    )
+
+    applyWorkflow(
+      { execute: (next) => executor.execute(next) },
+      { name: 'Selection', operations: plan.operations, metadataDirty: false, outlineDirty: false },
+    )
+
+    expect(getEntryIds(store)).toEqual(['page-1', 'page-4', 'page-3', 'page-5'])
+    expect(store.contentPages.map((page) => page.rotation)).toEqual([0, 270, 270, 0])
+  })
+
+  it('moves, copies, bookmarks and redacts pages by position', () => {
+    const { store, executor } = createProject(4)
+    const plan = planWorkflowForProject(
+      [
+        step(WorkflowActionType.MOVE_PAGES, { range: '1-2', position: 'after', after: 1 }),
+        step(WorkflowActionType.DUPLICATE_PAGES, { range: 'last' }),
+        step(WorkflowActionType.SPLIT_AFTER, { range: '1, last' }),
+        step(WorkflowActionType.GENERATE_OUTLINE),
+        step(WorkflowActionType.REDACT_AREAS, {
+          range: 'first',
+          areas: [{ x: 0, y: 0, width: 50, height: 20 }],
+        }),
+      ],
+      createContext(store),
+    )
+
+    const command = applyWorkflow(
+      { execute: (next) => executor.execute(next) },
+      { name: 'Deck', operations: plan.operations, metadataDirty: false, outlineDirty: true },
+    )
+
+    const [, , , , copy] = store.contentPages
+    expect(getEntryIds(store)).toEqual(['page-3', '|', 'page-1', 'page-2', 'page-4', copy!.id])
+    expect(copy!.id).not.toBe('page-4')
+    expect(store.outlineTree.map((node) => node.title)).toEqual(['source-1'])
+    expect(store.outlineDirty).toBe(false)
+    expect(store.contentPages[0]!.redactions).toEqual([
+      expect.objectContaining({ x: 0, y: 0, width: 50, height: 20, color: 'black' }),
+    ])
+
+    executor.undo(command!)
+
+    expect(getEntryIds(store)).toEqual(['page-1', 'page-2', 'page-3', 'page-4'])
+    expect(store.outlineTree).toEqual([])
+    expect(store.outlineDirty).toBe(true)
+    expect(store.contentPages[2]!.redactions ?? []).toEqual([])
+  })
+
+  it('skips export-only steps and steps that would remove every page', () => {
+    const { store } = createProject(2)
+    const plan = planWorkflowForProject(
+      [
+        step(WorkflowActionType.ADD_PAGE_NUMBERS),
+        step(WorkflowActionType.KEEP_PAGE_RANGE, { range: '3-4' }),
+        step(WorkflowActionType.DELETE_LAST_PAGE),
+      ],
+      createContext(store),
+    )
+
+    expect(plan.skippedSteps.map((skipped) => skipped.stepId)).toEqual([
+      WorkflowActionType.ADD_PAGE_NUMBERS,
+      WorkflowActionType.KEEP_PAGE_RANGE,
+    ])
+    expect(plan.operations).toEqual([{ type: 'delete', pageIds: ['page-2'] }])
+  })
+})
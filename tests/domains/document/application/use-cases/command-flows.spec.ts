@@ -5,22 +5,26 @@ import {
   addPagesBatch,
   addSource,
   addSources,
+  cropPages,
   deletePages,
   duplicatePages,
   removeSource,
   resizePages,
   rotatePages,
   splitGroup,
+  splitSpreads,
 } from '@/domains/document/application/use-cases'
 import {
   AddPagesCommand,
   AddSourceCommand,
+  CropPagesCommand,
   DeletePagesCommand,
   DuplicatePagesCommand,
   RemoveSourceCommand,
   ResizePagesCommand,
   RotatePagesCommand,
   SplitGroupCommand,
+  SplitSpreadCommand,
 } from '@/domains/history/domain/commands'
 import type { PageEntry, PageReference, SourceFile } from '@/shared/types'
 
@@ -169,6 +173,19 @@ describe('document command-flow use-cases', () => {
     expect(history.execute).toHaveBeenCalledWith(command)
   })
 
+  it('delegates crop pages to history execution', () => {
+    const history = { execute: vi.fn() }
+
+    const command = cropPages(history, [
+      { pageId: 'page-1', crop: { x: 36, y: 36, width: 540, height: 720 } },
+      { pageId: 'page-2', crop: { x: 36, y: 36, width: 540, height: 720 } },
+    ])
+
+    expect(command).toBeInstanceOf(CropPagesCommand)
+    expect(command.name).toBe('Crop 2 pages')
+    expect(history.execute).toHaveBeenCalledWith(command)
+  })
+
   it('delegates split group to history execution', () => {
     const history = { execute: vi.fn() }
 
@@ -179,6 +196,24 @@ describe('document command-flow use-cases', () => {
     expect(history.execute).toHaveBeenCalledWith(command)
   })
 
+  it('delegates split spreads to history execution', () => {
+    const history = { execute: vi.fn() }
+
+    const command = splitSpreads(history, [
+      {
+        pageId: 'page-1',
+        crops: [
+          { x: 0, y: 0, width: 306, height: 792 },
+          { x: 306, y: 0, width: 306, height: 792 },
+        ],
+      },
+    ])
+
+    expect(command).toBeInstanceOf(SplitSpreadCommand)
+    expect(command.name).toBe('Split page')
+    expect(history.execute).toHaveBeenCalledWith(command)
+  })
+
   it('delegates remove source to history execution', () => {
     const history = { execute: vi.fn() }
     const source = createSource('source-1')
@@ -1,6 +1,7 @@
 import { describe, expect, it, vi } from 'vitest'
 import {
   addRedaction,
+  addRedactions,
   deleteRedaction,
   deleteRedactions,
   updateOutlineTree,
@@ -104,6 +105,24 @@ describe('redaction and outline command use-cases', () => {
     expect(history.execute).toHaveBeenCalledWith(command)
   })
 
+  it('adds redactions across pages as one batch', () => {
+    const history = { execute: vi.fn() }
+
+    const command = addRedactions(history, [
+      { pageId: 'page-1', redactions: [createRedaction('r-1'), createRedaction('r-2')] },
+      { pageId: 'page-2', redactions: [] },
+      { pageId: 'page-3', redactions: [createRedaction('r-3')] },
+    ])
+
+    expect(command).toBeInstanceOf(BatchCommand)
+    expect(command?.name).toBe('Add 3 redactions')
+    const commands = (command as BatchCommand).getCommands()
+    expect(commands).toHaveLength(2)
+    expect(commands.every((entry) => entry instanceof AddRedactionCommand)).toBe(true)
+    expect((commands[1] as AddRedactionCommand).pageId).toBe('page-3')
+    expect(history.execute).toHaveBeenCalledWith(command)
+  })
+
   it('delegates outline updates to history execution', () => {
     const history = { execute: vi.fn() }
     const nextTree: OutlineNode[] = [
@@ -1,22 +1,68 @@
 import { describe, expect, it, vi } from 'vitest'
-import { updateMetadata } from '@/domains/document/application/use-cases/update-metadata'
+import { updateMetadata, updateSecurity } from '@/domains/document/application/use-cases'
+import { UpdateMetadataCommand, UpdateSecurityCommand } from '@/domains/history/domain/commands'
+import type { DocumentMetadata } from '@/shared/types'
+
+const metadata: DocumentMetadata = {
+  title: 'Report',
+  author: 'Alice',
+  subject: '',
+  keywords: ['q3'],
+}
 
 describe('updateMetadata', () => {
-  it('marks metadata dirty by default', () => {
-    const store = { setMetadata: vi.fn() }
+  it('executes a command that marks metadata dirty by default', () => {
+    const history = { execute: vi.fn() }
+
+    const command = updateMetadata(history, {
+      previous: metadata,
+      updates: { title: 'Updated title' },
+      previousDirty: false,
+      mergeKey: 'metadata:title',
+    })
+
+    expect(command).toBeInstanceOf(UpdateMetadataCommand)
+    expect(history.execute).toHaveBeenCalledWith(command)
+    expect(command.next).toEqual({ ...metadata, title: 'Updated title' })
+    expect(command.nextDirty).toBe(true)
+    expect(command.mergeKey).toBe('metadata:title')
+  })
+
+  it('allows explicit markDirty override without clearing existing dirty state', () => {
+    const history = { execute: vi.fn() }
 
-    updateMetadata(store, { title: 'Updated title' })
+    const clean = updateMetadata(history, {
+      previous: metadata,
+      updates: { author: 'Bob' },
+      previousDirty: false,
+      markDirty: false,
+    })
+    const stillDirty = updateMetadata(history, {
+      previous: metadata,
+      updates: { author: 'Bob' },
+      previousDirty: true,
+      markDirty: false,
+    })
 
-    expect(store.setMetadata).toHaveBeenCalledOnce()
-    expect(store.setMetadata).toHaveBeenCalledWith({ title: 'Updated title' }, true)
+    expect(clean.nextDirty).toBe(false)
+    expect(stillDirty.nextDirty).toBe(true)
   })
+})
 
-  it('allows explicit markDirty override', () => {
-    const store = { setMetadata: vi.fn() }
+describe('updateSecurity', () => {
+  it('executes a command with the merged security state', () => {
+    const history = { execute: vi.fn() }
+    const previous = {
+      isEncrypted: false,
+      allowPrinting: true,
+      allowCopying: true,
+      allowModifying: true,
+    }
 
-    updateMetadata(store, { author: 'Alice' }, { markDirty: false })
+    const command = updateSecurity(history, { previous, updates: { allowPrinting: false } })
 
-    expect(store.setMetadata).toHaveBeenCalledOnce()
-    expect(store.setMetadata).toHaveBeenCalledWith({ author: 'Alice' }, false)
+    expect(command).toBeInstanceOf(UpdateSecurityCommand)
+    expect(history.execute).toHaveBeenCalledWith(command)
+    expect(command.next).toEqual({ ...previous, allowPrinting: false })
   })
 })
@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest'
+import {
+  findBlankSource,
+  getBlankPageInsertIndex,
+  getBlankPageLabel,
+  getPageDisplaySize,
+} from '@/domains/document/domain/blank-pages'
+import type { PageEntry, PageReference, SourceFile } from '@/shared/types'
+
+function createSource(id: string, width: number, height: number, isBlankSource = true): SourceFile {
+  return {
+    id,
+    filename: `${id}.pdf`,
+    pageCount: 1,
+    fileSize: 512,
+    addedAt: 0,
+    color: 'zinc',
+    pageMetaData: [{ width, height, rotation: 0 }],
+    ...(isBlankSource ? { isBlankSource } : {}),
+  }
+}
+
+describe('blank pages', () => {
+  it('sizes pages as they appear in the document', () => {
+    const page: PageReference = {
+      id: 'p1',
+      sourceFileId: 's1',
+      sourcePageIndex: 0,
+      rotation: 90,
+      width: 612,
+      height: 792,
+    }
+
+    expect(getPageDisplaySize(page)).toEqual({ width: 792, height: 612 })
+    expect(getPageDisplaySize({ ...page, crop: { x: 0, y: 0, width: 300, height: 400 } })).toEqual({
+      width: 400,
+      height: 300,
+    })
+    expect(
+      getPageDisplaySize(
+        { ...page, rotation: 0, width: undefined, height: undefined },
+        {
+          width: 420,
+          height: 595,
+        },
+      ),
+    ).toEqual({ width: 420, height: 595 })
+  })
+
+  it('labels preset and custom sizes', () => {
+    expect(getBlankPageLabel({ width: 595.28, height: 841.89 })).toBe('A4')
+    expect(getBlankPageLabel({ width: 1008, height: 612 })).toBe('Legal landscape')
+    expect(getBlankPageLabel({ width: 432, height: 648 })).toBe('6.00 x 9.00 in')
+  })
+
+  it('reuses a blank source of the same size only', () => {
+    const letter = createSource('letter', 612, 792)
+    const imported = createSource('imported', 595.28, 841.89, false)
+
+    expect(findBlankSource([imported, letter], { width: 612.2, height: 792 })).toBe(letter)
+    expect(findBlankSource([imported, letter], { width: 595.28, height: 841.89 })).toBeUndefined()
+  })
+
+  it('places blank pages next to the anchor or at the document edges', () => {
+    const pages: PageEntry[] = [
+      { id: 'p1', sourceFileId: 's1', sourcePageIndex: 0, rotation: 0 },
+      { id: 'divider', isDivider: true },
+      { id: 'p2', sourceFileId: 's1', sourcePageIndex: 1, rotation: 0 },
+    ]
+
+    expect(getBlankPageInsertIndex(pages, 'p2', 'before')).toBe(2)
+    expect(getBlankPageInsertIndex(pages, 'p1', 'after')).toBe(1)
+    expect(getBlankPageInsertIndex(pages, null, 'before')).toBe(0)
+    expect(getBlankPageInsertIndex(pages, 'missing', 'after')).toBe(3)
+  })
+})
@@ -0,0 +1,41 @@
+import { describe, expect, it } from 'vitest'
+import { detectContentBounds, getContentCrop } from '@/domains/document/domain/crop'
+
+function createBitmap(width: number, height: number, ink: Array<[number, number]>) {
+  const pixels = new Uint8ClampedArray(width * height * 4).fill(255)
+  for (const [x, y] of ink) {
+    pixels.set([0, 0, 0, 255], (y * width + x) * 4)
+  }
+  return pixels
+}
+
+describe('auto-crop helpers', () => {
+  it('finds the box around every inked pixel', () => {
+    const pixels = createBitmap(10, 8, [
+      [2, 3],
+      [6, 1],
+      [4, 5],
+    ])
+
+    expect(detectContentBounds(pixels, 10, 8)).toEqual({ left: 2, top: 1, right: 7, bottom: 6 })
+  })
+
+  it('ignores near-white and transparent pixels', () => {
+    const pixels = createBitmap(4, 4, [])
+    pixels.set([250, 250, 250, 255], 0)
+    pixels.set([0, 0, 0, 0], 4)
+
+    expect(detectContentBounds(pixels, 4, 4)).toBeNull()
+  })
+
+  it('scales bounds to page points and keeps the margin on the page', () => {
+    const crop = getContentCrop(
+      { left: 0, top: 10, right: 50, bottom: 40 },
+      { width: 100, height: 200 },
+      { width: 200, height: 400 },
+      5,
+    )
+
+    expect(crop).toEqual({ x: 0, y: 15, width: 105, height: 70 })
+  })
+})
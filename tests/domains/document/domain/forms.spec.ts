@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest'
+import {
+  formatFormDate,
+  getDisplayedWidgetRect,
+  parseFormDate,
+} from '@/domains/document/domain/forms'
+
+describe('form field helpers', () => {
+  it('rotates widget boxes with the displayed page', () => {
+    const widget = { pageIndex: 0, x: 10, y: 20, width: 100, height: 30 }
+    const portrait = { width: 200, height: 300 }
+    const landscape = { width: 300, height: 200 }
+
+    expect(getDisplayedWidgetRect(widget, portrait, 0)).toEqual({
+      x: 10,
+      y: 20,
+      width: 100,
+      height: 30,
+    })
+    expect(getDisplayedWidgetRect(widget, landscape, 90)).toEqual({
+      x: 250,
+      y: 10,
+      width: 30,
+      height: 100,
+    })
+    expect(getDisplayedWidgetRect(widget, portrait, 180)).toEqual({
+      x: 90,
+      y: 250,
+      width: 100,
+      height: 30,
+    })
+    expect(getDisplayedWidgetRect(widget, landscape, 270)).toEqual({
+      x: 20,
+      y: 90,
+      width: 30,
+      height: 100,
+    })
+  })
+
+  it('formats and parses dates with AFDate format strings', () => {
+    expect(formatFormDate('2024-03-07', 'mm/dd/yyyy')).toBe('03/07/2024')
+    expect(formatFormDate('2024-03-07', 'd.m.yy')).toBe('7.3.24')
+    expect(formatFormDate('2024-03-07', 'mmm d, yyyy')).toBe('Mar 7, 2024')
+
+    expect(parseFormDate('03/07/2024', 'mm/dd/yyyy')).toBe('2024-03-07')
+    expect(parseFormDate('7.3.24', 'd.m.yy')).toBe('2024-03-07')
+    expect(parseFormDate('March 7, 2024', 'mmmm d, yyyy')).toBe('2024-03-07')
+    expect(parseFormDate('02/30/2024', 'mm/dd/yyyy')).toBeNull()
+    expect(parseFormDate('', 'mm/dd/yyyy')).toBeNull()
+  })
+})
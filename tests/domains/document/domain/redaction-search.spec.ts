@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import {
+  compileRedactionSearch,
+  findRedactionHits,
+  groupRedactionHitsByPage,
+  type RedactionSearchPage,
+  type RedactionSearchQuery,
+  type RedactionSearchTextItem,
+} from '@/domains/document/domain/redaction-search'
+
+const PAGE_WIDTH = 300
+const PAGE_HEIGHT = 400
+const FONT_SIZE = 12
+const IDENTITY = [1, 0, 0, 1, 0, 0]
+
+function textItem(str: string, x: number, y: number, hasEOL = false): RedactionSearchTextItem {
+  return { str, transform: [10, 0, 0, 10, x, y], width: str.length * 5, height: 10, hasEOL }
+}
+
+function searchText(items: RedactionSearchTextItem[], query: RedactionSearchQuery) {
+  const compiled = compileRedactionSearch(query)
+  if (!compiled) throw new Error('query did not compile')
+  const page: RedactionSearchPage = {
+    pageId: 'page-1',
+    pageNumber: 1,
+    items,
+    viewportTransform: IDENTITY,
+  }
+  return findRedactionHits([page], compiled)
+}
+
+async function loadSearchPage(rotation: number): Promise<RedactionSearchPage> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  page.drawText('Contact jane.doe@example.com today', { x: 40, y: 300, size: FONT_SIZE, font })
+  const bytes = await doc.save()
+
+  const pdf = await pdfjs.getDocument({
+    data: bytes,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise
+  const pdfPage = await pdf.getPage(1)
+  const content = await pdfPage.getTextContent()
+  const viewport = pdfPage.getViewport({ scale: 1, rotation })
+  const items = content.items.flatMap((item) => ('str' in item ? [item] : []))
+  await pdf.destroy()
+
+  return { pageId: 'page-1', pageNumber: 1, items, viewportTransform: viewport.transform }
+}
+
+describe('redaction search', () => {
+  it('finds preset matches and rejects failed checksums', () => {
+    const items = [
+      textItem('Mail jane.doe@example.com or call +1 (555) 010-2030.', 10, 300, true),
+      textItem('IBAN DE89 3704 0044 0532 0130 00, not DE00 3704 0044 0532 0130 00.', 10, 280, true),
+      textItem('Card 4111 1111 1111 1111 and order 1234 5678 9012 3456', 10, 260),
+    ]
+    const texts = (presetId: 'email' | 'iban' | 'phone' | 'credit-card') =>
+      searchText(items, { kind: 'preset', presetId }).map((hit) => hit.text)
+
+    expect(texts('email')).toEqual(['jane.doe@example.com'])
+    expect(texts('iban')).toEqual(['DE89 3704 0044 0532 0130 00'])
+    expect(texts('phone')).toContain('+1 (555) 010-2030')
+    expect(texts('credit-card')).toEqual(['4111 1111 1111 1111'])
+  })
+
+  it('handles text and regex queries across text items', () => {
+    const items = [textItem('Project ', 0, 100), textItem('Falcon', 40, 100, true)]
+
+    const [hit] = searchText(items, { kind: 'text', text: 'project falcon' })
+    expect(hit?.text).toBe('Project Falcon')
+    expect(hit?.marks).toHaveLength(2)
+
+    expect(searchText(items, { kind: 'text', text: 'falcon', caseSensitive: true })).toHaveLength(0)
+    expect(searchText(items, { kind: 'text', text: 'Fal', wholeWord: true })).toHaveLength(0)
+    expect(searchText(items, { kind: 'regex', source: 'F\\w+n' })).toHaveLength(1)
+    expect(compileRedactionSearch({ kind: 'regex', source: '(' })).toBeNull()
+    expect(compileRedactionSearch({ kind: 'text', text: '   ' })).toBeNull()
+  })
+
+  it('maps pdf.js text positions into rotated viewport space', async () => {
+    const compiled = compileRedactionSearch({ kind: 'preset', presetId: 'email' })!
+    const upright = await loadSearchPage(0)
+    const [hit] = findRedactionHits([upright], compiled)
+    const mark = hit!.marks[0]!
+
+    // Baseline sits at y = 300 in user space, i.e. 100pt from the top.
+    expect(mark.y).toBeLessThan(PAGE_HEIGHT - 300 - FONT_SIZE * 0.7)
+    expect(mark.y + mark.height).toBeGreaterThan(PAGE_HEIGHT - 300)
+    expect(mark.x).toBeGreaterThan(40)
+    expect(mark.x + mark.width).toBeLessThan(PAGE_WIDTH)
+
+    const rotated = await loadSearchPage(90)
+    const [rotatedHit] = findRedactionHits([rotated], compiled)
+    const rotatedMark = rotatedHit!.marks[0]!
+
+    // At 90 degrees the text runs top-to-bottom, 300pt from the left edge.
+    expect(rotatedMark.x).toBeCloseTo(PAGE_HEIGHT - (mark.y + mark.height), 3)
+    expect(rotatedMark.y).toBeCloseTo(mark.x, 3)
+    expect(rotatedMark.width).toBeCloseTo(mark.height, 3)
+    expect(rotatedMark.height).toBeCloseTo(mark.width, 3)
+
+    expect(groupRedactionHitsByPage([hit!, rotatedHit!])).toEqual([
+      { pageId: 'page-1', redactions: [mark, rotatedMark] },
+    ])
+  })
+})
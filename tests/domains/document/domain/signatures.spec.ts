@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest'
+import {
+  createDrawnArtwork,
+  getDefaultSignaturePlacement,
+  getStrokePath,
+} from '@/domains/document/domain/signatures'
+
+describe('signature helpers', () => {
+  it('crops drawn strokes to their bounds with padding', () => {
+    const artwork = createDrawnArtwork(
+      [
+        [50, 40, 80, 60],
+        [90, 45],
+      ],
+      '#000000',
+      2,
+    )
+
+    // 4px padding plus half the pen width on every side
+    expect(artwork).toMatchObject({ kind: 'drawn', width: 50, height: 30, strokeWidth: 2 })
+    expect(artwork?.strokes).toEqual([
+      [5, 5, 35, 25],
+      [45, 10],
+    ])
+  })
+
+  it('returns null when nothing was drawn', () => {
+    expect(createDrawnArtwork([])).toBeNull()
+    expect(createDrawnArtwork([[]])).toBeNull()
+  })
+
+  it('draws a single point as a dot', () => {
+    expect(getStrokePath([3, 4])).toBe('M 3 4 l 0.01 0')
+    expect(getStrokePath([0, 0, 10, 5, 20, 0])).toBe('M 0 0 L 10 5 L 20 0')
+  })
+
+  it('centers new placements and keeps them on the page', () => {
+    expect(
+      getDefaultSignaturePlacement({ width: 200, height: 50 }, { width: 600, height: 800 }),
+    ).toEqual({ x: 210, y: 377.5, width: 180, height: 45 })
+
+    expect(
+      getDefaultSignaturePlacement({ width: 100, height: 400 }, { width: 600, height: 300 }),
+    ).toEqual({ x: 262.5, y: 0, width: 75, height: 300 })
+  })
+})
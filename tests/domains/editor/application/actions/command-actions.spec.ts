@@ -19,7 +19,16 @@ function createHarness() {
   >
   const ui = {
     closeCommandPalette: vi.fn(),
-  } as unknown as Pick<EditorUiState, 'closeCommandPalette'>
+    openRedactionSearch: vi.fn(),
+    openFrontMatterDialog: vi.fn(),
+    openApplyWorkflowDialog: vi.fn(),
+  } as unknown as Pick<
+    EditorUiState,
+    | 'closeCommandPalette'
+    | 'openRedactionSearch'
+    | 'openFrontMatterDialog'
+    | 'openApplyWorkflowDialog'
+  >
 
   const handlers = {
     openFileDialog: vi.fn(),
@@ -29,6 +38,8 @@ function createHarness() {
     handleExportSelected: vi.fn(),
     handleDeleteSelected: vi.fn(),
     handleDiffSelected: vi.fn(),
+    handleSplitSpreadSelected: vi.fn(),
+    handleInsertBlankSelected: vi.fn(),
     handleExport: vi.fn(),
     handleNewProject: vi.fn(),
   }
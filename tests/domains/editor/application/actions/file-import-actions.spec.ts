@@ -2,7 +2,9 @@ import { describe, expect, it, vi } from 'vitest'
 import { createFileImportActions } from '@/domains/editor/application/actions/file-import-actions'
 import type { ImportService } from '@/domains/import/application/import-service'
 
-function createHarness() {
+function createHarness(
+  promptPassword?: Parameters<typeof createFileImportActions>[0]['promptPassword'],
+) {
   const toast = {
     success: vi.fn(),
     error: vi.fn(),
@@ -27,6 +29,7 @@ function createHarness() {
     services: {
       importFiles,
     },
+    promptPassword,
   })
 
   return { actions, importFiles, toast, openFileDialog, clearFileInput }
@@ -50,4 +53,72 @@ describe('file/import action module', () => {
 
     expect(harness.openFileDialog).toHaveBeenCalled()
   })
+
+  it('prompts for a password and retries protected files until unlocked', async () => {
+    const file = new File(['%PDF'], 'locked.pdf', { type: 'application/pdf' })
+    const promptPassword = vi
+      .fn<(options: { filename: string; isRetry: boolean }) => Promise<string | null>>()
+      .mockResolvedValueOnce('wrong')
+      .mockResolvedValueOnce('secret')
+    const harness = createHarness(promptPassword)
+    const locked = {
+      success: false,
+      error: 'Password required',
+      errorCode: 'IMPORT_PASSWORD_REQUIRED' as const,
+      file,
+    }
+    harness.importFiles
+      .mockResolvedValueOnce({
+        ok: true,
+        value: { results: [locked], successes: [], errors: [locked], totalPages: 0 },
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        value: { results: [locked], successes: [], errors: [locked], totalPages: 0 },
+      })
+      .mockResolvedValueOnce({
+        ok: true,
+        value: {
+          results: [{ success: true }],
+          successes: [{ success: true }],
+          errors: [],
+          totalPages: 3,
+        },
+      })
+
+    await harness.actions.handleFilesSelected([file] as unknown as FileList)
+
+    expect(promptPassword).toHaveBeenNthCalledWith(1, { filename: 'locked.pdf', isRetry: false })
+    expect(promptPassword).toHaveBeenNthCalledWith(2, { filename: 'locked.pdf', isRetry: true })
+    expect(harness.importFiles).toHaveBeenLastCalledWith([file], {
+      addPages: true,
+      password: 'secret',
+    })
+    expect(harness.toast.success).toHaveBeenCalledWith('Added 1 file', '3 pages added')
+    expect(harness.toast.error).not.toHaveBeenCalled()
+  })
+
+  it('reports protected files the user skipped', async () => {
+    const file = new File(['%PDF'], 'locked.pdf', { type: 'application/pdf' })
+    const promptPassword = vi.fn(async () => null)
+    const harness = createHarness(promptPassword)
+    const locked = {
+      success: false,
+      error: 'Password required',
+      errorCode: 'IMPORT_PASSWORD_REQUIRED' as const,
+      file,
+    }
+    harness.importFiles.mockResolvedValueOnce({
+      ok: true,
+      value: { results: [locked], successes: [], errors: [locked], totalPages: 0 },
+    })
+
+    await harness.actions.handleFilesSelected([file] as unknown as FileList)
+
+    expect(harness.importFiles).toHaveBeenCalledTimes(1)
+    expect(harness.toast.error).toHaveBeenCalledWith(
+      'Failed to load 1 file',
+      'This PDF is password protected',
+    )
+  })
 })
@@ -0,0 +1,60 @@
+import { describe, expect, it, vi } from 'vitest'
+import { createFormActions } from '@/domains/editor/application/actions/form-actions'
+import { UpdateFormFieldCommand } from '@/domains/history/domain/commands'
+import type { DocumentState } from '@/domains/project-session/session/document-state'
+import type { FormFieldInfo } from '@/shared/types'
+
+const nameField: FormFieldInfo = {
+  name: 'employee.name',
+  kind: 'text',
+  value: 'From source',
+  widgets: [{ pageIndex: 0, x: 0, y: 0, width: 100, height: 20 }],
+}
+
+const remoteField: FormFieldInfo = {
+  name: 'remote',
+  kind: 'checkbox',
+  value: false,
+  widgets: [{ pageIndex: 0, x: 0, y: 40, width: 16, height: 16, exportValue: 'Yes' }],
+}
+
+function createHarness() {
+  const store = {
+    formValues: { 'source-1': { 'employee.name': 'Typed' } },
+  } as unknown as DocumentState
+  const history = { execute: vi.fn() }
+  const actions = createFormActions({ store, history })
+  const executed = () => history.execute.mock.calls.map(([command]) => command as UpdateFormFieldCommand)
+  return { actions, history, executed }
+}
+
+describe('form action module', () => {
+  it('records field edits with the entered value they replace', () => {
+    const harness = createHarness()
+
+    harness.actions.setFormFieldValue('source-1', nameField, 'Typed more')
+    harness.actions.setFormFieldValue('source-1', remoteField, true)
+
+    const [typed, toggled] = harness.executed()
+    expect(typed).toBeInstanceOf(UpdateFormFieldCommand)
+    expect(typed).toMatchObject({
+      sourceFileId: 'source-1',
+      fieldName: 'employee.name',
+      previous: 'Typed',
+      next: 'Typed more',
+      mergeKey: 'form:source-1:employee.name',
+    })
+    expect(toggled).toMatchObject({ previous: null, next: true, mergeKey: null })
+  })
+
+  it('skips no-op edits and clears values equal to the source', () => {
+    const harness = createHarness()
+
+    harness.actions.setFormFieldValue('source-1', nameField, 'Typed')
+    harness.actions.setFormFieldValue('source-1', remoteField, false)
+    expect(harness.history.execute).not.toHaveBeenCalled()
+
+    harness.actions.setFormFieldValue('source-1', nameField, 'From source')
+    expect(harness.executed()[0]).toMatchObject({ previous: 'Typed', next: null })
+  })
+})
@@ -2,6 +2,7 @@ import { describe, expect, it, vi } from 'vitest'
 import { createMetadataActions } from '@/domains/editor/application/actions/metadata-actions'
 import type { DocumentState } from '@/domains/project-session/session/document-state'
 import type { EditorUiState } from '@/domains/project-session/session/editor-ui.state'
+import { UpdateMetadataCommand, UpdateSecurityCommand } from '@/domains/history/domain/commands'
 import type { SourceFile } from '@/shared/types'
 
 function createHarness() {
@@ -24,24 +25,31 @@ function createHarness() {
   const store = {
     projectTitle: 'Current',
     sources: new Map([[source.id, source]]),
+    metadata: { title: 'Current', author: '', subject: '', keywords: ['draft'] },
+    metadataDirty: false,
+    security: { isEncrypted: false, allowPrinting: true, allowCopying: true, allowModifying: true },
     setProjectTitle: vi.fn(),
     setMetadata: vi.fn(),
     addKeyword: vi.fn(),
     removeKeyword: vi.fn(),
     setSecurity: vi.fn(),
+    setWatermark: vi.fn(),
+    setHeaderFooter: vi.fn(),
   } as unknown as DocumentState
   const ui = {
     setCurrentTool: vi.fn(),
   } as unknown as Pick<EditorUiState, 'setCurrentTool'>
+  const history = { execute: vi.fn() }
   const normalizeProjectTitle = vi.fn((value: string) => `normalized:${value}`)
 
   const actions = createMetadataActions({
     store,
+    history,
     ui,
     normalizeProjectTitle,
   })
 
-  return { actions, store, ui, normalizeProjectTitle, source }
+  return { actions, store, history, ui, normalizeProjectTitle, source }
 }
 
 describe('metadata action module', () => {
@@ -62,21 +70,56 @@ describe('metadata action module', () => {
     expect(harness.store.setProjectTitle).toHaveBeenCalledWith('normalized:Raw / Title')
   })
 
-  it('applies source metadata through metadata use-case contract', () => {
+  it('applies source metadata as one undoable history entry', () => {
     const harness = createHarness()
 
     harness.actions.applyMetadataFromSource(harness.source.id)
 
-    expect(harness.store.setMetadata).toHaveBeenCalledWith(harness.source.metadata, true)
+    const command = harness.history.execute.mock.calls[0]?.[0]
+    expect(command).toBeInstanceOf(UpdateMetadataCommand)
+    expect(command).toMatchObject({
+      name: 'Apply source metadata',
+      next: harness.source.metadata,
+      nextDirty: true,
+      mergeKey: null,
+    })
+    expect(harness.store.setMetadata).not.toHaveBeenCalled()
   })
 
-  it('delegates current tool changes and security updates', () => {
+  it('records field edits with merge keys and skips unchanged values', () => {
+    const harness = createHarness()
+
+    harness.actions.setMetadata({ title: 'Current' })
+    harness.actions.addKeyword(' draft ')
+    expect(harness.history.execute).not.toHaveBeenCalled()
+
+    harness.actions.setMetadata({ title: 'Next' })
+    harness.actions.removeKeyword('draft')
+    harness.actions.setSecurity({ userPassword: 'secret' })
+
+    const [title, keyword, password] = harness.history.execute.mock.calls.map(
+      ([command]) => command,
+    )
+    expect(title).toMatchObject({ name: 'Edit title', mergeKey: 'metadata:title' })
+    expect(keyword).toMatchObject({ name: 'Remove keyword', next: { keywords: [] } })
+    expect(password).toBeInstanceOf(UpdateSecurityCommand)
+    expect(password).toMatchObject({
+      name: 'Edit open password',
+      mergeKey: 'security:userPassword',
+    })
+  })
+
+  it('delegates current tool changes and export setting updates', () => {
     const harness = createHarness()
 
     harness.actions.setCurrentTool('redact')
     harness.actions.setSecurity({ allowPrinting: false })
+    harness.actions.setWatermark({ enabled: true, text: 'DRAFT' })
+    harness.actions.setHeaderFooter({ skipFirstPage: true })
 
     expect(harness.ui.setCurrentTool).toHaveBeenCalledWith('redact')
-    expect(harness.store.setSecurity).toHaveBeenCalledWith({ allowPrinting: false })
+    expect(harness.history.execute).toHaveBeenCalledWith(expect.any(UpdateSecurityCommand))
+    expect(harness.store.setWatermark).toHaveBeenCalledWith({ enabled: true, text: 'DRAFT' })
+    expect(harness.store.setHeaderFooter).toHaveBeenCalledWith({ skipFirstPage: true })
   })
 })
@@ -17,9 +17,14 @@ function createHarness() {
     closePreflightPanel: vi.fn(),
     closePreviewModal: vi.fn(),
     closeDiffModal: vi.fn(),
+    closeRedactionSearch: vi.fn(),
   } as unknown as Pick<
     EditorUiState,
-    'closeCommandPalette' | 'closePreflightPanel' | 'closePreviewModal' | 'closeDiffModal'
+    | 'closeCommandPalette'
+    | 'closePreflightPanel'
+    | 'closePreviewModal'
+    | 'closeDiffModal'
+    | 'closeRedactionSearch'
   >
   const exportState = {
     closeExportModal: vi.fn(),
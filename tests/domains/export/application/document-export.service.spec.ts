@@ -1,5 +1,9 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest'
+import JSZip from 'jszip'
+import { PDFDocument } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
 import { createDocumentExportService } from '@/domains/export/application/document-export.service'
+import type { FrontMatterTemplate } from '@/domains/export/domain/export'
 import type { DocumentState } from '@/domains/project-session/session/document-state'
 import type { PdfRepository } from '@/shared/infrastructure/pdf.repository'
 
@@ -15,6 +19,15 @@ vi.mock('@/domains/export/application/usePdfCompression', () => ({
   })),
 }))
 
+const imageRenderer = vi.hoisted(() => ({
+  renderPageImage: vi.fn(async (page: { id: string }) => new TextEncoder().encode(page.id)),
+}))
+
+vi.mock('@/domains/export/domain/export-images', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('@/domains/export/domain/export-images')>()),
+  renderPageImage: imageRenderer.renderPageImage,
+}))
+
 function createHarness() {
   const documentStore = {
     contentPages: [],
@@ -76,3 +89,213 @@ describe('document export service cleanup', () => {
     expect(compressionRuntime.dispose).not.toHaveBeenCalled()
   })
 })
+
+describe('document export service encryption', () => {
+  const security = {
+    isEncrypted: true,
+    userPassword: 'reader',
+    ownerPassword: 'admin',
+    encryptionAlgorithm: 'aes-128' as const,
+    allowPrinting: true,
+    allowCopying: true,
+    allowModifying: false,
+  }
+
+  async function createSourceBuffer(): Promise<ArrayBuffer> {
+    const doc = await PDFDocument.create()
+    doc.addPage([200, 200])
+    doc.addPage([200, 200])
+    const bytes = await doc.save()
+    return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+  }
+
+  function createEncryptionHarness(source: ArrayBuffer) {
+    const harness = createHarness()
+    const firstPage = { id: 'page-1', sourceFileId: 'source-1', sourcePageIndex: 0, rotation: 0 }
+    const secondPage = { id: 'page-2', sourceFileId: 'source-1', sourcePageIndex: 1, rotation: 0 }
+    Object.assign(harness.documentStore, {
+      pages: [firstPage, { id: 'divider-1', isDivider: true }, secondPage],
+      contentPages: [firstPage, secondPage],
+      contentPageCount: 2,
+      sources: new Map([['source-1', { id: 'source-1', pageCount: 2, fileSize: 1000 }]]),
+    })
+    vi.mocked(harness.pdfRepository.getPdfBlob).mockResolvedValue(source)
+    return harness
+  }
+
+  async function expectPasswordProtected(bytes: Uint8Array) {
+    await expect(pdfjs.getDocument({ data: bytes.slice() }).promise).rejects.toMatchObject({
+      name: 'PasswordException',
+    })
+    const pdf = await pdfjs.getDocument({ data: bytes.slice(), password: 'reader' }).promise
+    expect(pdf.numPages).toBe(1)
+    await pdf.destroy()
+  }
+
+  it('encrypts every ZIP segment when dividers split the export', async () => {
+    const harness = createEncryptionHarness(await createSourceBuffer())
+    const service = createDocumentExportService({
+      documentStore: harness.documentStore,
+      pdfRepository: harness.pdfRepository,
+      settings: harness.settings,
+      compression: { compressPdf: vi.fn() },
+    })
+
+    const result = await service.exportDocument({ filename: 'bundle', security })
+    if (!result.ok) throw new Error(result.error.message)
+
+    const zip = await JSZip.loadAsync(result.value.bytes)
+    const segmentNames = Object.keys(zip.files).sort()
+    expect(segmentNames).toEqual(['bundle-part1.pdf', 'bundle-part2.pdf'])
+    for (const name of segmentNames) {
+      await expectPasswordProtected(await zip.file(name)!.async('uint8array'))
+    }
+  })
+
+  it('encrypts after Ghostscript compression so the output stays protected', async () => {
+    const source = await createSourceBuffer()
+    const harness = createEncryptionHarness(source)
+    Object.assign(harness.documentStore, { pages: harness.documentStore.contentPages.slice(0, 1) })
+    const compressPdf = vi.fn(async (data: Uint8Array) => ({
+      data,
+      originalSize: data.byteLength,
+      compressedSize: data.byteLength,
+    }))
+    const service = createDocumentExportService({
+      documentStore: harness.documentStore,
+      pdfRepository: harness.pdfRepository,
+      settings: harness.settings,
+      compression: { compressPdf },
+    })
+
+    const result = await service.exportDocument({
+      filename: 'single',
+      compressionQuality: 'ebook',
+      security,
+    })
+    if (!result.ok) throw new Error(result.error.message)
+
+    const compressedInput = compressPdf.mock.calls[0]![0]
+    expect((await pdfjs.getDocument({ data: compressedInput.slice() }).promise).numPages).toBe(1)
+    await expectPasswordProtected(result.value.bytes)
+  })
+})
+
+describe('document export service page numbering', () => {
+  /** Bates stamps on every page of one ZIP entry */
+  async function readSegmentStamps(zip: JSZip, name: string): Promise<string[]> {
+    const pdf = await pdfjs.getDocument({
+      data: await zip.file(name)!.async('uint8array'),
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise
+    const stamps: string[] = []
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent()
+      for (const item of content.items) {
+        if ('str' in item && item.str.startsWith('ACME-')) stamps.push(item.str)
+      }
+    }
+    await pdf.destroy()
+    return stamps
+  }
+
+  async function exportBatesSegments(
+    restartPerSegment: boolean,
+    frontMatter: FrontMatterTemplate | null = null,
+  ) {
+    const doc = await PDFDocument.create()
+    doc.addPage([200, 200])
+    doc.addPage([200, 200])
+    const bytes = await doc.save()
+    const harness = createHarness()
+    const firstPage = { id: 'page-1', sourceFileId: 'source-1', sourcePageIndex: 0, rotation: 0 }
+    const secondPage = { id: 'page-2', sourceFileId: 'source-1', sourcePageIndex: 1, rotation: 0 }
+    Object.assign(harness.documentStore, {
+      pages: [firstPage, { id: 'divider-1', isDivider: true }, secondPage],
+      contentPages: [firstPage, secondPage],
+      contentPageCount: 2,
+    })
+    vi.mocked(harness.pdfRepository.getPdfBlob).mockResolvedValue(
+      bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer,
+    )
+    const service = createDocumentExportService({
+      documentStore: harness.documentStore,
+      pdfRepository: harness.pdfRepository,
+      settings: harness.settings,
+      compression: { compressPdf: vi.fn() },
+    })
+
+    const result = await service.exportDocument({
+      filename: 'bates',
+      frontMatter,
+      pageNumbering: {
+        prefix: 'ACME-',
+        startNumber: 41,
+        padding: 6,
+        fontSize: 9,
+        anchor: 'bottom-right',
+        margin: 18,
+        restartPerSegment,
+      },
+    })
+    if (!result.ok) throw new Error(result.error.message)
+
+    const zip = await JSZip.loadAsync(result.value.bytes)
+    return [
+      await readSegmentStamps(zip, 'bates-part1.pdf'),
+      await readSegmentStamps(zip, 'bates-part2.pdf'),
+    ]
+  }
+
+  it('continues Bates numbers across ZIP segments', async () => {
+    expect(await exportBatesSegments(false)).toEqual([['ACME-000041'], ['ACME-000042']])
+  })
+
+  it('restarts numbering in every segment when requested', async () => {
+    expect(await exportBatesSegments(true)).toEqual([['ACME-000041'], ['ACME-000041']])
+  })
+
+  it('counts the cover in the first segment and leaves out the contents page', async () => {
+    expect(await exportBatesSegments(false, 'cover-toc')).toEqual([
+      ['ACME-000041', 'ACME-000042'],
+      ['ACME-000043'],
+    ])
+  })
+})
+
+describe('document export service images', () => {
+  it('bundles one image per page across dividers, named by the pattern', async () => {
+    const harness = createHarness()
+    const pages = ['a', 'b', 'c'].map((id, index) => ({
+      id,
+      sourceFileId: 'source-1',
+      sourcePageIndex: index,
+      rotation: 0,
+    }))
+    Object.assign(harness.documentStore, {
+      pages: [pages[0], { id: 'divider-1', isDivider: true }, pages[1], pages[2]],
+      contentPages: pages,
+      contentPageCount: 3,
+      sources: new Map([['source-1', { id: 'source-1', filename: 'deck.pdf', pageCount: 3 }]]),
+    })
+    const service = createDocumentExportService({
+      documentStore: harness.documentStore,
+      pdfRepository: harness.pdfRepository,
+      settings: harness.settings,
+      compression: { compressPdf: vi.fn() },
+    })
+
+    const image = { format: 'webp' as const, dpi: 96, quality: 0.75, filenamePattern: 'slide-{page}' }
+    const result = await service.exportDocument({ filename: 'deck', pageRange: '2-3', image })
+    if (!result.ok) throw new Error(result.error.message)
+
+    expect(result.value).toMatchObject({ filename: 'deck.zip', mimeType: 'application/zip' })
+    expect(imageRenderer.renderPageImage).toHaveBeenCalledWith(
+      pages[1],
+      expect.objectContaining({ format: 'webp', dpi: 96, quality: 0.75 }),
+    )
+    const zip = await JSZip.loadAsync(result.value.bytes)
+    expect(Object.keys(zip.files)).toEqual(['slide-1.webp', 'slide-2.webp'])
+    expect(await zip.file('slide-2.webp')!.async('string')).toBe('c')
+  })
+})
@@ -0,0 +1,94 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import type { PageAnnotation, PageReference } from '@/shared/types'
+import { generateRawPdf } from '@/domains/export/domain/export-pdf'
+
+const ANNOTATIONS: PageAnnotation[] = [
+  {
+    id: 'highlight-1',
+    kind: 'highlight',
+    x: 10,
+    y: 20,
+    width: 50,
+    height: 10,
+    color: '#ffd400',
+    boxes: [{ x: 10, y: 20, width: 50, height: 10 }],
+  },
+  {
+    id: 'note-1',
+    kind: 'note',
+    x: 150,
+    y: 10,
+    width: 20,
+    height: 20,
+    color: '#ffd400',
+    text: 'Check',
+  },
+  {
+    id: 'text-1',
+    kind: 'freeText',
+    x: 20,
+    y: 100,
+    width: 160,
+    height: 40,
+    color: '#111827',
+    text: 'Approved',
+    fontSize: 12,
+  },
+  { id: 'box-1', kind: 'rectangle', x: 10, y: 200, width: 80, height: 40, color: '#dc2626' },
+]
+
+function pageRef(partial: Partial<PageReference> = {}): PageReference {
+  return { id: 'page-1', sourceFileId: 'source', sourcePageIndex: 0, rotation: 0, ...partial }
+}
+
+async function exportPages(pages: PageReference[], flattenAnnotations = false) {
+  const doc = await PDFDocument.create()
+  doc.addPage([200, 300])
+  const source = await doc.save()
+  const bytes = await generateRawPdf(pages, {
+    getPdfBlob: async () => source.slice().buffer,
+    flattenAnnotations,
+  })
+  const pdf = await pdfjs.getDocument({ data: bytes, verbosity: pdfjs.VerbosityLevel.ERRORS })
+    .promise
+  return await pdf.getPage(1)
+}
+
+describe('export annotations', () => {
+  it('writes editor annotations as PDF annotations in page space', async () => {
+    const page = await exportPages([pageRef({ annotations: ANNOTATIONS })])
+    const annotations = await page.getAnnotations()
+
+    expect(annotations.map((annotation) => annotation.subtype)).toEqual([
+      'Highlight',
+      'Text',
+      'FreeText',
+      'Square',
+    ])
+    expect(annotations[0]?.rect).toEqual([10, 270, 60, 280])
+    expect(annotations[1]?.contentsObj?.str).toBe('Check')
+    expect(annotations[2]?.contentsObj?.str).toBe('Approved')
+  })
+
+  it('maps annotations drawn on a rotated page back to the unrotated page', async () => {
+    const page = await exportPages([
+      pageRef({
+        rotation: 90,
+        annotations: [{ ...ANNOTATIONS[3]!, x: 10, y: 20, width: 50, height: 30 }],
+      }),
+    ])
+    const [annotation] = await page.getAnnotations()
+
+    expect(annotation?.rect).toEqual([20, 10, 50, 60])
+  })
+
+  it('paints annotations into the page content when flattening', async () => {
+    const page = await exportPages([pageRef({ annotations: ANNOTATIONS })], true)
+    const content = await page.getTextContent()
+
+    expect(await page.getAnnotations()).toHaveLength(0)
+    expect(content.items.flatMap((item) => ('str' in item ? [item.str] : []))).toContain('Approved')
+  })
+})
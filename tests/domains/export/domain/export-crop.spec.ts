@@ -0,0 +1,62 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import type { PageReference } from '@/shared/types'
+import { generateRawPdf } from '@/domains/export/domain/export-pdf'
+import { resolveCropRect } from '@/domains/export/domain/export-crop'
+
+function pageRef(partial: Partial<PageReference> = {}): PageReference {
+  return { id: 'page-1', sourceFileId: 'source', sourcePageIndex: 0, rotation: 0, ...partial }
+}
+
+async function exportPage(page: PageReference) {
+  const doc = await PDFDocument.create()
+  doc.addPage([200, 300])
+  const source = await doc.save()
+  const bytes = await generateRawPdf([page], {
+    getPdfBlob: async () => source.slice().buffer,
+  })
+  const output = await PDFDocument.load(bytes)
+  return output.getPage(0)
+}
+
+describe('export crop', () => {
+  it('maps top-left crops into user space and clips them to the page', () => {
+    const box = { x: 10, y: 20, width: 200, height: 300 }
+
+    expect(resolveCropRect({ x: 20, y: 30, width: 100, height: 50 }, box)).toEqual({
+      x: 30,
+      y: 240,
+      width: 100,
+      height: 50,
+    })
+    expect(resolveCropRect({ x: 150, y: -10, width: 100, height: 50 }, box)).toEqual({
+      x: 160,
+      y: 280,
+      width: 50,
+      height: 40,
+    })
+    expect(resolveCropRect({ x: 300, y: 0, width: 10, height: 10 }, box)).toBeNull()
+  })
+
+  it('sets the media and crop box to the kept region', async () => {
+    const page = await exportPage(
+      pageRef({ rotation: 90, crop: { x: 20, y: 30, width: 100, height: 50 } }),
+    )
+
+    expect(page.getMediaBox()).toEqual({ x: 20, y: 220, width: 100, height: 50 })
+    expect(page.getCropBox()).toEqual({ x: 20, y: 220, width: 100, height: 50 })
+    expect(page.getRotation().angle).toBe(90)
+  })
+
+  it('fits the cropped region into target dimensions', async () => {
+    const page = await exportPage(
+      pageRef({
+        crop: { x: 50, y: 100, width: 100, height: 100 },
+        targetDimensions: { width: 200, height: 200 },
+      }),
+    )
+
+    expect(page.getMediaBox()).toEqual({ x: 50, y: 100, width: 200, height: 200 })
+    expect(page.getCropBox()).toEqual({ x: 50, y: 100, width: 200, height: 200 })
+  })
+})
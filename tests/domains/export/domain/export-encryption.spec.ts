@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import {
+  computePermissionFlags,
+  encryptPdfBytes,
+  resolvePdfEncryptionOptions,
+  type PdfEncryptionOptions,
+} from '@/domains/export/domain/export'
+import type { PageReference, PdfEncryptionAlgorithm } from '@/shared/types'
+import { createSourcePdf, exportPages, type SourcePdfOptions } from '../../../utils/pdf-fixtures'
+
+const SOURCE: SourcePdfOptions = { size: [300, 400], labels: ['Alpha page', 'Beta page'] }
+
+function createPages(): PageReference[] {
+  return [
+    { id: 'page-2', sourceFileId: 'source-1', sourcePageIndex: 1, rotation: 0 },
+    { id: 'page-1', sourceFileId: 'source-1', sourcePageIndex: 0, rotation: 0 },
+  ]
+}
+
+function createOptions(
+  algorithm: PdfEncryptionAlgorithm,
+  overrides: Partial<PdfEncryptionOptions> = {},
+): PdfEncryptionOptions {
+  return {
+    algorithm,
+    userPassword: 'reader',
+    ownerPassword: 'admin',
+    permissions: { printing: true, copying: false, modifying: false },
+    ...overrides,
+  }
+}
+
+async function openPdf(bytes: Uint8Array, password?: string) {
+  return pdfjs.getDocument({
+    data: bytes.slice(),
+    password,
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise
+}
+
+async function readPageText(bytes: Uint8Array, password: string): Promise<string[]> {
+  const pdf = await openPdf(bytes, password)
+  const texts: string[] = []
+  for (let index = 1; index <= pdf.numPages; index++) {
+    const page = await pdf.getPage(index)
+    const content = await page.getTextContent()
+    texts.push(
+      content.items
+        .map((item) => ('str' in item ? item.str : ''))
+        .join('')
+        .trim(),
+    )
+  }
+  await pdf.destroy()
+  return texts
+}
+
+describe('export encryption', () => {
+  it.each<PdfEncryptionAlgorithm>(['rc4-128', 'aes-128', 'aes-256'])(
+    'encrypts exported pages with %s and decrypts with the user password',
+    async (algorithm) => {
+      const source = await createSourcePdf(SOURCE)
+      const bytes = await exportPages(createPages(), source, {
+        metadata: { title: 'Secret report', author: 'Legal', subject: '', keywords: [] },
+        encryption: createOptions(algorithm),
+      })
+
+      await expect(openPdf(bytes)).rejects.toMatchObject({ name: 'PasswordException' })
+      await expect(openPdf(bytes, 'wrong')).rejects.toMatchObject({ name: 'PasswordException' })
+
+      expect(await readPageText(bytes, 'reader')).toEqual(['Beta page', 'Alpha page'])
+      expect(await readPageText(bytes, 'admin')).toEqual(['Beta page', 'Alpha page'])
+
+      const pdf = await openPdf(bytes, 'reader')
+      const metadata = await pdf.getMetadata()
+      expect((metadata.info as Record<string, unknown>).Title).toBe('Secret report')
+      await pdf.destroy()
+    },
+  )
+
+  it('writes the permission bits read back by pdf.js', async () => {
+    const source = await createSourcePdf(SOURCE)
+    const bytes = await exportPages(createPages(), source, {
+      encryption: createOptions('aes-256', {
+        userPassword: '',
+        permissions: { printing: false, copying: true, modifying: false },
+      }),
+    })
+
+    const pdf = await openPdf(bytes)
+    const permissions = await pdf.getPermissions()
+    expect(permissions).toContain(pdfjs.PermissionFlag.COPY)
+    expect(permissions).not.toContain(pdfjs.PermissionFlag.PRINT)
+    expect(permissions).not.toContain(pdfjs.PermissionFlag.MODIFY_CONTENTS)
+    await pdf.destroy()
+  })
+
+  it('encrypts already serialized bytes', async () => {
+    const source = await createSourcePdf(SOURCE)
+    const encrypted = await encryptPdfBytes(source, createOptions('aes-128'))
+
+    expect(await readPageText(encrypted, 'reader')).toEqual(['Alpha page', 'Beta page'])
+  })
+
+  it('maps security settings to encryption options', () => {
+    expect(
+      resolvePdfEncryptionOptions({
+        isEncrypted: false,
+        userPassword: 'secret',
+        allowPrinting: true,
+        allowCopying: true,
+        allowModifying: true,
+      }),
+    ).toBeNull()
+    expect(
+      resolvePdfEncryptionOptions({
+        isEncrypted: true,
+        userPassword: '',
+        ownerPassword: '',
+        allowPrinting: true,
+        allowCopying: true,
+        allowModifying: true,
+      }),
+    ).toBeNull()
+    expect(
+      resolvePdfEncryptionOptions({
+        isEncrypted: true,
+        userPassword: '',
+        ownerPassword: '',
+        allowPrinting: true,
+        allowCopying: false,
+        allowModifying: true,
+      }),
+    ).toEqual({
+      algorithm: 'aes-256',
+      userPassword: '',
+      ownerPassword: '',
+      permissions: { printing: true, copying: false, modifying: true },
+    })
+    expect(
+      resolvePdfEncryptionOptions({
+        isEncrypted: true,
+        userPassword: 'open',
+        allowPrinting: false,
+        allowCopying: true,
+        allowModifying: false,
+      }),
+    ).toEqual({
+      algorithm: 'aes-256',
+      userPassword: 'open',
+      ownerPassword: '',
+      permissions: { printing: false, copying: true, modifying: false },
+    })
+  })
+
+  it('keeps reserved permission bits set', () => {
+    const flags = computePermissionFlags({ printing: false, copying: false, modifying: false })
+    expect(flags & 0b11).toBe(0)
+    expect(flags & (1 << 6)).not.toBe(0)
+    expect(flags & (1 << 2)).toBe(0)
+    expect(flags).toBeLessThan(0)
+  })
+})
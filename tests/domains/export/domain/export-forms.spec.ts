@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import { generateRawPdf, resolveFormFieldNames } from '@/domains/export/domain/export'
+import type { PageReference } from '@/shared/types'
+
+async function createFormPdf(fields: Array<{ name: string; value: string; page: number }>) {
+  const doc = await PDFDocument.create()
+  const pages = [doc.addPage([300, 300]), doc.addPage([300, 300])]
+  const form = doc.getForm()
+  fields.forEach(({ name, value, page }, index) => {
+    const field = form.createTextField(name)
+    field.setText(value)
+    field.addToPage(pages[page]!, { x: 20, y: 200 - index * 40, width: 200, height: 24 })
+  })
+  const bytes = await doc.save()
+  return bytes.slice().buffer
+}
+
+function pageRef(sourceFileId: string, sourcePageIndex: number): PageReference {
+  return { id: `${sourceFileId}-${sourcePageIndex}`, sourceFileId, sourcePageIndex, rotation: 0 }
+}
+
+describe('export form fields', () => {
+  it('renames clashing field names per source at the top level', () => {
+    expect(resolveFormFieldNames([['a.b', 'c'], ['a', 'c.d', 'e'], ['a']])).toEqual([
+      new Map([
+        ['a.b', 'a.b'],
+        ['c', 'c'],
+      ]),
+      new Map([
+        ['a', 'a_2'],
+        ['c.d', 'c_2.d'],
+        ['e', 'e'],
+      ]),
+      new Map([['a', 'a_3']]),
+    ])
+  })
+
+  it('carries fields of exported pages over, or flattens them into the content', async () => {
+    const sources: Record<string, ArrayBuffer> = {
+      first: await createFormPdf([
+        { name: 'client.name', value: 'Alice', page: 0 },
+        { name: 'notes', value: 'Left out', page: 1 },
+      ]),
+      second: await createFormPdf([{ name: 'client.name', value: 'Bob', page: 0 }]),
+    }
+    const pages = [pageRef('first', 0), pageRef('second', 0)]
+    const getPdfBlob = async (sourceFileId: string) => sources[sourceFileId]
+
+    const preserved = await PDFDocument.load(await generateRawPdf(pages, { getPdfBlob }))
+    const form = preserved.getForm()
+    expect(form.getFields().map((field) => field.getName())).toEqual([
+      'client.name',
+      'client_2.name',
+    ])
+    expect(form.getTextField('client.name').getText()).toBe('Alice')
+    expect(form.getTextField('client_2.name').getText()).toBe('Bob')
+    const [widget] = form.getTextField('client_2.name').acroField.getWidgets()
+    expect(widget?.P()).toBe(preserved.getPage(1).ref)
+
+    const flattenedBytes = await generateRawPdf(pages, { getPdfBlob, flattenForms: true })
+    expect((await PDFDocument.load(flattenedBytes)).getForm().getFields()).toHaveLength(0)
+
+    const pdf = await pdfjs.getDocument({
+      data: flattenedBytes,
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise
+    const texts = []
+    for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent()
+      texts.push(content.items.map((item) => ('str' in item ? item.str : '')).join(''))
+    }
+    await pdf.destroy()
+    expect(texts).toEqual(['Alice', 'Bob'])
+  })
+
+  it('writes values entered in the editor into the exported fields', async () => {
+    const doc = await PDFDocument.create()
+    const page = doc.addPage([300, 300])
+    const form = doc.getForm()
+    form.createTextField('name').addToPage(page, { x: 20, y: 240, width: 200, height: 24 })
+    form.createCheckBox('agree').addToPage(page, { x: 20, y: 200, width: 16, height: 16 })
+    const shift = form.createRadioGroup('shift')
+    shift.addOptionToPage('early', page, { x: 20, y: 160, width: 16, height: 16 })
+    shift.addOptionToPage('late', page, { x: 60, y: 160, width: 16, height: 16 })
+    const team = form.createDropdown('team')
+    team.addOptions(['HR', 'IT'])
+    team.addToPage(page, { x: 20, y: 120, width: 100, height: 20 })
+    const source = (await doc.save()).slice().buffer
+
+    const bytes = await generateRawPdf([pageRef('source', 0)], {
+      getPdfBlob: async () => source,
+      formValues: {
+        source: { name: 'Carol', agree: true, shift: '1', team: 'IT', missing: 'ignored' },
+      },
+    })
+
+    const output = (await PDFDocument.load(bytes)).getForm()
+    expect(output.getTextField('name').getText()).toBe('Carol')
+    expect(output.getCheckBox('agree').isChecked()).toBe(true)
+    expect(output.getRadioGroup('shift').getSelected()).toBe('late')
+    expect(output.getDropdown('team').getSelected()).toEqual(['IT'])
+  })
+})
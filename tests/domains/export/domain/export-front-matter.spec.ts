@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import type { OutlineNode, PageReference } from '@/shared/types'
+import {
+  collectTocEntries,
+  getFrontMatterPageCount,
+} from '@/domains/export/domain/export-front-matter'
+import { createSourcePdf, exportPages } from '../../../utils/pdf-fixtures'
+
+function outlineNode(
+  id: string,
+  targetPageId: string | undefined,
+  children: OutlineNode[] = [],
+): OutlineNode {
+  return {
+    id,
+    parentId: null,
+    title: id,
+    expanded: true,
+    dest: targetPageId ? { type: 'page', targetPageId } : { type: 'none' },
+    children,
+  }
+}
+
+describe('export front matter', () => {
+  it('lists outline entries on exported pages with their nesting', () => {
+    const outline = [
+      outlineNode('Intro', 'p1'),
+      outlineNode('Part', undefined, [
+        outlineNode('Chapter', 'p3', [outlineNode('Section', 'p2')]),
+        outlineNode('Removed', 'gone', [outlineNode('Kept', 'p2')]),
+      ]),
+    ]
+    const pageIdToIndex = new Map([
+      ['p1', 0],
+      ['p2', 1],
+      ['p3', 2],
+    ])
+
+    expect(collectTocEntries(outline, pageIdToIndex)).toEqual([
+      { title: 'Intro', depth: 0, pageIndex: 0 },
+      { title: 'Chapter', depth: 0, pageIndex: 2 },
+      { title: 'Section', depth: 1, pageIndex: 1 },
+      { title: 'Kept', depth: 0, pageIndex: 1 },
+    ])
+
+    expect(getFrontMatterPageCount('cover', 10, 792)).toBe(1)
+    expect(getFrontMatterPageCount('toc', 0, 792)).toBe(0)
+    expect(getFrontMatterPageCount('cover-toc', 0, 792)).toBe(1)
+    // 792pt Letter pages hold 30 contents lines.
+    expect(getFrontMatterPageCount('cover-toc', 31, 792)).toBe(3)
+  })
+
+  it('adds a cover and linked contents numbered in export order', async () => {
+    const source = await createSourcePdf({ pageCount: 3, size: [300, 400] })
+    const pages: PageReference[] = [
+      { id: 'p1', sourceFileId: 'source', sourcePageIndex: 2, rotation: 0 },
+      { id: 'p2', sourceFileId: 'source', sourcePageIndex: 0, rotation: 0 },
+      { id: 'p3', sourceFileId: 'source', sourcePageIndex: 1, rotation: 0 },
+    ]
+
+    const bytes = await exportPages(pages, source, {
+      metadata: { title: 'Field Guide', author: 'Ada', subject: 'Birds', keywords: [] },
+      bookmarks: [outlineNode('Intro', 'p1'), outlineNode('Appendix', 'p3')],
+      frontMatter: 'cover-toc',
+      pageNumbering: {
+        prefix: 'FG-',
+        startNumber: 1,
+        padding: 0,
+        fontSize: 8,
+        anchor: 'bottom-right',
+        margin: 10,
+        restartPerSegment: false,
+      },
+    })
+
+    const pdf = await pdfjs.getDocument({
+      data: bytes.slice(),
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise
+    const readTexts = async (pageNumber: number) => {
+      const content = await (await pdf.getPage(pageNumber)).getTextContent()
+      return content.items.flatMap((item) => ('str' in item && item.str.trim() ? [item.str] : []))
+    }
+
+    expect(pdf.numPages).toBe(5)
+    const cover = await readTexts(1)
+    expect(cover).toEqual(expect.arrayContaining(['Field Guide', 'Birds', 'Ada', 'FG-1']))
+
+    // Contents numbers match the page stamps of the target pages.
+    const contents = await readTexts(2)
+    expect(contents).toEqual(
+      expect.arrayContaining(['Contents', 'Intro', 'FG-3', 'Appendix', 'FG-5']),
+    )
+
+    const annotations = await (await pdf.getPage(2)).getAnnotations()
+    const linkTargets = await Promise.all(
+      annotations.map((annotation) => pdf.getPageIndex(annotation.dest[0])),
+    )
+    expect(linkTargets).toEqual([2, 4])
+    // Printable, like the editor annotations
+    expect(annotations.map((annotation) => annotation.annotationFlags)).toEqual([4, 4])
+
+    // The outline still points at the same pages after the front matter.
+    const outline = await pdf.getOutline()
+    const bookmarkTargets = await Promise.all(
+      outline.map((item) => pdf.getPageIndex((item.dest as unknown[])[0] as never)),
+    )
+    expect(bookmarkTargets).toEqual([2, 4])
+    await pdf.destroy()
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import type { HeaderFooterSettings, PageReference } from '@/shared/types'
+import {
+  formatHeaderFooterText,
+  resolveHeaderFooterTexts,
+} from '@/domains/export/domain/export-header-footer'
+import { createSourcePdf, exportPages } from '../../../utils/pdf-fixtures'
+
+const SETTINGS: HeaderFooterSettings = {
+  enabled: true,
+  header: { left: '{title}', center: '', right: '{source_filename}' },
+  footer: { left: '', center: 'Page {page} of {total}', right: '{date}' },
+  font: 'times',
+  fontSize: 10,
+  margin: 20,
+  skipFirstPage: true,
+}
+
+const CONTEXT = {
+  page: 2,
+  total: 5,
+  title: 'Annual Report',
+  author: 'Alice',
+  date: new Date('2026-03-04T12:00:00Z'),
+  sourceFilename: 'appendix.pdf',
+}
+
+async function readPageTexts(bytes: Uint8Array) {
+  const pdf = await pdfjs.getDocument({ data: bytes, verbosity: pdfjs.VerbosityLevel.ERRORS })
+    .promise
+  const pages = []
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber)
+    const viewport = page.getViewport({ scale: 1 })
+    const content = await page.getTextContent()
+    pages.push(
+      content.items.flatMap((item) => {
+        if (!('str' in item) || !item.str.trim()) return []
+        const [x = 0, y = 0] = viewport.convertToViewportPoint(item.transform[4], item.transform[5])
+        return [{ text: item.str, x, y, width: viewport.width, height: viewport.height }]
+      }),
+    )
+  }
+  await pdf.destroy()
+  return pages
+}
+
+describe('export header and footer', () => {
+  it('resolves tokens per slot and skips the first page', () => {
+    expect(formatHeaderFooterText('{TITLE} – {author}, {date} ({unknown})', CONTEXT)).toBe(
+      'Annual Report – Alice, 2026-03-04 ({unknown})',
+    )
+
+    expect(resolveHeaderFooterTexts(SETTINGS, CONTEXT)).toEqual([
+      { anchor: 'top-left', text: 'Annual Report' },
+      { anchor: 'top-right', text: 'appendix.pdf' },
+      { anchor: 'bottom-center', text: 'Page 2 of 5' },
+      { anchor: 'bottom-right', text: '2026-03-04' },
+    ])
+    expect(resolveHeaderFooterTexts(SETTINGS, { ...CONTEXT, page: 1 })).toEqual([])
+    expect(
+      resolveHeaderFooterTexts({ ...SETTINGS, skipFirstPage: false }, { ...CONTEXT, page: 1 }),
+    ).toHaveLength(4)
+  })
+
+  it('stamps header and footer slots on exported pages', async () => {
+    const sources = { cover: await createSourcePdf(), body: await createSourcePdf() }
+    const pages: PageReference[] = [
+      { id: 'p1', sourceFileId: 'cover', sourcePageIndex: 0, rotation: 0 },
+      { id: 'p2', sourceFileId: 'body', sourcePageIndex: 0, rotation: 90 },
+      { id: 'p3', sourceFileId: 'body', sourcePageIndex: 0, rotation: 0 },
+    ]
+
+    const bytes = await exportPages(pages, sources, {
+      outline: { include: false },
+      headerFooter: SETTINGS,
+      headerFooterContext: {
+        title: 'Q3 Résumé → Final',
+        author: '',
+        date: CONTEXT.date,
+        sourceFilenames: { cover: 'cover.pdf', body: 'body.pdf' },
+      },
+    })
+
+    const [first, second, third] = await readPageTexts(bytes)
+    expect(first).toEqual([])
+    expect(third?.map((item) => item.text)).toEqual([
+      'Q3 Résumé ? Final',
+      'body.pdf',
+      'Page 3 of 3',
+      '2026-03-04',
+    ])
+
+    // The rotated page is stamped in its displayed orientation.
+    const header = second?.find((item) => item.text === 'Q3 Résumé ? Final')
+    const footer = second?.find((item) => item.text === 'Page 2 of 3')
+    expect(header?.width).toBe(300)
+    expect(header?.x).toBeCloseTo(SETTINGS.margin, 3)
+    expect(header?.y).toBeLessThan(SETTINGS.margin + SETTINGS.fontSize)
+    expect(footer?.y).toBeCloseTo(200 - SETTINGS.margin, 3)
+  })
+})
@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import type { PageReference } from '@/shared/types'
+import { renderPageImage, resolveImageFilenames } from '@/domains/export/domain/export-images'
+
+function pageRef(id: string, partial: Partial<PageReference> = {}): PageReference {
+  return { id, sourceFileId: 'deck', sourcePageIndex: 0, rotation: 0, ...partial }
+}
+
+/** Records canvas calls; pdf.js rendering itself is stubbed. */
+function createCanvasStub() {
+  const fills: Array<{ style: string; rect: number[] }> = []
+  const context = {
+    fillStyle: '',
+    fillRect(...rect: number[]) {
+      fills.push({ style: context.fillStyle, rect })
+    },
+  }
+  const canvas = {
+    width: 0,
+    height: 0,
+    getContext: () => context,
+    toBlob: vi.fn((callback: (blob: Blob) => void, type: string) =>
+      callback(new Blob([new Uint8Array([1, 2, 3])], { type })),
+    ),
+  }
+  return { canvas, fills }
+}
+
+function createPdfStub(size: { width: number; height: number }) {
+  const render = vi.fn(() => ({ promise: Promise.resolve() }))
+  const getViewport = ({ scale, rotation }: { scale: number; rotation: number }) => {
+    const sideways = rotation % 180 !== 0
+    return {
+      width: (sideways ? size.height : size.width) * scale,
+      height: (sideways ? size.width : size.height) * scale,
+      scale,
+    }
+  }
+  const pdf = {
+    getPage: vi.fn(async () => ({ getViewport, render })),
+  } as unknown as PDFDocumentProxy
+  return { pdf, render }
+}
+
+describe('export images', () => {
+  afterEach(() => {
+    vi.restoreAllMocks()
+  })
+
+  it('names images from the pattern with padded page numbers', () => {
+    const pages = Array.from({ length: 12 }, (_, index) =>
+      pageRef(`p${index}`, { sourceFileId: index < 6 ? 'deck' : 'appendix' }),
+    )
+    const options = {
+      name: 'Q3 slides',
+      format: 'jpeg' as const,
+      sourceFilenames: { deck: 'deck.pdf', appendix: 'appendix.pdf' },
+    }
+
+    const named = resolveImageFilenames(pages, { ...options, pattern: '{original_name}_{PAGE}' })
+    expect(named[0]).toBe('deck_01.jpg')
+    expect(named[11]).toBe('appendix_12.jpg')
+
+    // Without {page} the number is appended; clashing names get a copy suffix.
+    expect(resolveImageFilenames(pages.slice(0, 2), { ...options, pattern: '{name}' })).toEqual([
+      'Q3 slides-1.jpg',
+      'Q3 slides-2.jpg',
+    ])
+    expect(
+      resolveImageFilenames(pages.slice(0, 2), { ...options, pattern: 'cover', format: 'webp' }),
+    ).toEqual(['cover-1.webp', 'cover-2.webp'])
+  })
+
+  it('renders at the chosen dpi, letterboxed into target dimensions, with redactions', async () => {
+    const { canvas, fills } = createCanvasStub()
+    vi.spyOn(document, 'createElement').mockReturnValue(canvas as unknown as HTMLElement)
+    const { pdf, render } = createPdfStub({ width: 200, height: 100 })
+
+    const bytes = await renderPageImage(
+      pageRef('p1', {
+        targetDimensions: { width: 200, height: 200 },
+        redactions: [{ id: 'r1', x: 10, y: 20, width: 30, height: 40, color: 'black' }],
+      }),
+      { format: 'jpeg', dpi: 144, quality: 0.8, getPdfDocument: async () => pdf },
+    )
+
+    expect(bytes).toEqual(new Uint8Array([1, 2, 3]))
+    expect(canvas.toBlob).toHaveBeenCalledWith(expect.any(Function), 'image/jpeg', 0.8)
+    // 200pt square at 2px/pt; the 2:1 page is centered vertically.
+    expect(render).toHaveBeenCalledWith(
+      expect.objectContaining({
+        viewport: expect.objectContaining({ width: 400, height: 200 }),
+        transform: [1, 0, 0, 1, 0, 100],
+      }),
+    )
+    expect(fills).toEqual([
+      { style: '#ffffff', rect: [0, 0, 400, 400] },
+      { style: '#000000', rect: [20, 140, 60, 80] },
+    ])
+    // The backing store is released once encoded.
+    expect(canvas.width).toBe(0)
+  })
+})
@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import type { PageReference } from '@/shared/types'
+import { generateRawPdf } from '@/domains/export/domain/export-pdf'
+import {
+  DEFAULT_IMPOSITION,
+  getImpositionCells,
+  planImpositionSides,
+} from '@/domains/export/domain/export-imposition'
+
+async function createLabelledPdf(labels: string[]): Promise<ArrayBuffer> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  for (const label of labels) {
+    const page = doc.addPage([200, 300])
+    page.drawText(label, { x: 90, y: 150, size: 20, font })
+  }
+  const bytes = await doc.save()
+  return bytes.slice().buffer
+}
+
+async function readSheets(bytes: Uint8Array) {
+  const pdf = await pdfjs.getDocument({ data: bytes, verbosity: pdfjs.VerbosityLevel.ERRORS })
+    .promise
+  const sheets = []
+  for (let pageNumber = 1; pageNumber <= pdf.numPages; pageNumber++) {
+    const page = await pdf.getPage(pageNumber)
+    const viewport = page.getViewport({ scale: 1 })
+    const content = await page.getTextContent()
+    sheets.push({
+      width: viewport.width,
+      height: viewport.height,
+      texts: content.items.flatMap((item) =>
+        'str' in item && item.str.trim()
+          ? [{ text: item.str, x: item.transform[4], direction: item.transform.slice(0, 2) }]
+          : [],
+      ),
+    })
+  }
+  await pdf.destroy()
+  return sheets
+}
+
+describe('export imposition', () => {
+  it('orders booklet sides for saddle stitching with blank padding', () => {
+    expect(planImpositionSides([1, 2, 3, 4, 5, 6], 'booklet')).toEqual([
+      [null, 1],
+      [2, null],
+      [6, 3],
+      [4, 5],
+    ])
+    expect(planImpositionSides([1, 2, 3, 4, 5], '4-up')).toEqual([
+      [1, 2, 3, 4],
+      [5, null, null, null],
+    ])
+    expect(planImpositionSides([], '9-up')).toEqual([])
+
+    const cells = getImpositionCells({ ...DEFAULT_IMPOSITION, layout: '9-up', sheetSize: 'a4' })
+    expect(cells).toHaveLength(9)
+    expect(cells[0]).toMatchObject({ x: 18, align: 'center' })
+    expect(cells[8]).toMatchObject({ y: 18 })
+  })
+
+  it('lays exported pages out 2-up in their displayed orientation', async () => {
+    const source = await createLabelledPdf(['A', 'B', 'C'])
+    const pages: PageReference[] = ['A', 'B', 'C'].map((id, index) => ({
+      id,
+      sourceFileId: 'source',
+      sourcePageIndex: index,
+      rotation: id === 'B' ? 90 : 0,
+    }))
+
+    const bytes = await generateRawPdf(pages, {
+      getPdfBlob: async () => source,
+      imposition: { ...DEFAULT_IMPOSITION, cropMarks: true },
+    })
+
+    const sheets = await readSheets(bytes)
+    expect(sheets).toHaveLength(2)
+    expect(sheets[0]).toMatchObject({ width: 792, height: 612 })
+
+    const [cellLeft, cellRight] = getImpositionCells(DEFAULT_IMPOSITION)
+    const [a, b] = sheets[0]!.texts
+    expect(a?.text).toBe('A')
+    expect(a?.x).toBeGreaterThan(cellLeft!.x)
+    expect(a?.x).toBeLessThan(cellLeft!.x + cellLeft!.width)
+    expect(b?.text).toBe('B')
+    expect(b?.x).toBeGreaterThan(cellRight!.x)
+    // The rotated page is turned clockwise, so its text runs downwards.
+    expect(b?.direction[0]).toBeCloseTo(0, 5)
+    expect(b?.direction[1]).toBeLessThan(0)
+    expect(sheets[1]?.texts.map((item) => item.text)).toEqual(['C'])
+  })
+})
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDict, PDFDocument, PDFName, PDFString, type PDFPage } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import { generateRawPdf } from '@/domains/export/domain/export'
+import type { PageReference } from '@/shared/types'
+
+const PAGE_WIDTH = 200
+const PAGE_HEIGHT = 300
+
+function addLink(doc: PDFDocument, page: PDFPage, y: number, link: Record<string, unknown>) {
+  const annot = doc.context.register(
+    doc.context.obj({
+      Type: 'Annot',
+      Subtype: 'Link',
+      Rect: [10, y, 100, y + 20],
+      Border: [0, 0, 0],
+      ...link,
+    }),
+  )
+  page.node.addAnnot(annot)
+}
+
+/** Page 1 links to pages 3, 4 (by name), 2 (GoTo action) and an external URL. */
+async function createLinkedSource(): Promise<ArrayBuffer> {
+  const doc = await PDFDocument.create()
+  const pages = Array.from({ length: 4 }, () => doc.addPage([PAGE_WIDTH, PAGE_HEIGHT]))
+  const [first, second, third, fourth] = pages as [PDFPage, PDFPage, PDFPage, PDFPage]
+
+  doc.catalog.set(
+    PDFName.of('Names'),
+    doc.context.obj({
+      Dests: { Names: [PDFString.of('chapter'), [fourth.ref, PDFName.of('Fit')]] },
+    }),
+  )
+
+  addLink(doc, first, 200, { Dest: [third.ref, 'XYZ', 10, 100, 0] })
+  addLink(doc, first, 150, { Dest: PDFString.of('chapter') })
+  addLink(doc, first, 100, { A: { S: 'GoTo', D: [second.ref, 'Fit'] } })
+  addLink(doc, first, 50, { A: { S: 'URI', URI: PDFString.of('https://example.com') } })
+
+  const bytes = await doc.save()
+  return bytes.slice().buffer
+}
+
+describe('export internal links', () => {
+  it('remaps links to exported pages and drops links to excluded pages', async () => {
+    const source = await createLinkedSource()
+    const page = (sourcePageIndex: number, partial: Partial<PageReference> = {}) => ({
+      id: `p${sourcePageIndex}`,
+      sourceFileId: 'source',
+      sourcePageIndex,
+      rotation: 0,
+      ...partial,
+    })
+    const pages: PageReference[] = [
+      page(3),
+      page(0),
+      page(2, { targetDimensions: { width: PAGE_WIDTH * 2, height: PAGE_HEIGHT * 2 } }),
+    ]
+
+    const bytes = await generateRawPdf(pages, { getPdfBlob: async () => source })
+
+    const pdf = await pdfjs.getDocument({
+      data: bytes.slice(),
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise
+    const annotations = await (await pdf.getPage(2)).getAnnotations()
+    const links = await Promise.all(
+      annotations.map(async (annotation) => ({
+        url: annotation.url as string | undefined,
+        pageIndex: Array.isArray(annotation.dest)
+          ? await pdf.getPageIndex(annotation.dest[0])
+          : undefined,
+        view: Array.isArray(annotation.dest) ? annotation.dest.slice(1) : undefined,
+      })),
+    )
+    await pdf.destroy()
+
+    expect(links).toEqual([
+      // The resized target page scales the view with its content.
+      { url: undefined, pageIndex: 2, view: [{ name: 'XYZ' }, 20, 200, 0] },
+      { url: undefined, pageIndex: 0, view: [{ name: 'Fit' }] },
+      { url: 'https://example.com/', pageIndex: undefined, view: undefined },
+    ])
+
+    // Link targets are not copied along as orphaned pages.
+    const output = await PDFDocument.load(bytes)
+    const pageObjects = output.context
+      .enumerateIndirectObjects()
+      .filter(
+        ([, object]) =>
+          object instanceof PDFDict && object.get(PDFName.of('Type')) === PDFName.of('Page'),
+      )
+    expect(pageObjects).toHaveLength(3)
+  })
+})
@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument, concatTransformationMatrix, degrees } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import {
+  DEFAULT_PAGE_NUMBERING,
+  formatPageStamp,
+  resolveSegmentStartNumbers,
+  stampPageNumbers,
+} from '@/domains/export/domain/export'
+import type { PageNumberingOptions, PageStampAnchor } from '@/domains/export/domain/export'
+import type { PageReference } from '@/shared/types'
+
+const PAGE_WIDTH = 300
+const PAGE_HEIGHT = 400
+
+async function stampAndLocate(anchor: PageStampAnchor, rotation: number) {
+  const doc = await PDFDocument.create()
+  const page = doc.addPage([PAGE_WIDTH, PAGE_HEIGHT])
+  page.setRotation(degrees(rotation))
+  // Unbalanced state left by the source content must not move the stamp.
+  page.pushOperators(concatTransformationMatrix(2, 0, 0, 2, 0, 0))
+  const options: PageNumberingOptions = { ...DEFAULT_PAGE_NUMBERING, anchor, margin: 20 }
+  await stampPageNumbers(doc, options)
+
+  const pdf = await pdfjs.getDocument({
+    data: await doc.save(),
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise
+  const pdfPage = await pdf.getPage(1)
+  const viewport = pdfPage.getViewport({ scale: 1 })
+  const content = await pdfPage.getTextContent()
+  await pdf.destroy()
+
+  const item = content.items.find((entry) => 'str' in entry && entry.str === '1')
+  if (!item || !('str' in item)) throw new Error('stamp not found')
+  const [x = 0, y = 0] = viewport.convertToViewportPoint(item.transform[4], item.transform[5])
+  return { x, y, viewport }
+}
+
+describe('export page numbering', () => {
+  it('formats Bates numbers and segment start numbers', () => {
+    const options = { ...DEFAULT_PAGE_NUMBERING, prefix: 'ABC', padding: 5, startNumber: 7 }
+    const segments = [[{}, {}], [{}], [{}, {}, {}]] as PageReference[][]
+
+    expect(formatPageStamp(options, 42)).toBe('ABC00042')
+    expect(formatPageStamp(DEFAULT_PAGE_NUMBERING, 3)).toBe('3')
+    expect(resolveSegmentStartNumbers(segments, options)).toEqual([7, 9, 10])
+    expect(resolveSegmentStartNumbers(segments, { ...options, restartPerSegment: true })).toEqual([
+      7, 7, 7,
+    ])
+  })
+
+  it('anchors the stamp in the displayed orientation of rotated pages', async () => {
+    for (const rotation of [0, 90, 180, 270]) {
+      const bottomRight = await stampAndLocate('bottom-right', rotation)
+      const { width, height } = bottomRight.viewport
+      expect(bottomRight.x).toBeGreaterThan(width - 40)
+      expect(bottomRight.x).toBeLessThan(width - 20)
+      expect(bottomRight.y).toBeCloseTo(height - 20, 3)
+
+      const topLeft = await stampAndLocate('top-left', rotation)
+      expect(topLeft.x).toBeCloseTo(20, 3)
+      expect(topLeft.y).toBeGreaterThan(20)
+      expect(topLeft.y).toBeLessThan(40)
+    }
+  })
+})
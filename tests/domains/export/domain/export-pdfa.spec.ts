@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest'
+import {
+  PDFArray,
+  PDFDict,
+  PDFDocument,
+  PDFName,
+  PDFRawStream,
+  PDFString,
+  decodePDFRawStream,
+} from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import type { PageReference, WatermarkSettings } from '@/shared/types'
+import { createSrgbIccProfile } from '@/domains/export/domain/export-pdfa'
+import { resolvePdfEncryptionOptions } from '@/domains/export/domain/export-encryption'
+import { createSourcePdf, exportPages } from '../../../utils/pdf-fixtures'
+
+const WATERMARK: WatermarkSettings = {
+  enabled: true,
+  kind: 'text',
+  text: 'DRAFT',
+  opacity: 0.3,
+  rotation: 45,
+  scale: 0.6,
+  layout: 'center',
+  pageRange: '1',
+}
+
+function pageRef(id: string, sourcePageIndex: number): PageReference {
+  return { id, sourceFileId: 'source', sourcePageIndex, rotation: 0 }
+}
+
+describe('export PDF/A', () => {
+  it('writes XMP, an sRGB output intent and a file ID instead of encrypting', async () => {
+    const source = await createSourcePdf({ pageCount: 2 })
+    const bytes = await exportPages([pageRef('a', 0), pageRef('b', 1)], source, {
+      outline: { include: false },
+      metadata: {
+        title: 'Annual <Report> & Notes',
+        author: 'Alice',
+        subject: '',
+        keywords: ['archive', 'finance'],
+        pdfVersion: 'PDF/A',
+      },
+      watermark: WATERMARK,
+      encryption: resolvePdfEncryptionOptions({
+        isEncrypted: true,
+        userPassword: 'secret',
+        ownerPassword: '',
+        allowPrinting: true,
+        allowCopying: true,
+        allowModifying: true,
+      }),
+    })
+
+    const doc = await PDFDocument.load(bytes)
+    const { catalog, context } = doc
+    expect(context.trailerInfo.Encrypt).toBeUndefined()
+    const id = context.lookup(context.trailerInfo.ID, PDFArray)
+    expect(id.size()).toBe(2)
+
+    const metadata = catalog.lookup(PDFName.of('Metadata'), PDFRawStream)
+    expect(metadata.dict.get(PDFName.of('Filter'))).toBeUndefined()
+    const xmp = new TextDecoder().decode(metadata.getContents())
+    expect(xmp).toContain('<pdfaid:part>2</pdfaid:part>')
+    expect(xmp).toContain('<pdfaid:conformance>B</pdfaid:conformance>')
+    expect(xmp).toContain('Annual &lt;Report&gt; &amp; Notes')
+    expect(xmp).toContain('<pdf:Keywords>archive finance</pdf:Keywords>')
+
+    const intent = catalog.lookup(PDFName.of('OutputIntents'), PDFArray).lookup(0, PDFDict)
+    expect(intent.get(PDFName.of('S'))).toBe(PDFName.of('GTS_PDFA1'))
+    expect(intent.lookup(PDFName.of('OutputConditionIdentifier'), PDFString).decodeText()).toBe(
+      'sRGB IEC61966-2.1',
+    )
+    const profile = intent.lookup(PDFName.of('DestOutputProfile'), PDFRawStream)
+    expect(decodePDFRawStream(profile).decode()).toEqual(createSrgbIccProfile())
+
+    // Only the page carrying the translucent watermark gets a blending group.
+    const [first, second] = doc.getPages()
+    const group = first?.node.lookup(PDFName.of('Group'), PDFDict)
+    expect(group?.get(PDFName.of('CS'))).toBe(PDFName.of('DeviceRGB'))
+    expect(second?.node.get(PDFName.of('Group'))).toBeUndefined()
+
+    const pdf = await pdfjs.getDocument({ data: bytes, verbosity: pdfjs.VerbosityLevel.ERRORS })
+      .promise
+    const { info, metadata: parsedXmp } = await pdf.getMetadata()
+    expect(parsedXmp?.get('dc:title')).toBe('Annual <Report> & Notes')
+    expect(parsedXmp?.get('dc:creator')).toEqual(['Alice'])
+    expect((info as { Title?: string }).Title).toBe('Annual <Report> & Notes')
+    await pdf.destroy()
+  })
+
+  it('builds a well-formed ICC v2 RGB display profile', () => {
+    const profile = createSrgbIccProfile()
+    const view = new DataView(profile.buffer)
+    const tag = (offset: number) => String.fromCharCode(...profile.subarray(offset, offset + 4))
+
+    expect(view.getUint32(0)).toBe(profile.byteLength)
+    expect(view.getUint8(8)).toBe(2)
+    expect([tag(12), tag(16), tag(20), tag(36)]).toEqual(['mntr', 'RGB ', 'XYZ ', 'acsp'])
+
+    const tagCount = view.getUint32(128)
+    const signatures = Array.from({ length: tagCount }, (_, index) => {
+      const entry = 132 + index * 12
+      const offset = view.getUint32(entry + 4)
+      const size = view.getUint32(entry + 8)
+      expect(offset % 4).toBe(0)
+      expect(offset + size).toBeLessThanOrEqual(profile.byteLength)
+      return tag(entry)
+    })
+    expect(signatures).toEqual(
+      expect.arrayContaining(['desc', 'cprt', 'wtpt', 'rXYZ', 'gXYZ', 'bXYZ', 'rTRC', 'gTRC', 'bTRC']),
+    )
+  })
+})
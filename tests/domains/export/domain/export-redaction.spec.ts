@@ -0,0 +1,146 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument, PDFRawStream, decodePDFRawStream, rgb } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import { resolveRedactionAreas } from '@/domains/export/domain/export'
+import type { PageReference, RedactionMark } from '@/shared/types'
+import { createSourcePdf, exportPages } from '../../../utils/pdf-fixtures'
+
+const PAGE_WIDTH = 300
+const PAGE_HEIGHT = 400
+const FONT_SIZE = 18
+// 1x1 red PNG
+const PNG_BYTES = Uint8Array.from(
+  atob(
+    'iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mP8z8DwHwAFBQIAX8jx0gAAAABJRU5ErkJggg==',
+  ),
+  (char) => char.charCodeAt(0),
+)
+
+/** One page of text lines, a filled square and an image, plus where "SECRET" sits */
+async function createRedactionSource() {
+  let secretStart = 0
+  let secretWidth = 0
+  const bytes = await createSourcePdf({
+    size: [PAGE_WIDTH, PAGE_HEIGHT],
+    draw: async (page, { doc, font }) => {
+      const image = await doc.embedPng(PNG_BYTES)
+      page.drawText('Public heading', { x: 40, y: 300, size: FONT_SIZE, font })
+      page.drawText('Account 12345', { x: 40, y: 250, size: FONT_SIZE, font })
+      page.drawText('Keep SECRET keep', { x: 40, y: 200, size: FONT_SIZE, font })
+      page.drawRectangle({ x: 40, y: 40, width: 50, height: 50, color: rgb(0, 0, 1) })
+      page.drawImage(image, { x: 200, y: 40, width: 50, height: 50 })
+      secretStart = 40 + font.widthOfTextAtSize('Keep ', FONT_SIZE)
+      secretWidth = font.widthOfTextAtSize('SECRET', FONT_SIZE)
+    },
+  })
+  return { bytes, secretStart, secretWidth }
+}
+
+function toHex(text: string): string {
+  return Array.from(text, (char) => char.charCodeAt(0).toString(16).padStart(2, '0'))
+    .join('')
+    .toUpperCase()
+}
+
+/** Decoded contents of every stream in the file, including unreferenced ones. */
+async function readAllStreams(bytes: Uint8Array): Promise<string> {
+  const doc = await PDFDocument.load(bytes)
+  const decoder = new TextDecoder('latin1')
+  return doc.context
+    .enumerateIndirectObjects()
+    .flatMap(([, object]) =>
+      object instanceof PDFRawStream ? [decoder.decode(decodePDFRawStream(object).decode())] : [],
+    )
+    .join('\n')
+    .toUpperCase()
+}
+
+function createPage(redactions: RedactionMark[], rotation = 0): PageReference {
+  return { id: 'page-1', sourceFileId: 'source-1', sourcePageIndex: 0, rotation, redactions }
+}
+
+async function readOutput(bytes: Uint8Array) {
+  const pdf = await pdfjs.getDocument({
+    data: bytes.slice(),
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise
+  const page = await pdf.getPage(1)
+  const content = await page.getTextContent()
+  const operators = await page.getOperatorList()
+  const text = content.items.map((item) => ('str' in item ? item.str : '')).join(' ')
+  await pdf.destroy()
+  return {
+    text,
+    paintsImage: operators.fnArray.includes(pdfjs.OPS.paintImageXObject),
+  }
+}
+
+describe('export redaction', () => {
+  it('removes covered text, images and paths while keeping the page vector', async () => {
+    const source = await createRedactionSource()
+    const redactions: RedactionMark[] = [
+      // Whole "Account 12345" line
+      { id: 'line', x: 30, y: PAGE_HEIGHT - 272, width: 220, height: 30 },
+      // Only the middle word of "Keep SECRET keep"
+      {
+        id: 'word',
+        x: source.secretStart + 1,
+        y: PAGE_HEIGHT - 218,
+        width: source.secretWidth - 2,
+        height: 24,
+        color: 'white',
+      },
+      // The image
+      { id: 'image', x: 195, y: PAGE_HEIGHT - 95, width: 60, height: 60 },
+    ]
+
+    const bytes = await exportPages([createPage(redactions)], source.bytes)
+    const output = await readOutput(bytes)
+
+    expect(output.text).toContain('Public heading')
+    expect(output.text).toContain('Keep')
+    expect(output.text).toContain('keep')
+    expect(output.text).not.toContain('SECRET')
+    expect(output.text).not.toContain('12345')
+    expect(output.paintsImage).toBe(false)
+
+    const streams = await readAllStreams(bytes)
+    expect(streams).toContain(toHex('Public heading'))
+    expect(streams).not.toContain(toHex('12345'))
+    expect(streams).not.toContain(toHex('SECRET'))
+
+    const raw = new TextDecoder('latin1').decode(bytes)
+    expect(raw).not.toMatch(/\/Subtype\s*\/Image/)
+  })
+
+  it('keeps text outside the marks untouched', async () => {
+    const source = await createRedactionSource()
+    const bytes = await exportPages(
+      [createPage([{ id: 'path', x: 35, y: PAGE_HEIGHT - 95, width: 60, height: 60 }])],
+      source.bytes,
+    )
+    const output = await readOutput(bytes)
+
+    expect(output.text).toContain('Account 12345')
+    expect(output.text).toContain('Keep SECRET keep')
+    expect(output.paintsImage).toBe(true)
+  })
+
+  it('maps marks drawn on rotated pages back to user space', () => {
+    const cropBox = { x: 0, y: 0, width: PAGE_WIDTH, height: PAGE_HEIGHT }
+    const mark: RedactionMark = { id: 'mark', x: 10, y: 20, width: 30, height: 40 }
+
+    expect(resolveRedactionAreas([mark], cropBox, 0)).toEqual([
+      { left: 10, bottom: 340, right: 40, top: 380 },
+    ])
+    expect(resolveRedactionAreas([mark], cropBox, 90)).toEqual([
+      { left: 20, bottom: 10, right: 60, top: 40 },
+    ])
+    expect(resolveRedactionAreas([mark], cropBox, 180)).toEqual([
+      { left: 260, bottom: 20, right: 290, top: 60 },
+    ])
+    expect(resolveRedactionAreas([mark], cropBox, 270)).toEqual([
+      { left: 240, bottom: 360, right: 280, top: 390 },
+    ])
+  })
+})
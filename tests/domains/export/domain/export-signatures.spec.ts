@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import type { PageReference, PageSignature } from '@/shared/types'
+import { generateRawPdf } from '@/domains/export/domain/export-pdf'
+
+const PIXEL_PNG =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNkYPhfDwAChwGA60e6kgAAAABJRU5ErkJggg=='
+
+function signature(artwork: PageSignature['artwork']): PageSignature {
+  return { id: 'sig-1', signatureId: 'saved-1', x: 20, y: 30, width: 100, height: 50, artwork }
+}
+
+function pageRef(partial: Partial<PageReference> = {}): PageReference {
+  return { id: 'page-1', sourceFileId: 'source', sourcePageIndex: 0, rotation: 0, ...partial }
+}
+
+async function exportOperators(page: PageReference) {
+  const doc = await PDFDocument.create()
+  doc.addPage([200, 300])
+  const source = await doc.save()
+  const bytes = await generateRawPdf([page], {
+    getPdfBlob: async () => source.slice().buffer,
+  })
+  const pdf = await pdfjs.getDocument({ data: bytes, verbosity: pdfjs.VerbosityLevel.ERRORS })
+    .promise
+  const pdfPage = await pdf.getPage(1)
+  return await pdfPage.getOperatorList()
+}
+
+function findArgs(list: { fnArray: number[]; argsArray: unknown[] }, op: number) {
+  return list.fnArray.flatMap((fn, index) => (fn === op ? [list.argsArray[index]] : []))
+}
+
+describe('export signatures', () => {
+  it('paints image signatures into the placement box', async () => {
+    const list = await exportOperators(
+      pageRef({
+        signatures: [signature({ kind: 'uploaded', width: 1, height: 1, image: PIXEL_PNG })],
+      }),
+    )
+
+    expect(list.fnArray).toContain(pdfjs.OPS.paintImageXObject)
+    expect(findArgs(list, pdfjs.OPS.transform)).toContainEqual([100, 0, 0, 50, 20, 220])
+  })
+
+  it('draws drawn signatures as vector strokes on rotated pages', async () => {
+    const list = await exportOperators(
+      pageRef({
+        rotation: 90,
+        signatures: [
+          signature({
+            kind: 'drawn',
+            width: 10,
+            height: 5,
+            strokes: [[0, 0, 10, 5]],
+            strokeColor: '#1e3a8a',
+            strokeWidth: 1,
+          }),
+        ],
+      }),
+    )
+
+    expect(list.fnArray).not.toContain(pdfjs.OPS.paintImageXObject)
+    expect(list.fnArray).toContain(pdfjs.OPS.constructPath)
+    // Displayed x runs up the unrotated page and displayed y runs along its x axis.
+    expect(findArgs(list, pdfjs.OPS.transform)).toContainEqual([0, 10, 10, 0, 30, 20])
+  })
+})
@@ -0,0 +1,162 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument, StandardFonts } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import type { PageReference, WatermarkSettings } from '@/shared/types'
+import {
+  isWatermarkActive,
+  resolveSegmentWatermarks,
+  stampWatermark,
+} from '@/domains/export/domain/export-watermark'
+import { createSourcePdf, exportPages } from '../../../utils/pdf-fixtures'
+
+// 1x1 opaque PNG
+const PNG_DATA_URL =
+  'data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAEAAAABCAYAAAAfFcSJAAAADUlEQVR42mNk+M9QDwADhgGAWjR9awAAAABJRU5ErkJggg=='
+
+const TEXT_WATERMARK: WatermarkSettings = {
+  enabled: true,
+  kind: 'text',
+  text: 'DRAFT',
+  opacity: 0.3,
+  rotation: 45,
+  scale: 0.6,
+  layout: 'center',
+  pageRange: '',
+}
+
+function pageRef(id: string, partial: Partial<PageReference> = {}): PageReference {
+  return { id, sourceFileId: 'source', sourcePageIndex: 0, rotation: 0, ...partial }
+}
+
+async function loadPdf(bytes: Uint8Array) {
+  return await pdfjs.getDocument({ data: bytes, verbosity: pdfjs.VerbosityLevel.ERRORS }).promise
+}
+
+/** Center and counter-clockwise angle of the watermark text in the displayed page. */
+async function readTextPlacement(pdf: pdfjs.PDFDocumentProxy, pageNumber: number) {
+  const page = await pdf.getPage(pageNumber)
+  const viewport = page.getViewport({ scale: 1 })
+  const content = await page.getTextContent()
+  const item = content.items.flatMap((entry) => ('str' in entry ? [entry] : []))[0]
+  if (!item) throw new Error(`no text on page ${pageNumber}`)
+
+  const fontDoc = await PDFDocument.create()
+  const font = await fontDoc.embedFont(StandardFonts.HelveticaBold)
+  const ascentRatio = font.heightAtSize(1, { descender: false })
+
+  const [a = 1, b = 0, c = 0, d = 1, e = 0, f = 0] = item.transform
+  const size = Math.hypot(a, b)
+  const rise = (Math.hypot(c, d) * ascentRatio) / 2
+  const centerX = e + (a / size) * (item.width / 2) + (c / Math.hypot(c, d)) * rise
+  const centerY = f + (b / size) * (item.width / 2) + (d / Math.hypot(c, d)) * rise
+  const [viewX = 0, viewY = 0] = viewport.convertToViewportPoint(centerX, centerY)
+
+  const [ta = 1, tb = 0, tc = 0, td = 1] = viewport.transform
+  const dirX = ta * a + tc * b
+  const dirY = tb * a + td * b
+
+  return {
+    text: item.str,
+    center: { x: viewX, y: viewY },
+    view: { width: viewport.width, height: viewport.height },
+    angle: (Math.atan2(-dirY, dirX) * 180) / Math.PI,
+  }
+}
+
+async function countImageDraws(pdf: pdfjs.PDFDocumentProxy, pageNumber: number) {
+  const page = await pdf.getPage(pageNumber)
+  const operators = await page.getOperatorList()
+  return operators.fnArray.filter((fn) => fn === pdfjs.OPS.paintImageXObject).length
+}
+
+describe('export watermark', () => {
+  it('centers text on resized and rotated pages after export', async () => {
+    const source = await createSourcePdf()
+    const bytes = await exportPages(
+      [
+        pageRef('resized', { targetDimensions: { width: 600, height: 400 } }),
+        pageRef('rotated', { rotation: 90 }),
+      ],
+      source,
+      {
+        outline: { include: false },
+        watermark: TEXT_WATERMARK,
+      },
+    )
+
+    const pdf = await loadPdf(bytes)
+    for (const pageNumber of [1, 2]) {
+      const placement = await readTextPlacement(pdf, pageNumber)
+      expect(placement.text).toBe('DRAFT')
+      expect(placement.center.x).toBeCloseTo(placement.view.width / 2, 0)
+      expect(placement.center.y).toBeCloseTo(placement.view.height / 2, 0)
+      expect(placement.angle).toBeCloseTo(45, 3)
+    }
+    expect((await readTextPlacement(pdf, 1)).view).toEqual({ width: 600, height: 400 })
+    await pdf.destroy()
+  })
+
+  it('replaces characters the font cannot encode and skips text with none left', async () => {
+    const source = await createSourcePdf()
+    const exportWithText = (text: string) =>
+      exportPages([pageRef('page')], source, {
+        outline: { include: false },
+        watermark: { ...TEXT_WATERMARK, text },
+      })
+
+    const pdf = await loadPdf(await exportWithText('ENTWURF ✓'))
+    expect((await readTextPlacement(pdf, 1)).text).toBe('ENTWURF ?')
+    await pdf.destroy()
+
+    const blank = await loadPdf(await exportWithText('草稿 Черновик'))
+    const content = await (await blank.getPage(1)).getTextContent()
+    expect(content.items).toHaveLength(0)
+    await blank.destroy()
+  })
+
+  it('tiles images only on pages in range', async () => {
+    const doc = await PDFDocument.load(await createSourcePdf({ pageCount: 3 }))
+    await stampWatermark(doc, {
+      ...TEXT_WATERMARK,
+      kind: 'image',
+      imageDataUrl: PNG_DATA_URL,
+      scale: 0.2,
+      layout: 'tile',
+      pageRange: '2-3',
+    })
+
+    const pdf = await loadPdf(await doc.save())
+    expect(await countImageDraws(pdf, 1)).toBe(0)
+    expect(await countImageDraws(pdf, 2)).toBeGreaterThan(4)
+    expect(await countImageDraws(pdf, 3)).toBe(await countImageDraws(pdf, 2))
+    await pdf.destroy()
+  })
+
+  it('re-bases the page range onto export segments', () => {
+    const segments = [
+      [pageRef('a'), pageRef('b')],
+      [pageRef('c')],
+      [pageRef('d'), pageRef('e')],
+    ]
+
+    expect(
+      resolveSegmentWatermarks(segments, { ...TEXT_WATERMARK, pageRange: '2-4' }).map(
+        (watermark) => watermark?.pageRange ?? null,
+      ),
+    ).toEqual(['2', '1', '1'])
+    expect(
+      resolveSegmentWatermarks(segments, { ...TEXT_WATERMARK, pageRange: '5' }).map(
+        (watermark) => watermark?.pageRange ?? null,
+      ),
+    ).toEqual([null, null, '2'])
+    expect(resolveSegmentWatermarks(segments, TEXT_WATERMARK)).toEqual([
+      TEXT_WATERMARK,
+      TEXT_WATERMARK,
+      TEXT_WATERMARK,
+    ])
+
+    expect(isWatermarkActive({ ...TEXT_WATERMARK, text: '  ' })).toBe(false)
+    expect(isWatermarkActive({ ...TEXT_WATERMARK, kind: 'image' })).toBe(false)
+    expect(isWatermarkActive({ ...TEXT_WATERMARK, enabled: false })).toBe(false)
+  })
+})
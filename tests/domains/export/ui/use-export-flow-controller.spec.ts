@@ -10,6 +10,33 @@ function createDocumentStub() {
       subject: '',
       keywords: ['demo'],
     },
+    security: {
+      isEncrypted: true,
+      userPassword: 'open-sesame',
+      ownerPassword: '',
+      allowPrinting: true,
+      allowCopying: false,
+      allowModifying: false,
+    },
+    watermark: {
+      enabled: true,
+      kind: 'text' as const,
+      text: 'DRAFT',
+      opacity: 0.2,
+      rotation: 45,
+      scale: 0.7,
+      layout: 'center' as const,
+      pageRange: '',
+    },
+    headerFooter: {
+      enabled: false,
+      header: { left: '', center: '', right: '' },
+      footer: { left: '', center: '', right: '' },
+      font: 'helvetica' as const,
+      fontSize: 9,
+      margin: 24,
+      skipFirstPage: false,
+    },
     projectTitle: 'Quarterly Report',
     selectedCount: 2,
     selectedIds: new Set(['page-1', 'page-3']),
@@ -44,6 +71,8 @@ function createActionsStub() {
     clearExportError: vi.fn(),
     parsePageRange: vi.fn(() => [0, 1]),
     validatePageRange: vi.fn(() => ({ valid: true })),
+    setWatermark: vi.fn(),
+    setHeaderFooter: vi.fn(),
   }
 }
 
@@ -113,6 +142,8 @@ describe('useExportFlowController', () => {
     await nextTick()
     if (!controller) throw new Error('controller missing')
     controller.isConfigValid.value = true
+    controller.settings.value.watermark.text = 'CONFIDENTIAL'
+    controller.settings.value.headerFooter.footer.center = 'Page {page} of {total}'
 
     await controller.handleExport()
 
@@ -123,8 +154,23 @@ describe('useExportFlowController', () => {
         metadata: expect.objectContaining({
           title: 'Quarterly Report',
         }),
+        security: expect.objectContaining({
+          isEncrypted: true,
+          userPassword: 'open-sesame',
+        }),
+        watermark: expect.objectContaining({ text: 'CONFIDENTIAL' }),
       }),
     )
+    expect(actions.exportDocument.mock.calls[0]?.[0]?.headerFooter).toBeNull()
+    expect(actions.setHeaderFooter).toHaveBeenCalledWith(
+      expect.objectContaining({
+        footer: expect.objectContaining({ center: 'Page {page} of {total}' }),
+      }),
+    )
+    expect(document.headerFooter.footer.center).toBe('')
+    expect(actions.setWatermark).toHaveBeenCalledWith(
+      expect.objectContaining({ enabled: true, text: 'CONFIDENTIAL' }),
+    )
     expect(controller.exportComplete.value).toBe(true)
     expect(controller.exportStats.value).toEqual({
       filename: 'quarterly-report',
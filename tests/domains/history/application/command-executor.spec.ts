@@ -1,8 +1,16 @@
 import { describe, expect, it } from 'vitest'
 import { createDocumentState } from '@/domains/project-session/session/document-state'
 import { createHistoryCommandExecutor } from '@/domains/history/application'
-import { AddPagesCommand, DeletePagesCommand, DuplicatePagesCommand } from '@/domains/history/domain/commands'
+import {
+  AddPagesCommand,
+  CropPagesCommand,
+  DeletePagesCommand,
+  DuplicatePagesCommand,
+  InsertPagesCommand,
+  SplitSpreadCommand,
+} from '@/domains/history/domain/commands'
 import type { PageReference, SourceFile } from '@/shared/types'
+import { splitPageCrop } from '@/shared/utils/page-crop'
 
 function createSource(id: string, pageCount = 1): SourceFile {
   return {
@@ -118,4 +126,131 @@ describe('createHistoryCommandExecutor', () => {
       'page-3',
     ])
   })
+
+  it('restores the previous crop on undo', () => {
+    const store = createDocumentState()
+    const executor = createHistoryCommandExecutor({ documentStore: store })
+    const source = createSource('source-1')
+    const crop = { x: 10, y: 10, width: 500, height: 700 }
+    const page = { ...createPage('page-1', source.id), crop }
+
+    store.addSourceFile(source)
+    store.addPages([page])
+
+    const command = new CropPagesCommand([{ pageId: page.id, crop: null }])
+    executor.execute(command)
+
+    expect(command.name).toBe('Uncrop page')
+    expect(store.contentPages[0]?.crop).toBeUndefined()
+
+    executor.undo(command)
+
+    expect(store.contentPages[0]?.crop).toEqual(crop)
+  })
+
+  it('replaces split pages with cropped halves and restores them on undo', () => {
+    const store = createDocumentState()
+    const executor = createHistoryCommandExecutor({ documentStore: store })
+    const source = createSource('source-1', 3)
+    const page1 = createPage('page-1', source.id, 0)
+    const page2 = createPage('page-2', source.id, 1)
+    const page3 = createPage('page-3', source.id, 2)
+    const left = { x: 0, y: 0, width: 306, height: 792 }
+    const right = { x: 306, y: 0, width: 306, height: 792 }
+
+    store.addSourceFile(source)
+    store.addPages([page1, page2, page3])
+
+    const command = new SplitSpreadCommand([
+      { pageId: page1.id, crops: [left, right] },
+      { pageId: page3.id, crops: [left, right] },
+    ])
+    executor.execute(command)
+
+    const [a, b, c, d] = command.createdPageIds
+    expect(store.contentPages.map((entry) => entry.id)).toEqual([a, b, 'page-2', c, d])
+    expect(store.contentPages.map((entry) => entry.sourcePageIndex)).toEqual([0, 0, 1, 2, 2])
+    expect(store.contentPages[0]?.crop).toEqual(left)
+    expect(store.contentPages[1]?.crop).toEqual(right)
+
+    executor.undo(command)
+
+    expect(store.contentPages.map((entry) => entry.id)).toEqual(['page-1', 'page-2', 'page-3'])
+    expect(store.contentPages[0]?.crop).toBeUndefined()
+
+    executor.execute(command)
+
+    expect(store.contentPages.map((entry) => entry.id)).toEqual([a, b, 'page-2', c, d])
+  })
+
+  it('keeps annotations and signatures on the half they overlap', () => {
+    const store = createDocumentState()
+    const executor = createHistoryCommandExecutor({ documentStore: store })
+    const source = createSource('source-1')
+    // Turned sideways, so the displayed page is 792 wide and overlays sit in that space
+    const page = {
+      ...createPage('page-1', source.id),
+      rotation: 90,
+      annotations: [
+        {
+          id: 'note',
+          kind: 'note' as const,
+          color: '#ffd400',
+          x: 40,
+          y: 40,
+          width: 20,
+          height: 20,
+        },
+      ],
+      signatures: [
+        {
+          id: 'sign',
+          signatureId: 'signature-1',
+          artwork: { kind: 'typed' as const, width: 100, height: 40 },
+          x: 600,
+          y: 500,
+          width: 100,
+          height: 40,
+        },
+      ],
+      redactions: [{ id: 'mark', x: 380, y: 0, width: 40, height: 20, color: 'black' as const }],
+    }
+    store.addSourceFile(source)
+    store.addPages([page])
+
+    const crops = splitPageCrop({ width: 612, height: 792 }, 90, null, 'vertical', 0.5)
+    executor.execute(new SplitSpreadCommand([{ pageId: page.id, crops }]))
+
+    const [left, right] = store.contentPages
+    expect(left?.annotations?.map((annotation) => annotation.id)).toEqual(['note'])
+    expect(left?.signatures).toEqual([])
+    expect(right?.annotations).toEqual([])
+    expect(right?.signatures?.map((signature) => signature.id)).toEqual(['sign'])
+    expect(left?.redactions?.map((mark) => mark.id)).toEqual(['mark'])
+    expect(right?.redactions?.map((mark) => mark.id)).toEqual(['mark'])
+  })
+
+  it('inserts pages at a position and removes an added source on undo', () => {
+    const store = createDocumentState()
+    const executor = createHistoryCommandExecutor({ documentStore: store })
+    const source = createSource('source-1', 2)
+    const blank = { ...createSource('blank-1'), isBlankSource: true }
+    const page1 = createPage('page-1', source.id, 0)
+    const page2 = createPage('page-2', source.id, 1)
+
+    store.addSourceFile(source)
+    store.addPages([page1, page2])
+
+    const command = new InsertPagesCommand(blank, [createPage('blank-page', blank.id)], 1)
+    executor.execute(command)
+
+    expect(command.name).toBe('Insert page')
+    expect(store.sources.has(blank.id)).toBe(true)
+    expect(store.pages.map((entry) => entry.id)).toEqual(['page-1', 'blank-page', 'page-2'])
+
+    executor.undo(command)
+
+    expect(store.sources.has(blank.id)).toBe(false)
+    expect(store.pages.map((entry) => entry.id)).toEqual(['page-1', 'page-2'])
+  })
 })
@@ -1,7 +1,12 @@
 import { describe, expect, it } from 'vitest'
 import { createDocumentState } from '@/domains/project-session/session/document-state'
 import { createHistorySession } from '@/domains/history/session/create-history-session'
-import { AddSourceCommand, RemoveSourceCommand } from '@/domains/history/domain/commands'
+import {
+  AddSourceCommand,
+  RemoveSourceCommand,
+  UpdateMetadataCommand,
+  UpdateSecurityCommand,
+} from '@/domains/history/domain/commands'
 import type { SourceFile } from '@/shared/types'
 
 function createSource(id: string): SourceFile {
@@ -80,4 +85,75 @@ describe('createHistorySession', () => {
 
     expect(() => history.serializeHistory()).toThrow('Map/Set')
   })
+
+  it('merges consecutive field edits and restores metadata and security on undo', () => {
+    const document = createDocumentState()
+    const history = createHistorySession(document)
+    const initial = { ...document.metadata, keywords: [...document.metadata.keywords] }
+
+    history.execute(
+      new UpdateMetadataCommand(
+        initial,
+        { ...initial, title: 'D' },
+        false,
+        true,
+        'Edit title',
+        'metadata:title',
+        undefined,
+        1000,
+      ),
+    )
+    history.execute(
+      new UpdateMetadataCommand(
+        { ...initial, title: 'D' },
+        { ...initial, title: 'Draft' },
+        true,
+        true,
+        'Edit title',
+        'metadata:title',
+        undefined,
+        1500,
+      ),
+    )
+    history.execute(
+      new UpdateMetadataCommand(
+        { ...initial, title: 'Draft' },
+        { ...initial, title: 'Draft', pdfVersion: 'PDF/A' },
+        true,
+        true,
+        'Change output format',
+        null,
+        undefined,
+        1600,
+      ),
+    )
+
+    expect(history.history).toHaveLength(2)
+    expect(document.metadata).toMatchObject({ title: 'Draft', pdfVersion: 'PDF/A' })
+
+    history.undo()
+    expect(document.metadata.pdfVersion).toBeUndefined()
+    history.undo()
+    expect(document.metadata.title).toBe(initial.title)
+    expect(document.metadataDirty).toBe(false)
+
+    const security = { ...document.security }
+    history.execute(
+      new UpdateSecurityCommand(
+        security,
+        { ...security, isEncrypted: true, userPassword: 'secret' },
+        'Toggle encryption',
+      ),
+    )
+    const serialized = history.serializeHistory()
+    expect(JSON.stringify(serialized)).not.toContain('secret')
+
+    const restored = createHistorySession(createDocumentState())
+    restored.rehydrateHistory(serialized, history.getHistoryPointer())
+
+    expect(restored.history[0]?.command).toBeInstanceOf(UpdateSecurityCommand)
+    expect(restored.history[0]?.command).toMatchObject({ next: { isEncrypted: true } })
+    history.undo()
+    expect(document.security).toEqual(security)
+  })
 })
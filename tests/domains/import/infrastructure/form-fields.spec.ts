@@ -0,0 +1,72 @@
+import { describe, expect, it, vi } from 'vitest'
+import { PDFDocument, PDFName, PDFString } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import type { PDFDocumentProxy } from 'pdfjs-dist'
+import { extractFormFields } from '@/domains/import/infrastructure/form-fields'
+
+vi.mock('pdfjs-dist', () => import('pdfjs-dist/legacy/build/pdf.mjs'))
+
+async function createFormPdf(): Promise<Uint8Array> {
+  const doc = await PDFDocument.create()
+  const [first, second] = [doc.addPage([300, 400]), doc.addPage([300, 400])]
+  const form = doc.getForm()
+
+  const name = form.createTextField('employee.name')
+  name.setText('Alice')
+  name.addToPage(first, { x: 20, y: 340, width: 200, height: 20 })
+
+  const start = form.createTextField('employee.start')
+  start.addToPage(first, { x: 20, y: 300, width: 100, height: 20 })
+  start.acroField.dict.set(
+    PDFName.of('AA'),
+    doc.context.obj({ F: { S: 'JavaScript', JS: PDFString.of('AFDate_FormatEx("dd.mm.yyyy");') } }),
+  )
+
+  form.createCheckBox('remote').addToPage(first, { x: 20, y: 260, width: 16, height: 16 })
+
+  const shift = form.createRadioGroup('shift')
+  shift.addOptionToPage('early', second, { x: 20, y: 340, width: 16, height: 16 })
+  shift.addOptionToPage('late', second, { x: 60, y: 340, width: 16, height: 16 })
+  shift.select('late')
+
+  const team = form.createDropdown('team')
+  team.addOptions(['HR', 'IT'])
+  team.addToPage(second, { x: 20, y: 300, width: 100, height: 20 })
+
+  return doc.save()
+}
+
+describe('form field extraction', () => {
+  it('reads fillable fields with widget boxes in top-left page points', async () => {
+    const pdf = await pdfjs.getDocument({
+      data: await createFormPdf(),
+      verbosity: pdfjs.VerbosityLevel.ERRORS,
+    }).promise
+    const fields = await extractFormFields(pdf as unknown as PDFDocumentProxy)
+    await pdf.destroy()
+
+    expect(fields.map(({ name, kind, value }) => ({ name, kind, value }))).toEqual([
+      { name: 'employee.name', kind: 'text', value: 'Alice' },
+      { name: 'employee.start', kind: 'date', value: '' },
+      { name: 'remote', kind: 'checkbox', value: false },
+      { name: 'shift', kind: 'radio', value: '1' },
+      { name: 'team', kind: 'dropdown', value: '' },
+    ])
+    expect(fields[1]?.dateFormat).toBe('dd.mm.yyyy')
+    expect(fields[4]?.options).toEqual([
+      { value: 'HR', label: 'HR' },
+      { value: 'IT', label: 'IT' },
+    ])
+
+    // pdf.js pads widget rects by half the border width.
+    expect(fields[0]?.widgets).toEqual([
+      { pageIndex: 0, x: 19.5, y: 39.5, width: 201, height: 21 },
+    ])
+    expect(fields[3]?.widgets.map(({ pageIndex, exportValue }) => [pageIndex, exportValue])).toEqual(
+      [
+        [1, '0'],
+        [1, '1'],
+      ],
+    )
+  })
+})
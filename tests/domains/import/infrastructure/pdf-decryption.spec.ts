@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest'
+import { PDFDocument } from 'pdf-lib'
+import * as pdfjs from 'pdfjs-dist/legacy/build/pdf.mjs'
+import { encryptPdfBytes } from '@/domains/export/domain/export'
+import { decryptPdfBytes } from '@/domains/import/infrastructure/pdf-decryption'
+import type { PdfEncryptionAlgorithm } from '@/shared/types'
+import { createSourcePdf, type SourcePdfOptions } from '../../../utils/pdf-fixtures'
+
+const SOURCE: SourcePdfOptions = {
+  size: [300, 400],
+  labels: ['First page', 'Second page'],
+  title: 'Quarterly figures',
+}
+
+async function readPdf(bytes: Uint8Array) {
+  const pdf = await pdfjs.getDocument({
+    data: bytes.slice(),
+    verbosity: pdfjs.VerbosityLevel.ERRORS,
+  }).promise
+  const texts: string[] = []
+  for (let index = 1; index <= pdf.numPages; index++) {
+    const page = await pdf.getPage(index)
+    const content = await page.getTextContent()
+    texts.push(
+      content.items
+        .map((item) => ('str' in item ? item.str : ''))
+        .join('')
+        .trim(),
+    )
+  }
+  const metadata = await pdf.getMetadata()
+  await pdf.destroy()
+  return { texts, info: metadata.info as Record<string, unknown> }
+}
+
+function encrypt(bytes: Uint8Array, algorithm: PdfEncryptionAlgorithm) {
+  return encryptPdfBytes(bytes, {
+    algorithm,
+    userPassword: 'reader',
+    ownerPassword: 'admin',
+    permissions: { printing: true, copying: true, modifying: true },
+  })
+}
+
+describe('pdf decryption', () => {
+  it.each<PdfEncryptionAlgorithm>(['rc4-128', 'aes-128', 'aes-256'])(
+    'removes %s encryption with the user or owner password',
+    async (algorithm) => {
+      const encrypted = await encrypt(await createSourcePdf(SOURCE), algorithm)
+
+      for (const password of ['reader', 'admin']) {
+        const decrypted = await decryptPdfBytes(encrypted, password)
+        const { texts, info } = await readPdf(decrypted)
+
+        expect(texts).toEqual(['First page', 'Second page'])
+        expect(info.Title).toBe('Quarterly figures')
+        expect(info.EncryptFilterName).toBeFalsy()
+        await expect(PDFDocument.load(decrypted)).resolves.toBeInstanceOf(PDFDocument)
+      }
+    },
+  )
+
+  it('rejects a wrong password', async () => {
+    const encrypted = await encrypt(await createSourcePdf(SOURCE), 'aes-128')
+
+    await expect(decryptPdfBytes(encrypted, 'nope')).rejects.toThrow('Incorrect password')
+  })
+
+  it('returns unencrypted files unchanged', async () => {
+    const source = await createSourcePdf({ ...SOURCE, useObjectStreams: true })
+
+    expect(await decryptPdfBytes(source)).toBe(source)
+  })
+})
@@ -85,4 +85,21 @@ describe('document-state batch mutations', () => {
     expect(store.contentPages[1]?.targetDimensions).toEqual({ width: 800, height: 1000 })
     expect(store.pagesVersion).toBe(previousVersion + 1)
   })
+
+  it('stores form values per source and drops cleared entries', () => {
+    const store = createDocumentState()
+    const previousVersion = store.formValuesVersion
+
+    store.setFormFieldValue('source-a', 'name', 'Alice')
+    store.setFormFieldValue('source-a', 'agree', true)
+    store.setFormFieldValue('source-b', 'name', 'Bob')
+    store.setFormFieldValue('source-a', 'name', null)
+    store.setFormFieldValue('source-b', 'name', null)
+
+    expect(store.formValues).toEqual({ 'source-a': { agree: true } })
+    expect(store.formValuesVersion).toBe(previousVersion + 5)
+
+    store.reset()
+    expect(store.formValues).toEqual({})
+  })
 })
@@ -28,6 +28,8 @@ function createProjectState(partial: Partial<ProjectState>): ProjectState {
     outlineDirty: partial.outlineDirty,
     metadata: partial.metadata,
     security: partial.security,
+    watermark: partial.watermark,
+    headerFooter: partial.headerFooter,
     metadataDirty: partial.metadataDirty,
     ignoredPreflightRuleIds: partial.ignoredPreflightRuleIds,
   }
@@ -69,6 +71,25 @@ describe('project-hydration.service', () => {
       ],
       outlineDirty: true,
       ignoredPreflightRuleIds: ['rule-1'],
+      watermark: {
+        enabled: true,
+        kind: 'text',
+        text: 'DRAFT',
+        opacity: 0.3,
+        rotation: 45,
+        scale: 0.6,
+        layout: 'tile',
+        pageRange: '',
+      },
+      headerFooter: {
+        enabled: true,
+        header: { left: '{title}', center: '', right: '{date}' },
+        footer: { left: '', center: 'Page {page} of {total}', right: '' },
+        font: 'times',
+        fontSize: 9,
+        margin: 24,
+        skipFirstPage: true,
+      },
       history: [{ type: 'Test', payload: { id: 'c1' }, timestamp: 123 }],
       historyPointer: 0,
       updatedAt: 999,
@@ -85,6 +106,8 @@ describe('project-hydration.service', () => {
     const setMetadata = vi.fn()
     const setMetadataDirty = vi.fn()
     const setSecurity = vi.fn()
+    const setWatermark = vi.fn()
+    const setHeaderFooter = vi.fn()
     const setProjectTitle = vi.fn()
     const setOutlineDirty = vi.fn()
     const setPages = vi.fn((next: PageEntry[]) => {
@@ -112,6 +135,8 @@ describe('project-hydration.service', () => {
       setMetadata,
       setMetadataDirty,
       setSecurity,
+      setWatermark,
+      setHeaderFooter,
       setOutlineTree,
       get contentPages() {
         return pages.filter((entry): entry is Exclude<PageEntry, { isDivider: true }> => !entry.isDivider)
@@ -137,6 +162,8 @@ describe('project-hydration.service', () => {
     expect(uiState.setIgnoredPreflightRuleIds).toHaveBeenCalledWith(['rule-1'])
     expect(setMetadata).toHaveBeenCalledWith(state.metadata, false)
     expect(setMetadataDirty).toHaveBeenCalledWith(true)
+    expect(setWatermark).toHaveBeenCalledWith(state.watermark)
+    expect(setHeaderFooter).toHaveBeenCalledWith(state.headerFooter)
     expect(setOutlineTree).toHaveBeenCalled()
     expect(setOutlineTree.mock.calls[0]?.[0]?.[0]?.id).toBe('persisted')
     expect(historyStore.clearHistory).toHaveBeenCalledOnce()
@@ -173,6 +200,8 @@ describe('project-hydration.service', () => {
       setMetadata: vi.fn(),
       setMetadataDirty,
       setSecurity: vi.fn(),
+      setWatermark: vi.fn(),
+      setHeaderFooter: vi.fn(),
       setOutlineTree,
       get contentPages() {
         return pages.filter((entry): entry is Exclude<PageEntry, { isDivider: true }> => !entry.isDivider)
@@ -0,0 +1,285 @@
+import { describe, expect, it, vi } from 'vitest'
+import JSZip from 'jszip'
+import { PDFDict, PDFDocument, PDFName, PDFString, StandardFonts, degrees, rgb } from 'pdf-lib'
+import { parseContentStream, readPageContent } from '@/domains/export/domain/export'
+import { useWorkflowRunner } from '@/domains/workflows/application/useWorkflowRunner'
+import {
+  WorkflowActionType,
+  parseWorkflowPageSelector,
+  readWorkflowStepParams,
+  validateWorkflowStepParams,
+} from '@/domains/workflows/domain'
+import type { Workflow, WorkflowStep } from '@/shared/types/workflow'
+
+function step(commandType: string, params: Record<string, unknown> = {}): WorkflowStep {
+  return { id: commandType, label: commandType, commandType, params }
+}
+
+function createWorkflow(steps: WorkflowStep[]): Workflow {
+  return {
+    id: 'workflow',
+    name: 'Batch',
+    icon: 'workflow',
+    description: '',
+    steps,
+    createdAt: 0,
+    updatedAt: 0,
+  }
+}
+
+/** Five 200x300 pages labelled 1-5; page 3 is blank except for a white background */
+async function createInputFile(): Promise<File> {
+  const doc = await PDFDocument.create()
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+  for (let pageNumber = 1; pageNumber <= 5; pageNumber++) {
+    const page = doc.addPage([200, 300])
+    if (pageNumber === 3) {
+      page.drawRectangle({ x: 0, y: 0, width: 200, height: 300, color: rgb(1, 1, 1) })
+    } else {
+      page.drawText(`Page ${pageNumber}`, { x: 20, y: 150, size: 12, font })
+    }
+  }
+  const bytes = await doc.save()
+  return new File([bytes.slice().buffer], 'scan.pdf', { type: 'application/pdf' })
+}
+
+async function readZipPdfs(zipBytes: Uint8Array): Promise<Map<string, PDFDocument>> {
+  const zip = await JSZip.loadAsync(zipBytes)
+  const documents = new Map<string, PDFDocument>()
+  for (const name of Object.keys(zip.files).sort()) {
+    documents.set(name, await PDFDocument.load(await zip.file(name)!.async('uint8array')))
+  }
+  return documents
+}
+
+describe('workflow step params', () => {
+  it('fills defaults and reports unusable params', () => {
+    expect(readWorkflowStepParams(WorkflowActionType.ROTATE_ALL, {})).toEqual({ degrees: 90 })
+    expect(
+      readWorkflowStepParams(WorkflowActionType.RESIZE_PAGES, { paperSize: 'b5', orientation: 1 }),
+    ).toEqual({ range: 'all', paperSize: 'a4', orientation: 'auto' })
+
+    expect(
+      validateWorkflowStepParams(WorkflowActionType.ROTATE_ODD, { degrees: 45 }),
+    ).not.toBeNull()
+    expect(
+      validateWorkflowStepParams(WorkflowActionType.DELETE_PAGE_RANGE, { range: '1-3, 7' }),
+    ).toBeNull()
+    expect(
+      validateWorkflowStepParams(WorkflowActionType.KEEP_PAGE_RANGE, { range: 'odd, 2-last' }),
+    ).toBeNull()
+    expect(
+      validateWorkflowStepParams(WorkflowActionType.KEEP_PAGE_RANGE, { range: 'page 1' }),
+    ).not.toBeNull()
+    expect(
+      validateWorkflowStepParams(WorkflowActionType.REDACT_AREAS, { range: 'all', areas: [] }),
+    ).not.toBeNull()
+    expect(validateWorkflowStepParams(WorkflowActionType.SET_METADATA, {})).not.toBeNull()
+    expect(validateWorkflowStepParams(WorkflowActionType.SPLIT_EVERY, { pages: 0 })).not.toBeNull()
+  })
+
+  it('stops page ranges at the last page however far they reach', () => {
+    expect(parseWorkflowPageSelector('4-99999999999', 5)).toEqual([3, 4])
+    expect(parseWorkflowPageSelector('0-2, 9-last', 5)).toEqual([0, 1])
+  })
+})
+
+describe('useWorkflowRunner', () => {
+  it('applies page steps, splits and compresses every part', async () => {
+    const compressPdf = vi.fn(async (data: Uint8Array) => ({
+      data,
+      originalSize: data.byteLength,
+      compressedSize: data.byteLength,
+      compressionRatio: 0,
+    }))
+    const { runWorkflow } = useWorkflowRunner({ compression: { compressPdf } })
+
+    const result = await runWorkflow(
+      createWorkflow([
+        step(WorkflowActionType.REMOVE_BLANK_PAGES),
+        step(WorkflowActionType.DELETE_PAGE_RANGE, { range: '4' }),
+        step(WorkflowActionType.REVERSE_ORDER),
+        step(WorkflowActionType.ROTATE_ODD, { degrees: -90 }),
+        step(WorkflowActionType.RESIZE_PAGES, { paperSize: 'a4', orientation: 'auto' }),
+        step(WorkflowActionType.SET_METADATA, { title: 'Scans', keywords: 'a, b' }),
+        step(WorkflowActionType.SPLIT_EVERY, { pages: 2 }),
+        step(WorkflowActionType.COMPRESS, { quality: 'screen' }),
+      ]),
+      [await createInputFile()],
+    )
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const documents = await readZipPdfs(result.value.bytes)
+    expect([...documents.keys()]).toEqual(['scan_processed_part1.pdf', 'scan_processed_part2.pdf'])
+
+    // Pages 1, 2 and 4 remain: the blank page 3 goes first, then page 5 as the fourth left.
+    const [first, second] = [...documents.values()]
+    expect(first!.getPageCount()).toBe(2)
+    expect(second!.getPageCount()).toBe(1)
+    expect(first!.getTitle()).toBe('Scans')
+    expect(first!.getKeywords()).toBe('a b')
+
+    // Page 4 comes first after reversing and is turned; the mediabox keeps portrait A4.
+    const firstPage = first!.getPage(0)
+    expect(firstPage.getRotation()).toEqual(degrees(270))
+    expect(firstPage.getWidth()).toBeCloseTo(595.28)
+    expect(firstPage.getHeight()).toBeCloseTo(841.89)
+
+    expect(compressPdf).toHaveBeenCalledTimes(2)
+    expect(compressPdf.mock.calls[0]![1]).toEqual({ quality: 'screen' })
+  })
+
+  it('moves, copies, turns, splits, bookmarks and redacts pages by position', async () => {
+    const doc = await PDFDocument.create()
+    const font = await doc.embedFont(StandardFonts.Helvetica)
+    // Widths 101-104 tell the pages apart after reordering.
+    for (let pageNumber = 1; pageNumber <= 4; pageNumber++) {
+      doc
+        .addPage([100 + pageNumber, 300])
+        .drawText(`Page ${pageNumber}`, { x: 20, y: 150, size: 12, font })
+    }
+    const file = new File([(await doc.save()).slice().buffer], 'deck.pdf', {
+      type: 'application/pdf',
+    })
+    const { runWorkflow } = useWorkflowRunner({ compression: { compressPdf: vi.fn() } })
+
+    const result = await runWorkflow(
+      createWorkflow([
+        step(WorkflowActionType.MOVE_PAGES, { range: 'last', position: 'start' }),
+        step(WorkflowActionType.DUPLICATE_PAGES, { range: '2' }),
+        step(WorkflowActionType.ROTATE_PAGES, { range: 'even', degrees: 90 }),
+        step(WorkflowActionType.SPLIT_AFTER, { range: '3' }),
+        step(WorkflowActionType.GENERATE_OUTLINE),
+        step(WorkflowActionType.REDACT_AREAS, {
+          range: 'first',
+          areas: [{ x: 0, y: 0, width: 200, height: 300 }],
+        }),
+      ]),
+      [file],
+    )
+
+    expect(result.ok).toBe(true)
+    if (!result.ok) return
+    const [first, second] = [...(await readZipPdfs(result.value.bytes)).values()]
+    const describePages = (part: PDFDocument) =>
+      part.getPages().map((page) => [page.getWidth(), page.getRotation().angle])
+    expect(describePages(first!)).toEqual([
+      [104, 0],
+      [101, 90],
+      [101, 0],
+    ])
+    expect(describePages(second!)).toEqual([
+      [102, 90],
+      [103, 0],
+    ])
+
+    const outline = first!.catalog.lookup(PDFName.of('Outlines'), PDFDict)
+    const bookmark = outline.lookup(PDFName.of('First'), PDFDict)
+    expect(bookmark.lookup(PDFName.of('Title'), PDFString).decodeText()).toBe('deck')
+
+    // Redaction keeps the text operators but drops the covered glyphs.
+    const hasText = (part: PDFDocument, index: number) =>
+      parseContentStream(readPageContent(part.getPage(index))).some(
+        ({ operator, operands }) =>
+          (operator === 'Tj' || operator === 'TJ') &&
+          operands.some(
+            (operand) =>
+              operand.type === 'string' ||
+              (operand.type === 'array' && operand.value.some((item) => item.type === 'string')),
+          ),
+      )
+    expect([hasText(first!, 0), hasText(first!, 1), hasText(second!, 0)]).toEqual([
+      false,
+      true,
+      false,
+    ])
+  })
+
+  it('merges inputs into one bookmarked PDF or keeps one named file per input', async () => {
+    const scan = await createInputFile()
+    const memo = new File([await scan.arrayBuffer()], 'memo.pdf', { type: 'application/pdf' })
+    const { runWorkflow } = useWorkflowRunner({ compression: { compressPdf: vi.fn() } })
+    const splitWorkflow = (output: Workflow['output']) => ({
+      ...createWorkflow([step(WorkflowActionType.SPLIT_EVERY, { pages: 2 })]),
+      output,
+    })
+
+    const merged = await runWorkflow(
+      {
+        ...splitWorkflow({ mode: 'merge', filenamePattern: '{original_name}-{page_count}p' }),
+        name: 'v1.2 cleanup',
+      },
+      [scan, memo],
+    )
+    expect(merged.ok).toBe(true)
+    if (!merged.ok) return
+    expect(merged.value).toMatchObject({
+      filename: 'v1.2 cleanup-10p.pdf',
+      mimeType: 'application/pdf',
+    })
+    const mergedDocument = await PDFDocument.load(merged.value.bytes)
+    expect(mergedDocument.getPageCount()).toBe(10)
+    const outline = mergedDocument.catalog.lookup(PDFName.of('Outlines'), PDFDict)
+    const firstBookmark = outline.lookup(PDFName.of('First'), PDFDict)
+    const lastBookmark = outline.lookup(PDFName.of('Last'), PDFDict)
+    expect(firstBookmark.lookup(PDFName.of('Title'), PDFString).decodeText()).toBe('scan')
+    expect(lastBookmark.lookup(PDFName.of('Title'), PDFString).decodeText()).toBe('memo')
+
+    const separate = await runWorkflow(
+      splitWorkflow({ mode: 'separate', filenamePattern: '{index}_{original_name}' }),
+      [scan, memo],
+    )
+    expect(separate.ok).toBe(true)
+    if (!separate.ok) return
+    const separateDocuments = await readZipPdfs(separate.value.bytes)
+    expect([...separateDocuments.keys()]).toEqual(['1_scan.pdf', '2_memo.pdf'])
+    expect([...separateDocuments.values()].map((part) => part.getPageCount())).toEqual([5, 5])
+
+    // Split parts share the index of their input and are told apart by suffix.
+    const indexed = await runWorkflow(
+      splitWorkflow({ mode: 'split', filenamePattern: '{index}_{original_name}' }),
+      [scan, memo],
+    )
+    expect(indexed.ok).toBe(true)
+    if (!indexed.ok) return
+    expect([...(await readZipPdfs(indexed.value.bytes)).keys()]).toEqual([
+      '1_scan_part1.pdf',
+      '1_scan_part2.pdf',
+      '1_scan_part3.pdf',
+      '2_memo_part1.pdf',
+      '2_memo_part2.pdf',
+      '2_memo_part3.pdf',
+    ])
+
+    // Repeated names get a counter.
+    const split = await runWorkflow(splitWorkflow({ mode: 'split', filenamePattern: 'out' }), [
+      scan,
+      scan,
+    ])
+    expect(split.ok).toBe(true)
+    if (!split.ok) return
+    expect([...(await readZipPdfs(split.value.bytes)).keys()]).toEqual([
+      'out_part1-2.pdf',
+      'out_part1.pdf',
+      'out_part2-2.pdf',
+      'out_part2.pdf',
+      'out_part3-2.pdf',
+      'out_part3.pdf',
+    ])
+  })
+
+  it('rejects workflows with invalid step params before running', async () => {
+    const compressPdf = vi.fn()
+    const { runWorkflow } = useWorkflowRunner({ compression: { compressPdf } })
+
+    const result = await runWorkflow(
+      createWorkflow([step(WorkflowActionType.KEEP_PAGE_RANGE, { range: 'page one' })]),
+      [await createInputFile()],
+    )
+
+    expect(result.ok).toBe(false)
+    if (result.ok) return
+    expect(result.error.code).toBe('WORKFLOW_INVALID')
+  })
+})
@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vitest'
 import { createWorkflowService, type WorkflowRepository } from '@/domains/workflows/application/workflow.service'
+import { parseWorkflowFile, WorkflowActionType } from '@/domains/workflows/domain'
 import type { Workflow, WorkflowStep } from '@/shared/types/workflow'
 
 function createWorkflow(id: string, updatedAt: number, steps: WorkflowStep[] = []): Workflow {
@@ -99,4 +100,114 @@ describe('workflow.service', () => {
     await service.deleteWorkflow('w1')
     await expect(service.getWorkflow('w1')).resolves.toBeUndefined()
   })
+
+  it('exports workflows to a versioned file that imports back under free names', async () => {
+    const rotate: WorkflowStep = {
+      id: 'step-1',
+      label: 'Turn',
+      commandType: WorkflowActionType.ROTATE_PAGES,
+      params: { range: 'even', degrees: 180 },
+    }
+    const repository = createRepository([
+      createWorkflow('w1', 100, [rotate]),
+      createWorkflow('w2', 200, [rotate]),
+    ])
+    const service = createWorkflowService(repository)
+
+    const file = await service.exportWorkflows(['w1'])
+    expect(file).toMatchObject({ format: 'flux-pdf-workflows', version: 1 })
+    expect(file.workflows).toEqual([
+      {
+        name: 'Workflow w1',
+        icon: 'workflow',
+        description: '',
+        steps: [rotate],
+        output: { mode: 'split', filenamePattern: '{original_name}_processed' },
+      },
+    ])
+
+    const parsed = parseWorkflowFile(JSON.stringify(file))
+    if (!parsed.ok) throw new Error(parsed.error.message)
+    const first = await service.importWorkflows(parsed.value)
+    const second = await service.importWorkflows(parsed.value, 'rename')
+
+    expect([...first.created, ...second.created].map((workflow) => workflow.name)).toEqual([
+      'Workflow w1 (2)',
+      'Workflow w1 (3)',
+    ])
+    expect(first.created[0]?.steps).toEqual([rotate])
+    await expect(service.listWorkflows()).resolves.toHaveLength(4)
+  })
+
+  it('overwrites the steps of workflows with the same name', async () => {
+    const repository = createRepository([createWorkflow('w1', 100)])
+    const service = createWorkflowService(repository)
+    const steps: WorkflowStep[] = [
+      { id: 'step-1', label: 'Reverse', commandType: WorkflowActionType.REVERSE_ORDER, params: {} },
+    ]
+
+    await expect(
+      service.findImportConflicts([
+        { name: ' workflow W1 ', icon: 'workflow', description: 'Shared', steps },
+        { name: 'New one', icon: 'workflow', description: '', steps },
+      ]),
+    ).resolves.toEqual(['workflow W1'])
+
+    const result = await service.importWorkflows(
+      [{ name: 'workflow w1', icon: 'workflow', description: 'Shared', steps }],
+      'overwrite',
+    )
+
+    expect(result.created).toEqual([])
+    expect(result.overwritten.map((workflow) => workflow.id)).toEqual(['w1'])
+    const updated = await service.getWorkflow('w1')
+    expect(updated?.name).toBe('Workflow w1')
+    expect(updated?.description).toBe('Shared')
+    expect(updated?.steps).toEqual(steps)
+  })
+
+  it('rejects workflow files with unknown steps, bad params or a newer version', () => {
+    const file = (workflows: unknown[], version = 1) =>
+      JSON.stringify({ format: 'flux-pdf-workflows', version, workflows })
+    const withStep = (step: Record<string, unknown>) => file([{ name: 'Shared', steps: [step] }])
+
+    expect(parseWorkflowFile('{').ok).toBe(false)
+    expect(parseWorkflowFile(JSON.stringify({ workflows: [] })).ok).toBe(false)
+    expect(parseWorkflowFile(file([{ name: 'Shared', steps: [] }], 2))).toMatchObject({
+      ok: false,
+      error: { code: 'WORKFLOW_FILE_INVALID' },
+    })
+    expect(parseWorkflowFile(withStep({ commandType: 'workflow.explode' }))).toMatchObject({
+      ok: false,
+      error: { message: '"Shared" step 1 has an unknown type "workflow.explode".' },
+    })
+    expect(
+      parseWorkflowFile(
+        withStep({ commandType: WorkflowActionType.DELETE_PAGE_RANGE, params: { range: 'x' } }),
+      ).ok,
+    ).toBe(false)
+
+    const parsed = parseWorkflowFile(
+      withStep({ commandType: WorkflowActionType.RESIZE_PAGES, params: { paperSize: 'a5' } }),
+    )
+    expect(parsed).toEqual({
+      ok: true,
+      value: [
+        {
+          name: 'Shared',
+          icon: '',
+          description: '',
+          steps: [
+            {
+              id: 'step-1',
+              label: 'Resize to paper size',
+              commandType: WorkflowActionType.RESIZE_PAGES,
+              params: { range: 'all', paperSize: 'a5', orientation: 'auto' },
+            },
+          ],
+          output: { mode: 'split', filenamePattern: '{original_name}_processed' },
+        },
+      ],
+    })
+  })
 })
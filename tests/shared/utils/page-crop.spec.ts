@@ -0,0 +1,59 @@
+import { describe, expect, it } from 'vitest'
+import {
+  clampPageCrop,
+  getDisplayedCropRect,
+  getSourceCropRect,
+  isFullPageCrop,
+  splitPageCrop,
+} from '@/shared/utils/page-crop'
+
+const PAGE = { width: 200, height: 300 }
+const CROP = { x: 20, y: 30, width: 100, height: 50 }
+
+describe('page crop geometry', () => {
+  it('turns crops with the displayed page', () => {
+    expect(getDisplayedCropRect(CROP, PAGE, 90)).toEqual({ x: 220, y: 20, width: 50, height: 100 })
+    expect(getDisplayedCropRect(CROP, PAGE, 180)).toEqual({ x: 80, y: 220, width: 100, height: 50 })
+    expect(getDisplayedCropRect(CROP, PAGE, 270)).toEqual({ x: 30, y: 80, width: 50, height: 100 })
+  })
+
+  it('maps displayed boxes back onto the unrotated page', () => {
+    for (const rotation of [0, 90, 180, 270]) {
+      const displayed = getDisplayedCropRect(CROP, PAGE, rotation)
+      expect(getSourceCropRect(displayed, PAGE, rotation)).toEqual(CROP)
+    }
+  })
+
+  it('keeps crops on the page with a minimum size', () => {
+    expect(clampPageCrop({ x: -10, y: 290, width: 5, height: 40 }, PAGE)).toEqual({
+      x: 0,
+      y: 260,
+      width: 18,
+      height: 40,
+    })
+  })
+
+  it('treats a crop covering the page as no crop', () => {
+    expect(isFullPageCrop({ x: 0.2, y: 0, width: 199.9, height: 300 }, PAGE)).toBe(true)
+    expect(isFullPageCrop(CROP, PAGE)).toBe(false)
+  })
+
+  it('splits the visible page into halves in reading order', () => {
+    expect(splitPageCrop(PAGE, 0, null, 'vertical', 0.5)).toEqual([
+      { x: 0, y: 0, width: 100, height: 300 },
+      { x: 100, y: 0, width: 100, height: 300 },
+    ])
+    expect(splitPageCrop(PAGE, 0, CROP, 'horizontal', 0.4)).toEqual([
+      { x: 20, y: 30, width: 100, height: 20 },
+      { x: 20, y: 50, width: 100, height: 30 },
+    ])
+  })
+
+  it('splits rotated pages along the displayed axis', () => {
+    // Displayed 300x200: the left half is the bottom of the unrotated page.
+    expect(splitPageCrop(PAGE, 90, null, 'vertical', 0.5)).toEqual([
+      { x: 0, y: 150, width: 200, height: 150 },
+      { x: 0, y: 0, width: 200, height: 150 },
+    ])
+  })
+})
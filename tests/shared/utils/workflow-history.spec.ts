@@ -0,0 +1,167 @@
+import { describe, expect, it } from 'vitest'
+import { createHistoryCommandExecutor } from '@/domains/history/application'
+import {
+  AddPagesCommand,
+  AddRedactionCommand,
+  CropPagesCommand,
+  DeletePagesCommand,
+  DuplicatePagesCommand,
+  ReorderPagesCommand,
+  ResizePagesCommand,
+  RotatePagesCommand,
+  SplitGroupCommand,
+  UpdateOutlineCommand,
+  type Command,
+} from '@/domains/history/domain/commands'
+import { createDocumentState } from '@/domains/project-session/session/document-state'
+import { WorkflowActionType } from '@/domains/workflows/domain'
+import type { PageEntry, PageReference, SourceFile } from '@/shared/types'
+import { buildWorkflowCandidateSteps } from '@/shared/utils/workflow-history'
+
+function createSource(pageCount: number): SourceFile {
+  return {
+    id: 'source-1',
+    filename: 'scan.pdf',
+    pageCount,
+    fileSize: 1024,
+    addedAt: Date.now(),
+    color: 'zinc',
+    pageMetaData: Array.from({ length: pageCount }, () => ({ width: 612, height: 792 })),
+  }
+}
+
+function createPage(index: number): PageReference {
+  return {
+    id: `page-${index + 1}`,
+    sourceFileId: 'source-1',
+    sourcePageIndex: index,
+    rotation: 0,
+    width: 612,
+    height: 792,
+  }
+}
+
+/** Runs commands on a real project, like the editor does, and returns them in history order */
+function createRecorder(pageCount: number) {
+  const store = createDocumentState()
+  const executor = createHistoryCommandExecutor({ documentStore: store })
+  const commands: Command[] = []
+  const run = (command: Command) => {
+    executor.execute(command)
+    commands.push(command)
+  }
+  run(
+    new AddPagesCommand(
+      createSource(pageCount),
+      Array.from({ length: pageCount }, (_, index) => createPage(index)),
+    ),
+  )
+  const reorder = (ids: string[]) => {
+    const byId = new Map(store.pages.map((entry) => [entry.id, entry]))
+    run(new ReorderPagesCommand([...store.pages], ids.map((id) => byId.get(id)!) as PageEntry[]))
+  }
+  return { store, commands, run, reorder }
+}
+
+function getSteps(commands: Command[]) {
+  const { candidates, unsupportedCount } = buildWorkflowCandidateSteps(commands)
+  return {
+    steps: candidates.map(({ commandType, params }) => ({ commandType, params })),
+    unsupportedCount,
+  }
+}
+
+describe('buildWorkflowCandidateSteps', () => {
+  it('restates each page edit by position instead of page ID', () => {
+    const { store, commands, run, reorder } = createRecorder(6)
+
+    run(new RotatePagesCommand(['page-2', 'page-4', 'page-6'], 90))
+    run(new DeletePagesCommand(['page-6']))
+    reorder(['page-5', 'page-1', 'page-2', 'page-3', 'page-4'])
+    run(new DuplicatePagesCommand(['page-5']))
+    // Pages are now 5, copy of 5, 1, 2, 3, 4; the divider goes after page 1.
+    run(new SplitGroupCommand(3))
+    run(
+      new ResizePagesCommand([
+        { pageId: 'page-2', targetDimensions: { width: 595.28, height: 841.89 } },
+        { pageId: 'page-3', targetDimensions: { width: 841.89, height: 595.28 } },
+      ]),
+    )
+    run(
+      new AddRedactionCommand('page-4', [
+        { id: 'mark', x: 10, y: 20, width: 100, height: 30, color: 'white' },
+      ]),
+    )
+    run(new UpdateOutlineCommand([], [], false, false, 'Reset outline'))
+    run(new CropPagesCommand([{ pageId: 'page-1', crop: { x: 0, y: 0, width: 100, height: 100 } }]))
+
+    expect(store.contentPages).toHaveLength(6)
+    const { steps, unsupportedCount } = getSteps(commands)
+    expect(steps).toEqual([
+      { commandType: WorkflowActionType.ROTATE_EVEN, params: { degrees: 90 } },
+      { commandType: WorkflowActionType.DELETE_LAST_PAGE, params: {} },
+      {
+        commandType: WorkflowActionType.MOVE_PAGES,
+        params: { range: 'last', position: 'start', after: 1 },
+      },
+      { commandType: WorkflowActionType.DUPLICATE_PAGES, params: { range: '1' } },
+      { commandType: WorkflowActionType.SPLIT_AFTER, params: { range: '3' } },
+      {
+        commandType: WorkflowActionType.RESIZE_PAGES,
+        params: { range: '4', paperSize: 'a4', orientation: 'auto' },
+      },
+      {
+        commandType: WorkflowActionType.RESIZE_PAGES,
+        params: { range: '5', paperSize: 'a4', orientation: 'landscape' },
+      },
+      {
+        commandType: WorkflowActionType.REDACT_AREAS,
+        params: {
+          range: 'last',
+          areas: [{ x: 10, y: 20, width: 100, height: 30, color: 'white' }],
+        },
+      },
+      { commandType: WorkflowActionType.GENERATE_OUTLINE, params: {} },
+    ])
+    expect(unsupportedCount).toBe(1)
+  })
+
+  it('records reorders as reversals or moves relative to the pages that kept their order', () => {
+    const { commands, reorder } = createRecorder(6)
+
+    reorder(['page-6', 'page-5', 'page-4', 'page-3', 'page-2', 'page-1'])
+    reorder(['page-5', 'page-4', 'page-6', 'page-3', 'page-2', 'page-1'])
+    reorder(['page-3', 'page-2', 'page-5', 'page-4', 'page-6', 'page-1'])
+
+    expect(getSteps(commands).steps).toEqual([
+      { commandType: WorkflowActionType.REVERSE_ORDER, params: {} },
+      {
+        commandType: WorkflowActionType.MOVE_PAGES,
+        params: { range: '1', position: 'after', after: 2 },
+      },
+      {
+        commandType: WorkflowActionType.MOVE_PAGES,
+        params: { range: '4-5', position: 'start', after: 1 },
+      },
+    ])
+  })
+
+  it('gives every step a unique ID and skips the commands that load files', () => {
+    const { commands, run } = createRecorder(4)
+
+    run(
+      new ResizePagesCommand([
+        { pageId: 'page-1', targetDimensions: { width: 612, height: 792 } },
+        { pageId: 'page-2', targetDimensions: { width: 419.53, height: 595.28 } },
+      ]),
+    )
+    run(
+      new ResizePagesCommand([{ pageId: 'page-3', targetDimensions: { width: 500, height: 500 } }]),
+    )
+
+    const { candidates, unsupportedCount } = buildWorkflowCandidateSteps(commands)
+    expect(candidates.map((candidate) => candidate.params.paperSize)).toEqual(['letter', 'a5'])
+    expect(new Set(candidates.map((candidate) => candidate.commandId)).size).toBe(2)
+    expect(unsupportedCount).toBe(1)
+  })
+})
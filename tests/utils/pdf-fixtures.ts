@@ -0,0 +1,55 @@
+import { PDFDocument, StandardFonts, type PDFFont, type PDFPage } from 'pdf-lib'
+import { generateRawPdf, type GenerateRawPdfOptions } from '@/domains/export/domain/export'
+import type { PageReference } from '@/shared/types'
+
+export interface SourcePdfOptions {
+  /** Blank pages to add when there are no `labels` */
+  pageCount?: number
+  /** Page size in points */
+  size?: [number, number]
+  /** One page per label, drawn in 18pt Helvetica near the top */
+  labels?: readonly string[]
+  title?: string
+  useObjectStreams?: boolean
+  /** Extra drawing on every page */
+  draw?: (page: PDFPage, context: { doc: PDFDocument; font: PDFFont; index: number }) => unknown
+}
+
+/** Small generated PDF for export and import tests; one 200x300 page by default */
+export async function createSourcePdf(options: SourcePdfOptions = {}): Promise<Uint8Array> {
+  const { pageCount = 1, size = [200, 300], labels, title, useObjectStreams = false } = options
+  const doc = await PDFDocument.create()
+  if (title) doc.setTitle(title)
+  const font = await doc.embedFont(StandardFonts.Helvetica)
+
+  for (let index = 0; index < (labels?.length ?? pageCount); index++) {
+    const page = doc.addPage(size)
+    const label = labels?.[index]
+    if (label) page.drawText(label, { x: 40, y: size[1] - 100, size: 18, font })
+    await options.draw?.(page, { doc, font, index })
+  }
+  return doc.save({ useObjectStreams })
+}
+
+/** Exactly the bytes of `bytes`, as `getPdfBlob` returns them */
+export function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength) as ArrayBuffer
+}
+
+/**
+ * `generateRawPdf` reading pages from `sources`: one PDF for every page, or
+ * one per source file ID.
+ */
+export function exportPages(
+  pages: PageReference[],
+  sources: Uint8Array | Readonly<Record<string, Uint8Array>>,
+  options: Omit<GenerateRawPdfOptions, 'getPdfBlob'> = {},
+): Promise<Uint8Array> {
+  return generateRawPdf(pages, {
+    ...options,
+    getPdfBlob: async (sourceFileId) => {
+      const bytes = sources instanceof Uint8Array ? sources : sources[sourceFileId]
+      return bytes && toArrayBuffer(bytes)
+    },
+  })
+}